@@ -0,0 +1,17 @@
+-- Revert 002_senior_focus: drops freshness rules, sensitive topics and query metrics,
+-- and the document classification columns added to documents
+
+DROP TRIGGER IF EXISTS update_data_freshness_rules_updated_at ON data_freshness_rules;
+DROP FUNCTION IF EXISTS update_updated_at_column();
+
+DROP TABLE IF EXISTS query_metrics;
+DROP TABLE IF EXISTS sensitive_topics;
+DROP TABLE IF EXISTS data_freshness_rules;
+
+ALTER TABLE documents DROP COLUMN IF EXISTS document_type;
+ALTER TABLE documents DROP COLUMN IF EXISTS target_programs;
+ALTER TABLE documents DROP COLUMN IF EXISTS effective_date;
+ALTER TABLE documents DROP COLUMN IF EXISTS expiration_date;
+ALTER TABLE documents DROP COLUMN IF EXISTS update_frequency;
+ALTER TABLE documents DROP COLUMN IF EXISTS source_url;
+ALTER TABLE documents DROP COLUMN IF EXISTS last_verified;
@@ -0,0 +1,15 @@
+-- Revert 003_source_monitoring: drops regulatory chunk metadata and the source
+-- classification columns. source_monitors and source_change_log belong to the
+-- initial schema and are kept, along with the rows this migration seeded.
+
+DROP TRIGGER IF EXISTS update_source_monitors_updated_at ON source_monitors;
+
+DROP TABLE IF EXISTS regulatory_chunks;
+
+ALTER TABLE documents DROP COLUMN IF EXISTS source_authority;
+ALTER TABLE documents DROP COLUMN IF EXISTS legal_weight;
+ALTER TABLE documents DROP COLUMN IF EXISTS source_format;
+ALTER TABLE documents DROP COLUMN IF EXISTS requires_html_scraping;
+ALTER TABLE documents DROP COLUMN IF EXISTS requires_regulatory_chunking;
+ALTER TABLE documents DROP COLUMN IF EXISTS is_change_feed;
+ALTER TABLE documents DROP COLUMN IF EXISTS monitoring_frequency;
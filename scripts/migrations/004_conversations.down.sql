@@ -0,0 +1,4 @@
+-- Revert 004_conversations
+
+DROP TABLE IF EXISTS conversation_turns;
+DROP TABLE IF EXISTS conversations;
@@ -0,0 +1,35 @@
+-- Migration: Multi-turn conversations
+-- Stores prior turns so follow-up questions can be rewritten into standalone queries
+
+-- Conversations table - one row per chat session
+CREATE TABLE IF NOT EXISTS conversations (
+    id TEXT PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Conversation turns - one row per question/answer pair
+CREATE TABLE IF NOT EXISTS conversation_turns (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    turn_index INTEGER NOT NULL,
+    query_text TEXT NOT NULL,
+    standalone_query TEXT,          -- Follow-up rewritten into a standalone question
+    answer_text TEXT NOT NULL,
+    query_id TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(conversation_id, turn_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_turns_conversation ON conversation_turns(conversation_id, turn_index);
+
+-- Apply updated_at trigger to conversations
+DROP TRIGGER IF EXISTS update_conversations_updated_at ON conversations;
+CREATE TRIGGER update_conversations_updated_at
+    BEFORE UPDATE ON conversations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE conversations IS 'Chat sessions whose prior turns are used to rewrite follow-up questions';
+COMMENT ON TABLE conversation_turns IS 'Question/answer history for each conversation';
@@ -0,0 +1,37 @@
+-- Revert 005_search_filters: restores the unfiltered search_bm25 from init-db.sql
+
+DROP INDEX IF EXISTS idx_documents_document_type;
+DROP INDEX IF EXISTS idx_documents_legal_weight;
+DROP INDEX IF EXISTS idx_documents_target_programs;
+
+DROP FUNCTION IF EXISTS search_bm25(TEXT, INTEGER, TEXT[], TEXT, TEXT, TEXT[], DATE);
+
+CREATE OR REPLACE FUNCTION search_bm25(
+    search_query TEXT,
+    limit_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    document_id UUID,
+    content TEXT,
+    page_number INTEGER,
+    chunk_index INTEGER,
+    metadata JSONB,
+    score REAL
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        c.id as chunk_id,
+        c.document_id,
+        c.content,
+        c.page_number,
+        c.chunk_index,
+        c.metadata,
+        ts_rank_cd(c.content_tsv, websearch_to_tsquery('english', search_query), 32)::REAL as score
+    FROM chunks c
+    WHERE c.content_tsv @@ websearch_to_tsquery('english', search_query)
+    ORDER BY score DESC
+    LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql;
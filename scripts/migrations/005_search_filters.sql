@@ -0,0 +1,53 @@
+-- Migration: Metadata-filtered BM25 search
+-- Lets retrieval be restricted by document type, authority, legal weight, program and effective date
+
+-- Replace the unfiltered function; the new one keeps the same first two arguments
+DROP FUNCTION IF EXISTS search_bm25(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_bm25(
+    search_query TEXT,
+    limit_count INTEGER DEFAULT 20,
+    filter_document_types TEXT[] DEFAULT NULL,
+    filter_source_authority TEXT DEFAULT NULL,
+    filter_legal_weight TEXT DEFAULT NULL,
+    filter_target_programs TEXT[] DEFAULT NULL,
+    filter_effective_after DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    document_id UUID,
+    content TEXT,
+    page_number INTEGER,
+    chunk_index INTEGER,
+    metadata JSONB,
+    score REAL
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        c.id as chunk_id,
+        c.document_id,
+        c.content,
+        c.page_number,
+        c.chunk_index,
+        c.metadata,
+        ts_rank_cd(c.content_tsv, websearch_to_tsquery('english', search_query), 32)::REAL as score
+    FROM chunks c
+    JOIN documents d ON d.id = c.document_id
+    WHERE c.content_tsv @@ websearch_to_tsquery('english', search_query)
+      AND (filter_document_types IS NULL OR d.document_type = ANY(filter_document_types))
+      AND (filter_source_authority IS NULL OR d.source_authority = filter_source_authority)
+      AND (filter_legal_weight IS NULL OR d.legal_weight = filter_legal_weight)
+      AND (filter_target_programs IS NULL OR d.target_programs && filter_target_programs)
+      AND (filter_effective_after IS NULL OR d.effective_date >= filter_effective_after)
+    ORDER BY score DESC
+    LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Indexes for the filter columns
+CREATE INDEX IF NOT EXISTS idx_documents_document_type ON documents(document_type);
+CREATE INDEX IF NOT EXISTS idx_documents_legal_weight ON documents(legal_weight);
+CREATE INDEX IF NOT EXISTS idx_documents_target_programs ON documents USING GIN(target_programs);
+
+COMMENT ON FUNCTION search_bm25 IS 'BM25-style full-text search over chunks with optional document metadata filters';
@@ -0,0 +1,3 @@
+-- Revert 006_eligibility_limits; the screener falls back to its bundled limits
+
+DROP TABLE IF EXISTS program_limits;
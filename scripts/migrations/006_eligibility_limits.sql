@@ -0,0 +1,50 @@
+-- Migration: Versioned program limits for the eligibility screener
+-- One row per program, household size and effective year, grouped by freshness data type
+
+CREATE TABLE IF NOT EXISTS program_limits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    program TEXT NOT NULL,           -- QMB, SLMB, QI, EXTRA_HELP, PACE, PACENET or FPL
+    data_type TEXT NOT NULL CHECK (data_type IN ('msp_income_limits', 'federal_poverty_level', 'pace_pacenet_limits')),
+    household_size INTEGER NOT NULL CHECK (household_size > 0),
+    effective_year INTEGER NOT NULL,
+    effective_date DATE NOT NULL,
+    income_limit NUMERIC(10, 2) NOT NULL,
+    income_period TEXT NOT NULL CHECK (income_period IN ('monthly', 'annual')),
+    asset_limit NUMERIC(10, 2),      -- NULL when the program has no asset test
+    min_age INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(program, household_size, effective_year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_program_limits_program ON program_limits(program, effective_date DESC);
+
+-- 2025 limits
+INSERT INTO program_limits (program, data_type, household_size, effective_year, effective_date, income_limit, income_period, asset_limit, min_age) VALUES
+    -- Federal poverty guidelines (48 contiguous states)
+    ('FPL', 'federal_poverty_level', 1, 2025, '2025-01-15', 15650, 'annual', NULL, NULL),
+    ('FPL', 'federal_poverty_level', 2, 2025, '2025-01-15', 21150, 'annual', NULL, NULL),
+    ('FPL', 'federal_poverty_level', 3, 2025, '2025-01-15', 26650, 'annual', NULL, NULL),
+    ('FPL', 'federal_poverty_level', 4, 2025, '2025-01-15', 32150, 'annual', NULL, NULL),
+    ('FPL', 'federal_poverty_level', 5, 2025, '2025-01-15', 37650, 'annual', NULL, NULL),
+    ('FPL', 'federal_poverty_level', 6, 2025, '2025-01-15', 43150, 'annual', NULL, NULL),
+    ('FPL', 'federal_poverty_level', 7, 2025, '2025-01-15', 48650, 'annual', NULL, NULL),
+    ('FPL', 'federal_poverty_level', 8, 2025, '2025-01-15', 54150, 'annual', NULL, NULL),
+    -- Medicare Savings Programs (monthly, including the $20 disregard)
+    ('QMB', 'msp_income_limits', 1, 2025, '2025-04-01', 1325, 'monthly', 9660, NULL),
+    ('QMB', 'msp_income_limits', 2, 2025, '2025-04-01', 1783, 'monthly', 14470, NULL),
+    ('SLMB', 'msp_income_limits', 1, 2025, '2025-04-01', 1585, 'monthly', 9660, NULL),
+    ('SLMB', 'msp_income_limits', 2, 2025, '2025-04-01', 2135, 'monthly', 14470, NULL),
+    ('QI', 'msp_income_limits', 1, 2025, '2025-04-01', 1781, 'monthly', 9660, NULL),
+    ('QI', 'msp_income_limits', 2, 2025, '2025-04-01', 2400, 'monthly', 14470, NULL),
+    -- Extra Help (150% FPL); larger households are scaled from the FPL rows
+    ('EXTRA_HELP', 'federal_poverty_level', 1, 2025, '2025-01-15', 1956, 'monthly', 17600, NULL),
+    ('EXTRA_HELP', 'federal_poverty_level', 2, 2025, '2025-01-15', 2643, 'monthly', 35130, NULL),
+    -- PACE / PACENET (annual income, no asset test)
+    ('PACE', 'pace_pacenet_limits', 1, 2025, '2025-01-01', 14500, 'annual', NULL, 65),
+    ('PACE', 'pace_pacenet_limits', 2, 2025, '2025-01-01', 17700, 'annual', NULL, 65),
+    ('PACENET', 'pace_pacenet_limits', 1, 2025, '2025-01-01', 33500, 'annual', NULL, 65),
+    ('PACENET', 'pace_pacenet_limits', 2, 2025, '2025-01-01', 41500, 'annual', NULL, 65)
+ON CONFLICT (program, household_size, effective_year) DO NOTHING;
+
+COMMENT ON TABLE program_limits IS 'Versioned income and asset limits used by the eligibility screener';
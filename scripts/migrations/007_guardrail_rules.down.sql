@@ -0,0 +1,7 @@
+-- Revert 007_guardrail_rules: drops the weight and edit timestamp. Rule text is
+-- left as it is; without these columns the guardrails engine uses its built-in rules.
+
+DROP TRIGGER IF EXISTS update_sensitive_topics_updated_at ON sensitive_topics;
+
+ALTER TABLE sensitive_topics DROP COLUMN IF EXISTS weight;
+ALTER TABLE sensitive_topics DROP COLUMN IF EXISTS updated_at;
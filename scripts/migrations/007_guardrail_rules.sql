@@ -0,0 +1,54 @@
+-- Migration: Editable guardrail rules
+-- The guardrails engine reads its sensitive topic rules from sensitive_topics and
+-- reloads them while running. Adds the match weight and edit timestamp, and
+-- replaces the 002 seed rows with the engine's built-in rules (adding
+-- look_back_period and correcting the PA Bar Association number). Until this
+-- migration there was no way to edit the table, so the existing rows are seed data.
+
+ALTER TABLE sensitive_topics ADD COLUMN IF NOT EXISTS weight REAL NOT NULL DEFAULT 1.0 CHECK (weight > 0);
+ALTER TABLE sensitive_topics ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+DROP TRIGGER IF EXISTS update_sensitive_topics_updated_at ON sensitive_topics;
+CREATE TRIGGER update_sensitive_topics_updated_at
+    BEFORE UPDATE ON sensitive_topics
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO sensitive_topics (category, keywords, weight, disclaimer_template, referral_suggestion) VALUES
+    ('estate_planning',
+     ARRAY['estate plan', 'will', 'trust', 'inheritance', 'heir', 'beneficiary', 'probate', 'estate tax', 'living trust', 'irrevocable trust', 'take my estate', 'when i die', 'after death', 'after i die', 'my estate when'],
+     1.0,
+     'This is general information only and should not be considered legal advice. Estate planning decisions can significantly affect your Medicaid eligibility. Please consult with an elder law attorney before making any decisions.',
+     'PA Elder Law Attorney Referral through the Pennsylvania Bar Association: 1-800-932-0311'),
+    ('spend_down',
+     ARRAY['spend down', 'reduce assets', 'lower assets', 'get rid of money', 'hide assets', 'protect assets', 'qualify faster', 'become eligible'],
+     1.2,
+     'Medicaid has strict rules about asset transfers and spend-down strategies. Improper transfers can result in penalty periods that delay your eligibility. Consult with a Medicaid planning professional before taking any action.',
+     E'Pennsylvania Health Law Project (PHLP) - Free Medicaid guidance: 1-800-274-3258\nWebsite: www.phlp.org'),
+    ('asset_transfer',
+     ARRAY['transfer home', 'transfer house', 'transfer my house', 'transfer my home', 'give away', 'gift money', 'deed to child', 'put in child''s name', 'transfer property', 'sign over', 'quitclaim', 'avoid medicaid', 'transfer to my children', 'transfer to children', 'give to my children'],
+     1.3,
+     'Asset transfers within 5 years of applying for Medicaid ("look-back period") can result in penalties that delay your coverage. This includes transfers to family members, trusts, or others. Please consult an elder law attorney.',
+     E'Elder Law Attorney - Find one through the National Academy of Elder Law Attorneys (NAELA)\nPA Referral: 1-800-932-0311'),
+    ('spousal_complex',
+     ARRAY['divorce for medicaid', 'spousal refusal', 'separate for medicaid', 'divorce to qualify', 'legal separation', 'refuse to pay'],
+     1.1,
+     'Spousal situations involving Medicaid can be legally and emotionally complex. Pennsylvania has specific rules about spousal protections and responsibilities. Free counseling is available through PHLP (Pennsylvania Health Law Project).',
+     E'PHLP Helpline (free, confidential help for complex Medicaid situations): 1-800-274-3258\nChester County CAO: 610-466-1000'),
+    ('appeals',
+     ARRAY['appeal', 'denied', 'fair hearing', 'dispute', 'fight decision', 'overturn', 'wrong decision', 'disagree with'],
+     0.8,
+     'You have the right to appeal Medicaid decisions. There are strict deadlines for filing appeals, typically 30 days from the decision notice. Free legal help is available for Medicaid appeals.',
+     E'PHLP Appeals Assistance (free representation for Medicaid appeals): 1-800-274-3258\nPennsylvania Legal Aid Network: 1-800-322-7572'),
+    ('look_back_period',
+     ARRAY['look-back', 'look back', 'lookback', '60 months', '60-month', '5 year', '5-year', 'five year', 'penalty period', 'transfer penalty', 'divestment', 'divestiture', 'uncompensated transfer', 'gifting penalty', 'medicaid penalty'],
+     1.2,
+     'Pennsylvania applies a 60-month (5-year) look-back period for asset transfers. Any transfers made during this period may result in a penalty period that delays Medicaid coverage. Penalties are calculated based on the value transferred divided by the average monthly cost of nursing home care. Consult an elder law attorney before making any transfers.',
+     E'Elder Law Attorney - Specializing in Medicaid planning and asset protection\nPA Bar Association Referral: 1-800-932-0311\nPHLP (free guidance on Medicaid rules): 1-800-274-3258')
+ON CONFLICT (category) DO UPDATE SET
+    keywords = EXCLUDED.keywords,
+    weight = EXCLUDED.weight,
+    disclaimer_template = EXCLUDED.disclaimer_template,
+    referral_suggestion = EXCLUDED.referral_suggestion;
+
+COMMENT ON COLUMN sensitive_topics.weight IS 'Multiplier on the keyword match count when several categories match a query';
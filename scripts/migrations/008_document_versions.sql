@@ -0,0 +1,78 @@
+-- Migration: Document versioning
+-- A document re-published under the same source URL (or filename) is ingested as
+-- a new version of the same lineage. The previous version stays in the table with
+-- its chunks for history, marked superseded, and is left out of BM25 search.
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS lineage_id UUID;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS superseded_by UUID REFERENCES documents(id) ON DELETE SET NULL;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMP WITH TIME ZONE;
+
+-- Every existing document starts its own lineage
+UPDATE documents SET lineage_id = id WHERE lineage_id IS NULL;
+
+-- The first version of a document is the root of its lineage
+CREATE OR REPLACE FUNCTION set_document_lineage()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.lineage_id = COALESCE(NEW.lineage_id, NEW.id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_documents_lineage ON documents;
+CREATE TRIGGER set_documents_lineage
+    BEFORE INSERT ON documents
+    FOR EACH ROW
+    EXECUTE FUNCTION set_document_lineage();
+
+CREATE INDEX IF NOT EXISTS idx_documents_lineage ON documents(lineage_id, version);
+CREATE INDEX IF NOT EXISTS idx_documents_current_source_url ON documents(source_url) WHERE superseded_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_documents_current_filename ON documents(filename) WHERE superseded_at IS NULL;
+
+-- Same filters as 005, restricted to current versions
+CREATE OR REPLACE FUNCTION search_bm25(
+    search_query TEXT,
+    limit_count INTEGER DEFAULT 20,
+    filter_document_types TEXT[] DEFAULT NULL,
+    filter_source_authority TEXT DEFAULT NULL,
+    filter_legal_weight TEXT DEFAULT NULL,
+    filter_target_programs TEXT[] DEFAULT NULL,
+    filter_effective_after DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    document_id UUID,
+    content TEXT,
+    page_number INTEGER,
+    chunk_index INTEGER,
+    metadata JSONB,
+    score REAL
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        c.id as chunk_id,
+        c.document_id,
+        c.content,
+        c.page_number,
+        c.chunk_index,
+        c.metadata,
+        ts_rank_cd(c.content_tsv, websearch_to_tsquery('english', search_query), 32)::REAL as score
+    FROM chunks c
+    JOIN documents d ON d.id = c.document_id
+    WHERE c.content_tsv @@ websearch_to_tsquery('english', search_query)
+      AND d.superseded_at IS NULL
+      AND (filter_document_types IS NULL OR d.document_type = ANY(filter_document_types))
+      AND (filter_source_authority IS NULL OR d.source_authority = filter_source_authority)
+      AND (filter_legal_weight IS NULL OR d.legal_weight = filter_legal_weight)
+      AND (filter_target_programs IS NULL OR d.target_programs && filter_target_programs)
+      AND (filter_effective_after IS NULL OR d.effective_date >= filter_effective_after)
+    ORDER BY score DESC
+    LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION search_bm25 IS 'BM25-style full-text search over chunks of current document versions with optional document metadata filters';
+COMMENT ON COLUMN documents.lineage_id IS 'Id of the first version of this document';
+COMMENT ON COLUMN documents.superseded_by IS 'Newer version that replaced this one';
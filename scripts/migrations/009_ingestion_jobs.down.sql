@@ -0,0 +1,5 @@
+-- Revert 009_ingestion_jobs: drops the job queue and its link from the source change log
+
+ALTER TABLE source_change_log DROP COLUMN IF EXISTS ingestion_job_id;
+
+DROP TABLE IF EXISTS ingestion_jobs;
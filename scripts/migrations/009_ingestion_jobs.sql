@@ -0,0 +1,38 @@
+-- Migration: Background ingestion jobs
+-- Ingestion requests are queued here and run by a job worker (the API server or
+-- `pnpm jobs work`), so OCR and embedding no longer run inside an HTTP request.
+
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    job_type TEXT NOT NULL CHECK (job_type IN ('ingest_file', 'ingest_directory', 'ingest_scraped')),
+    state TEXT NOT NULL DEFAULT 'queued'
+        CHECK (state IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+    -- The full job request, including job_type
+    payload JSONB NOT NULL,
+    -- Per-file, per-page and per-chunk progress, written by the worker while running
+    progress JSONB NOT NULL DEFAULT '{}'::jsonb,
+    result JSONB,
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    cancel_requested BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    -- Doubles as the worker heartbeat; running jobs that stop updating are requeued
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_queued ON ingestion_jobs(created_at) WHERE state = 'queued';
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_created ON ingestion_jobs(created_at DESC);
+
+DROP TRIGGER IF EXISTS update_ingestion_jobs_updated_at ON ingestion_jobs;
+CREATE TRIGGER update_ingestion_jobs_updated_at
+    BEFORE UPDATE ON ingestion_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Source monitor changes queue their new items as a job
+ALTER TABLE source_change_log ADD COLUMN IF NOT EXISTS ingestion_job_id UUID
+    REFERENCES ingestion_jobs(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE ingestion_jobs IS 'Queued and finished background ingestion work';
@@ -0,0 +1,3 @@
+-- Revert 010_document_pages: drops stored page text and quality scores
+
+DROP TABLE IF EXISTS document_pages;
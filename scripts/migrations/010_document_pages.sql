@@ -0,0 +1,22 @@
+-- Migration: Per-page text and quality
+-- Each PDF page keeps the text chosen for it (native or OCR) with its quality
+-- scores, so `pnpm ingest reocr` can OCR only the low-quality pages again and
+-- rebuild the document from the rest.
+
+CREATE TABLE IF NOT EXISTS document_pages (
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    page_number INTEGER NOT NULL,
+    -- Empty when the page has no usable text
+    markdown TEXT NOT NULL,
+    source TEXT CHECK (source IN ('native', 'ocr')),
+    -- score, density, dictionaryRatio, garbageRatio and nativeAgreement
+    quality JSONB,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    PRIMARY KEY (document_id, page_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_pages_score
+    ON document_pages(document_id, ((quality->>'score')::real));
+
+COMMENT ON TABLE document_pages IS 'Extracted text and quality scores of each document page';
@@ -0,0 +1,3 @@
+-- Revert 011_ocr_page_cache: drops cached OCR output
+
+DROP TABLE IF EXISTS ocr_page_cache;
@@ -0,0 +1,20 @@
+-- Migration: OCR page cache
+-- Raw OCR output per PDF page, keyed by the PDF's content hash, the page number
+-- and the OCR model, so interrupted ingests can resume and re-chunking
+-- experiments can skip OCR.
+
+CREATE TABLE IF NOT EXISTS ocr_page_cache (
+    -- Hash of file hash, page number and OCR model
+    cache_key TEXT PRIMARY KEY,
+    file_hash TEXT NOT NULL,
+    page_number INTEGER NOT NULL,
+    ocr_model TEXT NOT NULL,
+    markdown TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ocr_page_cache_file ON ocr_page_cache(file_hash);
+CREATE INDEX IF NOT EXISTS idx_ocr_page_cache_last_used ON ocr_page_cache(last_used_at);
+
+COMMENT ON TABLE ocr_page_cache IS 'OCR model output per PDF page, reused by --reuse-ocr and job retries';
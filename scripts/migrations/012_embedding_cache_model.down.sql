@@ -0,0 +1,12 @@
+-- Revert 012_embedding_cache_model: one cached embedding per content hash
+-- again. Embeddings from all but the newest model of each hash are dropped.
+
+DELETE FROM embedding_cache a
+USING embedding_cache b
+WHERE a.content_hash = b.content_hash
+  AND (a.created_at, a.id) < (b.created_at, b.id);
+
+ALTER TABLE embedding_cache DROP CONSTRAINT IF EXISTS embedding_cache_content_hash_model_key;
+ALTER TABLE embedding_cache ADD CONSTRAINT embedding_cache_content_hash_key UNIQUE (content_hash);
+
+COMMENT ON TABLE embedding_cache IS NULL;
@@ -0,0 +1,10 @@
+-- Migration: Embedding cache keyed by model
+-- Cached embeddings are looked up by content hash and embedding model, so
+-- switching LM_STUDIO_EMBEDDING_MODEL does not return the old model's vectors.
+
+ALTER TABLE embedding_cache DROP CONSTRAINT IF EXISTS embedding_cache_content_hash_key;
+ALTER TABLE embedding_cache DROP CONSTRAINT IF EXISTS embedding_cache_content_hash_model_key;
+ALTER TABLE embedding_cache ADD CONSTRAINT embedding_cache_content_hash_model_key
+    UNIQUE (content_hash, model);
+
+COMMENT ON TABLE embedding_cache IS 'Embeddings by content hash and embedding model';
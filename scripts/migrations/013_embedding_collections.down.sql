@@ -0,0 +1,3 @@
+-- Revert 013_embedding_collections
+
+DROP TABLE IF EXISTS embedding_collections;
@@ -0,0 +1,14 @@
+-- Migration: Embedding collection registry
+-- The embedding model, vector dimension and distance metric each Qdrant
+-- collection was built with. Startup fails when the configured model or
+-- EMBEDDING_DIMENSION does not match the collection being searched.
+
+CREATE TABLE IF NOT EXISTS embedding_collections (
+    collection TEXT PRIMARY KEY,
+    model TEXT NOT NULL,
+    dimension INTEGER NOT NULL,
+    distance TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE embedding_collections IS 'Embedding model and vector settings per Qdrant collection';
@@ -0,0 +1,4 @@
+-- Revert 014_query_cache_documents
+
+DROP INDEX IF EXISTS idx_query_cache_document_ids;
+ALTER TABLE query_cache DROP COLUMN IF EXISTS document_ids;
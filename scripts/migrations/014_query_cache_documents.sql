@@ -0,0 +1,12 @@
+-- Migration: Documents cited by cached query responses
+-- Cached answers are removed when a document they cite is deleted,
+-- superseded or re-ingested. Entries cached before this migration do not
+-- record their documents and could never be invalidated, so they are dropped.
+
+DELETE FROM query_cache;
+
+ALTER TABLE query_cache ADD COLUMN IF NOT EXISTS document_ids UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_query_cache_document_ids ON query_cache USING GIN (document_ids);
+
+COMMENT ON COLUMN query_cache.document_ids IS 'Documents cited by the cached response';
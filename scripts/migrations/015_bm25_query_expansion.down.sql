@@ -0,0 +1,3 @@
+-- Revert 015_bm25_query_expansion
+
+DROP FUNCTION IF EXISTS search_bm25_expanded(TEXT[], INTEGER, TEXT[], TEXT, TEXT, TEXT[], DATE);
@@ -0,0 +1,59 @@
+-- Migration: BM25 search over expanded queries
+-- Query analysis expands acronyms, synonyms and program aliases ("QMB",
+-- "Qualified Medicare Beneficiary"). websearch_to_tsquery cannot group
+-- alternatives inside a larger query, so the expanded query is passed as
+-- groups in websearch syntax: a chunk must match every group, and any of the
+-- alternatives ("QMB OR \"Qualified Medicare Beneficiary\"") within a group.
+
+CREATE OR REPLACE FUNCTION search_bm25_expanded(
+    search_groups TEXT[],
+    limit_count INTEGER DEFAULT 20,
+    filter_document_types TEXT[] DEFAULT NULL,
+    filter_source_authority TEXT DEFAULT NULL,
+    filter_legal_weight TEXT DEFAULT NULL,
+    filter_target_programs TEXT[] DEFAULT NULL,
+    filter_effective_after DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    document_id UUID,
+    content TEXT,
+    page_number INTEGER,
+    chunk_index INTEGER,
+    metadata JSONB,
+    score REAL
+) AS $$
+DECLARE
+    search_group TEXT;
+    group_tsquery tsquery;
+    search_tsquery tsquery;
+BEGIN
+    FOREACH search_group IN ARRAY search_groups LOOP
+        group_tsquery := websearch_to_tsquery('english', search_group);
+        search_tsquery := COALESCE(search_tsquery && group_tsquery, group_tsquery);
+    END LOOP;
+
+    RETURN QUERY
+    SELECT
+        c.id as chunk_id,
+        c.document_id,
+        c.content,
+        c.page_number,
+        c.chunk_index,
+        c.metadata,
+        ts_rank_cd(c.content_tsv, search_tsquery, 32)::REAL as score
+    FROM chunks c
+    JOIN documents d ON d.id = c.document_id
+    WHERE c.content_tsv @@ search_tsquery
+      AND d.superseded_at IS NULL
+      AND (filter_document_types IS NULL OR d.document_type = ANY(filter_document_types))
+      AND (filter_source_authority IS NULL OR d.source_authority = filter_source_authority)
+      AND (filter_legal_weight IS NULL OR d.legal_weight = filter_legal_weight)
+      AND (filter_target_programs IS NULL OR d.target_programs && filter_target_programs)
+      AND (filter_effective_after IS NULL OR d.effective_date >= filter_effective_after)
+    ORDER BY score DESC
+    LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION search_bm25_expanded IS 'search_bm25 for queries expanded by query analysis: every group must match, each group in websearch syntax';
@@ -9,6 +9,13 @@ echo "=== Resetting RAG System for Fresh Ingestion ==="
 # Step 1: Delete Qdrant collection
 echo ""
 echo "Step 1: Deleting Qdrant collection..."
+# After `pnpm ingest rechunk` or `reembed` the name is an alias; delete the collection behind it
+ALIASED=$(curl -s http://localhost:6333/aliases 2>/dev/null \
+  | grep -o '"alias_name":"medicaid_chunks","collection_name":"[^"]*"' \
+  | cut -d'"' -f8 || true)
+if [ -n "$ALIASED" ]; then
+  curl -X DELETE "http://localhost:6333/collections/$ALIASED" 2>/dev/null && echo "Collection $ALIASED deleted"
+fi
 curl -X DELETE http://localhost:6333/collections/medicaid_chunks 2>/dev/null && echo "Collection deleted" || echo "Collection may not exist (OK)"
 
 # Step 2: Reset PostgreSQL
@@ -72,7 +72,7 @@ async function traceQueryPipeline(query: string) {
   const lmStudio = getLMStudioClient(config.lmStudio);
   const qdrant = getQdrantStore(config.qdrant);
   const postgres = getPostgresStore(config.postgres);
-  const reranker = createReranker(lmStudio);
+  const reranker = createReranker(lmStudio, config.rag);
   const guardrails = getGuardrailsEngine();
 
   logSection(`QUERY PIPELINE TRACE`);
@@ -82,6 +82,7 @@ async function traceQueryPipeline(query: string) {
   console.log(`  LLM Model: ${config.lmStudio.llmModel}`);
   console.log(`  Vector TopK: ${config.rag.vectorTopK}`);
   console.log(`  BM25 TopK: ${config.rag.bm25TopK}`);
+  console.log(`  Reranker: ${config.rag.reranker}`);
   console.log(`  Rerank TopN: ${config.rag.rerankTopN}`);
   console.log(`  Final TopC: ${config.rag.finalTopC}`);
 
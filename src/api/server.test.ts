@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import request from 'supertest';
+import http from 'http';
+import type { AddressInfo } from 'net';
 import type { Express } from 'express';
 
 // Mock the dependencies before importing the server
@@ -33,7 +35,15 @@ vi.mock('../retrieval/pipeline.js', () => ({
       avgLatencyMs: 200,
       noAnswerRate: 0.1,
     }),
-    invalidateMetadataCache: vi.fn(),
+    invalidateMetadataCache: vi.fn().mockResolvedValue(undefined),
+    clearCache: vi.fn().mockResolvedValue(4),
+    reloadGuardrails: vi.fn().mockResolvedValue(undefined),
+    screenEligibility: vi.fn().mockResolvedValue({
+      programs: [],
+      eligiblePrograms: ['SLMB', 'EXTRA_HELP', 'PACENET'],
+      assumptions: [],
+      disclaimer: 'This is an estimate.',
+    }),
   })),
 }));
 
@@ -59,14 +69,48 @@ vi.mock('../ingestion/pipeline.js', () => ({
       documentCount: 10,
       vectorCount: 100,
     }),
+    listDocuments: vi.fn().mockResolvedValue([
+      {
+        id: 'doc-1',
+        filename: 'PHLP-2025-MSP-Guide.pdf',
+        filepath: '/data/PHLP-2025-MSP-Guide.pdf',
+        fileHash: 'abc',
+        title: 'PHLP 2025 Medicare Savings Programs Guide',
+        totalPages: 12,
+        ingestedAt: new Date('2025-03-01T12:00:00Z'),
+        metadata: {},
+        documentType: 'msp_guide',
+        sourceAuthority: 'secondary',
+        effectiveDate: new Date('2025-02-01T12:00:00Z'),
+        targetPrograms: ['QMB', 'SLMB'],
+        chunkCount: 42,
+      },
+    ]),
+    getDocument: vi.fn().mockResolvedValue(null),
+    getDocumentVersions: vi.fn().mockResolvedValue([]),
   })),
 }));
 
+const mockPostgres = vi.hoisted(() => ({
+  getGuardrailRules: vi.fn(),
+  insertGuardrailRule: vi.fn(),
+  updateGuardrailRule: vi.fn(),
+  insertJob: vi.fn(),
+  getJob: vi.fn(),
+  listJobs: vi.fn(),
+  requestJobCancel: vi.fn(),
+}));
+
+vi.mock('../clients/postgres.js', () => ({
+  getPostgresStore: vi.fn(() => mockPostgres),
+}));
+
 vi.mock('../config/index.js', () => ({
   getConfig: vi.fn(() => ({
     lmStudio: {
       baseUrl: 'http://localhost:1234/v1',
       ocrModel: 'test-ocr',
+      ocrConcurrency: 1,
       llmModel: 'test-llm',
       embeddingModel: 'test-embed',
     },
@@ -89,6 +133,17 @@ vi.mock('../config/index.js', () => ({
       bm25TopK: 20,
       rerankTopN: 10,
       finalTopC: 5,
+      llmFollowUps: false,
+      fusion: 'rrf',
+      rrfK: 60,
+      fusionWeights: { vector: 1, bm25: 1 },
+      reranker: 'listwise',
+      rerankerUrl: 'http://localhost:1234/v1',
+      rerankerModel: 'bge-reranker-v2-m3',
+      rerankerScores: 'logits',
+      abstainThreshold: 35,
+      citationVerification: 'flag',
+      queryExpansion: 'bm25',
     },
     cache: {
       enabled: true,
@@ -110,14 +165,16 @@ vi.mock('../utils/logger.js', () => ({
 // Import after mocks are set up
 import { createApiServer } from './server.js';
 import { getConfig } from '../config/index.js';
+import type { IngestionJob } from '../types/index.js';
 
 describe('API Server', () => {
   let app: Express;
+  let server: ReturnType<typeof createApiServer>;
 
   beforeEach(() => {
     vi.clearAllMocks();
     const config = getConfig();
-    const server = createApiServer(config);
+    server = createApiServer(config);
     app = server.app;
   });
 
@@ -157,18 +214,274 @@ describe('API Server', () => {
 
       expect(response.status).toBe(400);
     });
+
+    it('should pass conversationId to the pipeline', async () => {
+      const response = await request(app)
+        .post('/query')
+        .send({ query: 'What about for my husband?', conversationId: 'conv-1' });
+
+      expect(response.status).toBe(200);
+      expect(server.retrievalPipeline.query).toHaveBeenCalledWith(
+        'What about for my husband?',
+        expect.objectContaining({ conversationId: 'conv-1' })
+      );
+    });
+
+    it('should return 400 for an invalid conversationId', async () => {
+      const response = await request(app)
+        .post('/query')
+        .send({ query: 'What is QMB?', conversationId: 42 });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should pass metadata filters to the pipeline', async () => {
+      const filters = {
+        documentTypes: ['oim_ltc_handbook'],
+        legalWeight: 'regulatory',
+        effectiveAfter: '2024-01-01',
+      };
+
+      const response = await request(app)
+        .post('/query')
+        .send({ query: 'What is the resource limit?', filters });
+
+      expect(response.status).toBe(200);
+      expect(server.retrievalPipeline.query).toHaveBeenCalledWith(
+        'What is the resource limit?',
+        expect.objectContaining({ filters })
+      );
+    });
+
+    it('should return 400 for invalid filters', async () => {
+      const response = await request(app)
+        .post('/query')
+        .send({ query: 'What is QMB?', filters: { legalWeight: 'binding' } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('legalWeight');
+    });
+
+    it('should return 400 for a malformed effectiveAfter date', async () => {
+      const response = await request(app)
+        .post('/query')
+        .send({ query: 'What is QMB?', filters: { effectiveAfter: 'last year' } });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should pass the answer mode to the pipeline', async () => {
+      const response = await request(app)
+        .post('/query')
+        .send({ query: 'What is the look-back period?', mode: 'caregiver' });
+
+      expect(response.status).toBe(200);
+      expect(server.retrievalPipeline.query).toHaveBeenCalledWith(
+        'What is the look-back period?',
+        expect.objectContaining({ mode: 'caregiver' })
+      );
+    });
+
+    it('should return 400 for an unknown mode', async () => {
+      const response = await request(app)
+        .post('/query')
+        .send({ query: 'What is QMB?', mode: 'lawyer' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('mode');
+    });
+
+    it('should pass fusion overrides to the pipeline', async () => {
+      const fusion = { strategy: 'combmnz', weights: { bm25: 2 } };
+
+      const response = await request(app)
+        .post('/query')
+        .send({ query: 'What does § 258.3 say?', fusion });
+
+      expect(response.status).toBe(200);
+      expect(server.retrievalPipeline.query).toHaveBeenCalledWith(
+        'What does § 258.3 say?',
+        expect.objectContaining({ fusion })
+      );
+    });
+
+    it('should return 400 for invalid fusion overrides', async () => {
+      const unknown = await request(app)
+        .post('/query')
+        .send({ query: 'What is QMB?', fusion: { strategy: 'borda' } });
+      const negative = await request(app)
+        .post('/query')
+        .send({ query: 'What is QMB?', fusion: { weights: { vector: -1 } } });
+
+      expect(unknown.status).toBe(400);
+      expect(unknown.body.error).toContain('fusion.strategy');
+      expect(negative.status).toBe(400);
+      expect(negative.body.error).toContain('fusion.weights');
+    });
+
+    it('should stream progress, tokens and the final response when stream is set', async () => {
+      const queryMock = server.retrievalPipeline.query as ReturnType<typeof vi.fn>;
+      queryMock.mockImplementationOnce(async (_query, options) => {
+        options.onEvent({ type: 'progress', stage: 'embedding' });
+        options.onEvent({ type: 'token', text: 'Test ' });
+        options.onEvent({ type: 'token', text: 'answer' });
+        return { answer: 'Test answer', citations: [], queryId: 'query-456' };
+      });
+
+      const response = await request(app)
+        .post('/query')
+        .send({ query: 'What is QMB?', stream: true });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      expect(response.text).toContain('event: progress\ndata: {"type":"progress","stage":"embedding"}');
+      expect(response.text).toContain('event: token\ndata: {"type":"token","text":"Test "}');
+      expect(response.text).toContain('event: done');
+      expect(response.text).toContain('"queryId":"query-456"');
+    });
+
+    it('should abort the query when a streaming client disconnects', async () => {
+      const queryMock = server.retrievalPipeline.query as ReturnType<typeof vi.fn>;
+      let aborted: Promise<AbortSignal> | undefined;
+      queryMock.mockImplementationOnce(async (_query, options) => {
+        options.onEvent({ type: 'progress', stage: 'embedding' });
+        aborted = new Promise((resolve) =>
+          options.signal.addEventListener('abort', () => resolve(options.signal))
+        );
+        await aborted;
+        // Events after the disconnect are dropped rather than written
+        options.onEvent({ type: 'token', text: 'late' });
+        throw new Error('aborted');
+      });
+
+      const httpServer = app.listen(0);
+      const { port } = httpServer.address() as AddressInfo;
+      const firstChunk = await new Promise<string>((resolve) => {
+        const req = http.request(
+          { port, method: 'POST', path: '/query', headers: { 'Content-Type': 'application/json' } },
+          (res) => {
+            res.once('data', (chunk: Buffer) => {
+              resolve(chunk.toString());
+              req.destroy();
+            });
+          }
+        );
+        req.end(JSON.stringify({ query: 'What is QMB?', stream: true }));
+      });
+      const signal = await aborted;
+      httpServer.close();
+
+      expect(firstChunk).toContain('event: progress');
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should emit an error event when a streamed query fails', async () => {
+      const queryMock = server.retrievalPipeline.query as ReturnType<typeof vi.fn>;
+      queryMock.mockRejectedValueOnce(new Error('LLM unavailable'));
+
+      const response = await request(app)
+        .post('/query')
+        .send({ query: 'What is QMB?', stream: true });
+
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('event: error\ndata: {"type":"error","error":"LLM unavailable"}');
+    });
   });
 
+  describe('POST /screen', () => {
+    const screening = {
+      householdSize: 1,
+      monthlyIncome: 1400,
+      countableAssets: 5000,
+      maritalStatus: 'single',
+      age: 72,
+    };
+
+    it('should screen a household', async () => {
+      const response = await request(app).post('/screen').send(screening);
+
+      expect(response.status).toBe(200);
+      expect(response.body.eligiblePrograms).toEqual(['SLMB', 'EXTRA_HELP', 'PACENET']);
+      expect(server.retrievalPipeline.screenEligibility).toHaveBeenCalledWith(screening);
+    });
+
+    it('should allow countableAssets to be omitted', async () => {
+      const { countableAssets: _assets, ...withoutAssets } = screening;
+
+      const response = await request(app).post('/screen').send(withoutAssets);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should return 400 for a missing monthlyIncome', async () => {
+      const response = await request(app)
+        .post('/screen')
+        .send({ ...screening, monthlyIncome: undefined });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('monthlyIncome');
+    });
+
+    it('should return 400 for an invalid maritalStatus', async () => {
+      const response = await request(app)
+        .post('/screen')
+        .send({ ...screening, maritalStatus: 'engaged' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('maritalStatus');
+    });
+
+    it('should return 400 for a fractional householdSize', async () => {
+      const response = await request(app)
+        .post('/screen')
+        .send({ ...screening, householdSize: 1.5 });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  const jobId = '7c1e2f4a-9b3d-4e5f-8a6b-1c2d3e4f5a6b';
+
+  function job(overrides: Partial<IngestionJob> = {}): IngestionJob {
+    return {
+      id: jobId,
+      request: { type: 'ingest_directory', dirPath: '/path/to/pdfs' },
+      state: 'queued',
+      progress: {
+        filesDone: 0,
+        filesTotal: 0,
+        pagesDone: 0,
+        pagesTotal: 0,
+        failedPages: [],
+        chunksDone: 0,
+        chunksTotal: 0,
+      },
+      attempts: 0,
+      cancelRequested: false,
+      createdAt: new Date('2026-03-01T12:00:00Z'),
+      updatedAt: new Date('2026-03-01T12:00:00Z'),
+      ...overrides,
+    };
+  }
+
   describe('POST /ingest/file', () => {
-    it('should ingest a file', async () => {
+    it('should queue an ingestion job for the file', async () => {
+      mockPostgres.insertJob.mockResolvedValueOnce(
+        job({ request: { type: 'ingest_file', filepath: '/path/to/test.pdf' } })
+      );
+
       const response = await request(app)
         .post('/ingest/file')
         .send({ filepath: '/path/to/test.pdf' });
 
-      expect(response.status).toBe(200);
-      expect(response.body.documentId).toBe('doc-1');
-      expect(response.body.filename).toBe('test.pdf');
-      expect(response.body.chunkCount).toBe(2);
+      expect(response.status).toBe(202);
+      expect(response.body).toEqual({ jobId, state: 'queued' });
+      expect(mockPostgres.insertJob).toHaveBeenCalledWith({
+        type: 'ingest_file',
+        filepath: '/path/to/test.pdf',
+        reuseOcr: false,
+      });
+      expect(server.ingestionPipeline.ingestFile).not.toHaveBeenCalled();
     });
 
     it('should return 400 for missing filepath', async () => {
@@ -180,15 +493,23 @@ describe('API Server', () => {
   });
 
   describe('POST /ingest/directory', () => {
-    it('should ingest a directory', async () => {
+    it('should queue an ingestion job for the directory', async () => {
+      mockPostgres.insertJob.mockResolvedValueOnce(job());
+
       const response = await request(app).post('/ingest/directory').send({
         dirPath: '/path/to/pdfs',
         recursive: true,
       });
 
-      expect(response.status).toBe(200);
-      expect(response.body.documentsProcessed).toBe(5);
-      expect(response.body.chunksCreated).toBe(50);
+      expect(response.status).toBe(202);
+      expect(response.body.jobId).toBe(jobId);
+      expect(mockPostgres.insertJob).toHaveBeenCalledWith({
+        type: 'ingest_directory',
+        dirPath: '/path/to/pdfs',
+        recursive: true,
+        saveMarkdown: false,
+        reuseOcr: false,
+      });
     });
 
     it('should return 400 for missing dirPath', async () => {
@@ -199,6 +520,228 @@ describe('API Server', () => {
     });
   });
 
+  describe('GET /jobs', () => {
+    it('should list jobs in a state', async () => {
+      mockPostgres.listJobs.mockResolvedValueOnce([job({ state: 'failed', error: 'boom' })]);
+
+      const response = await request(app).get('/jobs?state=failed&limit=10');
+
+      expect(response.status).toBe(200);
+      expect(response.body.total).toBe(1);
+      expect(response.body.jobs[0]).toMatchObject({
+        id: jobId,
+        type: 'ingest_directory',
+        error: 'boom',
+      });
+      expect(mockPostgres.listJobs).toHaveBeenCalledWith({ state: 'failed', limit: 10 });
+    });
+
+    it('should return 400 for an unknown state', async () => {
+      const response = await request(app).get('/jobs?state=paused');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /jobs/:id', () => {
+    it('should return the job with its progress', async () => {
+      mockPostgres.getJob.mockResolvedValueOnce(
+        job({
+          state: 'running',
+          startedAt: new Date('2026-03-01T12:01:00Z'),
+          progress: {
+            currentFile: 'OIM-LTC-Handbook.pdf',
+            filesDone: 2,
+            filesTotal: 5,
+            pagesDone: 37,
+            pagesTotal: 200,
+            failedPages: [{ file: 'OIM-LTC-Handbook.pdf', page: 12 }],
+            chunksDone: 0,
+            chunksTotal: 0,
+          },
+        })
+      );
+
+      const response = await request(app).get(`/jobs/${jobId}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.state).toBe('running');
+      expect(response.body.startedAt).toBe('2026-03-01T12:01:00.000Z');
+      expect(response.body.progress).toMatchObject({ pagesDone: 37, pagesTotal: 200 });
+      expect(response.body.progress.failedPages).toHaveLength(1);
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      mockPostgres.getJob.mockResolvedValueOnce(null);
+
+      const response = await request(app).get(`/jobs/${jobId}`);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 400 for a malformed id', async () => {
+      const response = await request(app).get('/jobs/not-a-uuid');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('DELETE /jobs/:id', () => {
+    it('should ask a running job to cancel', async () => {
+      mockPostgres.requestJobCancel.mockResolvedValueOnce(
+        job({ state: 'running', cancelRequested: true })
+      );
+
+      const response = await request(app).delete(`/jobs/${jobId}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ state: 'running', cancelRequested: true });
+    });
+
+    it('should return 409 for a finished job', async () => {
+      mockPostgres.requestJobCancel.mockResolvedValueOnce(null);
+      mockPostgres.getJob.mockResolvedValueOnce(job({ state: 'succeeded' }));
+
+      const response = await request(app).delete(`/jobs/${jobId}`);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Job has already succeeded');
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      mockPostgres.requestJobCancel.mockResolvedValueOnce(null);
+      mockPostgres.getJob.mockResolvedValueOnce(null);
+
+      const response = await request(app).delete(`/jobs/${jobId}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /documents', () => {
+    it('should list documents with classification and chunk counts', async () => {
+      const response = await request(app).get('/documents');
+
+      expect(response.status).toBe(200);
+      expect(response.body.total).toBe(1);
+      expect(response.body.documents[0]).toMatchObject({
+        id: 'doc-1',
+        documentType: 'msp_guide',
+        sourceAuthority: 'secondary',
+        effectiveDate: '2025-02-01',
+        targetPrograms: ['QMB', 'SLMB'],
+        chunkCount: 42,
+      });
+    });
+  });
+
+  describe('GET /documents/:id', () => {
+    const documentId = '0b8f5c3e-2d6a-4f0e-9a51-7c2e4d8b1f00';
+
+    it('should return the document and its chunks', async () => {
+      const getDocument = server.ingestionPipeline.getDocument as ReturnType<typeof vi.fn>;
+      getDocument.mockResolvedValueOnce({
+        document: {
+          id: documentId,
+          filename: 'PA-Code-Chapter-258',
+          filepath: 'https://example.org/chap258',
+          fileHash: 'def',
+          ingestedAt: new Date('2025-03-01T12:00:00Z'),
+          metadata: {},
+          documentType: 'pa_code',
+        },
+        chunks: [
+          { id: 'chunk-1', documentId, chunkIndex: 0, content: '§ 258.1 Scope', metadata: {} },
+          { id: 'chunk-2', documentId, chunkIndex: 1, content: '§ 258.2 Definitions', metadata: {} },
+        ],
+      });
+
+      const response = await request(app).get(`/documents/${documentId}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.document.documentType).toBe('pa_code');
+      expect(response.body.document.chunkCount).toBe(2);
+      expect(response.body.chunks).toHaveLength(2);
+      expect(response.body.chunks[1]).toEqual({
+        id: 'chunk-2',
+        chunkIndex: 1,
+        content: '§ 258.2 Definitions',
+      });
+    });
+
+    it('should return 404 for an unknown document', async () => {
+      const response = await request(app).get(`/documents/${documentId}`);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 400 for a malformed id', async () => {
+      const response = await request(app).get('/documents/not-a-uuid');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /documents/:id/versions', () => {
+    const documentId = '0b8f5c3e-2d6a-4f0e-9a51-7c2e4d8b1f00';
+    const newerId = '5d2a9e71-8c4b-4b1f-a0d6-3e9f7c1b2a44';
+
+    it('should return the version history newest first', async () => {
+      const getDocumentVersions = server.ingestionPipeline.getDocumentVersions as ReturnType<
+        typeof vi.fn
+      >;
+      getDocumentVersions.mockResolvedValueOnce([
+        {
+          id: newerId,
+          filename: 'PHLP-2026-MSP-Guide.pdf',
+          filepath: '/data/PHLP-2026-MSP-Guide.pdf',
+          fileHash: 'new',
+          ingestedAt: new Date('2026-03-01T12:00:00Z'),
+          metadata: {},
+          version: 2,
+          chunkCount: 44,
+        },
+        {
+          id: documentId,
+          filename: 'PHLP-2025-MSP-Guide.pdf',
+          filepath: '/data/PHLP-2025-MSP-Guide.pdf',
+          fileHash: 'old',
+          ingestedAt: new Date('2025-03-01T12:00:00Z'),
+          metadata: {},
+          version: 1,
+          supersededBy: newerId,
+          supersededAt: new Date('2026-03-01T12:00:00Z'),
+          expirationDate: new Date('2026-03-01T12:00:00Z'),
+          chunkCount: 42,
+        },
+      ]);
+
+      const response = await request(app).get(`/documents/${documentId}/versions`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.total).toBe(2);
+      expect(response.body.versions.map((v: { version: number }) => v.version)).toEqual([2, 1]);
+      expect(response.body.versions[0].supersededBy).toBeUndefined();
+      expect(response.body.versions[1]).toMatchObject({
+        supersededBy: newerId,
+        expirationDate: '2026-03-01',
+        chunkCount: 42,
+      });
+    });
+
+    it('should return 404 for an unknown document', async () => {
+      const response = await request(app).get(`/documents/${documentId}/versions`);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 400 for a malformed id', async () => {
+      const response = await request(app).get('/documents/not-a-uuid/versions');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
   describe('GET /metrics', () => {
     it('should return query metrics', async () => {
       const response = await request(app).get('/metrics');
@@ -209,4 +752,101 @@ describe('API Server', () => {
       expect(response.body.noAnswerRate).toBe(0.1);
     });
   });
+
+  describe('DELETE /cache', () => {
+    it('should clear the query cache', async () => {
+      const response = await request(app).delete('/cache');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ removed: 4 });
+      expect(server.retrievalPipeline.clearCache).toHaveBeenCalledWith({ expiredOnly: false });
+    });
+
+    it('should clear only expired entries when asked', async () => {
+      await request(app).delete('/cache?expired=true');
+
+      expect(server.retrievalPipeline.clearCache).toHaveBeenCalledWith({ expiredOnly: true });
+    });
+  });
+
+  describe('Guardrail admin endpoints', () => {
+    const rule = {
+      category: 'reverse_mortgage',
+      keywords: ['reverse mortgage', 'home equity conversion'],
+      weight: 1.1,
+      disclaimer: 'A reverse mortgage can affect Medicaid eligibility.',
+    };
+
+    it('should list the stored rules', async () => {
+      mockPostgres.getGuardrailRules.mockResolvedValueOnce([rule]);
+
+      const response = await request(app).get('/admin/guardrails');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ rules: [rule], total: 1 });
+    });
+
+    it('should add a rule and reload the guardrails', async () => {
+      mockPostgres.insertGuardrailRule.mockImplementationOnce(async (input) => input);
+
+      const response = await request(app).post('/admin/guardrails').send(rule);
+
+      expect(response.status).toBe(201);
+      expect(mockPostgres.insertGuardrailRule).toHaveBeenCalledWith(
+        expect.objectContaining({ category: 'reverse_mortgage', weight: 1.1 })
+      );
+      expect(server.retrievalPipeline.reloadGuardrails).toHaveBeenCalled();
+    });
+
+    it('should return 409 when the category exists', async () => {
+      mockPostgres.insertGuardrailRule.mockResolvedValueOnce(null);
+
+      const response = await request(app).post('/admin/guardrails').send(rule);
+
+      expect(response.status).toBe(409);
+      expect(server.retrievalPipeline.reloadGuardrails).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid rule', async () => {
+      const response = await request(app)
+        .post('/admin/guardrails')
+        .send({ ...rule, category: 'Reverse Mortgage', keywords: [] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('category');
+      expect(mockPostgres.insertGuardrailRule).not.toHaveBeenCalled();
+    });
+
+    it('should update the disclaimer of a rule', async () => {
+      const disclaimer = 'Updated disclaimer text.';
+      mockPostgres.updateGuardrailRule.mockResolvedValueOnce({ ...rule, disclaimer });
+
+      const response = await request(app)
+        .put('/admin/guardrails/reverse_mortgage')
+        .send({ disclaimer });
+
+      expect(response.status).toBe(200);
+      expect(response.body.disclaimer).toBe(disclaimer);
+      expect(mockPostgres.updateGuardrailRule).toHaveBeenCalledWith('reverse_mortgage', {
+        disclaimer,
+      });
+      expect(server.retrievalPipeline.reloadGuardrails).toHaveBeenCalled();
+    });
+
+    it('should return 404 when editing an unknown category', async () => {
+      mockPostgres.updateGuardrailRule.mockResolvedValueOnce(null);
+
+      const response = await request(app)
+        .put('/admin/guardrails/unknown')
+        .send({ referral: null });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 400 for an empty update', async () => {
+      const response = await request(app).put('/admin/guardrails/appeals').send({});
+
+      expect(response.status).toBe(400);
+    });
+  });
 });
@@ -2,10 +2,33 @@ import express, { Request, Response, NextFunction, Express } from 'express';
 import http from 'http';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { Config, QueryRequest, RagError } from '../types/index.js';
-import { createRetrievalPipeline, RetrievalPipeline } from '../retrieval/pipeline.js';
+import {
+  Config,
+  Document,
+  DocumentSummary,
+  DocumentListResponse,
+  DocumentDetailResponse,
+  DocumentVersionsResponse,
+  IngestionJob,
+  JobAcceptedResponse,
+  JobListResponse,
+  JobState,
+  JobSummary,
+  QueryRequest,
+  QueryStreamEvent,
+  ScreeningRequest,
+  GuardrailRuleInput,
+  GuardrailRuleUpdate,
+  RagError,
+} from '../types/index.js';
+import { createRetrievalPipeline, RetrievalPipeline, QueryOptions } from '../retrieval/pipeline.js';
 import { createIngestionPipeline, IngestionPipeline } from '../ingestion/pipeline.js';
 import { getPostgresStore } from '../clients/postgres.js';
+import { createJobQueue, createJobWorker } from '../jobs/index.js';
+import { getUnappliedMigrations, formatMigration } from '../db/migrations.js';
+import { isPromptMode } from '../prompts/profiles.js';
+import { isFusionStrategy } from '../retrieval/fusion.js';
+import { validateGuardrailRule, validateGuardrailRuleUpdate } from '../guardrails/index.js';
 import { createChildLogger } from '../utils/logger.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -19,6 +42,10 @@ interface ApiServer {
 
 const logger = createChildLogger('api-server');
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const JOB_STATES: JobState[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
 /**
  * Create and configure the Express API server
  */
@@ -29,6 +56,7 @@ export function createApiServer(config: Config): ApiServer {
   // Initialize pipelines
   const retrievalPipeline = createRetrievalPipeline(config);
   const ingestionPipeline = createIngestionPipeline(config);
+  const jobQueue = createJobQueue(getPostgresStore(config.postgres));
 
   // Request logging middleware
   app.use((req: Request, res: Response, next: NextFunction) => {
@@ -64,7 +92,8 @@ export function createApiServer(config: Config): ApiServer {
   // Query endpoint
   app.post('/query', async (req: Request, res: Response) => {
     try {
-      const { query, useCache } = req.body as QueryRequest;
+      const { query, useCache, stream, conversationId, filters, mode, fusion } =
+        req.body as QueryRequest;
 
       if (!query || typeof query !== 'string') {
         res.status(400).json({ error: 'Query is required' });
@@ -82,7 +111,43 @@ export function createApiServer(config: Config): ApiServer {
         return;
       }
 
-      const response = await retrievalPipeline.query(trimmedQuery, { useCache });
+      if (
+        conversationId !== undefined &&
+        (typeof conversationId !== 'string' || conversationId.length === 0 || conversationId.length > 100)
+      ) {
+        res.status(400).json({ error: 'conversationId must be a non-empty string (max 100 characters)' });
+        return;
+      }
+
+      if (filters !== undefined) {
+        const filterError = validateFilters(filters);
+        if (filterError) {
+          res.status(400).json({ error: filterError });
+          return;
+        }
+      }
+
+      if (mode !== undefined && !isPromptMode(mode)) {
+        res.status(400).json({ error: "mode must be 'senior', 'caregiver' or 'caseworker'" });
+        return;
+      }
+
+      if (fusion !== undefined) {
+        const fusionError = validateFusion(fusion);
+        if (fusionError) {
+          res.status(400).json({ error: fusionError });
+          return;
+        }
+      }
+
+      const options = { useCache, conversationId, filters, mode, fusion };
+
+      if (stream) {
+        await streamQuery(res, retrievalPipeline, trimmedQuery, options);
+        return;
+      }
+
+      const response = await retrievalPipeline.query(trimmedQuery, options);
 
       res.json(response);
     } catch (error) {
@@ -93,29 +158,54 @@ export function createApiServer(config: Config): ApiServer {
     }
   });
 
+  // Eligibility screening endpoint
+  app.post('/screen', async (req: Request, res: Response) => {
+    try {
+      const validationError = validateScreeningRequest(req.body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const { householdSize, monthlyIncome, countableAssets, maritalStatus, age } =
+        req.body as ScreeningRequest;
+      const result = await retrievalPipeline.screenEligibility({
+        householdSize,
+        monthlyIncome,
+        countableAssets,
+        maritalStatus,
+        age,
+      });
+
+      res.json(result);
+    } catch (error) {
+      logger.error({ error }, 'Screening failed');
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Screening failed',
+      });
+    }
+  });
+
   // Ingest single file endpoint
   app.post('/ingest/file', async (req: Request, res: Response) => {
     try {
-      const { filepath } = req.body;
+      const { filepath, reuseOcr } = req.body;
 
       if (!filepath || typeof filepath !== 'string') {
         res.status(400).json({ error: 'filepath is required' });
         return;
       }
 
-      await ingestionPipeline.initialize();
-      const result = await ingestionPipeline.ingestFile(filepath);
-
-      // Invalidate retrieval cache so new documents are visible
-      retrievalPipeline.invalidateMetadataCache();
-
-      res.json({
-        documentId: result.document.id,
-        filename: result.document.filename,
-        chunkCount: result.chunks.length,
+      // OCR and embedding can take far longer than a request, so run them as a job
+      const job = await jobQueue.enqueue({
+        type: 'ingest_file',
+        filepath,
+        reuseOcr: reuseOcr === true,
       });
+      const body: JobAcceptedResponse = { jobId: job.id, state: job.state };
+      res.status(202).json(body);
     } catch (error) {
-      logger.error({ error }, 'Ingestion failed');
+      logger.error({ error }, 'Failed to queue ingestion');
       res.status(500).json({
         error: error instanceof Error ? error.message : 'Ingestion failed',
       });
@@ -125,27 +215,256 @@ export function createApiServer(config: Config): ApiServer {
   // Ingest directory endpoint
   app.post('/ingest/directory', async (req: Request, res: Response) => {
     try {
-      const { dirPath, recursive, saveMarkdown } = req.body;
+      const { dirPath, recursive, saveMarkdown, reuseOcr } = req.body;
 
       if (!dirPath || typeof dirPath !== 'string') {
         res.status(400).json({ error: 'dirPath is required' });
         return;
       }
 
-      await ingestionPipeline.initialize();
-      const stats = await ingestionPipeline.ingestDirectory(dirPath, {
-        recursive,
-        saveMarkdown,
+      const job = await jobQueue.enqueue({
+        type: 'ingest_directory',
+        dirPath,
+        recursive: recursive === true,
+        saveMarkdown: saveMarkdown === true,
+        reuseOcr: reuseOcr === true,
+      });
+      const body: JobAcceptedResponse = { jobId: job.id, state: job.state };
+      res.status(202).json(body);
+    } catch (error) {
+      logger.error({ error }, 'Failed to queue directory ingestion');
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Ingestion failed',
       });
+    }
+  });
+
+  // Ingestion job endpoints
+  app.get('/jobs', async (req: Request, res: Response) => {
+    try {
+      const state = req.query.state as JobState | undefined;
+      if (state !== undefined && !JOB_STATES.includes(state)) {
+        res.status(400).json({ error: `state must be one of: ${JOB_STATES.join(', ')}` });
+        return;
+      }
 
-      // Invalidate retrieval cache so new documents are visible
-      retrievalPipeline.invalidateMetadataCache();
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 500)) {
+        res.status(400).json({ error: 'limit must be between 1 and 500' });
+        return;
+      }
 
-      res.json(stats);
+      const jobs = await jobQueue.list({ state, limit });
+      const body: JobListResponse = { jobs: jobs.map(toJobSummary), total: jobs.length };
+      res.json(body);
     } catch (error) {
-      logger.error({ error }, 'Directory ingestion failed');
+      logger.error({ error }, 'Failed to list jobs');
       res.status(500).json({
-        error: error instanceof Error ? error.message : 'Ingestion failed',
+        error: error instanceof Error ? error.message : 'Failed to list jobs',
+      });
+    }
+  });
+
+  app.get('/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      if (!UUID_PATTERN.test(id)) {
+        res.status(400).json({ error: 'Invalid job id' });
+        return;
+      }
+
+      const job = await jobQueue.get(id);
+      if (!job) {
+        res.status(404).json({ error: 'Job not found' });
+        return;
+      }
+
+      res.json(toJobSummary(job));
+    } catch (error) {
+      logger.error({ error }, 'Failed to get job');
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to get job',
+      });
+    }
+  });
+
+  app.delete('/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      if (!UUID_PATTERN.test(id)) {
+        res.status(400).json({ error: 'Invalid job id' });
+        return;
+      }
+
+      const { job, changed } = await jobQueue.cancel(id);
+      if (!job) {
+        res.status(404).json({ error: 'Job not found' });
+        return;
+      }
+      if (!changed) {
+        res.status(409).json({ error: `Job has already ${job.state}` });
+        return;
+      }
+
+      // A running job stops at its next page or chunk batch
+      res.json(toJobSummary(job));
+    } catch (error) {
+      logger.error({ error }, 'Failed to cancel job');
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to cancel job',
+      });
+    }
+  });
+
+  // Document catalog endpoints
+  app.get('/documents', async (req: Request, res: Response) => {
+    try {
+      const documents = await ingestionPipeline.listDocuments();
+      const body: DocumentListResponse = {
+        documents: documents.map((doc) => toDocumentSummary(doc, doc.chunkCount)),
+        total: documents.length,
+      };
+      res.json(body);
+    } catch (error) {
+      logger.error({ error }, 'Failed to list documents');
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to list documents',
+      });
+    }
+  });
+
+  app.get('/documents/:id', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      if (!UUID_PATTERN.test(id)) {
+        res.status(400).json({ error: 'Invalid document id' });
+        return;
+      }
+
+      const result = await ingestionPipeline.getDocument(id);
+      if (!result) {
+        res.status(404).json({ error: 'Document not found' });
+        return;
+      }
+
+      const body: DocumentDetailResponse = {
+        document: toDocumentSummary(result.document, result.chunks.length),
+        chunks: result.chunks.map((chunk) => ({
+          id: chunk.id,
+          chunkIndex: chunk.chunkIndex,
+          pageNumber: chunk.pageNumber ?? undefined,
+          content: chunk.content,
+        })),
+      };
+      res.json(body);
+    } catch (error) {
+      logger.error({ error }, 'Failed to get document');
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to get document',
+      });
+    }
+  });
+
+  app.get('/documents/:id/versions', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      if (!UUID_PATTERN.test(id)) {
+        res.status(400).json({ error: 'Invalid document id' });
+        return;
+      }
+
+      const versions = await ingestionPipeline.getDocumentVersions(id);
+      if (versions.length === 0) {
+        res.status(404).json({ error: 'Document not found' });
+        return;
+      }
+
+      const body: DocumentVersionsResponse = {
+        versions: versions.map((doc) => toDocumentSummary(doc, doc.chunkCount)),
+        total: versions.length,
+      };
+      res.json(body);
+    } catch (error) {
+      logger.error({ error }, 'Failed to get document versions');
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to get document versions',
+      });
+    }
+  });
+
+  // Guardrail rule admin endpoints
+  app.get('/admin/guardrails', async (req: Request, res: Response) => {
+    try {
+      const rules = await getPostgresStore(config.postgres).getGuardrailRules();
+      res.json({ rules, total: rules.length });
+    } catch (error) {
+      logger.error({ error }, 'Failed to list guardrail rules');
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to list guardrail rules',
+      });
+    }
+  });
+
+  app.post('/admin/guardrails', async (req: Request, res: Response) => {
+    try {
+      const validationError = validateGuardrailRule(req.body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const { category, keywords, weight, disclaimer, referral } = req.body as GuardrailRuleInput;
+      const rule = await getPostgresStore(config.postgres).insertGuardrailRule({
+        category,
+        keywords,
+        weight: weight ?? 1,
+        disclaimer,
+        referral,
+      });
+      if (!rule) {
+        res.status(409).json({ error: `Guardrail category '${category}' already exists` });
+        return;
+      }
+
+      await retrievalPipeline.reloadGuardrails();
+      logger.info({ category }, 'Guardrail rule added');
+      res.status(201).json(rule);
+    } catch (error) {
+      logger.error({ error }, 'Failed to add guardrail rule');
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to add guardrail rule',
+      });
+    }
+  });
+
+  app.put('/admin/guardrails/:category', async (req: Request, res: Response) => {
+    try {
+      const validationError = validateGuardrailRuleUpdate(req.body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const { category } = req.params;
+      const { keywords, weight, disclaimer, referral } = req.body as GuardrailRuleUpdate;
+      const rule = await getPostgresStore(config.postgres).updateGuardrailRule(category, {
+        keywords,
+        weight,
+        disclaimer,
+        referral,
+      });
+      if (!rule) {
+        res.status(404).json({ error: 'Guardrail category not found' });
+        return;
+      }
+
+      await retrievalPipeline.reloadGuardrails();
+      logger.info({ category }, 'Guardrail rule updated');
+      res.json(rule);
+    } catch (error) {
+      logger.error({ error }, 'Failed to update guardrail rule');
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to update guardrail rule',
       });
     }
   });
@@ -162,6 +481,21 @@ export function createApiServer(config: Config): ApiServer {
     }
   });
 
+  // Clear cached answers, or only expired ones with ?expired=true
+  app.delete('/cache', async (req: Request, res: Response) => {
+    try {
+      const removed = await retrievalPipeline.clearCache({
+        expiredOnly: req.query.expired === 'true',
+      });
+      res.json({ removed });
+    } catch (error) {
+      logger.error({ error }, 'Failed to clear query cache');
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to clear query cache',
+      });
+    }
+  });
+
   // Serve static frontend files in production
   if (process.env.NODE_ENV === 'production') {
     // When compiled, __dirname is dist/api/, so ../frontend resolves to dist/frontend/
@@ -178,6 +512,10 @@ export function createApiServer(config: Config): ApiServer {
         req.path.startsWith('/query') ||
         req.path.startsWith('/health') ||
         req.path.startsWith('/metrics') ||
+        req.path.startsWith('/documents') ||
+        req.path.startsWith('/screen') ||
+        req.path.startsWith('/admin') ||
+        req.path.startsWith('/jobs') ||
         req.path.startsWith('/ingest')
       ) {
         return next();
@@ -206,20 +544,262 @@ export function createApiServer(config: Config): ApiServer {
   return { app, retrievalPipeline, ingestionPipeline };
 }
 
+/**
+ * Convert a stored document into its catalog representation
+ */
+function toDocumentSummary(doc: Document, chunkCount: number): DocumentSummary {
+  return {
+    id: doc.id,
+    filename: doc.filename,
+    title: doc.title ?? undefined,
+    totalPages: doc.totalPages ?? undefined,
+    ingestedAt: new Date(doc.ingestedAt).toISOString(),
+    documentType: doc.documentType ?? undefined,
+    sourceAuthority: doc.sourceAuthority ?? undefined,
+    legalWeight: doc.legalWeight ?? undefined,
+    effectiveDate: doc.effectiveDate
+      ? new Date(doc.effectiveDate).toISOString().slice(0, 10)
+      : undefined,
+    targetPrograms: doc.targetPrograms ?? undefined,
+    sourceUrl: doc.sourceUrl ?? undefined,
+    updateFrequency: doc.updateFrequency ?? undefined,
+    chunkCount,
+    version: doc.version ?? undefined,
+    supersededBy: doc.supersededBy ?? undefined,
+    supersededAt: doc.supersededAt ? new Date(doc.supersededAt).toISOString() : undefined,
+    expirationDate: doc.expirationDate
+      ? new Date(doc.expirationDate).toISOString().slice(0, 10)
+      : undefined,
+  };
+}
+
+/**
+ * Convert a stored job into its API representation
+ */
+function toJobSummary(job: IngestionJob): JobSummary {
+  return {
+    id: job.id,
+    type: job.request.type,
+    state: job.state,
+    progress: job.progress,
+    result: job.result,
+    error: job.error,
+    attempts: job.attempts,
+    cancelRequested: job.cancelRequested,
+    createdAt: new Date(job.createdAt).toISOString(),
+    startedAt: job.startedAt ? new Date(job.startedAt).toISOString() : undefined,
+    finishedAt: job.finishedAt ? new Date(job.finishedAt).toISOString() : undefined,
+  };
+}
+
+/**
+ * Check the shape of query filters, returning an error message if invalid
+ */
+function validateFilters(filters: unknown): string | null {
+  if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+    return 'filters must be an object';
+  }
+
+  const { documentTypes, sourceAuthority, legalWeight, targetPrograms, effectiveAfter } =
+    filters as Record<string, unknown>;
+  const isStringArray = (value: unknown) =>
+    Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+  if (documentTypes !== undefined && !isStringArray(documentTypes)) {
+    return 'filters.documentTypes must be an array of strings';
+  }
+  if (sourceAuthority !== undefined && sourceAuthority !== 'primary' && sourceAuthority !== 'secondary') {
+    return "filters.sourceAuthority must be 'primary' or 'secondary'";
+  }
+  if (
+    legalWeight !== undefined &&
+    !['regulatory', 'guidance', 'informational'].includes(legalWeight as string)
+  ) {
+    return "filters.legalWeight must be 'regulatory', 'guidance' or 'informational'";
+  }
+  if (targetPrograms !== undefined && !isStringArray(targetPrograms)) {
+    return 'filters.targetPrograms must be an array of strings';
+  }
+  if (
+    effectiveAfter !== undefined &&
+    (typeof effectiveAfter !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(effectiveAfter))
+  ) {
+    return 'filters.effectiveAfter must be a date (YYYY-MM-DD)';
+  }
+
+  return null;
+}
+
+/**
+ * Check per-query fusion overrides, returning an error message if invalid
+ */
+function validateFusion(fusion: unknown): string | null {
+  if (typeof fusion !== 'object' || fusion === null || Array.isArray(fusion)) {
+    return 'fusion must be an object';
+  }
+
+  const { strategy, weights, rrfK } = fusion as Record<string, unknown>;
+  const isWeight = (value: unknown) =>
+    value === undefined || (typeof value === 'number' && value >= 0 && value <= 10);
+
+  if (strategy !== undefined && !isFusionStrategy(strategy)) {
+    return "fusion.strategy must be 'rrf', 'combsum' or 'combmnz'";
+  }
+  if (weights !== undefined) {
+    if (typeof weights !== 'object' || weights === null || Array.isArray(weights)) {
+      return 'fusion.weights must be an object';
+    }
+    const { vector, bm25 } = weights as Record<string, unknown>;
+    if (!isWeight(vector) || !isWeight(bm25)) {
+      return 'fusion.weights.vector and fusion.weights.bm25 must be numbers from 0 to 10';
+    }
+  }
+  if (
+    rrfK !== undefined &&
+    (typeof rrfK !== 'number' || !Number.isInteger(rrfK) || rrfK < 1 || rrfK > 1000)
+  ) {
+    return 'fusion.rrfK must be an integer from 1 to 1000';
+  }
+
+  return null;
+}
+
+/**
+ * Check a screening request, returning an error message if invalid
+ */
+function validateScreeningRequest(body: unknown): string | null {
+  if (typeof body !== 'object' || body === null) {
+    return 'Request body must be an object';
+  }
+
+  const { householdSize, monthlyIncome, countableAssets, maritalStatus, age } =
+    body as Record<string, unknown>;
+  const isNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value);
+
+  if (
+    !isNumber(householdSize) ||
+    !Number.isInteger(householdSize) ||
+    householdSize < 1 ||
+    householdSize > 20
+  ) {
+    return 'householdSize must be a whole number between 1 and 20';
+  }
+  if (!isNumber(monthlyIncome) || monthlyIncome < 0) {
+    return 'monthlyIncome must be a non-negative number';
+  }
+  if (countableAssets !== undefined && (!isNumber(countableAssets) || countableAssets < 0)) {
+    return 'countableAssets must be a non-negative number';
+  }
+  if (!['single', 'married', 'widowed', 'divorced', 'separated'].includes(maritalStatus as string)) {
+    return "maritalStatus must be 'single', 'married', 'widowed', 'divorced' or 'separated'";
+  }
+  if (!isNumber(age) || age < 0 || age > 130) {
+    return 'age must be a number between 0 and 130';
+  }
+
+  return null;
+}
+
+/**
+ * Write a single Server-Sent Event
+ */
+function writeEvent(res: Response, event: QueryStreamEvent['type'], data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Run a query, streaming progress, answer tokens and the final response as SSE.
+ * The query is aborted when the client disconnects, and nothing more is written.
+ */
+async function streamQuery(
+  res: Response,
+  retrievalPipeline: RetrievalPipeline,
+  query: string,
+  options: Omit<QueryOptions, 'onEvent' | 'signal'>
+): Promise<void> {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  const send = (event: QueryStreamEvent['type'], data: unknown) => {
+    if (!controller.signal.aborted) {
+      writeEvent(res, event, data);
+    }
+  };
+
+  try {
+    const response = await retrievalPipeline.query(query, {
+      ...options,
+      signal: controller.signal,
+      onEvent: (event) => send(event.type, event),
+    });
+    send('done', { type: 'done', response });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      logger.info('Client disconnected, streaming query aborted');
+      return;
+    }
+    logger.error({ error }, 'Streaming query failed');
+    send('error', {
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Query failed',
+    });
+  } finally {
+    res.end();
+  }
+}
+
+/**
+ * Log migrations the database is missing; queries against missing columns
+ * otherwise fail quietly in the non-critical store reads
+ */
+async function warnOnUnappliedMigrations(config: Config): Promise<void> {
+  try {
+    const unapplied = await getUnappliedMigrations(config.postgres);
+    if (unapplied.length > 0) {
+      logger.warn(
+        { migrations: unapplied.map((m) => `${formatMigration(m)} (${m.state})`) },
+        'Database schema is not up to date, run `pnpm db:migrate`'
+      );
+    }
+  } catch (error) {
+    logger.warn({ error }, 'Could not check database migrations');
+  }
+}
+
 /**
  * Start the API server with graceful shutdown
  */
 export async function startServer(config: Config, port: number = 3000): Promise<void> {
-  const { app, ingestionPipeline } = createApiServer(config);
+  const { app, retrievalPipeline, ingestionPipeline } = createApiServer(config);
 
   // Initialize the ingestion pipeline
   await ingestionPipeline.initialize();
 
+  await warnOnUnappliedMigrations(config);
+
+  // Run queued ingestion jobs in the background
+  const jobWorker = createJobWorker(getPostgresStore(config.postgres), ingestionPipeline, {
+    // Invalidate retrieval cache so new documents are visible
+    onJobFinished: () => void retrievalPipeline.invalidateMetadataCache(),
+  });
+  await jobWorker.start();
+
   const server = http.createServer(app);
 
   // Graceful shutdown handler
   const gracefulShutdown = async (signal: string) => {
     logger.info({ signal }, 'Received shutdown signal, closing connections...');
+    jobWorker.stop();
 
     server.close(async () => {
       logger.info('HTTP server closed');
@@ -0,0 +1,289 @@
+#!/usr/bin/env node
+
+import { Command, InvalidArgumentError } from 'commander';
+import { join } from 'path';
+import { writeFile } from 'fs/promises';
+import { getConfig } from '../config/index.js';
+import { createRetrievalPipeline } from '../retrieval/pipeline.js';
+import { getPostgresStore } from '../clients/postgres.js';
+import {
+  createEvalRunner,
+  loadGoldenCases,
+  settingsFromConfig,
+  loadReport,
+  writeReport,
+  compareReports,
+  formatMarkdownReport,
+  formatRunComparison,
+  LabelledReport,
+  DEFAULT_GOLDEN_ANSWERS_PATH,
+  DEFAULT_RECALL_K,
+} from '../eval/index.js';
+import {
+  FUSION_STRATEGIES,
+  formatFusion,
+  isFusionStrategy,
+  resolveFusionSettings,
+} from '../retrieval/fusion.js';
+import type { FusionOptions, FusionStrategy } from '../types/index.js';
+import {
+  CalibrationMetrics,
+  CalibrationSample,
+  DEFAULT_CALIBRATION,
+  SIGNAL_NAMES,
+  evaluateCalibration,
+  fitCalibration,
+  loadCalibration,
+  saveCalibration,
+} from '../confidence/index.js';
+import { createChildLogger } from '../utils/logger.js';
+
+// Logger available for future debugging
+createChildLogger('cli-eval');
+
+const program = new Command();
+
+interface RunOptions {
+  fixtures: string;
+  out?: string;
+  baseline?: string;
+  k: number;
+  failOnRegression?: boolean;
+}
+
+program
+  .name('eval')
+  .description('Evaluate answers against the golden-answer fixtures')
+  .version('1.0.0');
+
+program
+  .command('run')
+  .description('Run every golden query through the retrieval pipeline and write a report')
+  .option('-f, --fixtures <path>', 'Golden answers file', DEFAULT_GOLDEN_ANSWERS_PATH)
+  .option('-o, --out <path>', 'Report path without extension (default: eval-reports/eval-<timestamp>)')
+  .option('-b, --baseline <path>', 'Previous JSON report to compare against')
+  .option('-k, --k <number>', 'Cutoff for recall@k', (value) => parseInt(value, 10), DEFAULT_RECALL_K)
+  .option('--fail-on-regression', 'Exit with an error if any case regressed against the baseline')
+  .action(async (options: RunOptions) => {
+    try {
+      const config = getConfig();
+      const pipeline = createRetrievalPipeline(config);
+      const cases = await loadGoldenCases(options.fixtures);
+
+      console.log(`\nEvaluating ${cases.length} golden queries...\n`);
+
+      const runner = createEvalRunner(pipeline, {
+        k: options.k,
+        settings: settingsFromConfig(config),
+        onCase: (result, index, total) => {
+          const status = result.error ? 'ERROR' : result.passed ? 'pass' : 'FAIL';
+          console.log(`  [${index + 1}/${total}] ${status.padEnd(5)} ${result.queryId}`);
+        },
+      });
+      const report = await runner.run(cases);
+
+      const baseline = options.baseline ? await loadReport(options.baseline) : undefined;
+      const comparison = baseline ? compareReports(baseline, report) : undefined;
+
+      const timestamp = report.generatedAt.replace(/[:.]/g, '-');
+      const basePath = options.out ?? join('eval-reports', `eval-${timestamp}`);
+      const { jsonPath, markdownPath } = await writeReport(report, basePath, comparison);
+
+      console.log();
+      console.log(`Passed: ${report.summary.passed}/${report.summary.total}`);
+      if (report.summary.meanRecallAtK !== null) {
+        console.log(`Recall@${report.k}: ${report.summary.meanRecallAtK.toFixed(2)}`);
+      }
+      if (report.summary.mrr !== null) {
+        console.log(`MRR: ${report.summary.mrr.toFixed(2)}`);
+      }
+      if (comparison) {
+        console.log(
+          `Regressions: ${comparison.regressions.length}, improvements: ${comparison.improvements.length}`
+        );
+      }
+      console.log(`\nReport written to ${jsonPath} and ${markdownPath}`);
+
+      await getPostgresStore(config.postgres).close();
+
+      if (options.failOnRegression && comparison && comparison.regressions.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('Evaluation failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('compare <baseline> <current>')
+  .description('Compare two JSON reports and print the differences as Markdown')
+  .action(async (baselinePath: string, currentPath: string) => {
+    try {
+      const [baseline, current] = await Promise.all([
+        loadReport(baselinePath),
+        loadReport(currentPath),
+      ]);
+
+      console.log(formatMarkdownReport(current, compareReports(baseline, current)));
+    } catch (error) {
+      console.error('Comparison failed:', error);
+      process.exit(1);
+    }
+  });
+
+interface FusionCompareOptions {
+  fixtures: string;
+  out?: string;
+  k: number;
+  strategies: FusionStrategy[];
+  bm25Weights?: number[];
+}
+
+function parseStrategies(value: string): FusionStrategy[] {
+  const strategies = value.split(',').map((item) => item.trim());
+  const unknown = strategies.filter((strategy) => !isFusionStrategy(strategy));
+  if (unknown.length > 0) {
+    throw new InvalidArgumentError(`Unknown fusion strategy: ${unknown.join(', ')}`);
+  }
+  return strategies as FusionStrategy[];
+}
+
+function parseWeights(value: string): number[] {
+  const weights = value.split(',').map((item) => parseFloat(item));
+  if (weights.some((weight) => isNaN(weight) || weight < 0 || weight > 10)) {
+    throw new InvalidArgumentError('Weights must be numbers from 0 to 10.');
+  }
+  return weights;
+}
+
+program
+  .command('fusion')
+  .description('Run the golden queries under each fusion strategy and rank the strategies')
+  .option('-f, --fixtures <path>', 'Golden answers file', DEFAULT_GOLDEN_ANSWERS_PATH)
+  .option('-o, --out <dir>', 'Report directory (default: eval-reports/fusion-<timestamp>)')
+  .option('-k, --k <number>', 'Cutoff for recall@k', (value) => parseInt(value, 10), DEFAULT_RECALL_K)
+  .option(
+    '-s, --strategies <list>',
+    'Strategies to compare (comma-separated)',
+    parseStrategies,
+    [...FUSION_STRATEGIES]
+  )
+  .option(
+    '--bm25-weights <list>',
+    'BM25 weights to try with each strategy (comma-separated; default: the configured weight)',
+    parseWeights
+  )
+  .action(async (options: FusionCompareOptions) => {
+    try {
+      const config = getConfig();
+      const pipeline = createRetrievalPipeline(config);
+      const cases = await loadGoldenCases(options.fixtures);
+      const bm25Weights = options.bm25Weights ?? [config.rag.fusionWeights.bm25];
+      const variants: FusionOptions[] = options.strategies.flatMap((strategy) =>
+        bm25Weights.map((bm25) => ({ strategy, weights: { bm25 } }))
+      );
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const outDir = options.out ?? join('eval-reports', `fusion-${timestamp}`);
+
+      console.log(
+        `\nEvaluating ${cases.length} golden queries under ${variants.length} fusion settings...`
+      );
+
+      const runs: LabelledReport[] = [];
+      for (const fusion of variants) {
+        const settings = resolveFusionSettings(config.rag, fusion);
+        const label = formatFusion(settings);
+        console.log(`\n${label}`);
+
+        const report = await createEvalRunner(pipeline, {
+          k: options.k,
+          settings: settingsFromConfig(config, fusion),
+          fusion,
+          onCase: (result, index, total) => {
+            const status = result.error ? 'ERROR' : result.passed ? 'pass' : 'FAIL';
+            console.log(`  [${index + 1}/${total}] ${status.padEnd(5)} ${result.queryId}`);
+          },
+        }).run(cases);
+
+        const name = `${settings.strategy}-bm25-${settings.weights.bm25}`;
+        await writeReport(report, join(outDir, name));
+        runs.push({ label, report });
+      }
+
+      const markdown = formatRunComparison('Fusion strategy comparison', runs);
+      const comparisonPath = join(outDir, 'comparison.md');
+      await writeFile(comparisonPath, markdown);
+
+      console.log(`\n${markdown}`);
+      console.log(`Reports written to ${outDir}`);
+
+      await getPostgresStore(config.postgres).close();
+    } catch (error) {
+      console.error('Fusion comparison failed:', error);
+      process.exit(1);
+    }
+  });
+
+interface CalibrateOptions {
+  out: string;
+  from?: string;
+}
+
+function printCalibrationMetrics(label: string, metrics: CalibrationMetrics): void {
+  const format = (value: number | null) => (value === null ? '–' : value.toFixed(3));
+  console.log(
+    `${label}: Brier ${format(metrics.brierScore)}, ` +
+      `calibration error ${format(metrics.expectedCalibrationError)}`
+  );
+  for (const [band, { count, accuracy }] of Object.entries(metrics.bands)) {
+    const rate = accuracy === null ? '' : `, ${(accuracy * 100).toFixed(0)}% passed`;
+    console.log(`  ${band.padEnd(6)} ${count} answers${rate}`);
+  }
+}
+
+program
+  .command('calibrate <report>')
+  .description(
+    'Fit the confidence weights to a JSON report (run it with ABSTAIN_THRESHOLD=0 so every ' +
+      'answer is scored)'
+  )
+  .option('-o, --out <path>', 'Where to write the calibration', 'confidence-calibration.json')
+  .option('--from <path>', 'Calibration to start from (default: the built-in weights)')
+  .action(async (reportPath: string, options: CalibrateOptions) => {
+    try {
+      const report = await loadReport(reportPath);
+      const samples: CalibrationSample[] = report.cases
+        .filter((c) => c.signals && !c.error && !c.abstained)
+        .map((c) => ({ signals: c.signals!, correct: c.passed }));
+      const skipped = report.cases.length - samples.length;
+
+      console.log(`\nCalibrating against ${samples.length} answered golden queries`);
+      if (skipped > 0) {
+        console.log(`(${skipped} skipped: errors, abstentions or no confidence signals)`);
+      }
+      console.log();
+
+      const initial = options.from ? await loadCalibration(options.from) : DEFAULT_CALIBRATION;
+      const fitted = fitCalibration(samples, initial);
+
+      printCalibrationMetrics('Before', evaluateCalibration(samples, initial));
+      printCalibrationMetrics('After', evaluateCalibration(samples, fitted));
+
+      const change = (label: string, before: number, after: number) =>
+        console.log(`  ${label.padEnd(10)} ${before.toFixed(2)} → ${after.toFixed(2)}`);
+      console.log('\nWeights:');
+      for (const name of SIGNAL_NAMES) {
+        change(name, initial.weights[name], fitted.weights[name]);
+      }
+      change('bias', initial.bias, fitted.bias);
+
+      await saveCalibration(options.out, fitted);
+      console.log(`\nCalibration written to ${options.out}; set CONFIDENCE_CALIBRATION to use it`);
+    } catch (error) {
+      console.error('Calibration failed:', error);
+      process.exit(1);
+    }
+  });
+
+program.parse();
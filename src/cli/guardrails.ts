@@ -0,0 +1,166 @@
+#!/usr/bin/env node
+
+import { Command } from 'commander';
+import { getConfig } from '../config/index.js';
+import { PostgresStore, getPostgresStore } from '../clients/postgres.js';
+import {
+  DEFAULT_GUARDRAIL_RULES,
+  validateGuardrailRule,
+  validateGuardrailRuleUpdate,
+} from '../guardrails/index.js';
+import { GuardrailRule, GuardrailRuleInput, GuardrailRuleUpdate } from '../types/index.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('guardrails-cli');
+
+const program = new Command();
+
+const RELOAD_NOTE = 'Running API servers pick up the change within a minute.';
+
+interface RuleOptions {
+  keywords?: string[];
+  disclaimer?: string;
+  referral?: string;
+  weight?: number;
+  removeReferral?: boolean;
+}
+
+program
+  .name('guardrails')
+  .description('Manage the sensitive topic rules behind answer disclaimers')
+  .version('1.0.0');
+
+/**
+ * List all rules
+ */
+program
+  .command('list')
+  .description('List sensitive topic categories with their keywords, disclaimers and referrals')
+  .action(async () => {
+    await withStore(async (store) => {
+      const rules = await store.getGuardrailRules();
+
+      if (rules.length === 0) {
+        console.log('\nNo rules stored; the API is using the built-in rules:');
+        printRules(DEFAULT_GUARDRAIL_RULES);
+        return;
+      }
+
+      printRules(rules);
+    });
+  });
+
+/**
+ * Add a category
+ */
+program
+  .command('add <category>')
+  .description('Add a sensitive topic category')
+  .requiredOption('-k, --keywords <keywords>', 'Comma-separated keywords', parseKeywords)
+  .requiredOption('-d, --disclaimer <text>', 'Disclaimer added to answers')
+  .option('-r, --referral <text>', 'Where to get professional help')
+  .option('-w, --weight <number>', 'Match weight when categories compete', parseFloat, 1)
+  .action(async (category: string, options: RuleOptions) => {
+    const rule = {
+      category,
+      keywords: options.keywords,
+      disclaimer: options.disclaimer,
+      referral: options.referral,
+      weight: options.weight,
+    };
+    exitOnInvalid(validateGuardrailRule(rule));
+
+    await withStore(async (store) => {
+      const added = await store.insertGuardrailRule(rule as GuardrailRuleInput);
+      if (!added) {
+        console.error(`Category '${category}' already exists; use "edit" to change it.`);
+        process.exitCode = 1;
+        return;
+      }
+
+      console.log(`\n✅ Added '${category}'`);
+      printRules([added]);
+      console.log(RELOAD_NOTE);
+    });
+  });
+
+/**
+ * Edit a category
+ */
+program
+  .command('edit <category>')
+  .description('Change the keywords, disclaimer, referral or weight of a category')
+  .option('-k, --keywords <keywords>', 'Comma-separated keywords (replaces the existing list)', parseKeywords)
+  .option('-d, --disclaimer <text>', 'Disclaimer added to answers')
+  .option('-r, --referral <text>', 'Where to get professional help')
+  .option('--remove-referral', 'Remove the referral')
+  .option('-w, --weight <number>', 'Match weight when categories compete', parseFloat)
+  .action(async (category: string, options: RuleOptions) => {
+    const changes: GuardrailRuleUpdate = {
+      keywords: options.keywords,
+      disclaimer: options.disclaimer,
+      referral: options.removeReferral ? null : options.referral,
+      weight: options.weight,
+    };
+    exitOnInvalid(validateGuardrailRuleUpdate(changes));
+
+    await withStore(async (store) => {
+      const updated = await store.updateGuardrailRule(category, changes);
+      if (!updated) {
+        console.error(`Category '${category}' not found.`);
+        process.exitCode = 1;
+        return;
+      }
+
+      console.log(`\n✅ Updated '${category}'`);
+      printRules([updated]);
+      console.log(RELOAD_NOTE);
+    });
+  });
+
+program.parse();
+
+function parseKeywords(value: string): string[] {
+  return value
+    .split(',')
+    .map((keyword) => keyword.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function exitOnInvalid(error: string | null): void {
+  if (error) {
+    console.error(`Error: ${error}`);
+    process.exit(1);
+  }
+}
+
+async function withStore(
+  action: (store: PostgresStore) => Promise<void>
+): Promise<void> {
+  const store = getPostgresStore(getConfig().postgres);
+  try {
+    await action(store);
+  } catch (error) {
+    logger.error({ error }, 'Guardrail command failed');
+    console.error('Error:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await store.close();
+  }
+}
+
+function printRules(rules: GuardrailRule[]): void {
+  console.log('━'.repeat(80));
+  for (const rule of rules) {
+    console.log(`\n🛡️  ${rule.category} (weight ${rule.weight})`);
+    console.log(`   Keywords: ${rule.keywords.join(', ')}`);
+    console.log(`   Disclaimer: ${rule.disclaimer}`);
+    if (rule.referral) {
+      console.log(`   Referral: ${rule.referral.replace(/\n/g, '\n             ')}`);
+    }
+    if (rule.updatedAt) {
+      console.log(`   Updated: ${new Date(rule.updatedAt).toLocaleString()}`);
+    }
+  }
+  console.log('\n' + '━'.repeat(80));
+}
@@ -1,24 +1,49 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import { getConfig } from '../config/index.js';
-import { createIngestionPipeline } from '../ingestion/pipeline.js';
+import { getPostgresStore } from '../clients/postgres.js';
+import { getQdrantStore } from '../clients/qdrant.js';
+import { getLMStudioClient } from '../clients/lm-studio.js';
+import { EmbeddingRegistry, createEmbeddingRegistry } from '../clients/embedding-registry.js';
+import { RebuildOptions, createIngestionPipeline } from '../ingestion/pipeline.js';
+import { createOcrPageCache } from '../ingestion/ocr-cache.js';
+import { MIN_PAGE_QUALITY } from '../ingestion/ocr-quality.js';
 import { createChildLogger } from '../utils/logger.js';
+import type { DocumentType, OcrCachePruneFilter } from '../types/index.js';
 
 // Logger available for future debugging
 createChildLogger('cli-ingest');
 
+interface DirectoryOptions {
+  recursive: boolean;
+  saveMarkdown: boolean;
+  reuseOcr: boolean;
+}
+
+interface PruneOptions {
+  unusedDays?: number;
+  otherModels: boolean;
+  orphaned: boolean;
+  all: boolean;
+}
+
 const program = new Command();
 
 program
   .name('ingest')
-  .description('Ingest PDF documents into the Medicaid RAG system')
+  .description('Ingest documents (PDF, DOCX, HTML, Markdown, text) into the Medicaid RAG system')
   .version('1.0.0');
 
 program
   .command('file <filepath>')
-  .description('Ingest a single PDF file')
-  .action(async (filepath: string) => {
+  .description('Ingest a single PDF, DOCX, HTML, Markdown or text file')
+  .option(
+    '-t, --type <documentType>',
+    'Document type (pa_code, oim_ltc_handbook, oim_ma_handbook and pa_bulletin are chunked by section)'
+  )
+  .option('--reuse-ocr', 'Use cached OCR output for pages OCRed before', false)
+  .action(async (filepath: string, options: { type?: DocumentType; reuseOcr: boolean }) => {
     try {
       console.log(`Ingesting file: ${filepath}`);
 
@@ -26,7 +51,10 @@ program
       const pipeline = createIngestionPipeline(config);
 
       await pipeline.initialize();
-      const result = await pipeline.ingestFile(filepath);
+      const result = await pipeline.ingestFile(filepath, {
+        documentType: options.type,
+        reuseOcr: options.reuseOcr,
+      });
 
       console.log('\nIngestion complete:');
       console.log(`  Document ID: ${result.document.id}`);
@@ -42,14 +70,16 @@ program
 
 program
   .command('directory <dirpath>')
-  .description('Ingest all PDF files in a directory')
+  .description('Ingest all supported files in a directory')
   .option('-r, --recursive', 'Process subdirectories recursively', false)
   .option('-m, --save-markdown', 'Save extracted markdown files', false)
-  .action(async (dirpath: string, options: { recursive: boolean; saveMarkdown: boolean }) => {
+  .option('--reuse-ocr', 'Use cached OCR output, e.g. to resume an interrupted ingest', false)
+  .action(async (dirpath: string, options: DirectoryOptions) => {
     try {
       console.log(`Ingesting directory: ${dirpath}`);
       console.log(`  Recursive: ${options.recursive}`);
       console.log(`  Save Markdown: ${options.saveMarkdown}`);
+      console.log(`  Reuse OCR: ${options.reuseOcr}`);
 
       const config = getConfig();
       const pipeline = createIngestionPipeline(config);
@@ -58,6 +88,7 @@ program
       const stats = await pipeline.ingestDirectory(dirpath, {
         recursive: options.recursive,
         saveMarkdown: options.saveMarkdown,
+        reuseOcr: options.reuseOcr,
       });
 
       console.log('\nIngestion complete:');
@@ -76,6 +107,188 @@ program
     }
   });
 
+program
+  .command('reocr <documentId>')
+  .description('OCR the low-quality pages of an ingested PDF again and re-embed it')
+  .option(
+    '-t, --threshold <score>',
+    'Re-OCR pages scoring below this (0-1)',
+    parseScore,
+    MIN_PAGE_QUALITY
+  )
+  .option('-p, --pages <pages>', 'Re-OCR these pages instead, e.g. 3,7,12', parsePages)
+  .action(async (documentId: string, options: { threshold: number; pages?: number[] }) => {
+    try {
+      const config = getConfig();
+      const pipeline = createIngestionPipeline(config);
+
+      await pipeline.initialize();
+      const result = await pipeline.reocrDocument(documentId, {
+        threshold: options.threshold,
+        pages: options.pages,
+      });
+
+      if (result.pagesReprocessed.length === 0) {
+        console.log(`No pages score below ${options.threshold}; nothing to re-OCR.`);
+        return;
+      }
+
+      console.log('\nRe-OCR complete:');
+      console.log(`  Pages Reprocessed: ${result.pagesReprocessed.join(', ')}`);
+      console.log(`  Pages Improved: ${result.pagesImproved.join(', ') || 'none'}`);
+      if (result.pagesImproved.length > 0) {
+        console.log(`  Chunks Created: ${result.chunksCreated}`);
+      }
+      console.log(`  Low-Quality Pages Left: ${result.lowQualityPages.join(', ') || 'none'}`);
+    } catch (error) {
+      console.error('Re-OCR failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('rechunk')
+  .description(
+    'Split every document again with the current chunk settings and re-embed it into a new ' +
+      'collection, from the stored markdown'
+  )
+  .option('--keep-previous', 'Keep the previous collection instead of deleting it', false)
+  .action(async (options: { keepPrevious: boolean }) => {
+    await rebuild({ rechunk: true, keepPrevious: options.keepPrevious });
+  });
+
+program
+  .command('reembed')
+  .description('Embed every chunk again with the current embedding model into a new collection')
+  .option('--keep-previous', 'Keep the previous collection instead of deleting it', false)
+  .action(async (options: { keepPrevious: boolean }) => {
+    await rebuild({ rechunk: false, keepPrevious: options.keepPrevious });
+  });
+
+const collections = program
+  .command('collections')
+  .description('List, switch between and drop Qdrant collections built with different models');
+
+collections
+  .command('list')
+  .description('List collections with the embedding model each was built with')
+  .action(async () => {
+    await withEmbeddingRegistry(async (registry) => {
+      const config = getConfig();
+      const entries = await registry.list();
+      if (entries.length === 0) {
+        console.log('No collections yet.');
+        return;
+      }
+
+      for (const { name, aliases, registration } of entries) {
+        const live = aliases.includes(config.qdrant.collection) ? ' (searched)' : '';
+        console.log(`${name}${live}`);
+        if (aliases.length > 0) {
+          console.log(`  Aliases: ${aliases.join(', ')}`);
+        }
+        if (registration) {
+          console.log(`  Model: ${registration.model}`);
+          console.log(`  Vectors: ${registration.dimension} dimensions, ${registration.distance}`);
+          console.log(`  Registered: ${registration.createdAt.toISOString()}`);
+        } else {
+          console.log('  Model: unknown (not registered)');
+        }
+      }
+    });
+  });
+
+collections
+  .command('use <collection>')
+  .description('Search another collection; LM_STUDIO_EMBEDDING_MODEL must be its model')
+  .action(async (collection: string) => {
+    await withEmbeddingRegistry(async (registry) => {
+      const previous = await registry.use(collection);
+      console.log(`${getConfig().qdrant.collection} now points at ${collection}.`);
+      if (previous) {
+        console.log(`It pointed at ${previous}, which is kept.`);
+      }
+    });
+  });
+
+collections
+  .command('drop <collection>')
+  .description('Delete a collection that is not being searched')
+  .action(async (collection: string) => {
+    await withEmbeddingRegistry(async (registry) => {
+      await registry.drop(collection);
+      console.log(`Dropped ${collection}.`);
+    });
+  });
+
+const ocrCache = program
+  .command('ocr-cache')
+  .description('Inspect and prune the cache of per-page OCR output');
+
+ocrCache
+  .command('stats')
+  .description('Show how much OCR output is cached')
+  .action(async () => {
+    const config = getConfig();
+    const postgres = getPostgresStore(config.postgres);
+    try {
+      const stats = await createOcrPageCache(postgres).stats();
+
+      console.log('OCR Cache:');
+      console.log(`  Cached Pages: ${stats.entries}`);
+      console.log(`  Files: ${stats.files}`);
+      console.log(`  Size: ${formatBytes(stats.totalBytes)}`);
+      if (stats.oldestUsedAt) {
+        console.log(`  Oldest Use: ${stats.oldestUsedAt.toISOString()}`);
+      }
+      for (const { model, entries } of stats.byModel) {
+        const current = model === config.lmStudio.ocrModel ? ' (current)' : '';
+        console.log(`  Model ${model}${current}: ${entries} pages`);
+      }
+    } catch (error) {
+      console.error('Failed to get OCR cache stats:', error);
+      process.exitCode = 1;
+    } finally {
+      await postgres.close();
+    }
+  });
+
+ocrCache
+  .command('prune')
+  .description('Remove cached OCR output. Entries must match every option given.')
+  .option('--unused-days <days>', 'Entries not used for this many days', parseDays)
+  .option('--other-models', 'Entries from OCR models other than the configured one', false)
+  .option('--orphaned', 'Entries for files no longer ingested', false)
+  .option('--all', 'Remove every entry', false)
+  .action(async (options: PruneOptions) => {
+    const filter: OcrCachePruneFilter = {
+      unusedDays: options.unusedDays,
+      orphaned: options.orphaned || undefined,
+    };
+    const config = getConfig();
+    if (options.otherModels) {
+      filter.exceptModel = config.lmStudio.ocrModel;
+    }
+
+    const filtered = Object.values(filter).some((value) => value !== undefined);
+    if (filtered === options.all) {
+      console.error('Give --unused-days, --other-models or --orphaned, or --all on its own.');
+      process.exitCode = 1;
+      return;
+    }
+
+    const postgres = getPostgresStore(config.postgres);
+    try {
+      const removed = await createOcrPageCache(postgres).prune(filter);
+      console.log(`Removed ${removed} cached OCR pages.`);
+    } catch (error) {
+      console.error('Failed to prune OCR cache:', error);
+      process.exitCode = 1;
+    } finally {
+      await postgres.close();
+    }
+  });
+
 program
   .command('stats')
   .description('Show ingestion statistics')
@@ -101,3 +314,91 @@ program
   });
 
 program.parse();
+
+async function withEmbeddingRegistry(
+  action: (registry: EmbeddingRegistry) => Promise<void>
+): Promise<void> {
+  const config = getConfig();
+  const postgres = getPostgresStore(config.postgres);
+  try {
+    await action(
+      createEmbeddingRegistry(
+        postgres,
+        getQdrantStore(config.qdrant),
+        getLMStudioClient(config.lmStudio)
+      )
+    );
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await postgres.close();
+  }
+}
+
+/**
+ * Rebuild the vector index and switch searches over to it
+ */
+async function rebuild(options: RebuildOptions): Promise<void> {
+  try {
+    const config = getConfig();
+    const pipeline = createIngestionPipeline(config);
+
+    console.log(options.rechunk ? 'Re-chunking documents...' : 'Re-embedding chunks...');
+    console.log(`  Chunk Size: ${config.rag.chunkSize} (overlap ${config.rag.chunkOverlap})`);
+    console.log(`  Embedding Model: ${config.lmStudio.embeddingModel}`);
+
+    // The live collection may not match a new model, which is why it is rebuilt
+    await pipeline.initialize({ verifyEmbeddings: false });
+    const result = await pipeline.rebuildIndex(options);
+
+    console.log('\nRebuild complete:');
+    console.log(`  Collection: ${result.collection} (now searched as ${config.qdrant.collection})`);
+    console.log(`  Documents: ${result.documentsRebuilt}`);
+    console.log(`  Chunks Embedded: ${result.chunksEmbedded}`);
+    if (result.previousCollection) {
+      console.log(`  Previous Collection Kept: ${result.previousCollection}`);
+    }
+    if (result.documentsNotRechunked.length > 0) {
+      console.log('\nNo stored markdown, existing chunks re-embedded instead:');
+      result.documentsNotRechunked.forEach((filename) => console.log(`  - ${filename}`));
+    }
+  } catch (error) {
+    console.error('Rebuild failed:', error);
+    process.exit(1);
+  }
+}
+
+function parseScore(value: string): number {
+  const score = Number(value);
+  if (!Number.isFinite(score) || score < 0 || score > 1) {
+    throw new InvalidArgumentError('Must be a number from 0 to 1.');
+  }
+  return score;
+}
+
+function parsePages(value: string): number[] {
+  const pages = value.split(',').map((page) => Number(page.trim()));
+  if (pages.some((page) => !Number.isInteger(page) || page < 1)) {
+    throw new InvalidArgumentError('Must be comma-separated page numbers.');
+  }
+  return pages;
+}
+
+function parseDays(value: string): number {
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0) {
+    throw new InvalidArgumentError('Must be a whole number of days.');
+  }
+  return days;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,297 @@
+#!/usr/bin/env node
+
+import { Command, InvalidArgumentError } from 'commander';
+import { setTimeout as sleep } from 'timers/promises';
+import { getConfig } from '../config/index.js';
+import { PostgresStore, getPostgresStore } from '../clients/postgres.js';
+import { createIngestionPipeline } from '../ingestion/pipeline.js';
+import { createJobQueue, createJobWorker, JobQueue } from '../jobs/index.js';
+import { IngestionJob, IngestionJobRequest, JobState } from '../types/index.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('jobs-cli');
+
+const program = new Command();
+
+const JOB_STATES: JobState[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+const STATE_ICONS: Record<JobState, string> = {
+  queued: '⏳',
+  running: '⚙️ ',
+  succeeded: '✅',
+  failed: '❌',
+  cancelled: '⏹️ ',
+};
+
+program
+  .name('jobs')
+  .description('Watch, cancel and run background ingestion jobs')
+  .version('1.0.0');
+
+/**
+ * List jobs
+ */
+program
+  .command('list')
+  .description('List recent ingestion jobs, newest first')
+  .option('-s, --state <state>', `Only jobs in this state (${JOB_STATES.join(', ')})`, parseState)
+  .option('-n, --limit <number>', 'Number of jobs to show', parsePositiveInt, 20)
+  .action(async (options: { state?: JobState; limit: number }) => {
+    await withQueue(async (queue) => {
+      const jobs = await queue.list({ state: options.state, limit: options.limit });
+
+      if (jobs.length === 0) {
+        console.log('\nNo jobs found.');
+        return;
+      }
+
+      console.log('━'.repeat(80));
+      for (const job of jobs) {
+        const type = job.request.type.padEnd(16);
+        console.log(
+          `${STATE_ICONS[job.state]} ${job.id}  ${type} ${job.state.padEnd(9)} ${formatProgress(job)}`
+        );
+      }
+      console.log('━'.repeat(80));
+    });
+  });
+
+/**
+ * Show one job
+ */
+program
+  .command('show <id>')
+  .description('Show the request, progress and result of a job')
+  .action(async (id: string) => {
+    await withQueue(async (queue) => {
+      const job = await queue.get(id);
+      if (!job) {
+        exitNotFound(id);
+        return;
+      }
+      printJob(job);
+    });
+  });
+
+/**
+ * Follow a job until it finishes
+ */
+program
+  .command('watch <id>')
+  .description('Print progress until the job finishes')
+  .option('-i, --interval <seconds>', 'Seconds between updates', parsePositiveInt, 2)
+  .action(async (id: string, options: { interval: number }) => {
+    await withQueue(async (queue) => {
+      let last = '';
+      for (;;) {
+        const job = await queue.get(id);
+        if (!job) {
+          exitNotFound(id);
+          return;
+        }
+
+        const line = `${STATE_ICONS[job.state]} ${job.state.padEnd(9)} ${formatProgress(job)}`;
+        if (line !== last) {
+          console.log(line);
+          last = line;
+        }
+
+        if (isFinished(job.state)) {
+          printJob(job);
+          if (job.state !== 'succeeded') {
+            process.exitCode = 1;
+          }
+          return;
+        }
+        await sleep(options.interval * 1000);
+      }
+    });
+  });
+
+/**
+ * Cancel a job
+ */
+program
+  .command('cancel <id>')
+  .description('Cancel a queued job, or stop a running one after its current page or batch')
+  .action(async (id: string) => {
+    await withQueue(async (queue) => {
+      const { job, changed } = await queue.cancel(id);
+      if (!job) {
+        exitNotFound(id);
+        return;
+      }
+      if (!changed) {
+        console.error(`Job ${id} has already ${job.state}.`);
+        process.exitCode = 1;
+        return;
+      }
+
+      console.log(
+        job.state === 'cancelled'
+          ? `⏹️  Cancelled job ${id}.`
+          : `⏹️  Cancellation requested; job ${id} stops at its next progress check.`
+      );
+    });
+  });
+
+/**
+ * Retry a job
+ */
+program
+  .command('retry <id>')
+  .description('Queue a failed or cancelled job again')
+  .action(async (id: string) => {
+    await withQueue(async (queue) => {
+      const { job, changed } = await queue.retry(id);
+      if (!job) {
+        exitNotFound(id);
+        return;
+      }
+      if (!changed) {
+        console.error(`Only failed or cancelled jobs can be retried; job ${id} is ${job.state}.`);
+        process.exitCode = 1;
+        return;
+      }
+
+      console.log(`🔁 Queued job ${id} again.`);
+    });
+  });
+
+/**
+ * Run a worker
+ */
+program
+  .command('work')
+  .description('Run queued jobs in this process (the API server also runs a worker)')
+  .option('--once', 'Exit once the queue is empty', false)
+  .action(async (options: { once: boolean }) => {
+    const config = getConfig();
+    await withStore(async (store) => {
+      const worker = createJobWorker(store, createIngestionPipeline(config), {
+        onJobFinished: (job, state) => console.log(`${STATE_ICONS[state]} ${job.id} ${state}`),
+      });
+
+      if (options.once) {
+        const count = await worker.drain();
+        console.log(`\nRan ${count} job(s).`);
+        return;
+      }
+
+      console.log('👷 Waiting for jobs (Ctrl+C to stop)...');
+      await worker.start();
+      await new Promise<void>((resolve) => {
+        process.once('SIGINT', resolve);
+        process.once('SIGTERM', resolve);
+      });
+      worker.stop();
+    });
+  });
+
+program.parse();
+
+function parseState(value: string): JobState {
+  if (!JOB_STATES.includes(value as JobState)) {
+    throw new InvalidArgumentError(`State must be one of: ${JOB_STATES.join(', ')}.`);
+  }
+  return value as JobState;
+}
+
+function parsePositiveInt(value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new InvalidArgumentError('Must be a positive whole number.');
+  }
+  return number;
+}
+
+function isFinished(state: JobState): boolean {
+  return state === 'succeeded' || state === 'failed' || state === 'cancelled';
+}
+
+function exitNotFound(id: string): void {
+  console.error(`Job ${id} not found.`);
+  process.exitCode = 1;
+}
+
+async function withStore(action: (store: PostgresStore) => Promise<void>): Promise<void> {
+  const store = getPostgresStore(getConfig().postgres);
+  try {
+    await action(store);
+  } catch (error) {
+    logger.error({ error }, 'Jobs command failed');
+    console.error('Error:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await store.close();
+  }
+}
+
+async function withQueue(action: (queue: JobQueue) => Promise<void>): Promise<void> {
+  await withStore((store) => action(createJobQueue(store)));
+}
+
+function formatProgress(job: IngestionJob): string {
+  const { progress } = job;
+  const parts: string[] = [];
+
+  if (progress.filesTotal > 0) {
+    parts.push(`files ${progress.filesDone}/${progress.filesTotal}`);
+  }
+  if (progress.pagesTotal > 0) {
+    parts.push(`pages ${progress.pagesDone}/${progress.pagesTotal}`);
+  }
+  if (progress.chunksTotal > 0) {
+    parts.push(`chunks ${progress.chunksDone}/${progress.chunksTotal}`);
+  }
+  if (progress.failedPages.length > 0) {
+    parts.push(`${progress.failedPages.length} failed page(s)`);
+  }
+  if (job.state === 'running' && progress.currentFile) {
+    parts.push(progress.currentFile);
+  }
+
+  return parts.join(', ');
+}
+
+function describeRequest(request: IngestionJobRequest): string {
+  switch (request.type) {
+    case 'ingest_file':
+      return request.filepath;
+    case 'ingest_directory':
+      return `${request.dirPath}${request.recursive ? ' (recursive)' : ''}`;
+    case 'ingest_scraped':
+      return `${request.items.length} item(s) from ${request.sourceName ?? 'source monitor'}`;
+  }
+}
+
+function printJob(job: IngestionJob): void {
+  console.log('━'.repeat(80));
+  console.log(`\n${STATE_ICONS[job.state]} Job ${job.id} (${job.request.type})`);
+  const cancelling = job.cancelRequested && job.state === 'running' ? ' (cancelling)' : '';
+  console.log(`   State: ${job.state}${cancelling}`);
+  console.log(`   Request: ${describeRequest(job.request)}`);
+  console.log(`   Attempts: ${job.attempts}`);
+  console.log(`   Created: ${new Date(job.createdAt).toLocaleString()}`);
+  if (job.startedAt) {
+    console.log(`   Started: ${new Date(job.startedAt).toLocaleString()}`);
+  }
+  if (job.finishedAt) {
+    console.log(`   Finished: ${new Date(job.finishedAt).toLocaleString()}`);
+  }
+
+  const progress = formatProgress(job);
+  if (progress) {
+    console.log(`   Progress: ${progress}`);
+  }
+  for (const { file, page } of job.progress.failedPages) {
+    console.log(`   OCR failed: ${file} page ${page}`);
+  }
+  if (job.error) {
+    console.log(`   Error: ${job.error}`);
+  }
+  if (job.result) {
+    console.log(`   Result: ${JSON.stringify(job.result)}`);
+  }
+  console.log('\n' + '━'.repeat(80));
+}
@@ -3,6 +3,7 @@
 import { Command } from 'commander';
 import { Pool } from 'pg';
 import { getConfig } from '../config/index.js';
+import { getPostgresStore } from '../clients/postgres.js';
 import { createSourceMonitorService } from '../monitoring/index.js';
 import { CheckFrequency } from '../monitoring/types.js';
 import { createChildLogger } from '../utils/logger.js';
@@ -80,7 +81,8 @@ program
     const pool = new Pool(config.postgres);
 
     try {
-      const service = createSourceMonitorService(pool);
+      // New items are queued as ingestion jobs for the worker to pick up
+      const service = createSourceMonitorService(pool, config);
 
       console.log('\n🔍 Checking sources for changes...\n');
 
@@ -97,6 +99,7 @@ program
       console.log(`  Changes detected: ${result.changesDetected}`);
       console.log(`  Ingestions succeeded: ${result.ingestionsSucceeded}`);
       console.log(`  Ingestions failed: ${result.ingestionsFailed}`);
+      console.log(`  Ingestions queued: ${result.ingestionsQueued}`);
       console.log(
         `  Duration: ${result.completedAt.getTime() - result.startedAt.getTime()}ms`
       );
@@ -127,6 +130,9 @@ program
               console.log(`     ... and ${detail.changeDetection.newItems.length - 3} more`);
             }
           }
+          if (detail.ingestionJobId) {
+            console.log(`   Queued as job ${detail.ingestionJobId} (pnpm jobs watch <id>)`);
+          }
         }
       }
 
@@ -137,6 +143,7 @@ program
       process.exit(1);
     } finally {
       await pool.end();
+      await getPostgresStore(config.postgres).close();
     }
   });
 
@@ -175,6 +182,9 @@ program
           console.log(`   Summary: ${change.changeSummary}`);
           console.log(`   Items added: ${change.itemsAdded}, removed: ${change.itemsRemoved}`);
           console.log(`   Ingestion: ${change.ingestionStatus}`);
+          if (change.ingestionJobId) {
+            console.log(`   Job: ${change.ingestionJobId}`);
+          }
           if (change.ingestionError) {
             console.log(`   Error: ${change.ingestionError}`);
           }
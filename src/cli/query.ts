@@ -1,16 +1,115 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import { createInterface } from 'readline';
+import { v4 as uuid } from 'uuid';
 import { getConfig } from '../config/index.js';
 import { createRetrievalPipeline } from '../retrieval/pipeline.js';
 import { createChildLogger } from '../utils/logger.js';
+import { isPromptMode } from '../prompts/profiles.js';
+import { formatFusion, isFusionStrategy } from '../retrieval/fusion.js';
+import type {
+  DocumentType,
+  FusionOptions,
+  FusionStrategy,
+  LegalWeight,
+  PromptMode,
+  QueryFilters,
+  SourceAuthority,
+} from '../types/index.js';
 
 // Logger available for future debugging
 createChildLogger('cli-query');
 
 const program = new Command();
 
+/**
+ * Split a comma-separated option value into a list
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse the --mode option
+ */
+function parseMode(value: string): PromptMode {
+  if (!isPromptMode(value)) {
+    throw new InvalidArgumentError('Mode must be senior, caregiver or caseworker.');
+  }
+  return value;
+}
+
+/**
+ * Parse the --fusion option
+ */
+function parseFusionStrategy(value: string): FusionStrategy {
+  if (!isFusionStrategy(value)) {
+    throw new InvalidArgumentError('Fusion must be rrf, combsum or combmnz.');
+  }
+  return value;
+}
+
+/**
+ * Parse a fusion weight option
+ */
+function parseWeight(value: string): number {
+  const weight = parseFloat(value);
+  if (isNaN(weight) || weight < 0 || weight > 10) {
+    throw new InvalidArgumentError('Weight must be a number from 0 to 10.');
+  }
+  return weight;
+}
+
+interface AskOptions {
+  cache: boolean;
+  mode?: PromptMode;
+  fusion?: FusionStrategy;
+  vectorWeight?: number;
+  bm25Weight?: number;
+  rrfK?: number;
+  type?: string[];
+  authority?: SourceAuthority;
+  weight?: LegalWeight;
+  program?: string[];
+  effectiveAfter?: string;
+}
+
+/**
+ * Build retrieval filters from CLI options, or undefined if none were given
+ */
+function buildFilters(options: AskOptions): QueryFilters | undefined {
+  const filters: QueryFilters = {
+    documentTypes: options.type as DocumentType[] | undefined,
+    sourceAuthority: options.authority,
+    legalWeight: options.weight,
+    targetPrograms: options.program,
+    effectiveAfter: options.effectiveAfter,
+  };
+
+  return Object.values(filters).some((value) => value !== undefined) ? filters : undefined;
+}
+
+/**
+ * Build fusion overrides from CLI options, or undefined if none were given
+ */
+function buildFusion(options: AskOptions): FusionOptions | undefined {
+  const weights = {
+    ...(options.vectorWeight !== undefined && { vector: options.vectorWeight }),
+    ...(options.bm25Weight !== undefined && { bm25: options.bm25Weight }),
+  };
+  const fusion: FusionOptions = {
+    ...(options.fusion && { strategy: options.fusion }),
+    ...(Object.keys(weights).length > 0 && { weights }),
+    ...(options.rrfK !== undefined && { rrfK: options.rrfK }),
+  };
+
+  return Object.keys(fusion).length > 0 ? fusion : undefined;
+}
+
 program
   .name('query')
   .description('Query the Medicaid RAG system')
@@ -20,15 +119,34 @@ program
   .command('ask <question>')
   .description('Ask a question about Medicaid eligibility')
   .option('--no-cache', 'Disable query caching')
-  .action(async (question: string, options: { cache: boolean }) => {
+  .option('-t, --type <types>', 'Only use these document types (comma-separated, e.g. oim_ltc_handbook)', parseList)
+  .option('-a, --authority <authority>', 'Only use primary or secondary sources')
+  .option('-w, --weight <weight>', 'Only use regulatory, guidance or informational sources')
+  .option('-p, --program <programs>', 'Only use documents covering these programs (comma-separated)', parseList)
+  .option('--effective-after <date>', 'Only use documents effective on or after this date (YYYY-MM-DD)')
+  .option('-m, --mode <mode>', 'Answer style: senior, caregiver or caseworker', parseMode)
+  .option('--fusion <strategy>', 'Fuse results with rrf, combsum or combmnz', parseFusionStrategy)
+  .option('--vector-weight <weight>', 'Weight of vector search in fusion', parseWeight)
+  .option('--bm25-weight <weight>', 'Weight of BM25 keyword search in fusion', parseWeight)
+  .option('--rrf-k <k>', 'RRF constant', (value) => parseInt(value, 10))
+  .action(async (question: string, options: AskOptions) => {
     try {
       const config = getConfig();
       const pipeline = createRetrievalPipeline(config);
+      const filters = buildFilters(options);
 
       console.log(`\nQuery: ${question}\n`);
+      if (filters) {
+        console.log(`Filters: ${JSON.stringify(filters)}\n`);
+      }
       console.log('Processing...\n');
 
-      const response = await pipeline.query(question, { useCache: options.cache });
+      const response = await pipeline.query(question, {
+        useCache: options.cache,
+        filters,
+        mode: options.mode,
+        fusion: buildFusion(options),
+      });
 
       console.log('Answer:');
       console.log(response.answer);
@@ -49,8 +167,19 @@ program
       console.log(`  Query ID: ${response.queryId}`);
       console.log(`  Latency: ${response.latencyMs}ms`);
       console.log(`  Confidence: ${response.confidence.toFixed(1)}%`);
+      if (response.confidenceInfo) {
+        const { band, abstained, reasons } = response.confidenceInfo;
+        console.log(`  Confidence Band: ${band}${abstained ? ' (abstained)' : ''}`);
+        reasons.forEach((reason) => console.log(`    - ${reason}`));
+      }
       console.log(`  Vector Results: ${response.retrievalStats.vectorResults}`);
       console.log(`  BM25 Results: ${response.retrievalStats.bm25Results}`);
+      if (response.retrievalStats.expandedTerms) {
+        console.log(`  Expanded Terms: ${response.retrievalStats.expandedTerms.join(', ')}`);
+      }
+      if (response.retrievalStats.fusion) {
+        console.log(`  Fusion: ${formatFusion(response.retrievalStats.fusion)}`);
+      }
       console.log(`  Final Results: ${response.retrievalStats.finalResults}`);
     } catch (error) {
       console.error('Query failed:', error);
@@ -61,9 +190,12 @@ program
 program
   .command('interactive')
   .description('Start an interactive query session')
-  .action(async () => {
+  .option('-m, --mode <mode>', 'Answer style: senior, caregiver or caseworker', parseMode)
+  .action(async (options: { mode?: PromptMode }) => {
     const config = getConfig();
     const pipeline = createRetrievalPipeline(config);
+    // Treat the session as one conversation so follow-up questions keep their context
+    const conversationId = uuid();
 
     console.log('Medicaid RAG Interactive Mode');
     console.log('Type your questions and press Enter. Type "exit" to quit.\n');
@@ -87,7 +219,14 @@ program
         }
 
         try {
-          const response = await pipeline.query(question);
+          const response = await pipeline.query(question, {
+            conversationId,
+            mode: options.mode,
+          });
+
+          if (response.standaloneQuery) {
+            console.log(`\n(Interpreted as: ${response.standaloneQuery})`);
+          }
 
           console.log('\nAssistant:');
           console.log(response.answer);
@@ -134,4 +273,48 @@ program
     }
   });
 
+const cache = program
+  .command('cache')
+  .description('Inspect and clear cached answers');
+
+cache
+  .command('stats')
+  .description('Show how many answers are cached')
+  .action(async () => {
+    try {
+      const config = getConfig();
+      const pipeline = createRetrievalPipeline(config);
+
+      const stats = await pipeline.getCacheStats();
+
+      console.log('Query Cache:');
+      console.log(`  Cached Answers: ${stats.entries - stats.expired}`);
+      console.log(`  Expired: ${stats.expired}`);
+      console.log(`  Documents Cited: ${stats.documents}`);
+      if (stats.oldestCreatedAt) {
+        console.log(`  Oldest Entry: ${stats.oldestCreatedAt.toISOString()}`);
+      }
+    } catch (error) {
+      console.error('Failed to get cache stats:', error);
+      process.exit(1);
+    }
+  });
+
+cache
+  .command('clear')
+  .description('Remove cached answers')
+  .option('--expired', 'Only remove expired answers', false)
+  .action(async (options: { expired: boolean }) => {
+    try {
+      const config = getConfig();
+      const pipeline = createRetrievalPipeline(config);
+
+      const removed = await pipeline.clearCache({ expiredOnly: options.expired });
+      console.log(`Removed ${removed} cached answers.`);
+    } catch (error) {
+      console.error('Failed to clear cache:', error);
+      process.exit(1);
+    }
+  });
+
 program.parse();
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CrossEncoderClient } from './cross-encoder.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function rerankResponse(results: Array<{ index: number; relevance_score: number }>) {
+  return { ok: true, status: 200, json: async () => ({ results }) };
+}
+
+function createClient(rerankerScores: 'logits' | 'probabilities') {
+  return new CrossEncoderClient({
+    rerankerUrl: 'http://localhost:8080/v1/',
+    rerankerModel: 'bge-reranker-v2-m3',
+    rerankerScores,
+  });
+}
+
+describe('CrossEncoderClient', () => {
+  let client: CrossEncoderClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client = createClient('probabilities');
+  });
+
+  it('should return scores in document order', async () => {
+    mockFetch.mockResolvedValueOnce(
+      rerankResponse([
+        { index: 1, relevance_score: 0.9 },
+        { index: 0, relevance_score: 0.2 },
+      ])
+    );
+
+    const scores = await client.score('QMB income limit', ['SLMB', 'QMB']);
+
+    expect(scores).toEqual([0.2, 0.9]);
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/rerank');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'bge-reranker-v2-m3',
+      query: 'QMB income limit',
+      documents: ['SLMB', 'QMB'],
+      top_n: 2,
+    });
+  });
+
+  it('should pass logits through a sigmoid', async () => {
+    mockFetch.mockResolvedValueOnce(
+      rerankResponse([
+        { index: 0, relevance_score: 3.2 },
+        { index: 1, relevance_score: -4.1 },
+        { index: 2, relevance_score: 0 },
+      ])
+    );
+
+    const scores = await createClient('logits').score('query', ['a', 'b', 'c']);
+
+    expect(scores[0]).toBeCloseTo(0.961, 3);
+    expect(scores[1]).toBeCloseTo(0.016, 3);
+    expect(scores[2]).toBe(0.5);
+  });
+
+  it('should pass logits through a sigmoid even when they fall between 0 and 1', async () => {
+    mockFetch.mockResolvedValueOnce(
+      rerankResponse([
+        { index: 0, relevance_score: 0.9 },
+        { index: 1, relevance_score: 0.2 },
+      ])
+    );
+
+    const scores = await createClient('logits').score('query', ['a', 'b']);
+
+    expect(scores[0]).toBeCloseTo(0.711, 3);
+    expect(scores[1]).toBeCloseTo(0.55, 3);
+  });
+
+  it('should keep probabilities as they are', async () => {
+    mockFetch.mockResolvedValueOnce(
+      rerankResponse([
+        { index: 0, relevance_score: 0.04 },
+        { index: 1, relevance_score: 1 },
+        { index: 2, relevance_score: 0 },
+      ])
+    );
+
+    expect(await client.score('query', ['a', 'b', 'c'])).toEqual([0.04, 1, 0]);
+  });
+
+  it('should score documents missing from the response as 0', async () => {
+    mockFetch.mockResolvedValueOnce(rerankResponse([{ index: 0, relevance_score: 0.7 }]));
+
+    expect(await client.score('query', ['a', 'b'])).toEqual([0.7, 0]);
+  });
+
+  it('should throw a RerankError when the server fails', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
+
+    await expect(client.score('query', ['a'])).rejects.toMatchObject({
+      code: 'RERANK_ERROR',
+    });
+  });
+
+  it('should not call the server without documents', async () => {
+    expect(await client.score('query', [])).toEqual([]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
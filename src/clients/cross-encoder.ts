@@ -0,0 +1,95 @@
+import { Config, RerankError } from '../types/index.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('cross-encoder');
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+type CrossEncoderConfig = Pick<Config['rag'], 'rerankerUrl' | 'rerankerModel' | 'rerankerScores'>;
+
+/**
+ * Response of a `/rerank` endpoint, as served by llama.cpp, vLLM, Infinity
+ * and other OpenAI-compatible servers
+ */
+interface RerankResponse {
+  results: Array<{ index: number; relevance_score: number }>;
+}
+
+/**
+ * Client for a cross-encoder reranking model behind an OpenAI-compatible
+ * server's `/rerank` endpoint. The model reads the query and each document
+ * together, so its scores are real relevance judgements rather than
+ * similarities of separately embedded texts.
+ */
+export class CrossEncoderClient {
+  private url: string;
+  private model: string;
+  private logits: boolean;
+
+  constructor(config: CrossEncoderConfig) {
+    this.url = `${config.rerankerUrl.replace(/\/+$/, '')}/rerank`;
+    this.model = config.rerankerModel;
+    this.logits = config.rerankerScores === 'logits';
+  }
+
+  /**
+   * Relevance of each document to the query from 0 to 1, in document order.
+   * Logits are passed through a sigmoid; probabilities are kept as they are.
+   */
+  async score(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) {
+      return [];
+    }
+
+    let body: RerankResponse;
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.model,
+          query,
+          documents,
+          top_n: documents.length,
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      body = (await response.json()) as RerankResponse;
+    } catch (error) {
+      logger.error({ error, url: this.url, model: this.model }, 'Cross-encoder request failed');
+      throw new RerankError('Cross-encoder request failed', error);
+    }
+
+    if (!Array.isArray(body?.results)) {
+      throw new RerankError('Cross-encoder response has no results', body);
+    }
+
+    const raw: Array<number | undefined> = Array.from(documents, () => undefined);
+    for (const { index, relevance_score: score } of body.results) {
+      if (index >= 0 && index < documents.length && Number.isFinite(score)) {
+        raw[index] = score;
+      }
+    }
+
+    const scored = raw.filter((score): score is number => score !== undefined);
+    logger.debug(
+      { model: this.model, documents: documents.length, scored: scored.length },
+      'Cross-encoder scores received'
+    );
+
+    // Documents the server left out rank last
+    return raw.map((score) =>
+      score === undefined ? 0 : this.logits ? 1 / (1 + Math.exp(-score)) : score
+    );
+  }
+}
+
+/**
+ * Create a cross-encoder client for the configured reranker endpoint
+ */
+export function createCrossEncoderClient(config: CrossEncoderConfig): CrossEncoderClient {
+  return new CrossEncoderClient(config);
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { LMStudioClient } from './lm-studio.js';
+import type { PostgresStore } from './postgres.js';
+import type { QdrantStore } from './qdrant.js';
+import { EmbeddingRegistry, collectionNameFor } from './embedding-registry.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+const MODEL = 'text-embedding-nomic-embed-text-v1.5';
+
+function mockStore(collection: string, vectors: { collection: string; dimension: number } | null) {
+  return {
+    collection,
+    dimension: 768,
+    getVectorParams: vi
+      .fn()
+      .mockResolvedValue(vectors && { ...vectors, distance: 'Cosine' }),
+    withCollection: vi.fn((name: string) => mockStore(name, { collection: name, dimension: 768 })),
+    switchCollection: vi.fn().mockResolvedValue('medicaid_chunks_old'),
+    deleteCollection: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('collectionNameFor', () => {
+  it('should name collections after the embedding model', () => {
+    expect(collectionNameFor('medicaid_chunks', MODEL)).toBe(
+      'medicaid_chunks_nomic_embed_text_v1_5'
+    );
+    expect(collectionNameFor('medicaid_chunks', 'nvidia/Nemotron-3-Nano')).toBe(
+      'medicaid_chunks_nemotron_3_nano'
+    );
+  });
+});
+
+describe('EmbeddingRegistry', () => {
+  let postgres: {
+    registerEmbeddingCollection: ReturnType<typeof vi.fn>;
+    deleteEmbeddingCollection: ReturnType<typeof vi.fn>;
+  };
+  let lmStudio: { embeddingModel: string; embed: ReturnType<typeof vi.fn> };
+  let qdrant: ReturnType<typeof mockStore>;
+  let registry: EmbeddingRegistry;
+
+  beforeEach(() => {
+    postgres = {
+      registerEmbeddingCollection: vi.fn(async (entry) => ({ ...entry, createdAt: new Date() })),
+      deleteEmbeddingCollection: vi.fn().mockResolvedValue(undefined),
+    };
+    lmStudio = {
+      embeddingModel: MODEL,
+      embed: vi.fn().mockResolvedValue({ embedding: new Array(768).fill(0.1), model: MODEL }),
+    };
+    qdrant = mockStore('medicaid_chunks', {
+      collection: 'medicaid_chunks_nomic',
+      dimension: 768,
+    });
+    registry = new EmbeddingRegistry(
+      postgres as unknown as PostgresStore,
+      qdrant as unknown as QdrantStore,
+      lmStudio as unknown as LMStudioClient
+    );
+  });
+
+  describe('verify', () => {
+    it('should register the collection behind an alias', async () => {
+      const registration = await registry.verify(undefined, { probe: true });
+
+      expect(registration).toMatchObject({ collection: 'medicaid_chunks_nomic', model: MODEL });
+      expect(postgres.registerEmbeddingCollection).toHaveBeenCalledWith({
+        collection: 'medicaid_chunks_nomic',
+        model: MODEL,
+        dimension: 768,
+        distance: 'Cosine',
+      });
+    });
+
+    it('should fail when the collection was built with another model', async () => {
+      postgres.registerEmbeddingCollection.mockResolvedValueOnce({
+        collection: 'medicaid_chunks_nomic',
+        model: 'nvidia/nemotron-3-nano',
+        dimension: 768,
+        distance: 'Cosine',
+        createdAt: new Date(),
+      });
+
+      await expect(registry.verify()).rejects.toThrow(
+        'was built with nvidia/nemotron-3-nano but LM_STUDIO_EMBEDDING_MODEL is'
+      );
+    });
+
+    it('should fail when the collection has another dimension', async () => {
+      qdrant.getVectorParams.mockResolvedValueOnce({
+        collection: 'medicaid_chunks_nomic',
+        dimension: 192,
+        distance: 'Cosine',
+      });
+
+      await expect(registry.verify()).rejects.toThrow(
+        'holds 192-dimensional vectors but EMBEDDING_DIMENSION is 768'
+      );
+      expect(postgres.registerEmbeddingCollection).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the model produces another dimension', async () => {
+      lmStudio.embed.mockResolvedValueOnce({ embedding: new Array(192).fill(0.1), model: MODEL });
+
+      await expect(registry.verify(undefined, { probe: true })).rejects.toThrow(
+        'produces 192-dimensional vectors but EMBEDDING_DIMENSION is 768'
+      );
+    });
+
+    it('should skip the model check when LM Studio is unavailable', async () => {
+      lmStudio.embed.mockRejectedValueOnce(new Error('Connection refused'));
+
+      await expect(registry.verify(undefined, { probe: true })).resolves.toMatchObject({
+        model: MODEL,
+      });
+    });
+  });
+
+  describe('use', () => {
+    it('should switch the alias to a collection built with the configured model', async () => {
+      const previous = await registry.use('medicaid_chunks_nomic_2');
+
+      expect(previous).toBe('medicaid_chunks_old');
+      expect(qdrant.switchCollection).toHaveBeenCalledWith('medicaid_chunks_nomic_2');
+    });
+
+    it('should refuse while the configured name is a collection', async () => {
+      qdrant.getVectorParams.mockResolvedValueOnce({
+        collection: 'medicaid_chunks',
+        dimension: 768,
+        distance: 'Cosine',
+      });
+
+      await expect(registry.use('medicaid_chunks_nomic_2')).rejects.toThrow('not an alias');
+      expect(qdrant.switchCollection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('drop', () => {
+    it('should delete a collection and its record', async () => {
+      await registry.drop('medicaid_chunks_old');
+
+      expect(qdrant.deleteCollection).toHaveBeenCalledWith('medicaid_chunks_old');
+      expect(postgres.deleteEmbeddingCollection).toHaveBeenCalledWith('medicaid_chunks_old');
+    });
+
+    it('should refuse to drop the collection being searched', async () => {
+      await expect(registry.drop('medicaid_chunks_nomic')).rejects.toThrow('is being searched');
+      expect(qdrant.deleteCollection).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Registry of the embedding model and vector settings each Qdrant collection
+ * was built with. Searching a collection with another model's query vectors
+ * returns plausible-looking but meaningless results, so mismatches between
+ * the configured model, EMBEDDING_DIMENSION and the collection are refused.
+ */
+
+import { EmbeddingCollection, EmbeddingMismatchError, RagError } from '../types/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import { LMStudioClient } from './lm-studio.js';
+import { PostgresStore } from './postgres.js';
+import { QdrantStore } from './qdrant.js';
+
+const logger = createChildLogger('embedding-registry');
+
+/**
+ * A collection on the Qdrant server with its registry record, if any
+ */
+export interface EmbeddingCollectionInfo {
+  name: string;
+  /** Aliases pointing at the collection, e.g. the configured QDRANT_COLLECTION */
+  aliases: string[];
+  registration?: EmbeddingCollection;
+}
+
+/**
+ * Name for a collection of `model` vectors behind `alias`, e.g.
+ * `medicaid_chunks_nomic_embed_text_v1_5` for `nomic-embed-text-v1.5`
+ */
+export function collectionNameFor(alias: string, model: string): string {
+  const slug = model
+    .split('/')
+    .pop()!
+    .toLowerCase()
+    .replace(/^text-embedding-/, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return `${alias}_${slug}`;
+}
+
+export class EmbeddingRegistry {
+  private postgres: PostgresStore;
+  private qdrant: QdrantStore;
+  private lmStudio: LMStudioClient;
+
+  constructor(postgres: PostgresStore, qdrant: QdrantStore, lmStudio: LMStudioClient) {
+    this.postgres = postgres;
+    this.qdrant = qdrant;
+    this.lmStudio = lmStudio;
+  }
+
+  /**
+   * Check that the configured embedding model, EMBEDDING_DIMENSION and a
+   * collection agree, recording the collection if it is not registered yet.
+   * With `probe`, the model is asked for an embedding to measure its
+   * dimension; that check is skipped when LM Studio is unavailable.
+   */
+  async verify(
+    store: QdrantStore = this.qdrant,
+    options: { probe?: boolean } = {}
+  ): Promise<EmbeddingCollection> {
+    const model = this.lmStudio.embeddingModel;
+
+    if (options.probe) {
+      await this.probeDimension(model, store.dimension);
+    }
+
+    const params = await store.getVectorParams();
+    if (!params) {
+      throw new EmbeddingMismatchError(`Qdrant collection ${store.collection} does not exist`);
+    }
+    if (params.dimension !== store.dimension) {
+      throw new EmbeddingMismatchError(
+        `Collection ${params.collection} holds ${params.dimension}-dimensional vectors but ` +
+          `EMBEDDING_DIMENSION is ${store.dimension}`,
+        { collection: params.collection }
+      );
+    }
+
+    const registration = await this.postgres.registerEmbeddingCollection({
+      collection: params.collection,
+      model,
+      dimension: params.dimension,
+      distance: params.distance,
+    });
+    if (registration.model !== model) {
+      throw new EmbeddingMismatchError(
+        `Collection ${params.collection} was built with ${registration.model} but ` +
+          `LM_STUDIO_EMBEDDING_MODEL is ${model}; set it back, or run \`pnpm ingest reembed\``,
+        { collection: params.collection }
+      );
+    }
+
+    logger.debug({ collection: params.collection, model }, 'Embedding settings verified');
+    return registration;
+  }
+
+  /**
+   * Every collection on the server, with its registry record
+   */
+  async list(): Promise<EmbeddingCollectionInfo[]> {
+    const [collections, registrations] = await Promise.all([
+      this.qdrant.listCollections(),
+      this.postgres.listEmbeddingCollections(),
+    ]);
+    const byName = new Map(registrations.map((entry) => [entry.collection, entry]));
+
+    return collections.map((collection) => ({
+      ...collection,
+      ...(byName.has(collection.name) && { registration: byName.get(collection.name) }),
+    }));
+  }
+
+  /**
+   * Point the configured collection name at another registered collection,
+   * e.g. to compare two embedding models. Its model must be the configured
+   * one. Returns the collection searched before.
+   */
+  async use(collection: string): Promise<string | null> {
+    const live = await this.qdrant.getVectorParams();
+    if (live?.collection === this.qdrant.collection) {
+      // Making the name an alias would delete the collection of that name
+      throw new RagError(
+        `${this.qdrant.collection} is a collection, not an alias; run \`pnpm ingest reembed\` ` +
+          'once to move it behind an alias',
+        'COLLECTION_NOT_ALIASED'
+      );
+    }
+
+    const target = this.qdrant.withCollection(collection);
+    const registration = await this.verify(target);
+    logger.info({ collection, model: registration.model }, 'Switching collection');
+    return this.qdrant.switchCollection(collection);
+  }
+
+  /**
+   * Delete a collection and its record. The collection being searched
+   * cannot be dropped.
+   */
+  async drop(collection: string): Promise<void> {
+    const live = await this.qdrant.getVectorParams();
+    if (collection === this.qdrant.collection || collection === live?.collection) {
+      throw new RagError(
+        `${collection} is being searched and cannot be dropped`,
+        'COLLECTION_IN_USE'
+      );
+    }
+
+    await this.qdrant.deleteCollection(collection);
+    await this.forget(collection);
+  }
+
+  /**
+   * Remove a collection's record, e.g. once the collection is deleted
+   */
+  forget(collection: string): Promise<void> {
+    return this.postgres.deleteEmbeddingCollection(collection);
+  }
+
+  private async probeDimension(model: string, expected: number): Promise<void> {
+    let dimension: number;
+    try {
+      dimension = (await this.lmStudio.embed('dimension check')).embedding.length;
+    } catch (error) {
+      logger.warn({ error, model }, 'Could not reach the embedding model to check its dimension');
+      return;
+    }
+
+    if (dimension !== expected) {
+      throw new EmbeddingMismatchError(
+        `${model} produces ${dimension}-dimensional vectors but EMBEDDING_DIMENSION is ${expected}`,
+        { model, dimension }
+      );
+    }
+  }
+}
+
+/**
+ * Create an embedding registry for the configured collection
+ */
+export function createEmbeddingRegistry(
+  postgres: PostgresStore,
+  qdrant: QdrantStore,
+  lmStudio: LMStudioClient
+): EmbeddingRegistry {
+  return new EmbeddingRegistry(postgres, qdrant, lmStudio);
+}
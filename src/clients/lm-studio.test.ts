@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { LMStudioClient, getLMStudioClient, resetLMStudioClient } from './lm-studio.js';
+import { getPromptProfile } from '../prompts/profiles.js';
 
 // Mock OpenAI client
 const mockEmbeddingsCreate = vi.fn();
@@ -22,6 +23,13 @@ vi.mock('openai', () => ({
   })),
 }));
 
+// Simulate an OpenAI streaming response
+async function* streamOf(deltas: string[]) {
+  for (const content of deltas) {
+    yield { choices: [{ delta: { content } }] };
+  }
+}
+
 describe('LMStudioClient', () => {
   let client: LMStudioClient;
 
@@ -30,6 +38,7 @@ describe('LMStudioClient', () => {
     embeddingModel: 'nomic-embed-text-v1.5',
     llmModel: 'qwen2.5-7b-instruct',
     ocrModel: 'allenai/olmocr-2-7b',
+    ocrConcurrency: 2,
   };
 
   beforeEach(() => {
@@ -107,13 +116,16 @@ describe('LMStudioClient', () => {
       ]);
 
       expect(result).toBe('Test response');
-      expect(mockChatCompletionsCreate).toHaveBeenCalledWith({
-        model: 'qwen2.5-7b-instruct',
-        messages: [{ role: 'user', content: 'Hello' }],
-        temperature: 0.1,
-        max_tokens: 2048,
-        stop: undefined,
-      });
+      expect(mockChatCompletionsCreate).toHaveBeenCalledWith(
+        {
+          model: 'qwen2.5-7b-instruct',
+          messages: [{ role: 'user', content: 'Hello' }],
+          temperature: 0.1,
+          max_tokens: 2048,
+          stop: undefined,
+        },
+        { signal: undefined }
+      );
     });
 
     it('should use custom options when provided', async () => {
@@ -126,13 +138,16 @@ describe('LMStudioClient', () => {
         { temperature: 0.5, maxTokens: 1024, stopSequences: ['STOP'] }
       );
 
-      expect(mockChatCompletionsCreate).toHaveBeenCalledWith({
-        model: 'qwen2.5-7b-instruct',
-        messages: [{ role: 'user', content: 'Test' }],
-        temperature: 0.5,
-        max_tokens: 1024,
-        stop: ['STOP'],
-      });
+      expect(mockChatCompletionsCreate).toHaveBeenCalledWith(
+        {
+          model: 'qwen2.5-7b-instruct',
+          messages: [{ role: 'user', content: 'Test' }],
+          temperature: 0.5,
+          max_tokens: 1024,
+          stop: ['STOP'],
+        },
+        { signal: undefined }
+      );
     });
 
     it('should throw LMStudioError on empty response', async () => {
@@ -154,6 +169,51 @@ describe('LMStudioClient', () => {
     });
   });
 
+  describe('chatStream', () => {
+    it('should yield content deltas as they arrive', async () => {
+      mockChatCompletionsCreate.mockResolvedValueOnce(streamOf(['Hello', ', ', 'world']));
+
+      const parts: string[] = [];
+      for await (const part of client.chatStream([{ role: 'user', content: 'Hi' }])) {
+        parts.push(part);
+      }
+
+      expect(parts).toEqual(['Hello', ', ', 'world']);
+      expect(mockChatCompletionsCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ stream: true }),
+        { signal: undefined }
+      );
+    });
+
+    it('should throw LMStudioError on empty stream', async () => {
+      mockChatCompletionsCreate.mockResolvedValueOnce(streamOf([]));
+
+      const consume = async () => {
+        for await (const _part of client.chatStream([{ role: 'user', content: 'Hi' }])) {
+          // drain
+        }
+      };
+
+      await expect(consume()).rejects.toThrow('Empty response from LLM');
+    });
+
+    it('should pass the abort signal to the request', async () => {
+      mockChatCompletionsCreate.mockResolvedValueOnce(streamOf(['Hi']));
+      const controller = new AbortController();
+
+      for await (const _part of client.chatStream([{ role: 'user', content: 'Hi' }], {
+        signal: controller.signal,
+      })) {
+        // drain
+      }
+
+      expect(mockChatCompletionsCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ stream: true }),
+        { signal: controller.signal }
+      );
+    });
+  });
+
   describe('ocrToMarkdown', () => {
     it('should convert image to markdown', async () => {
       mockChatCompletionsCreate.mockResolvedValueOnce({
@@ -237,6 +297,57 @@ describe('LMStudioClient', () => {
     });
   });
 
+  describe('gradeRelevance', () => {
+    it('should turn the grade into a score from 0 to 1', async () => {
+      mockChatCompletionsCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: ' 2' } }],
+      });
+
+      const score = await client.gradeRelevance('QMB income limit', 'The QMB limit is...');
+
+      expect(score).toBeCloseTo(2 / 3);
+      expect(mockChatCompletionsCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ temperature: 0, max_tokens: 4 }),
+        { signal: undefined }
+      );
+    });
+
+    it('should throw when the reply has no grade', async () => {
+      mockChatCompletionsCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: 'Relevant.' } }],
+      });
+
+      await expect(client.gradeRelevance('query', 'passage')).rejects.toThrow(
+        'Could not parse relevance grade'
+      );
+    });
+  });
+
+  describe('checkEntailment', () => {
+    it('should read a yes or no reply', async () => {
+      mockChatCompletionsCreate
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'Yes.' } }] })
+        .mockResolvedValueOnce({ choices: [{ message: { content: ' no' } }] });
+
+      expect(await client.checkEntailment('SLMB pays Part B', ['SLMB pays Part B.'])).toBe(true);
+      expect(await client.checkEntailment('QMB pays dental', ['QMB pays Part A.'])).toBe(false);
+      expect(mockChatCompletionsCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ temperature: 0, max_tokens: 4 }),
+        { signal: undefined }
+      );
+    });
+
+    it('should throw when the reply is neither', async () => {
+      mockChatCompletionsCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: 'Partly.' } }],
+      });
+
+      await expect(client.checkEntailment('claim', ['passage'])).rejects.toThrow(
+        'Could not parse entailment answer'
+      );
+    });
+  });
+
   describe('generateAnswer', () => {
     it('should generate answer with citations', async () => {
       mockChatCompletionsCreate.mockResolvedValueOnce({
@@ -290,6 +401,55 @@ describe('LMStudioClient', () => {
 
       expect(result.citedIndices).toEqual([1]); // Only valid index
     });
+
+    it('should stream tokens to onToken and return the full answer', async () => {
+      mockChatCompletionsCreate.mockResolvedValueOnce(
+        streamOf(['QMB pays ', 'Medicare premiums ', '[1].'])
+      );
+
+      const contexts = [{ index: 1, content: 'QMB info', filename: 'msp.pdf' }];
+      const tokens: string[] = [];
+
+      const result = await client.generateAnswer('What is QMB?', contexts, {
+        onToken: (text) => tokens.push(text),
+      });
+
+      expect(tokens).toEqual(['QMB pays ', 'Medicare premiums ', '[1].']);
+      expect(result.answer).toBe('QMB pays Medicare premiums [1].');
+      expect(result.citedIndices).toEqual([1]);
+    });
+
+    it('should use the senior prompt by default', async () => {
+      mockChatCompletionsCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: 'QMB pays premiums [1].' } }],
+      });
+
+      await client.generateAnswer('What is QMB?', [
+        { index: 1, content: 'QMB info', filename: 'msp.pdf' },
+      ]);
+
+      const { messages, max_tokens } = mockChatCompletionsCreate.mock.calls[0][0];
+      expect(messages[0].content).toContain('specializing in helping seniors');
+      expect(messages[1].content).toContain('Direct Answer');
+      expect(max_tokens).toBe(1024);
+    });
+
+    it('should build prompts from the given profile', async () => {
+      mockChatCompletionsCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: 'The home is exempt [1] (§ 178.4).' } }],
+      });
+
+      await client.generateAnswer(
+        'Is the home exempt?',
+        [{ index: 1, content: 'Home exemption', filename: 'pa-code.pdf', section: '§ 178.4 Home' }],
+        { profile: getPromptProfile('caregiver') }
+      );
+
+      const { messages, max_tokens } = mockChatCompletionsCreate.mock.calls[0][0];
+      expect(messages[0].content).toContain('family caregivers');
+      expect(messages[1].content).toContain('Section: § 178.4 Home');
+      expect(max_tokens).toBe(1536);
+    });
   });
 
   describe('healthCheck', () => {
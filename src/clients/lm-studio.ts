@@ -1,6 +1,7 @@
 import OpenAI from 'openai';
 import { Config, EmbeddingResult, LMStudioError } from '../types/index.js';
 import { createChildLogger } from '../utils/logger.js';
+import { PromptContext, PromptProfile, getPromptProfile } from '../prompts/profiles.js';
 
 const logger = createChildLogger('lm-studio');
 
@@ -19,6 +20,20 @@ export class LMStudioClient {
     });
   }
 
+  /**
+   * Model used by `ocrToMarkdown`
+   */
+  get ocrModel(): string {
+    return this.config.ocrModel;
+  }
+
+  /**
+   * Model used by `embed`
+   */
+  get embeddingModel(): string {
+    return this.config.embeddingModel;
+  }
+
   /**
    * Generate embeddings for text
    */
@@ -92,6 +107,8 @@ export class LMStudioClient {
       temperature?: number;
       maxTokens?: number;
       stopSequences?: string[];
+      /** Cancels the request */
+      signal?: AbortSignal;
     }
   ): Promise<string> {
     try {
@@ -100,13 +117,16 @@ export class LMStudioClient {
         'Sending chat completion request'
       );
 
-      const response = await this.client.chat.completions.create({
-        model: this.config.llmModel,
-        messages,
-        temperature: options?.temperature ?? 0.1,
-        max_tokens: options?.maxTokens ?? 2048,
-        stop: options?.stopSequences,
-      });
+      const response = await this.client.chat.completions.create(
+        {
+          model: this.config.llmModel,
+          messages,
+          temperature: options?.temperature ?? 0.1,
+          max_tokens: options?.maxTokens ?? 2048,
+          stop: options?.stopSequences,
+        },
+        { signal: options?.signal }
+      );
 
       const content = response.choices[0]?.message?.content;
       if (!content) {
@@ -126,6 +146,58 @@ export class LMStudioClient {
     }
   }
 
+  /**
+   * Streaming chat completion with LLM.
+   * Yields content deltas as they arrive from the model.
+   */
+  async *chatStream(
+    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+    options?: {
+      temperature?: number;
+      maxTokens?: number;
+      stopSequences?: string[];
+      /** Cancels the request and stops the stream */
+      signal?: AbortSignal;
+    }
+  ): AsyncGenerator<string, void, undefined> {
+    let received = 0;
+    try {
+      logger.debug(
+        { messageCount: messages.length },
+        'Sending streaming chat completion request'
+      );
+
+      const stream = await this.client.chat.completions.create(
+        {
+          model: this.config.llmModel,
+          messages,
+          temperature: options?.temperature ?? 0.1,
+          max_tokens: options?.maxTokens ?? 2048,
+          stop: options?.stopSequences,
+          stream: true,
+        },
+        { signal: options?.signal }
+      );
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          received += delta.length;
+          yield delta;
+        }
+      }
+    } catch (error) {
+      logger.error({ error }, 'Failed to stream chat');
+      throw new LMStudioError('Failed to stream chat', error);
+    }
+
+    if (received === 0) {
+      throw new LMStudioError('Empty response from LLM');
+    }
+
+    logger.debug({ responseLength: received }, 'Streaming chat completion successful');
+  }
+
   /**
    * OCR: Convert image/PDF page to markdown using vision model
    */
@@ -150,7 +222,7 @@ export class LMStudioClient {
               },
               {
                 type: 'text',
-                text: 'Convert this document page to well-formatted Markdown. Preserve the structure including headers, lists, tables, and paragraphs. Output only the markdown content without any preamble.',
+                text: 'Convert this document page to well-formatted Markdown. Preserve the structure including headers, lists, tables, and paragraphs. Write tables as Markdown tables with a header row, copying every row and number exactly. Output only the markdown content without any preamble.',
               },
             ],
           },
@@ -243,56 +315,119 @@ Ranking:`;
   }
 
   /**
-   * Generate answer with citations
+   * Pointwise relevance of one document to a query, graded on a fixed
+   * 0-3 scale and returned as a score from 0 to 1. The grade is a single
+   * digit, so there is no JSON to parse.
    */
-  async generateAnswer(
-    query: string,
-    contexts: Array<{
-      index: number;
-      content: string;
-      filename: string;
-      pageNumber?: number;
-    }>
-  ): Promise<{ answer: string; citedIndices: number[] }> {
-    try {
-      logger.debug(
-        { query, contextCount: contexts.length },
-        'Generating answer with citations'
-      );
+  async gradeRelevance(query: string, content: string): Promise<number> {
+    const prompt = `Grade how well the passage answers the question.
 
-      const contextText = contexts
-        .map(
-          (ctx) =>
-            `[${ctx.index}] (${ctx.filename}${ctx.pageNumber ? `, p.${ctx.pageNumber}` : ''}):\n${ctx.content}`
-        )
-        .join('\n\n---\n\n');
+3 = directly answers the question
+2 = answers part of the question or gives the rule it depends on
+1 = on the same topic but does not answer it
+0 = unrelated
 
-      const systemPrompt = `You are a helpful Medicaid eligibility assistant. Answer questions based ONLY on the provided context documents.
+Question: ${query}
 
-Rules:
-1. Only use information from the provided documents
-2. Cite your sources using [N] notation where N is the document number
-3. If the information is not in the documents, say "I cannot find this information in the provided documents."
-4. Be concise but thorough
-5. At the end, list all citation numbers you used in a "Citations:" section`;
+Passage:
+${content.substring(0, 1500)}
 
-      const userPrompt = `Context Documents:
-${contextText}
+Reply with the grade only.
 
----
+Grade:`;
 
-Question: ${query}
+    const response = await this.chat(
+      [{ role: 'user', content: prompt }],
+      { temperature: 0, maxTokens: 4 }
+    );
 
-Please answer the question based only on the context above, citing sources with [N] notation.`;
+    const match = response.match(/[0-3]/);
+    if (!match) {
+      throw new LMStudioError('Could not parse relevance grade', { response });
+    }
 
-      const response = await this.chat(
-        [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        { temperature: 0.1, maxTokens: 1024 }
+    return Number(match[0]) / 3;
+  }
+
+  /**
+   * Whether the passages state a claim (entailment rather than topical
+   * similarity). A claim the passages only partly support is not supported.
+   */
+  async checkEntailment(claim: string, passages: string[]): Promise<boolean> {
+    const sources = passages
+      .map((passage, i) => `[${i + 1}] ${passage.substring(0, 1500)}`)
+      .join('\n\n');
+
+    const prompt = `Do the passages state the claim? Answer "yes" only if every part of the claim, including any figures and names, is stated in the passages. Answer "no" if the passages contradict it, leave part of it out, or only discuss the topic.
+
+Passages:
+${sources}
+
+Claim: ${claim}
+
+Reply with yes or no only.
+
+Answer:`;
+
+    const response = await this.chat(
+      [{ role: 'user', content: prompt }],
+      { temperature: 0, maxTokens: 4 }
+    );
+
+    const match = response.match(/\b(yes|no)\b/i);
+    if (!match) {
+      throw new LMStudioError('Could not parse entailment answer', { response });
+    }
+
+    return match[1].toLowerCase() === 'yes';
+  }
+
+  /**
+   * Generate answer with citations, using the prompt profile for the audience
+   */
+  async generateAnswer(
+    query: string,
+    contexts: PromptContext[],
+    options?: {
+      /** Called with each piece of answer text as it is generated */
+      onToken?: (text: string) => void;
+      /** Prompt profile to answer with (defaults to the senior profile) */
+      profile?: PromptProfile;
+      /** Cancels generation */
+      signal?: AbortSignal;
+    }
+  ): Promise<{ answer: string; citedIndices: number[] }> {
+    const profile = options?.profile ?? getPromptProfile();
+
+    try {
+      logger.debug(
+        { query, contextCount: contexts.length, mode: profile.mode },
+        'Generating answer with citations'
       );
 
+      const systemPrompt = profile.systemPrompt;
+      const userPrompt = profile.buildUserPrompt(query, profile.formatContext(contexts));
+
+      const messages: Array<{ role: 'system' | 'user'; content: string }> = [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ];
+      const chatOptions = {
+        temperature: 0.1,
+        maxTokens: profile.maxTokens,
+        signal: options?.signal,
+      };
+
+      let response = '';
+      if (options?.onToken) {
+        for await (const text of this.chatStream(messages, chatOptions)) {
+          response += text;
+          options.onToken(text);
+        }
+      } else {
+        response = await this.chat(messages, chatOptions);
+      }
+
       // Extract citation indices from the response
       const citationMatches = response.match(/\[(\d+)\]/g) || [];
       const citedIndices = [
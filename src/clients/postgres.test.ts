@@ -82,6 +82,35 @@ describe('PostgresStore', () => {
         );
       });
 
+      it('should persist document classification fields', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: 'doc-123' }] });
+        const effectiveDate = new Date('2025-02-01');
+
+        await store.insertDocument({
+          filename: 'PHLP-2025-MSP-Guide.pdf',
+          filepath: '/data/PHLP-2025-MSP-Guide.pdf',
+          fileHash: 'abc123',
+          documentType: 'msp_guide',
+          sourceAuthority: 'secondary',
+          effectiveDate,
+          targetPrograms: ['QMB', 'SLMB'],
+          sourceUrl: 'https://www.phlp.org/msp-guide.pdf',
+          updateFrequency: 'annually_april',
+        });
+
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining('document_type, source_authority, legal_weight'),
+          expect.arrayContaining([
+            'msp_guide',
+            'secondary',
+            effectiveDate,
+            ['QMB', 'SLMB'],
+            'https://www.phlp.org/msp-guide.pdf',
+            'annually_april',
+          ])
+        );
+      });
+
       it('should throw PostgresError on duplicate hash', async () => {
         mockQuery.mockRejectedValueOnce({ code: '23505' });
 
@@ -133,6 +162,86 @@ describe('PostgresStore', () => {
       });
     });
 
+    describe('listDocumentsWithChunkCounts', () => {
+      it('should return documents with chunk counts', async () => {
+        const mockDocs = [{ id: 'doc-1', filename: 'a.pdf', chunkCount: 12 }];
+        mockQuery.mockResolvedValueOnce({ rows: mockDocs });
+
+        const result = await store.listDocumentsWithChunkCounts();
+
+        expect(result).toEqual(mockDocs);
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('as "chunkCount"'));
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('superseded_at IS NULL'));
+      });
+    });
+
+    describe('getCurrentVersion', () => {
+      it('should match the current version by source URL or filename', async () => {
+        const mockDoc = { id: 'doc-1', filename: 'PHLP-2025-MSP-Guide.pdf', version: 2 };
+        mockQuery.mockResolvedValueOnce({ rows: [mockDoc] });
+
+        const result = await store.getCurrentVersion(
+          'PHLP-2025-MSP-Guide.pdf',
+          'https://www.phlp.org/msp-guide.pdf'
+        );
+
+        expect(result).toEqual(mockDoc);
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining('superseded_at IS NULL'),
+          ['PHLP-2025-MSP-Guide.pdf', 'https://www.phlp.org/msp-guide.pdf']
+        );
+      });
+
+      it('should return null when there is no earlier version', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+
+        const result = await store.getCurrentVersion('new.pdf');
+
+        expect(result).toBeNull();
+        expect(mockQuery).toHaveBeenCalledWith(expect.any(String), ['new.pdf', null]);
+      });
+    });
+
+    describe('supersedeDocument', () => {
+      it('should mark the document superseded and set its expiration date', async () => {
+        mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+        const expirationDate = new Date('2026-04-01');
+
+        await store.supersedeDocument('doc-1', 'doc-2', expirationDate);
+
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining('superseded_by = $2'),
+          ['doc-1', 'doc-2', expirationDate]
+        );
+      });
+
+      it('should throw PostgresError on failure', async () => {
+        mockQuery.mockRejectedValueOnce(new Error('connection lost'));
+
+        await expect(store.supersedeDocument('doc-1', 'doc-2')).rejects.toThrow(
+          'Failed to supersede document'
+        );
+      });
+    });
+
+    describe('getDocumentVersions', () => {
+      it('should return every version in the lineage, newest first', async () => {
+        const mockDocs = [
+          { id: 'doc-2', version: 2, chunkCount: 40 },
+          { id: 'doc-1', version: 1, chunkCount: 38, supersededBy: 'doc-2' },
+        ];
+        mockQuery.mockResolvedValueOnce({ rows: mockDocs });
+
+        const result = await store.getDocumentVersions('doc-1');
+
+        expect(result).toEqual(mockDocs);
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining('ORDER BY version DESC'),
+          ['doc-1']
+        );
+      });
+    });
+
     describe('deleteDocument', () => {
       it('should delete document by id', async () => {
         mockQuery.mockResolvedValueOnce({ rowCount: 1 });
@@ -145,6 +254,81 @@ describe('PostgresStore', () => {
         );
       });
     });
+
+    describe('updateDocumentMetadata', () => {
+      it('should merge keys into the existing metadata', async () => {
+        mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+
+        await store.updateDocumentMetadata('doc-123', { lowQualityPages: [4] });
+
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('|| $2::jsonb'), [
+          'doc-123',
+          JSON.stringify({ lowQualityPages: [4] }),
+        ]);
+      });
+    });
+  });
+
+  describe('Document Pages', () => {
+    const quality = { score: 0.42, density: 0.8, dictionaryRatio: 0.5, garbageRatio: 0.1 };
+
+    describe('saveDocumentPages', () => {
+      it('should upsert each page in a transaction', async () => {
+        mockQuery.mockResolvedValue({ rows: [] });
+
+        await store.saveDocumentPages('doc-123', [
+          { pageNumber: 1, markdown: '[Page: 1]\n\nText', source: 'native', quality },
+          { pageNumber: 2, markdown: '' },
+        ]);
+
+        expect(mockQuery).toHaveBeenCalledWith('BEGIN');
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('ON CONFLICT'), [
+          'doc-123',
+          1,
+          '[Page: 1]\n\nText',
+          'native',
+          JSON.stringify(quality),
+        ]);
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('ON CONFLICT'), [
+          'doc-123',
+          2,
+          '',
+          undefined,
+          null,
+        ]);
+        expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+      });
+
+      it('should do nothing without pages', async () => {
+        await store.saveDocumentPages('doc-123', []);
+
+        expect(mockQuery).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('getDocumentPages', () => {
+      it('should use the quality score as the page confidence', async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [
+            { pageNumber: 1, markdown: 'Text', source: 'ocr', quality },
+            { pageNumber: 2, markdown: '', source: null, quality: null },
+          ],
+        });
+
+        const pages = await store.getDocumentPages('doc-123');
+
+        expect(pages).toEqual([
+          { pageNumber: 1, markdown: 'Text', confidence: 0.42, source: 'ocr', quality },
+          {
+            pageNumber: 2,
+            markdown: '',
+            confidence: undefined,
+            source: undefined,
+            quality: undefined,
+          },
+        ]);
+      });
+    });
   });
 
   describe('Chunk Operations', () => {
@@ -196,6 +380,110 @@ describe('PostgresStore', () => {
       });
     });
 
+    describe('insertRegulatoryChunks', () => {
+      it('should insert section metadata in a transaction', async () => {
+        mockQuery.mockResolvedValue({ rows: [] });
+
+        await store.insertRegulatoryChunks([
+          {
+            chunkId: 'chunk-1',
+            chapterNumber: '258',
+            sectionNumber: '258.3',
+            sectionPath: ['Chapter 258', '§ 258.3'],
+            sectionTitle: 'Property subject to recovery',
+            sourceAuthority: 'pa_code',
+            legalWeight: 'regulatory',
+            crossReferences: ['§ 258.1'],
+            amendmentCitation: '52 Pa.B. 1234',
+          },
+        ]);
+
+        expect(mockQuery).toHaveBeenCalledWith('BEGIN');
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining('INSERT INTO regulatory_chunks'),
+          expect.arrayContaining(['chunk-1', '258.3', ['Chapter 258', '§ 258.3'], ['§ 258.1'], '52 Pa.B. 1234'])
+        );
+        expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+      });
+
+      it('should skip the transaction when there is nothing to insert', async () => {
+        await store.insertRegulatoryChunks([]);
+
+        expect(mockQuery).not.toHaveBeenCalled();
+      });
+
+      it('should roll back and throw PostgresError on failure', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // BEGIN
+        mockQuery.mockRejectedValueOnce(new Error('insert failed'));
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // ROLLBACK
+
+        await expect(
+          store.insertRegulatoryChunks([
+            {
+              chunkId: 'chunk-1',
+              sectionPath: [],
+              sourceAuthority: 'oim_handbook',
+              legalWeight: 'guidance',
+              crossReferences: [],
+            },
+          ])
+        ).rejects.toThrow('Failed to insert regulatory chunk metadata');
+        expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+      });
+    });
+
+    describe('replaceChunks', () => {
+      it('should delete the old chunks in the same transaction', async () => {
+        const chunk = { documentId: 'doc-1', chunkIndex: 0, content: 'New chunk' };
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // BEGIN
+        mockQuery.mockResolvedValueOnce({ rowCount: 3 }); // DELETE
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: 'chunk-9', ...chunk }] });
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // COMMIT
+
+        const result = await store.replaceChunks('doc-1', [chunk]);
+
+        expect(result).toEqual([{ id: 'chunk-9', ...chunk }]);
+        expect(mockQuery.mock.calls.map(([sql]) => String(sql).trim().split(/\s+/)[0])).toEqual([
+          'BEGIN',
+          'DELETE',
+          'INSERT',
+          'COMMIT',
+        ]);
+      });
+    });
+
+    describe('replaceDocumentChunks', () => {
+      it('should keep chunk IDs and roll back on failure', async () => {
+        const chunk = {
+          id: 'chunk-9',
+          documentId: 'doc-1',
+          chunkIndex: 0,
+          content: 'New chunk',
+          metadata: {},
+          createdAt: new Date(),
+        };
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // BEGIN
+        mockQuery.mockResolvedValueOnce({ rowCount: 3 }); // DELETE doc-1
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // INSERT
+        mockQuery.mockRejectedValueOnce(new Error('Foreign key violation')); // DELETE doc-2
+
+        await expect(
+          store.replaceDocumentChunks(
+            new Map([
+              ['doc-1', [chunk]],
+              ['doc-2', [{ ...chunk, id: 'chunk-10', documentId: 'doc-2' }]],
+            ])
+          )
+        ).rejects.toThrow('Failed to replace document chunks');
+
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining('INSERT INTO chunks (id,'),
+          expect.arrayContaining(['chunk-9', 'doc-1'])
+        );
+        expect(mockQuery).toHaveBeenLastCalledWith('ROLLBACK');
+      });
+    });
+
     describe('getChunksByDocument', () => {
       it('should return chunks ordered by index', async () => {
         const mockChunks = [
@@ -267,6 +555,35 @@ describe('PostgresStore', () => {
 
         expect(result[0].pageNumber).toBeUndefined();
       });
+
+      it('should pass metadata filters to search_bm25', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+
+        await store.searchBM25('resource limit', 10, {
+          documentTypes: ['oim_ltc_handbook'],
+          sourceAuthority: 'primary',
+          effectiveAfter: '2024-01-01',
+        });
+
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining('search_bm25($1, $2, $3, $4, $5, $6, $7)'),
+          ['resource limit', 10, ['oim_ltc_handbook'], 'primary', null, null, '2024-01-01']
+        );
+      });
+    });
+
+    describe('searchBM25Expanded', () => {
+      it('should pass the query groups to search_bm25_expanded', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+        const groups = ['income limit', 'QMB OR "Qualified Medicare Beneficiary"'];
+
+        await store.searchBM25Expanded(groups, 10);
+
+        expect(mockQuery).toHaveBeenCalledWith(
+          'SELECT * FROM search_bm25_expanded($1, $2)',
+          [groups, 10]
+        );
+      });
     });
   });
 
@@ -276,15 +593,19 @@ describe('PostgresStore', () => {
         const embedding = [0.1, 0.2, 0.3];
         mockQuery.mockResolvedValueOnce({ rows: [{ embedding }] });
 
-        const result = await store.getCachedEmbedding('hash-123');
+        const result = await store.getCachedEmbedding('hash-123', 'model-1');
 
         expect(result).toEqual(embedding);
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('model = $2'), [
+          'hash-123',
+          'model-1',
+        ]);
       });
 
       it('should return null when not found', async () => {
         mockQuery.mockResolvedValueOnce({ rows: [] });
 
-        const result = await store.getCachedEmbedding('nonexistent');
+        const result = await store.getCachedEmbedding('nonexistent', 'model-1');
 
         expect(result).toBeNull();
       });
@@ -292,7 +613,7 @@ describe('PostgresStore', () => {
       it('should return null on error (non-critical)', async () => {
         mockQuery.mockRejectedValueOnce(new Error('Connection failed'));
 
-        const result = await store.getCachedEmbedding('hash-123');
+        const result = await store.getCachedEmbedding('hash-123', 'model-1');
 
         expect(result).toBeNull();
       });
@@ -305,13 +626,124 @@ describe('PostgresStore', () => {
         await store.cacheEmbedding('hash-123', [0.1, 0.2], 'model-1');
 
         expect(mockQuery).toHaveBeenCalledWith(
-          expect.stringContaining('ON CONFLICT'),
-          expect.arrayContaining(['hash-123'])
+          expect.stringContaining('ON CONFLICT (content_hash, model)'),
+          expect.arrayContaining(['hash-123', 'model-1'])
+        );
+      });
+    });
+  });
+
+  describe('Embedding Collections', () => {
+    describe('registerEmbeddingCollection', () => {
+      it('should keep and return an existing record', async () => {
+        const existing = {
+          collection: 'medicaid_chunks_nomic',
+          model: 'nomic',
+          dimension: 768,
+          distance: 'Cosine',
+          createdAt: new Date(),
+        };
+        mockQuery.mockResolvedValueOnce({ rows: [existing] });
+
+        const result = await store.registerEmbeddingCollection({
+          collection: 'medicaid_chunks_nomic',
+          model: 'other-model',
+          dimension: 768,
+          distance: 'Cosine',
+        });
+
+        expect(result).toEqual(existing);
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining('ON CONFLICT (collection) DO UPDATE'),
+          ['medicaid_chunks_nomic', 'other-model', 768, 'Cosine']
         );
       });
     });
   });
 
+  describe('OCR Page Cache', () => {
+    describe('getCachedOcrPage', () => {
+      it('should return the markdown and mark the entry used', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ markdown: '# Page 3' }] });
+
+        const markdown = await store.getCachedOcrPage('key-1');
+
+        expect(markdown).toBe('# Page 3');
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('SET last_used_at'), [
+          'key-1',
+        ]);
+      });
+
+      it('should treat errors as a miss', async () => {
+        mockQuery.mockRejectedValueOnce(new Error('Connection lost'));
+
+        expect(await store.getCachedOcrPage('key-1')).toBeNull();
+      });
+    });
+
+    describe('cacheOcrPage', () => {
+      it('should not throw when caching fails', async () => {
+        mockQuery.mockRejectedValueOnce(new Error('Connection lost'));
+
+        await expect(
+          store.cacheOcrPage({
+            cacheKey: 'key-1',
+            fileHash: 'abc',
+            pageNumber: 3,
+            model: 'olmocr',
+            markdown: '# Page 3',
+          })
+        ).resolves.toBeUndefined();
+      });
+    });
+
+    describe('getOcrCacheStats', () => {
+      it('should combine totals with entries per model', async () => {
+        mockQuery
+          .mockResolvedValueOnce({
+            rows: [{ entries: 5, files: 2, totalBytes: 2048, oldestUsedAt: null }],
+          })
+          .mockResolvedValueOnce({ rows: [{ model: 'olmocr', entries: 5 }] });
+
+        const stats = await store.getOcrCacheStats();
+
+        expect(stats).toEqual({
+          entries: 5,
+          files: 2,
+          totalBytes: 2048,
+          byModel: [{ model: 'olmocr', entries: 5 }],
+          oldestUsedAt: undefined,
+        });
+      });
+    });
+
+    describe('pruneOcrCache', () => {
+      it('should combine every condition of the filter', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 4 });
+
+        const removed = await store.pruneOcrCache({
+          unusedDays: 30,
+          exceptModel: 'olmocr',
+          orphaned: true,
+        });
+
+        expect(removed).toBe(4);
+        const [sql, params] = mockQuery.mock.calls[0];
+        expect(sql).toContain("last_used_at < NOW() - INTERVAL '1 day' * $1");
+        expect(sql).toContain('ocr_model <> $2');
+        expect(sql).toContain('NOT EXISTS');
+        expect(params).toEqual([30, 'olmocr']);
+      });
+
+      it('should remove everything without a filter', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 9 });
+
+        expect(await store.pruneOcrCache()).toBe(9);
+        expect(mockQuery).toHaveBeenCalledWith(expect.not.stringContaining('WHERE'), []);
+      });
+    });
+  });
+
   describe('Query Cache', () => {
     describe('getCachedQuery', () => {
       it('should return cached response when valid', async () => {
@@ -343,6 +775,357 @@ describe('PostgresStore', () => {
           expect.arrayContaining(['hash', 'query text'])
         );
       });
+
+      it('should record the cited documents', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+
+        await store.cacheQuery('hash', 'query text', { answer: 'response' }, 3600, ['doc-1']);
+
+        const [sql, params] = mockQuery.mock.calls[0];
+        expect(sql).toContain('document_ids = EXCLUDED.document_ids');
+        expect(params[4]).toEqual(['doc-1']);
+      });
+    });
+
+    describe('invalidateCachedQueries', () => {
+      it('should remove entries citing any of the documents', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 3 });
+
+        const removed = await store.invalidateCachedQueries(['doc-1', 'doc-2']);
+
+        expect(removed).toBe(3);
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining('document_ids && $1::uuid[]'),
+          [['doc-1', 'doc-2']]
+        );
+      });
+
+      it('should skip the query without documents', async () => {
+        expect(await store.invalidateCachedQueries([])).toBe(0);
+        expect(mockQuery).not.toHaveBeenCalled();
+      });
+
+      it('should not throw when the delete fails', async () => {
+        mockQuery.mockRejectedValueOnce(new Error('Connection lost'));
+
+        expect(await store.invalidateCachedQueries(['doc-1'])).toBe(0);
+      });
+    });
+
+    describe('clearQueryCache', () => {
+      it('should remove every entry', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 7 });
+
+        expect(await store.clearQueryCache()).toBe(7);
+        expect(mockQuery).toHaveBeenCalledWith('DELETE FROM query_cache');
+      });
+
+      it('should remove only expired entries when asked', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 2 });
+
+        await store.clearQueryCache({ expiredOnly: true });
+
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('expires_at <= NOW()'));
+      });
+    });
+  });
+
+  describe('Conversations', () => {
+    describe('getConversationTurns', () => {
+      it('should return recent turns for a conversation', async () => {
+        const turns = [
+          { id: 'turn-1', conversationId: 'conv-1', turnIndex: 0, queryText: 'What is QMB?', answerText: 'QMB pays...' },
+        ];
+        mockQuery.mockResolvedValueOnce({ rows: turns });
+
+        const result = await store.getConversationTurns('conv-1', 5);
+
+        expect(result).toEqual(turns);
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining('FROM conversation_turns'),
+          ['conv-1', 5]
+        );
+      });
+
+      it('should return empty array on error', async () => {
+        mockQuery.mockRejectedValueOnce(new Error('relation does not exist'));
+
+        const result = await store.getConversationTurns('conv-1', 5);
+
+        expect(result).toEqual([]);
+      });
+    });
+
+    describe('addConversationTurn', () => {
+      it('should upsert the conversation and insert the turn in a transaction', async () => {
+        mockQuery.mockResolvedValue({ rows: [] });
+
+        await store.addConversationTurn({
+          conversationId: 'conv-1',
+          queryText: 'What about my husband?',
+          standaloneQuery: 'What are the QMB limits for my husband?',
+          answerText: 'For a couple...',
+          queryId: 'query-1',
+        });
+
+        expect(mockQuery).toHaveBeenCalledWith('BEGIN');
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining('INSERT INTO conversations'),
+          ['conv-1']
+        );
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining('INSERT INTO conversation_turns'),
+          expect.arrayContaining(['conv-1', 'What about my husband?'])
+        );
+        expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+      });
+
+      it('should roll back without throwing on error', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // BEGIN
+        mockQuery.mockRejectedValueOnce(new Error('insert failed'));
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // ROLLBACK
+
+        await expect(
+          store.addConversationTurn({
+            conversationId: 'conv-1',
+            queryText: 'Question',
+            answerText: 'Answer',
+          })
+        ).resolves.toBeUndefined();
+
+        expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+      });
+    });
+  });
+
+  describe('Eligibility Limits', () => {
+    describe('getProgramLimits', () => {
+      it('should map nullable columns to undefined', async () => {
+        const effectiveDate = new Date('2025-04-01');
+        mockQuery.mockResolvedValueOnce({
+          rows: [
+            {
+              program: 'PACE',
+              dataType: 'pace_pacenet_limits',
+              householdSize: 1,
+              effectiveYear: 2025,
+              effectiveDate,
+              incomeLimit: 14500,
+              incomePeriod: 'annual',
+              assetLimit: null,
+              minAge: 65,
+            },
+          ],
+        });
+
+        const result = await store.getProgramLimits();
+
+        expect(result).toEqual([
+          {
+            program: 'PACE',
+            dataType: 'pace_pacenet_limits',
+            householdSize: 1,
+            effectiveYear: 2025,
+            effectiveDate,
+            incomeLimit: 14500,
+            incomePeriod: 'annual',
+            assetLimit: undefined,
+            minAge: 65,
+          },
+        ]);
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('FROM program_limits'));
+      });
+
+      it('should return empty array on error', async () => {
+        mockQuery.mockRejectedValueOnce(new Error('relation does not exist'));
+
+        expect(await store.getProgramLimits()).toEqual([]);
+      });
+    });
+  });
+
+  describe('Guardrail Rules', () => {
+    const row = {
+      category: 'appeals',
+      keywords: ['appeal', 'fair hearing'],
+      weight: 0.8,
+      disclaimer: 'You have the right to appeal.',
+      referral: null,
+      updatedAt: new Date('2025-06-01'),
+    };
+
+    describe('getGuardrailRules', () => {
+      it('should map a missing referral to undefined', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [row] });
+
+        const result = await store.getGuardrailRules();
+
+        expect(result).toEqual([{ ...row, referral: undefined }]);
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('FROM sensitive_topics'));
+      });
+
+      it('should throw PostgresError on error', async () => {
+        mockQuery.mockRejectedValueOnce(new Error('relation does not exist'));
+
+        await expect(store.getGuardrailRules()).rejects.toThrow('Failed to get guardrail rules');
+      });
+    });
+
+    describe('insertGuardrailRule', () => {
+      it('should return null when the category exists', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+
+        const result = await store.insertGuardrailRule({
+          category: 'appeals',
+          keywords: ['appeal'],
+          weight: 1,
+          disclaimer: 'Text',
+        });
+
+        expect(result).toBeNull();
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining('ON CONFLICT (category) DO NOTHING'),
+          ['appeals', ['appeal'], 1, 'Text', null]
+        );
+      });
+    });
+
+    describe('updateGuardrailRule', () => {
+      it('should only change the given fields', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ ...row, disclaimer: 'New text' }] });
+
+        const result = await store.updateGuardrailRule('appeals', { disclaimer: 'New text' });
+
+        expect(result?.disclaimer).toBe('New text');
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('UPDATE sensitive_topics'), [
+          'appeals',
+          null,
+          null,
+          'New text',
+          false,
+          null,
+        ]);
+      });
+
+      it('should clear the referral when given null', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [row] });
+
+        await store.updateGuardrailRule('appeals', { referral: null });
+
+        expect(mockQuery).toHaveBeenCalledWith(expect.any(String), [
+          'appeals',
+          null,
+          null,
+          null,
+          true,
+          null,
+        ]);
+      });
+
+      it('should throw PostgresError on failure', async () => {
+        mockQuery.mockRejectedValueOnce(new Error('connection lost'));
+
+        await expect(store.updateGuardrailRule('appeals', { weight: 2 })).rejects.toThrow(
+          'Failed to update guardrail rule'
+        );
+      });
+    });
+  });
+
+  describe('Ingestion Jobs', () => {
+    const progress = {
+      filesDone: 0,
+      filesTotal: 1,
+      pagesDone: 0,
+      pagesTotal: 0,
+      failedPages: [],
+      chunksDone: 0,
+      chunksTotal: 0,
+    };
+    const row = {
+      id: 'job-1',
+      request: { type: 'ingest_file', filepath: '/data/pdfs/handbook.pdf' },
+      state: 'queued',
+      progress,
+      result: null,
+      error: null,
+      attempts: 0,
+      cancelRequested: false,
+      createdAt: new Date('2025-06-01'),
+      startedAt: null,
+      finishedAt: null,
+      updatedAt: new Date('2025-06-01'),
+    };
+
+    describe('insertJob', () => {
+      it('should store the request as the payload', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [row] });
+
+        const result = await store.insertJob({
+          type: 'ingest_file',
+          filepath: '/data/pdfs/handbook.pdf',
+        });
+
+        expect(result.startedAt).toBeUndefined();
+        expect(result.result).toBeUndefined();
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining('INSERT INTO ingestion_jobs'),
+          ['ingest_file', JSON.stringify(row.request)]
+        );
+      });
+    });
+
+    describe('claimNextJob', () => {
+      it('should skip jobs locked by another worker', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ ...row, state: 'running', attempts: 1 }] });
+
+        const result = await store.claimNextJob();
+
+        expect(result?.state).toBe('running');
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('FOR UPDATE SKIP LOCKED'));
+      });
+
+      it('should return null when nothing is queued', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+
+        expect(await store.claimNextJob()).toBeNull();
+      });
+    });
+
+    describe('updateJobProgress', () => {
+      it('should return whether cancellation was requested', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ cancelRequested: true }] });
+
+        expect(await store.updateJobProgress('job-1', progress)).toBe(true);
+      });
+
+      it('should return false on error', async () => {
+        mockQuery.mockRejectedValueOnce(new Error('connection lost'));
+
+        expect(await store.updateJobProgress('job-1', progress)).toBe(false);
+      });
+    });
+
+    describe('requestJobCancel', () => {
+      it('should only touch queued or running jobs', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+
+        const result = await store.requestJobCancel('job-1');
+
+        expect(result).toBeNull();
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining("state IN ('queued', 'running')"),
+          ['job-1']
+        );
+      });
+    });
+
+    describe('requeueStaleJobs', () => {
+      it('should return the number of requeued jobs', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 2 });
+
+        expect(await store.requeueStaleJobs(60_000)).toBe(2);
+      });
     });
   });
 
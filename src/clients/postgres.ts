@@ -6,14 +6,113 @@ import {
   DocumentInput,
   Chunk,
   ChunkInput,
+  EmbeddingCollection,
+  OcrCachePruneFilter,
+  OcrCacheStats,
+  OcrPage,
+  PageQuality,
+  PageTextSource,
+  RegulatoryChunkInput,
   SearchResult,
+  QueryFilters,
   QueryLog,
+  QueryCacheStats,
+  ConversationTurn,
+  ConversationTurnInput,
+  ProgramLimit,
+  GuardrailRule,
+  GuardrailRuleInput,
+  GuardrailRuleUpdate,
+  IngestionJob,
+  IngestionJobRequest,
+  JobProgress,
+  JobState,
 } from '../types/index.js';
 import { createChildLogger } from '../utils/logger.js';
 
 const { Pool } = pg;
 const logger = createChildLogger('postgres');
 
+/**
+ * Document columns selected for every document query
+ */
+const DOCUMENT_COLUMNS = `id, filename, filepath, file_hash as "fileHash", title, total_pages as "totalPages",
+  ingested_at as "ingestedAt", metadata, document_type as "documentType",
+  source_authority as "sourceAuthority", legal_weight as "legalWeight", source_format as "sourceFormat",
+  effective_date as "effectiveDate", target_programs as "targetPrograms", source_url as "sourceUrl",
+  update_frequency as "updateFrequency", lineage_id as "lineageId", version,
+  expiration_date as "expirationDate", superseded_by as "supersededBy", superseded_at as "supersededAt"`;
+
+/**
+ * Sensitive topic columns selected for every guardrail rule query
+ */
+const GUARDRAIL_RULE_COLUMNS = `category, keywords, weight, disclaimer_template as "disclaimer",
+  referral_suggestion as "referral", updated_at as "updatedAt"`;
+
+interface GuardrailRuleRow {
+  category: string;
+  keywords: string[];
+  weight: number;
+  disclaimer: string;
+  referral: string | null;
+  updatedAt: Date | null;
+}
+
+function toGuardrailRule(row: GuardrailRuleRow): GuardrailRule {
+  return {
+    ...row,
+    referral: row.referral ?? undefined,
+    updatedAt: row.updatedAt ?? undefined,
+  };
+}
+
+/**
+ * Embedding collection columns selected for every registry query
+ */
+const EMBEDDING_COLLECTION_COLUMNS =
+  'collection, model, dimension, distance, created_at as "createdAt"';
+
+/**
+ * Ingestion job columns selected for every job query
+ */
+const JOB_COLUMNS = `id, payload as "request", state, progress, result, error, attempts,
+  cancel_requested as "cancelRequested", created_at as "createdAt", started_at as "startedAt",
+  finished_at as "finishedAt", updated_at as "updatedAt"`;
+
+interface JobRow extends Omit<IngestionJob, 'result' | 'error' | 'startedAt' | 'finishedAt'> {
+  result: Record<string, unknown> | null;
+  error: string | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+function toIngestionJob(row: JobRow): IngestionJob {
+  return {
+    ...row,
+    result: row.result ?? undefined,
+    error: row.error ?? undefined,
+    startedAt: row.startedAt ?? undefined,
+    finishedAt: row.finishedAt ?? undefined,
+  };
+}
+
+interface DocumentPageRow {
+  pageNumber: number;
+  markdown: string;
+  source: PageTextSource | null;
+  quality: PageQuality | null;
+}
+
+function toOcrPage(row: DocumentPageRow): OcrPage {
+  return {
+    pageNumber: row.pageNumber,
+    markdown: row.markdown,
+    confidence: row.quality?.score,
+    source: row.source ?? undefined,
+    quality: row.quality ?? undefined,
+  };
+}
+
 /**
  * Postgres database client for documents, chunks, and BM25 search
  */
@@ -44,10 +143,12 @@ export class PostgresStore {
   async insertDocument(doc: DocumentInput): Promise<Document> {
     try {
       const result = await this.pool.query<Document>(
-        `INSERT INTO documents (filename, filepath, file_hash, title, total_pages, metadata)
-         VALUES ($1, $2, $3, $4, $5, $6)
-         RETURNING id, filename, filepath, file_hash as "fileHash", title, total_pages as "totalPages",
-                   ingested_at as "ingestedAt", metadata`,
+        `INSERT INTO documents (filename, filepath, file_hash, title, total_pages, metadata,
+                                document_type, source_authority, legal_weight, source_format,
+                                effective_date, target_programs, source_url, update_frequency,
+                                lineage_id, version)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, COALESCE($16, 1))
+         RETURNING ${DOCUMENT_COLUMNS}`,
         [
           doc.filename,
           doc.filepath,
@@ -55,6 +156,16 @@ export class PostgresStore {
           doc.title,
           doc.totalPages,
           JSON.stringify(doc.metadata || {}),
+          doc.documentType,
+          doc.sourceAuthority,
+          doc.legalWeight,
+          doc.sourceFormat,
+          doc.effectiveDate,
+          doc.targetPrograms,
+          doc.sourceUrl,
+          doc.updateFrequency,
+          doc.lineageId,
+          doc.version,
         ]
       );
 
@@ -76,8 +187,7 @@ export class PostgresStore {
   async getDocumentByHash(fileHash: string): Promise<Document | null> {
     try {
       const result = await this.pool.query<Document>(
-        `SELECT id, filename, filepath, file_hash as "fileHash", title, total_pages as "totalPages",
-                ingested_at as "ingestedAt", metadata
+        `SELECT ${DOCUMENT_COLUMNS}
          FROM documents WHERE file_hash = $1`,
         [fileHash]
       );
@@ -91,8 +201,7 @@ export class PostgresStore {
   async getDocumentById(id: string): Promise<Document | null> {
     try {
       const result = await this.pool.query<Document>(
-        `SELECT id, filename, filepath, file_hash as "fileHash", title, total_pages as "totalPages",
-                ingested_at as "ingestedAt", metadata
+        `SELECT ${DOCUMENT_COLUMNS}
          FROM documents WHERE id = $1`,
         [id]
       );
@@ -103,11 +212,77 @@ export class PostgresStore {
     }
   }
 
+  /**
+   * Current (not superseded) version of a document, matched by source URL when
+   * one is known and by filename otherwise
+   */
+  async getCurrentVersion(filename: string, sourceUrl?: string): Promise<Document | null> {
+    try {
+      const result = await this.pool.query<Document>(
+        `SELECT ${DOCUMENT_COLUMNS}
+         FROM documents
+         WHERE superseded_at IS NULL
+           AND CASE WHEN $2::text IS NOT NULL THEN source_url = $2 ELSE filename = $1 END
+         ORDER BY version DESC, ingested_at DESC
+         LIMIT 1`,
+        [filename, sourceUrl ?? null]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error({ error, filename, sourceUrl }, 'Failed to get current document version');
+      throw new PostgresError('Failed to get current document version', error);
+    }
+  }
+
+  /**
+   * Mark a document as replaced by a newer version. It expires when the new
+   * version takes effect, or today if that is unknown.
+   */
+  async supersedeDocument(
+    id: string,
+    supersededBy: string,
+    expirationDate: Date = new Date()
+  ): Promise<void> {
+    try {
+      await this.pool.query(
+        `UPDATE documents SET
+           superseded_by = $2,
+           superseded_at = NOW(),
+           expiration_date = $3
+         WHERE id = $1`,
+        [id, supersededBy, expirationDate]
+      );
+      logger.info({ id, supersededBy }, 'Document superseded');
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to supersede document');
+      throw new PostgresError('Failed to supersede document', error);
+    }
+  }
+
+  /**
+   * All versions in a document's lineage with their chunk counts, newest first
+   */
+  async getDocumentVersions(id: string): Promise<Array<Document & { chunkCount: number }>> {
+    try {
+      const result = await this.pool.query<Document & { chunkCount: number }>(
+        `SELECT ${DOCUMENT_COLUMNS},
+                (SELECT COUNT(*) FROM chunks c WHERE c.document_id = documents.id)::int as "chunkCount"
+         FROM documents
+         WHERE lineage_id = (SELECT lineage_id FROM documents WHERE id = $1)
+         ORDER BY version DESC`,
+        [id]
+      );
+      return result.rows;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to get document versions');
+      throw new PostgresError('Failed to get document versions', error);
+    }
+  }
+
   async listDocuments(): Promise<Document[]> {
     try {
       const result = await this.pool.query<Document>(
-        `SELECT id, filename, filepath, file_hash as "fileHash", title, total_pages as "totalPages",
-                ingested_at as "ingestedAt", metadata
+        `SELECT ${DOCUMENT_COLUMNS}
          FROM documents ORDER BY ingested_at DESC`
       );
       return result.rows;
@@ -117,6 +292,25 @@ export class PostgresStore {
     }
   }
 
+  /**
+   * List current document versions with their chunk counts for the document catalog
+   */
+  async listDocumentsWithChunkCounts(): Promise<Array<Document & { chunkCount: number }>> {
+    try {
+      const result = await this.pool.query<Document & { chunkCount: number }>(
+        `SELECT ${DOCUMENT_COLUMNS},
+                (SELECT COUNT(*) FROM chunks c WHERE c.document_id = documents.id)::int as "chunkCount"
+         FROM documents
+         WHERE superseded_at IS NULL
+         ORDER BY ingested_at DESC`
+      );
+      return result.rows;
+    } catch (error) {
+      logger.error({ error }, 'Failed to list documents with chunk counts');
+      throw new PostgresError('Failed to list documents with chunk counts', error);
+    }
+  }
+
   async deleteDocument(id: string): Promise<void> {
     try {
       await this.pool.query('DELETE FROM documents WHERE id = $1', [id]);
@@ -127,6 +321,85 @@ export class PostgresStore {
     }
   }
 
+  /**
+   * Merge keys into a document's metadata
+   */
+  async updateDocumentMetadata(id: string, metadata: Record<string, unknown>): Promise<void> {
+    try {
+      await this.pool.query(
+        `UPDATE documents SET metadata = COALESCE(metadata, '{}'::jsonb) || $2::jsonb WHERE id = $1`,
+        [id, JSON.stringify(metadata)]
+      );
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to update document metadata');
+      throw new PostgresError('Failed to update document metadata', error);
+    }
+  }
+
+  // ============================================================
+  // Document Pages
+  // ============================================================
+
+  /**
+   * Store extracted pages, replacing stored pages with the same numbers
+   */
+  async saveDocumentPages(documentId: string, pages: OcrPage[]): Promise<void> {
+    if (pages.length === 0) {
+      return;
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      for (const page of pages) {
+        await client.query(
+          `INSERT INTO document_pages (document_id, page_number, markdown, source, quality)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (document_id, page_number) DO UPDATE SET
+             markdown = EXCLUDED.markdown,
+             source = EXCLUDED.source,
+             quality = EXCLUDED.quality,
+             updated_at = NOW()`,
+          [
+            documentId,
+            page.pageNumber,
+            page.markdown,
+            page.source,
+            page.quality ? JSON.stringify(page.quality) : null,
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+      logger.debug({ documentId, count: pages.length }, 'Document pages saved');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error({ error, documentId }, 'Failed to save document pages');
+      throw new PostgresError('Failed to save document pages', error);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * A document's stored pages in order. Empty for documents ingested before
+   * pages were stored.
+   */
+  async getDocumentPages(documentId: string): Promise<OcrPage[]> {
+    try {
+      const result = await this.pool.query<DocumentPageRow>(
+        `SELECT page_number as "pageNumber", markdown, source, quality
+         FROM document_pages WHERE document_id = $1 ORDER BY page_number`,
+        [documentId]
+      );
+      return result.rows.map(toOcrPage);
+    } catch (error) {
+      logger.error({ error, documentId }, 'Failed to get document pages');
+      throw new PostgresError('Failed to get document pages', error);
+    }
+  }
+
   // ============================================================
   // Chunk Operations
   // ============================================================
@@ -164,28 +437,7 @@ export class PostgresStore {
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
-
-      const insertedChunks: Chunk[] = [];
-      for (const chunk of chunks) {
-        const result = await client.query<Chunk>(
-          `INSERT INTO chunks (document_id, chunk_index, content, page_number, start_char, end_char, metadata)
-           VALUES ($1, $2, $3, $4, $5, $6, $7)
-           RETURNING id, document_id as "documentId", chunk_index as "chunkIndex", content,
-                     page_number as "pageNumber", start_char as "startChar", end_char as "endChar",
-                     metadata, created_at as "createdAt"`,
-          [
-            chunk.documentId,
-            chunk.chunkIndex,
-            chunk.content,
-            chunk.pageNumber,
-            chunk.startChar,
-            chunk.endChar,
-            JSON.stringify(chunk.metadata || {}),
-          ]
-        );
-        insertedChunks.push(result.rows[0]);
-      }
-
+      const insertedChunks = await this.insertChunkRows(client, chunks);
       await client.query('COMMIT');
       logger.info({ count: insertedChunks.length }, 'Batch chunks inserted');
       return insertedChunks;
@@ -198,6 +450,90 @@ export class PostgresStore {
     }
   }
 
+  /**
+   * Replace all of a document's chunks in one transaction, e.g. after some of
+   * its pages were extracted again
+   */
+  async replaceChunks(documentId: string, chunks: ChunkInput[]): Promise<Chunk[]> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM chunks WHERE document_id = $1', [documentId]);
+      const insertedChunks = await this.insertChunkRows(client, chunks);
+      await client.query('COMMIT');
+      logger.info({ documentId, count: insertedChunks.length }, 'Document chunks replaced');
+      return insertedChunks;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error({ error, documentId }, 'Failed to replace chunks');
+      throw new PostgresError('Failed to replace chunks', error);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replace the chunks of several documents in one transaction. The chunks
+   * keep their IDs, so they match vectors already stored under those IDs.
+   */
+  async replaceDocumentChunks(chunksByDocument: Map<string, Chunk[]>): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const [documentId, chunks] of chunksByDocument) {
+        await client.query('DELETE FROM chunks WHERE document_id = $1', [documentId]);
+        for (const chunk of chunks) {
+          await client.query(
+            `INSERT INTO chunks (id, document_id, chunk_index, content, page_number, start_char, end_char, metadata)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+            [
+              chunk.id,
+              documentId,
+              chunk.chunkIndex,
+              chunk.content,
+              chunk.pageNumber,
+              chunk.startChar,
+              chunk.endChar,
+              JSON.stringify(chunk.metadata || {}),
+            ]
+          );
+        }
+      }
+      await client.query('COMMIT');
+      logger.info({ documents: chunksByDocument.size }, 'Document chunks replaced');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error({ error }, 'Failed to replace document chunks');
+      throw new PostgresError('Failed to replace document chunks', error);
+    } finally {
+      client.release();
+    }
+  }
+
+  private async insertChunkRows(client: pg.PoolClient, chunks: ChunkInput[]): Promise<Chunk[]> {
+    const insertedChunks: Chunk[] = [];
+    for (const chunk of chunks) {
+      const result = await client.query<Chunk>(
+        `INSERT INTO chunks (document_id, chunk_index, content, page_number, start_char, end_char, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING id, document_id as "documentId", chunk_index as "chunkIndex", content,
+                   page_number as "pageNumber", start_char as "startChar", end_char as "endChar",
+                   metadata, created_at as "createdAt"`,
+        [
+          chunk.documentId,
+          chunk.chunkIndex,
+          chunk.content,
+          chunk.pageNumber,
+          chunk.startChar,
+          chunk.endChar,
+          JSON.stringify(chunk.metadata || {}),
+        ]
+      );
+      insertedChunks.push(result.rows[0]);
+    }
+    return insertedChunks;
+  }
+
   async getChunksByDocument(documentId: string): Promise<Chunk[]> {
     try {
       const result = await this.pool.query<Chunk>(
@@ -230,13 +566,99 @@ export class PostgresStore {
     }
   }
 
+  /**
+   * Store section metadata for regulatory chunks in a single transaction
+   */
+  async insertRegulatoryChunks(entries: RegulatoryChunkInput[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      for (const entry of entries) {
+        await client.query(
+          `INSERT INTO regulatory_chunks (chunk_id, chapter_number, section_number, subsection_number,
+                                          section_path, section_title, source_authority, legal_weight,
+                                          cross_references, effective_date, last_amended, amendment_citation)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+          [
+            entry.chunkId,
+            entry.chapterNumber,
+            entry.sectionNumber,
+            entry.subsectionNumber,
+            entry.sectionPath,
+            entry.sectionTitle,
+            entry.sourceAuthority,
+            entry.legalWeight,
+            entry.crossReferences,
+            entry.effectiveDate,
+            entry.lastAmended,
+            entry.amendmentCitation,
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+      logger.info({ count: entries.length }, 'Regulatory chunk metadata inserted');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error({ error }, 'Failed to insert regulatory chunk metadata');
+      throw new PostgresError('Failed to insert regulatory chunk metadata', error);
+    } finally {
+      client.release();
+    }
+  }
+
   // ============================================================
   // BM25 Search
   // ============================================================
 
-  async searchBM25(query: string, topK: number): Promise<SearchResult[]> {
+  async searchBM25(
+    query: string,
+    topK: number,
+    filters?: QueryFilters
+  ): Promise<SearchResult[]> {
+    logger.debug({ query, topK, hasFilter: !!filters }, 'Executing BM25 search');
+    return this.runBM25Search('search_bm25', query, topK, filters);
+  }
+
+  /**
+   * BM25 search for a query expanded by query analysis. Chunks must match every
+   * group; each group is in websearch syntax, e.g. `QMB OR "Qualified Medicare Beneficiary"`.
+   */
+  async searchBM25Expanded(
+    groups: string[],
+    topK: number,
+    filters?: QueryFilters
+  ): Promise<SearchResult[]> {
+    logger.debug({ groups, topK, hasFilter: !!filters }, 'Executing expanded BM25 search');
+    return this.runBM25Search('search_bm25_expanded', groups, topK, filters);
+  }
+
+  private async runBM25Search(
+    fn: 'search_bm25' | 'search_bm25_expanded',
+    query: string | string[],
+    topK: number,
+    filters?: QueryFilters
+  ): Promise<SearchResult[]> {
     try {
-      logger.debug({ query, topK }, 'Executing BM25 search');
+      const sql = filters
+        ? `SELECT * FROM ${fn}($1, $2, $3, $4, $5, $6, $7)`
+        : `SELECT * FROM ${fn}($1, $2)`;
+      const params = filters
+        ? [
+            query,
+            topK,
+            filters.documentTypes?.length ? filters.documentTypes : null,
+            filters.sourceAuthority ?? null,
+            filters.legalWeight ?? null,
+            filters.targetPrograms?.length ? filters.targetPrograms : null,
+            filters.effectiveAfter ?? null,
+          ]
+        : [query, topK];
 
       const result = await this.pool.query<{
         chunk_id: string;
@@ -246,7 +668,7 @@ export class PostgresStore {
         chunk_index: number;
         metadata: Record<string, unknown>;
         score: number;
-      }>('SELECT * FROM search_bm25($1, $2)', [query, topK]);
+      }>(sql, params);
 
       const searchResults: SearchResult[] = result.rows.map((row) => ({
         chunkId: row.chunk_id,
@@ -272,11 +694,15 @@ export class PostgresStore {
   // Embedding Cache
   // ============================================================
 
-  async getCachedEmbedding(contentHash: string): Promise<number[] | null> {
+  /**
+   * Cached embedding of content by a given model. Other models' embeddings of
+   * the same content are not returned.
+   */
+  async getCachedEmbedding(contentHash: string, model: string): Promise<number[] | null> {
     try {
       const result = await this.pool.query<{ embedding: number[] }>(
-        'SELECT embedding FROM embedding_cache WHERE content_hash = $1',
-        [contentHash]
+        'SELECT embedding FROM embedding_cache WHERE content_hash = $1 AND model = $2',
+        [contentHash, model]
       );
       return result.rows[0]?.embedding || null;
     } catch (error) {
@@ -294,7 +720,7 @@ export class PostgresStore {
       await this.pool.query(
         `INSERT INTO embedding_cache (content_hash, embedding, model)
          VALUES ($1, $2, $3)
-         ON CONFLICT (content_hash) DO NOTHING`,
+         ON CONFLICT (content_hash, model) DO NOTHING`,
         [contentHash, embedding, model]
       );
     } catch (error) {
@@ -303,6 +729,176 @@ export class PostgresStore {
     }
   }
 
+  // ============================================================
+  // Embedding Collections
+  // ============================================================
+
+  /**
+   * Record the embedding settings of a collection. An existing record is
+   * kept, and returned.
+   */
+  async registerEmbeddingCollection(
+    entry: Omit<EmbeddingCollection, 'createdAt'>
+  ): Promise<EmbeddingCollection> {
+    try {
+      // The no-op update makes RETURNING give back an existing record
+      const result = await this.pool.query<EmbeddingCollection>(
+        `INSERT INTO embedding_collections (collection, model, dimension, distance)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (collection) DO UPDATE SET collection = embedding_collections.collection
+         RETURNING ${EMBEDDING_COLLECTION_COLUMNS}`,
+        [entry.collection, entry.model, entry.dimension, entry.distance]
+      );
+      return result.rows[0];
+    } catch (error) {
+      logger.error({ error, collection: entry.collection }, 'Failed to register collection');
+      throw new PostgresError('Failed to register embedding collection', error);
+    }
+  }
+
+  async getEmbeddingCollection(collection: string): Promise<EmbeddingCollection | null> {
+    try {
+      const result = await this.pool.query<EmbeddingCollection>(
+        `SELECT ${EMBEDDING_COLLECTION_COLUMNS}
+         FROM embedding_collections WHERE collection = $1`,
+        [collection]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error({ error, collection }, 'Failed to get embedding collection');
+      throw new PostgresError('Failed to get embedding collection', error);
+    }
+  }
+
+  async listEmbeddingCollections(): Promise<EmbeddingCollection[]> {
+    try {
+      const result = await this.pool.query<EmbeddingCollection>(
+        `SELECT ${EMBEDDING_COLLECTION_COLUMNS}
+         FROM embedding_collections ORDER BY created_at DESC`
+      );
+      return result.rows;
+    } catch (error) {
+      logger.error({ error }, 'Failed to list embedding collections');
+      throw new PostgresError('Failed to list embedding collections', error);
+    }
+  }
+
+  async deleteEmbeddingCollection(collection: string): Promise<void> {
+    try {
+      await this.pool.query('DELETE FROM embedding_collections WHERE collection = $1', [
+        collection,
+      ]);
+    } catch (error) {
+      logger.error({ error, collection }, 'Failed to delete embedding collection');
+      throw new PostgresError('Failed to delete embedding collection', error);
+    }
+  }
+
+  // ============================================================
+  // OCR Page Cache
+  // ============================================================
+
+  /**
+   * Cached OCR output for a page, marking the entry as used
+   */
+  async getCachedOcrPage(cacheKey: string): Promise<string | null> {
+    try {
+      const result = await this.pool.query<{ markdown: string }>(
+        `UPDATE ocr_page_cache SET last_used_at = NOW()
+         WHERE cache_key = $1
+         RETURNING markdown`,
+        [cacheKey]
+      );
+      return result.rows[0]?.markdown ?? null;
+    } catch (error) {
+      logger.error({ error }, 'Failed to get cached OCR page');
+      return null; // A cache miss only costs an OCR call
+    }
+  }
+
+  async cacheOcrPage(entry: {
+    cacheKey: string;
+    fileHash: string;
+    pageNumber: number;
+    model: string;
+    markdown: string;
+  }): Promise<void> {
+    try {
+      await this.pool.query(
+        `INSERT INTO ocr_page_cache (cache_key, file_hash, page_number, ocr_model, markdown)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (cache_key) DO UPDATE SET
+           markdown = EXCLUDED.markdown,
+           last_used_at = NOW()`,
+        [entry.cacheKey, entry.fileHash, entry.pageNumber, entry.model, entry.markdown]
+      );
+    } catch (error) {
+      logger.error({ error }, 'Failed to cache OCR page');
+      // Don't throw, caching is non-critical
+    }
+  }
+
+  async getOcrCacheStats(): Promise<OcrCacheStats> {
+    try {
+      const totals = await this.pool.query<{
+        entries: number;
+        files: number;
+        totalBytes: number;
+        oldestUsedAt: Date | null;
+      }>(
+        `SELECT COUNT(*)::int as entries,
+                COUNT(DISTINCT file_hash)::int as files,
+                COALESCE(SUM(octet_length(markdown)), 0)::bigint::float8 as "totalBytes",
+                MIN(last_used_at) as "oldestUsedAt"
+         FROM ocr_page_cache`
+      );
+      const byModel = await this.pool.query<{ model: string; entries: number }>(
+        `SELECT ocr_model as model, COUNT(*)::int as entries
+         FROM ocr_page_cache
+         GROUP BY ocr_model
+         ORDER BY entries DESC`
+      );
+
+      const { oldestUsedAt, ...rest } = totals.rows[0];
+      return { ...rest, byModel: byModel.rows, oldestUsedAt: oldestUsedAt ?? undefined };
+    } catch (error) {
+      logger.error({ error }, 'Failed to get OCR cache stats');
+      throw new PostgresError('Failed to get OCR cache stats', error);
+    }
+  }
+
+  /**
+   * Remove OCR cache entries matching every condition of the filter
+   */
+  async pruneOcrCache(filter: OcrCachePruneFilter = {}): Promise<number> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.unusedDays !== undefined) {
+      params.push(filter.unusedDays);
+      conditions.push(`last_used_at < NOW() - INTERVAL '1 day' * $${params.length}`);
+    }
+    if (filter.exceptModel !== undefined) {
+      params.push(filter.exceptModel);
+      conditions.push(`ocr_model <> $${params.length}`);
+    }
+    if (filter.orphaned) {
+      conditions.push(
+        'NOT EXISTS (SELECT 1 FROM documents d WHERE d.file_hash = ocr_page_cache.file_hash)'
+      );
+    }
+
+    try {
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const result = await this.pool.query(`DELETE FROM ocr_page_cache ${where}`, params);
+      logger.info({ filter, removed: result.rowCount }, 'OCR cache pruned');
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.error({ error, filter }, 'Failed to prune OCR cache');
+      throw new PostgresError('Failed to prune OCR cache', error);
+    }
+  }
+
   // ============================================================
   // Query Cache
   // ============================================================
@@ -323,26 +919,491 @@ export class PostgresStore {
     }
   }
 
+  /**
+   * Cache a response along with the documents it cites, so it can be
+   * invalidated when one of them changes
+   */
   async cacheQuery(
     queryHash: string,
     queryText: string,
     response: Record<string, unknown>,
-    ttlSeconds: number
+    ttlSeconds: number,
+    documentIds: string[] = []
   ): Promise<void> {
     try {
       await this.pool.query(
-        `INSERT INTO query_cache (query_hash, query_text, response, expires_at)
-         VALUES ($1, $2, $3, NOW() + INTERVAL '1 second' * $4)
+        `INSERT INTO query_cache (query_hash, query_text, response, expires_at, document_ids)
+         VALUES ($1, $2, $3, NOW() + INTERVAL '1 second' * $4, $5)
          ON CONFLICT (query_hash) DO UPDATE SET
            response = EXCLUDED.response,
-           expires_at = EXCLUDED.expires_at`,
-        [queryHash, queryText, JSON.stringify(response), ttlSeconds]
+           expires_at = EXCLUDED.expires_at,
+           document_ids = EXCLUDED.document_ids`,
+        [queryHash, queryText, JSON.stringify(response), ttlSeconds, documentIds]
       );
     } catch (error) {
       logger.error({ error }, 'Failed to cache query');
     }
   }
 
+  async deleteCachedQuery(queryHash: string): Promise<void> {
+    try {
+      await this.pool.query('DELETE FROM query_cache WHERE query_hash = $1', [queryHash]);
+    } catch (error) {
+      logger.error({ error }, 'Failed to delete cached query');
+    }
+  }
+
+  /**
+   * Remove cached responses citing any of the documents. Returns the number
+   * of entries removed.
+   */
+  async invalidateCachedQueries(documentIds: string[]): Promise<number> {
+    if (documentIds.length === 0) {
+      return 0;
+    }
+
+    try {
+      const result = await this.pool.query(
+        'DELETE FROM query_cache WHERE document_ids && $1::uuid[]',
+        [documentIds]
+      );
+      const removed = result.rowCount ?? 0;
+      if (removed > 0) {
+        logger.info({ documentIds, removed }, 'Cached queries invalidated');
+      }
+      return removed;
+    } catch (error) {
+      logger.error({ error, documentIds }, 'Failed to invalidate cached queries');
+      return 0;
+    }
+  }
+
+  /**
+   * Remove every cached response, or only expired ones
+   */
+  async clearQueryCache(options: { expiredOnly?: boolean } = {}): Promise<number> {
+    try {
+      const result = await this.pool.query(
+        options.expiredOnly
+          ? 'DELETE FROM query_cache WHERE expires_at <= NOW()'
+          : 'DELETE FROM query_cache'
+      );
+      logger.info({ ...options, removed: result.rowCount }, 'Query cache cleared');
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.error({ error }, 'Failed to clear query cache');
+      throw new PostgresError('Failed to clear query cache', error);
+    }
+  }
+
+  async getQueryCacheStats(): Promise<QueryCacheStats> {
+    try {
+      const result = await this.pool.query<{
+        entries: number;
+        expired: number;
+        documents: number;
+        oldestCreatedAt: Date | null;
+      }>(
+        `SELECT COUNT(*)::int as entries,
+                COUNT(*) FILTER (WHERE expires_at <= NOW())::int as expired,
+                (SELECT COUNT(DISTINCT id)::int
+                 FROM query_cache, unnest(document_ids) as id
+                 WHERE expires_at > NOW()) as documents,
+                MIN(created_at) as "oldestCreatedAt"
+         FROM query_cache`
+      );
+
+      const { oldestCreatedAt, ...rest } = result.rows[0];
+      return { ...rest, oldestCreatedAt: oldestCreatedAt ?? undefined };
+    } catch (error) {
+      logger.error({ error }, 'Failed to get query cache stats');
+      throw new PostgresError('Failed to get query cache stats', error);
+    }
+  }
+
+  // ============================================================
+  // Conversations
+  // ============================================================
+
+  /**
+   * Get the most recent turns of a conversation, oldest first
+   */
+  async getConversationTurns(
+    conversationId: string,
+    limit: number
+  ): Promise<ConversationTurn[]> {
+    try {
+      const result = await this.pool.query<ConversationTurn>(
+        `SELECT * FROM (
+           SELECT id, conversation_id as "conversationId", turn_index as "turnIndex",
+                  query_text as "queryText", standalone_query as "standaloneQuery",
+                  answer_text as "answerText", query_id as "queryId", created_at as "createdAt"
+           FROM conversation_turns
+           WHERE conversation_id = $1
+           ORDER BY turn_index DESC
+           LIMIT $2
+         ) recent
+         ORDER BY "turnIndex" ASC`,
+        [conversationId, limit]
+      );
+      return result.rows;
+    } catch (error) {
+      logger.error({ error, conversationId }, 'Failed to get conversation turns');
+      return []; // Don't throw, the query can still be answered without history
+    }
+  }
+
+  /**
+   * Append a turn to a conversation, creating the conversation if needed
+   */
+  async addConversationTurn(turn: ConversationTurnInput): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `INSERT INTO conversations (id) VALUES ($1)
+         ON CONFLICT (id) DO UPDATE SET updated_at = NOW()`,
+        [turn.conversationId]
+      );
+
+      await client.query(
+        `INSERT INTO conversation_turns (conversation_id, turn_index, query_text,
+                                         standalone_query, answer_text, query_id)
+         VALUES ($1,
+                 (SELECT COALESCE(MAX(turn_index) + 1, 0) FROM conversation_turns WHERE conversation_id = $1),
+                 $2, $3, $4, $5)`,
+        [
+          turn.conversationId,
+          turn.queryText,
+          turn.standaloneQuery,
+          turn.answerText,
+          turn.queryId,
+        ]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error(
+        { error, conversationId: turn.conversationId },
+        'Failed to add conversation turn'
+      );
+      // Don't throw, conversation history is non-critical
+    } finally {
+      client.release();
+    }
+  }
+
+  // ============================================================
+  // Eligibility Limits
+  // ============================================================
+
+  /**
+   * All versions of the program limits used by the eligibility screener
+   */
+  async getProgramLimits(): Promise<ProgramLimit[]> {
+    try {
+      const result = await this.pool.query<{
+        program: ProgramLimit['program'];
+        dataType: ProgramLimit['dataType'];
+        householdSize: number;
+        effectiveYear: number;
+        effectiveDate: Date;
+        incomeLimit: number;
+        incomePeriod: ProgramLimit['incomePeriod'];
+        assetLimit: number | null;
+        minAge: number | null;
+      }>(
+        `SELECT program, data_type as "dataType", household_size as "householdSize",
+                effective_year as "effectiveYear", effective_date as "effectiveDate",
+                income_limit::float8 as "incomeLimit", income_period as "incomePeriod",
+                asset_limit::float8 as "assetLimit", min_age as "minAge"
+         FROM program_limits
+         ORDER BY program, household_size, effective_date DESC`
+      );
+
+      return result.rows.map(row => ({
+        ...row,
+        assetLimit: row.assetLimit ?? undefined,
+        minAge: row.minAge ?? undefined,
+      }));
+    } catch (error) {
+      logger.error({ error }, 'Failed to get program limits');
+      return [];
+    }
+  }
+
+  // ============================================================
+  // Guardrail Rules
+  // ============================================================
+
+  /**
+   * All sensitive topic rules used by the guardrails engine
+   */
+  async getGuardrailRules(): Promise<GuardrailRule[]> {
+    try {
+      const result = await this.pool.query<GuardrailRuleRow>(
+        `SELECT ${GUARDRAIL_RULE_COLUMNS}
+         FROM sensitive_topics
+         ORDER BY category`
+      );
+      return result.rows.map(toGuardrailRule);
+    } catch (error) {
+      // Rethrow so the guardrails engine keeps the rules it last loaded; an
+      // empty list would switch it to the built-in rules
+      logger.error({ error }, 'Failed to get guardrail rules');
+      throw new PostgresError('Failed to get guardrail rules', error);
+    }
+  }
+
+  /**
+   * Add a sensitive topic rule, returning null if the category already exists
+   */
+  async insertGuardrailRule(rule: GuardrailRuleInput): Promise<GuardrailRule | null> {
+    try {
+      const result = await this.pool.query<GuardrailRuleRow>(
+        `INSERT INTO sensitive_topics (category, keywords, weight, disclaimer_template, referral_suggestion)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (category) DO NOTHING
+         RETURNING ${GUARDRAIL_RULE_COLUMNS}`,
+        [rule.category, rule.keywords, rule.weight, rule.disclaimer, rule.referral ?? null]
+      );
+      return result.rows[0] ? toGuardrailRule(result.rows[0]) : null;
+    } catch (error) {
+      logger.error({ error, category: rule.category }, 'Failed to insert guardrail rule');
+      throw new PostgresError('Failed to insert guardrail rule', error);
+    }
+  }
+
+  /**
+   * Change fields of a sensitive topic rule, returning null if it does not exist
+   */
+  async updateGuardrailRule(
+    category: string,
+    changes: GuardrailRuleUpdate
+  ): Promise<GuardrailRule | null> {
+    try {
+      const result = await this.pool.query<GuardrailRuleRow>(
+        `UPDATE sensitive_topics SET
+           keywords = COALESCE($2, keywords),
+           weight = COALESCE($3, weight),
+           disclaimer_template = COALESCE($4, disclaimer_template),
+           referral_suggestion = CASE WHEN $5 THEN $6 ELSE referral_suggestion END
+         WHERE category = $1
+         RETURNING ${GUARDRAIL_RULE_COLUMNS}`,
+        [
+          category,
+          changes.keywords ?? null,
+          changes.weight ?? null,
+          changes.disclaimer ?? null,
+          changes.referral !== undefined,
+          changes.referral ?? null,
+        ]
+      );
+      return result.rows[0] ? toGuardrailRule(result.rows[0]) : null;
+    } catch (error) {
+      logger.error({ error, category }, 'Failed to update guardrail rule');
+      throw new PostgresError('Failed to update guardrail rule', error);
+    }
+  }
+
+  // ============================================================
+  // Ingestion Jobs
+  // ============================================================
+
+  async insertJob(request: IngestionJobRequest): Promise<IngestionJob> {
+    try {
+      const result = await this.pool.query<JobRow>(
+        `INSERT INTO ingestion_jobs (job_type, payload)
+         VALUES ($1, $2)
+         RETURNING ${JOB_COLUMNS}`,
+        [request.type, JSON.stringify(request)]
+      );
+      logger.info({ jobId: result.rows[0].id, type: request.type }, 'Ingestion job queued');
+      return toIngestionJob(result.rows[0]);
+    } catch (error) {
+      logger.error({ error, type: request.type }, 'Failed to insert ingestion job');
+      throw new PostgresError('Failed to insert ingestion job', error);
+    }
+  }
+
+  async getJob(id: string): Promise<IngestionJob | null> {
+    try {
+      const result = await this.pool.query<JobRow>(
+        `SELECT ${JOB_COLUMNS} FROM ingestion_jobs WHERE id = $1`,
+        [id]
+      );
+      return result.rows[0] ? toIngestionJob(result.rows[0]) : null;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to get ingestion job');
+      throw new PostgresError('Failed to get ingestion job', error);
+    }
+  }
+
+  /**
+   * Most recent jobs first, optionally only those in one state
+   */
+  async listJobs(options: { state?: JobState; limit?: number } = {}): Promise<IngestionJob[]> {
+    try {
+      const result = await this.pool.query<JobRow>(
+        `SELECT ${JOB_COLUMNS}
+         FROM ingestion_jobs
+         WHERE $1::text IS NULL OR state = $1
+         ORDER BY created_at DESC
+         LIMIT $2`,
+        [options.state ?? null, options.limit ?? 50]
+      );
+      return result.rows.map(toIngestionJob);
+    } catch (error) {
+      logger.error({ error }, 'Failed to list ingestion jobs');
+      throw new PostgresError('Failed to list ingestion jobs', error);
+    }
+  }
+
+  /**
+   * Take the oldest queued job and mark it running. Concurrent workers skip
+   * jobs another worker has locked.
+   */
+  async claimNextJob(): Promise<IngestionJob | null> {
+    try {
+      const result = await this.pool.query<JobRow>(
+        `UPDATE ingestion_jobs SET
+           state = 'running',
+           started_at = NOW(),
+           finished_at = NULL,
+           attempts = attempts + 1
+         WHERE id = (
+           SELECT id FROM ingestion_jobs
+           WHERE state = 'queued'
+           ORDER BY created_at
+           FOR UPDATE SKIP LOCKED
+           LIMIT 1
+         )
+         RETURNING ${JOB_COLUMNS}`
+      );
+      return result.rows[0] ? toIngestionJob(result.rows[0]) : null;
+    } catch (error) {
+      logger.error({ error }, 'Failed to claim ingestion job');
+      throw new PostgresError('Failed to claim ingestion job', error);
+    }
+  }
+
+  /**
+   * Save a running job's progress, returning whether it has been asked to cancel
+   */
+  async updateJobProgress(id: string, progress: JobProgress): Promise<boolean> {
+    try {
+      const result = await this.pool.query<{ cancelRequested: boolean }>(
+        `UPDATE ingestion_jobs SET progress = $2
+         WHERE id = $1
+         RETURNING cancel_requested as "cancelRequested"`,
+        [id, JSON.stringify(progress)]
+      );
+      return result.rows[0]?.cancelRequested ?? false;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to update ingestion job progress');
+      return false; // Don't throw, the job keeps running and the next update may succeed
+    }
+  }
+
+  async finishJob(
+    id: string,
+    state: Extract<JobState, 'succeeded' | 'failed' | 'cancelled'>,
+    outcome: { progress: JobProgress; result?: Record<string, unknown>; error?: string }
+  ): Promise<void> {
+    try {
+      await this.pool.query(
+        `UPDATE ingestion_jobs SET
+           state = $2,
+           progress = $3,
+           result = $4,
+           error = $5,
+           finished_at = NOW()
+         WHERE id = $1`,
+        [
+          id,
+          state,
+          JSON.stringify(outcome.progress),
+          outcome.result ? JSON.stringify(outcome.result) : null,
+          outcome.error ?? null,
+        ]
+      );
+      logger.info({ id, state }, 'Ingestion job finished');
+    } catch (error) {
+      logger.error({ error, id, state }, 'Failed to finish ingestion job');
+      throw new PostgresError('Failed to finish ingestion job', error);
+    }
+  }
+
+  /**
+   * Cancel a queued job, or ask the worker to stop a running one. Returns null
+   * if the job does not exist or has already finished.
+   */
+  async requestJobCancel(id: string): Promise<IngestionJob | null> {
+    try {
+      const result = await this.pool.query<JobRow>(
+        `UPDATE ingestion_jobs SET
+           cancel_requested = true,
+           state = CASE WHEN state = 'queued' THEN 'cancelled' ELSE state END,
+           finished_at = CASE WHEN state = 'queued' THEN NOW() ELSE finished_at END
+         WHERE id = $1 AND state IN ('queued', 'running')
+         RETURNING ${JOB_COLUMNS}`,
+        [id]
+      );
+      return result.rows[0] ? toIngestionJob(result.rows[0]) : null;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to cancel ingestion job');
+      throw new PostgresError('Failed to cancel ingestion job', error);
+    }
+  }
+
+  /**
+   * Queue a failed or cancelled job again. Returns null if the job does not
+   * exist or is not in one of those states.
+   */
+  async requeueJob(id: string): Promise<IngestionJob | null> {
+    try {
+      const result = await this.pool.query<JobRow>(
+        `UPDATE ingestion_jobs SET
+           state = 'queued',
+           cancel_requested = false,
+           result = NULL,
+           error = NULL,
+           started_at = NULL,
+           finished_at = NULL
+         WHERE id = $1 AND state IN ('failed', 'cancelled')
+         RETURNING ${JOB_COLUMNS}`,
+        [id]
+      );
+      return result.rows[0] ? toIngestionJob(result.rows[0]) : null;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to requeue ingestion job');
+      throw new PostgresError('Failed to requeue ingestion job', error);
+    }
+  }
+
+  /**
+   * Queue running jobs again whose worker stopped sending progress, e.g.
+   * because the server restarted mid-job (or cancel them if that was asked
+   * for). Returns how many were found.
+   */
+  async requeueStaleJobs(staleAfterMs: number): Promise<number> {
+    try {
+      const result = await this.pool.query(
+        `UPDATE ingestion_jobs SET
+           state = CASE WHEN cancel_requested THEN 'cancelled' ELSE 'queued' END,
+           finished_at = CASE WHEN cancel_requested THEN NOW() ELSE NULL END
+         WHERE state = 'running' AND updated_at < NOW() - INTERVAL '1 millisecond' * $1`,
+        [staleAfterMs]
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.error({ error }, 'Failed to requeue stale ingestion jobs');
+      return 0;
+    }
+  }
+
   // ============================================================
   // Query Logging
   // ============================================================
@@ -421,7 +1482,7 @@ export class PostgresStore {
   }
 
   /**
-   * Get document metadata for freshness checking
+   * Get current document metadata for freshness checking
    */
   async getDocumentsMetadata(): Promise<Array<{
     id: string;
@@ -438,10 +1499,11 @@ export class PostgresStore {
       }>(
         `SELECT
           id,
-          metadata->>'documentType' as "documentType",
-          (metadata->>'effectiveDate')::timestamp as "effectiveDate",
+          COALESCE(document_type, metadata->>'documentType') as "documentType",
+          COALESCE(effective_date::timestamp, (metadata->>'effectiveDate')::timestamp) as "effectiveDate",
           ingested_at as "ingestedAt"
-         FROM documents`
+         FROM documents
+         WHERE superseded_at IS NULL`
       );
 
       return result.rows.map(row => ({
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { QdrantStore, getQdrantStore, resetQdrantStore } from './qdrant.js';
+import { CollectionSwitchError } from '../types/index.js';
 
 // Mock Qdrant client
 const mockGetCollections = vi.fn();
@@ -9,6 +10,9 @@ const mockUpsert = vi.fn();
 const mockSearch = vi.fn();
 const mockDelete = vi.fn();
 const mockGetCollection = vi.fn();
+const mockGetAliases = vi.fn();
+const mockUpdateCollectionAliases = vi.fn();
+const mockDeleteCollection = vi.fn();
 
 vi.mock('@qdrant/js-client-rest', () => ({
   QdrantClient: vi.fn().mockImplementation(() => ({
@@ -19,6 +23,9 @@ vi.mock('@qdrant/js-client-rest', () => ({
     search: mockSearch,
     delete: mockDelete,
     getCollection: mockGetCollection,
+    getAliases: mockGetAliases,
+    updateCollectionAliases: mockUpdateCollectionAliases,
+    deleteCollection: mockDeleteCollection,
   })),
 }));
 
@@ -34,6 +41,7 @@ describe('QdrantStore', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     resetQdrantStore();
+    mockGetAliases.mockResolvedValue({ aliases: [] });
     store = getQdrantStore(testConfig);
   });
 
@@ -60,7 +68,11 @@ describe('QdrantStore', () => {
         },
         replication_factor: 1,
       });
-      expect(mockCreatePayloadIndex).toHaveBeenCalledTimes(2);
+      expect(mockCreatePayloadIndex).toHaveBeenCalledTimes(11);
+      expect(mockCreatePayloadIndex).toHaveBeenCalledWith('test_collection', {
+        field_name: 'metadata.sectionNumber',
+        field_schema: 'keyword',
+      });
     });
 
     it('should not create collection if it already exists', async () => {
@@ -73,6 +85,17 @@ describe('QdrantStore', () => {
       expect(mockCreateCollection).not.toHaveBeenCalled();
     });
 
+    it('should not create collection if its name is an alias', async () => {
+      mockGetCollections.mockResolvedValueOnce({ collections: [{ name: 'test_collection_1' }] });
+      mockGetAliases.mockResolvedValueOnce({
+        aliases: [{ alias_name: 'test_collection', collection_name: 'test_collection_1' }],
+      });
+
+      await store.initialize();
+
+      expect(mockCreateCollection).not.toHaveBeenCalled();
+    });
+
     it('should throw QdrantError on failure', async () => {
       mockGetCollections.mockRejectedValueOnce(new Error('Connection failed'));
 
@@ -80,6 +103,85 @@ describe('QdrantStore', () => {
     });
   });
 
+  describe('withCollection', () => {
+    it('should create a store for another collection', async () => {
+      mockUpsert.mockResolvedValueOnce({});
+      const other = store.withCollection('test_collection_2');
+      const payload = { chunkId: 'c1', documentId: 'd1', content: 'C1', chunkIndex: 0, metadata: {} };
+
+      await other.upsertBatch([{ id: 'c1', vector: [0.1], payload }]);
+
+      expect(other.collection).toBe('test_collection_2');
+      expect(store.collection).toBe('test_collection');
+      expect(mockUpsert).toHaveBeenCalledWith('test_collection_2', expect.anything());
+    });
+  });
+
+  describe('switchCollection', () => {
+    it('should move the alias in one request', async () => {
+      mockGetAliases.mockResolvedValueOnce({
+        aliases: [{ alias_name: 'test_collection', collection_name: 'test_collection_1' }],
+      });
+      mockUpdateCollectionAliases.mockResolvedValueOnce(true);
+
+      const previous = await store.switchCollection('test_collection_2');
+
+      expect(previous).toBe('test_collection_1');
+      expect(mockUpdateCollectionAliases).toHaveBeenCalledTimes(1);
+      expect(mockUpdateCollectionAliases).toHaveBeenCalledWith({
+        actions: [
+          { delete_alias: { alias_name: 'test_collection' } },
+          {
+            create_alias: { collection_name: 'test_collection_2', alias_name: 'test_collection' },
+          },
+        ],
+      });
+      expect(mockDeleteCollection).not.toHaveBeenCalled();
+    });
+
+    it('should replace a collection of the same name with the alias', async () => {
+      mockGetCollections.mockResolvedValueOnce({
+        collections: [{ name: 'test_collection' }, { name: 'test_collection_2' }],
+      });
+      mockDeleteCollection.mockResolvedValueOnce(true);
+      mockUpdateCollectionAliases.mockResolvedValueOnce(true);
+
+      const previous = await store.switchCollection('test_collection_2');
+
+      expect(previous).toBeNull();
+      expect(mockDeleteCollection).toHaveBeenCalledWith('test_collection');
+      expect(mockUpdateCollectionAliases).toHaveBeenCalledWith({
+        actions: [
+          {
+            create_alias: { collection_name: 'test_collection_2', alias_name: 'test_collection' },
+          },
+        ],
+      });
+    });
+
+    it('should throw QdrantError on failure', async () => {
+      mockGetAliases.mockRejectedValueOnce(new Error('Connection failed'));
+
+      await expect(store.switchCollection('test_collection_2')).rejects.toMatchObject({
+        message: 'Failed to switch collection',
+        originalDropped: false,
+      });
+    });
+
+    it('should report that the original collection was dropped when the alias fails', async () => {
+      mockGetCollections.mockResolvedValueOnce({
+        collections: [{ name: 'test_collection' }, { name: 'test_collection_2' }],
+      });
+      mockDeleteCollection.mockResolvedValueOnce(true);
+      mockUpdateCollectionAliases.mockRejectedValueOnce(new Error('Connection failed'));
+
+      const error = await store.switchCollection('test_collection_2').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(CollectionSwitchError);
+      expect(error).toMatchObject({ originalDropped: true });
+    });
+  });
+
   describe('upsert', () => {
     it('should upsert a single vector with payload', async () => {
       mockUpsert.mockResolvedValueOnce({});
@@ -216,6 +318,45 @@ describe('QdrantStore', () => {
       });
     });
 
+    it('should apply metadata filters when provided', async () => {
+      mockSearch.mockResolvedValueOnce([]);
+
+      const queryVector = new Array(768).fill(0.1);
+      await store.search(queryVector, 5, {
+        documentTypes: ['oim_ltc_handbook', 'pa_code'],
+        legalWeight: 'regulatory',
+        targetPrograms: ['LIFE'],
+        effectiveAfter: '2024-01-01',
+      });
+
+      expect(mockSearch).toHaveBeenCalledWith('test_collection', {
+        vector: queryVector,
+        limit: 5,
+        with_payload: true,
+        filter: {
+          must: [
+            { key: 'documentType', match: { any: ['oim_ltc_handbook', 'pa_code'] } },
+            { key: 'legalWeight', match: { value: 'regulatory' } },
+            { key: 'targetPrograms', match: { any: ['LIFE'] } },
+            { key: 'effectiveDate', range: { gte: '2024-01-01' } },
+          ],
+        },
+      });
+    });
+
+    it('should not add a filter for empty filter values', async () => {
+      mockSearch.mockResolvedValueOnce([]);
+
+      const queryVector = new Array(768).fill(0.1);
+      await store.search(queryVector, 5, { documentTypes: [] });
+
+      expect(mockSearch).toHaveBeenCalledWith('test_collection', {
+        vector: queryVector,
+        limit: 5,
+        with_payload: true,
+      });
+    });
+
     it('should handle empty results', async () => {
       mockSearch.mockResolvedValueOnce([]);
 
@@ -258,6 +399,49 @@ describe('QdrantStore', () => {
     });
   });
 
+  describe('getVectorParams', () => {
+    it('should read the vector settings of the collection behind an alias', async () => {
+      mockGetAliases.mockResolvedValueOnce({
+        aliases: [{ alias_name: 'test_collection', collection_name: 'test_collection_1' }],
+      });
+      mockGetCollections.mockResolvedValueOnce({ collections: [{ name: 'test_collection_1' }] });
+      mockGetCollection.mockResolvedValueOnce({
+        config: { params: { vectors: { size: 768, distance: 'Cosine' } } },
+      });
+
+      const params = await store.getVectorParams();
+
+      expect(params).toEqual({
+        collection: 'test_collection_1',
+        dimension: 768,
+        distance: 'Cosine',
+      });
+      expect(mockGetCollection).toHaveBeenCalledWith('test_collection_1');
+    });
+
+    it('should return null when the collection does not exist', async () => {
+      mockGetCollections.mockResolvedValueOnce({ collections: [] });
+
+      expect(await store.getVectorParams()).toBeNull();
+    });
+  });
+
+  describe('listCollections', () => {
+    it('should list collections with their aliases', async () => {
+      mockGetCollections.mockResolvedValueOnce({
+        collections: [{ name: 'test_collection_2' }, { name: 'test_collection_1' }],
+      });
+      mockGetAliases.mockResolvedValueOnce({
+        aliases: [{ alias_name: 'test_collection', collection_name: 'test_collection_2' }],
+      });
+
+      expect(await store.listCollections()).toEqual([
+        { name: 'test_collection_1', aliases: [] },
+        { name: 'test_collection_2', aliases: ['test_collection'] },
+      ]);
+    });
+  });
+
   describe('getCollectionInfo', () => {
     it('should return collection info', async () => {
       mockGetCollection.mockResolvedValueOnce({
@@ -1,5 +1,15 @@
-import { QdrantClient } from '@qdrant/js-client-rest';
-import { Config, QdrantError, SearchResult, ChunkMetadata } from '../types/index.js';
+import { QdrantClient, Schemas } from '@qdrant/js-client-rest';
+import {
+  Config,
+  QdrantError,
+  CollectionSwitchError,
+  SearchResult,
+  ChunkMetadata,
+  DocumentType,
+  SourceAuthority,
+  LegalWeight,
+  QueryFilters,
+} from '../types/index.js';
 import { createChildLogger } from '../utils/logger.js';
 
 const logger = createChildLogger('qdrant');
@@ -11,23 +21,88 @@ export interface QdrantPayload {
   pageNumber?: number;
   chunkIndex: number;
   metadata: ChunkMetadata;
+  // Document classification, used for filtered retrieval
+  documentType?: DocumentType;
+  sourceAuthority?: SourceAuthority;
+  legalWeight?: LegalWeight;
+  targetPrograms?: string[];
+  effectiveDate?: string;
   [key: string]: unknown; // Index signature for Qdrant compatibility
 }
 
+/**
+ * Document classification payload fields indexed for filtering
+ */
+const DOCUMENT_PAYLOAD_FIELDS = [
+  'documentType',
+  'sourceAuthority',
+  'legalWeight',
+  'targetPrograms',
+];
+
+/**
+ * Payload fields indexed for filtering regulatory chunks
+ */
+const REGULATORY_PAYLOAD_FIELDS = [
+  'metadata.sourceAuthority',
+  'metadata.chapterNumber',
+  'metadata.sectionNumber',
+  'metadata.crossReferences',
+];
+
+/**
+ * Distance metric of collections created here
+ */
+const DISTANCE = 'Cosine';
+
+/**
+ * Vector settings of an existing collection
+ */
+export interface VectorParams {
+  /** The collection itself, when the store's name is an alias */
+  collection: string;
+  dimension: number;
+  distance: string;
+}
+
 /**
  * Qdrant vector store client
  */
 export class QdrantStore {
   private client: QdrantClient;
+  private config: Config['qdrant'];
   private collectionName: string;
   private embeddingDimension: number;
 
   constructor(config: Config['qdrant']) {
     this.client = new QdrantClient({ url: config.url });
+    this.config = config;
     this.collectionName = config.collection;
     this.embeddingDimension = config.embeddingDimension;
   }
 
+  /**
+   * Name of the collection, or of the alias pointing at it
+   */
+  get collection(): string {
+    return this.collectionName;
+  }
+
+  /**
+   * Vector dimension of collections created by this store
+   */
+  get dimension(): number {
+    return this.embeddingDimension;
+  }
+
+  /**
+   * A store for another collection on the same server, e.g. one being built
+   * to replace this one
+   */
+  withCollection(collection: string): QdrantStore {
+    return new QdrantStore({ ...this.config, collection });
+  }
+
   /**
    * Initialize the collection if it doesn't exist
    */
@@ -35,9 +110,9 @@ export class QdrantStore {
     const dimension = this.embeddingDimension;
     try {
       const collections = await this.client.getCollections();
-      const exists = collections.collections.some(
-        (c) => c.name === this.collectionName
-      );
+      const exists =
+        collections.collections.some((c) => c.name === this.collectionName) ||
+        (await this.aliasTarget()) !== null;
 
       if (!exists) {
         logger.info(
@@ -48,7 +123,7 @@ export class QdrantStore {
         await this.client.createCollection(this.collectionName, {
           vectors: {
             size: dimension,
-            distance: 'Cosine',
+            distance: DISTANCE,
           },
           optimizers_config: {
             default_segment_number: 2,
@@ -67,6 +142,19 @@ export class QdrantStore {
           field_schema: 'keyword',
         });
 
+        // Document classification and regulatory section metadata
+        for (const field of [...DOCUMENT_PAYLOAD_FIELDS, ...REGULATORY_PAYLOAD_FIELDS]) {
+          await this.client.createPayloadIndex(this.collectionName, {
+            field_name: field,
+            field_schema: 'keyword',
+          });
+        }
+
+        await this.client.createPayloadIndex(this.collectionName, {
+          field_name: 'effectiveDate',
+          field_schema: 'datetime',
+        });
+
         logger.info('Qdrant collection created successfully');
       } else {
         logger.debug({ collection: this.collectionName }, 'Collection exists');
@@ -144,7 +232,7 @@ export class QdrantStore {
   async search(
     queryVector: number[],
     topK: number,
-    filter?: {
+    filter?: QueryFilters & {
       documentId?: string;
     }
   ): Promise<SearchResult[]> {
@@ -157,15 +245,9 @@ export class QdrantStore {
         with_payload: true,
       };
 
-      if (filter?.documentId) {
-        searchParams.filter = {
-          must: [
-            {
-              key: 'documentId',
-              match: { value: filter.documentId },
-            },
-          ],
-        };
+      const must = filter ? this.buildConditions(filter) : [];
+      if (must.length > 0) {
+        searchParams.filter = { must };
       }
 
       const results = await this.client.search(this.collectionName, searchParams);
@@ -193,6 +275,41 @@ export class QdrantStore {
     }
   }
 
+  /**
+   * Translate search filters into Qdrant payload conditions
+   */
+  private buildConditions(
+    filter: QueryFilters & { documentId?: string }
+  ): Schemas['Condition'][] {
+    const must: Schemas['Condition'][] = [];
+
+    if (filter.documentId) {
+      must.push({ key: 'documentId', match: { value: filter.documentId } });
+    }
+
+    if (filter.documentTypes && filter.documentTypes.length > 0) {
+      must.push({ key: 'documentType', match: { any: filter.documentTypes } });
+    }
+
+    if (filter.sourceAuthority) {
+      must.push({ key: 'sourceAuthority', match: { value: filter.sourceAuthority } });
+    }
+
+    if (filter.legalWeight) {
+      must.push({ key: 'legalWeight', match: { value: filter.legalWeight } });
+    }
+
+    if (filter.targetPrograms && filter.targetPrograms.length > 0) {
+      must.push({ key: 'targetPrograms', match: { any: filter.targetPrograms } });
+    }
+
+    if (filter.effectiveAfter) {
+      must.push({ key: 'effectiveDate', range: { gte: filter.effectiveAfter } });
+    }
+
+    return must;
+  }
+
   /**
    * Delete vectors by document ID
    */
@@ -216,6 +333,110 @@ export class QdrantStore {
     }
   }
 
+  /**
+   * Point this store's name at another collection in one step, so searches
+   * move to it all at once. The name becomes an alias if it was a collection;
+   * that collection is deleted first, as Qdrant cannot have both, so that
+   * one-time switch is not atomic. Returns the collection the alias pointed
+   * at before, if any.
+   */
+  async switchCollection(collection: string): Promise<string | null> {
+    let originalDropped = false;
+    try {
+      const previous = await this.aliasTarget();
+      if (previous === null) {
+        const collections = await this.client.getCollections();
+        if (collections.collections.some((c) => c.name === this.collectionName)) {
+          logger.warn(
+            { collection: this.collectionName },
+            'Replacing collection with an alias, deleting it first'
+          );
+          await this.client.deleteCollection(this.collectionName);
+          originalDropped = true;
+        }
+      }
+
+      await this.client.updateCollectionAliases({
+        actions: [
+          ...(previous !== null ? [{ delete_alias: { alias_name: this.collectionName } }] : []),
+          { create_alias: { collection_name: collection, alias_name: this.collectionName } },
+        ],
+      });
+
+      logger.info({ alias: this.collectionName, collection, previous }, 'Collection switched');
+      return previous;
+    } catch (error) {
+      logger.error({ error, collection, originalDropped }, 'Failed to switch collection');
+      throw new CollectionSwitchError('Failed to switch collection', originalDropped, error);
+    }
+  }
+
+  /**
+   * Delete a collection, e.g. one replaced by `switchCollection`
+   */
+  async deleteCollection(collection: string): Promise<void> {
+    try {
+      await this.client.deleteCollection(collection);
+      logger.info({ collection }, 'Collection deleted');
+    } catch (error) {
+      logger.error({ error, collection }, 'Failed to delete collection');
+      throw new QdrantError('Failed to delete collection', error);
+    }
+  }
+
+  /**
+   * Vector settings of the collection, following an alias. Null when the
+   * collection does not exist.
+   */
+  async getVectorParams(): Promise<VectorParams | null> {
+    try {
+      const collection = (await this.aliasTarget()) ?? this.collectionName;
+      const collections = await this.client.getCollections();
+      if (!collections.collections.some((c) => c.name === collection)) {
+        return null;
+      }
+
+      const info = await this.client.getCollection(collection);
+      const vectors = info.config.params.vectors;
+      if (!vectors || !('size' in vectors)) {
+        throw new Error(`Collection ${collection} has named vectors`);
+      }
+      return { collection, dimension: Number(vectors.size), distance: String(vectors.distance) };
+    } catch (error) {
+      logger.error({ error }, 'Failed to get collection vector settings');
+      throw new QdrantError('Failed to get collection vector settings', error);
+    }
+  }
+
+  /**
+   * All collections on the server with the aliases pointing at each
+   */
+  async listCollections(): Promise<Array<{ name: string; aliases: string[] }>> {
+    try {
+      const [collections, { aliases }] = await Promise.all([
+        this.client.getCollections(),
+        this.client.getAliases(),
+      ]);
+      return collections.collections
+        .map(({ name }) => ({
+          name,
+          aliases: aliases.filter((a) => a.collection_name === name).map((a) => a.alias_name),
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      logger.error({ error }, 'Failed to list collections');
+      throw new QdrantError('Failed to list collections', error);
+    }
+  }
+
+  /**
+   * Collection this store's name points at when it is an alias
+   */
+  private async aliasTarget(): Promise<string | null> {
+    const { aliases } = await this.client.getAliases();
+    return aliases.find((a) => a.alias_name === this.collectionName)?.collection_name ?? null;
+  }
+
   /**
    * Get collection info
    */
@@ -0,0 +1,125 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  DEFAULT_CALIBRATION,
+  CalibrationSample,
+  predict,
+  bandFor,
+  fitCalibration,
+  evaluateCalibration,
+  brierScore,
+  expectedCalibrationError,
+  loadCalibration,
+  saveCalibration,
+} from './calibration.js';
+
+function sample(grounding: number, correct: boolean): CalibrationSample {
+  return {
+    signals: { vector: 0.7, overlap: 0.4, rerank: 0.7, grounding, citations: 0.6 },
+    correct,
+  };
+}
+
+// Well grounded answers pass, poorly grounded ones fail
+const SAMPLES = [
+  sample(0.95, true),
+  sample(0.9, true),
+  sample(0.85, true),
+  sample(0.8, false),
+  sample(0.4, false),
+  sample(0.3, false),
+  sample(0.35, true),
+  sample(0.2, false),
+];
+
+describe('predict and bandFor', () => {
+  it('turns signals into a probability and bands it', () => {
+    const strong = predict(DEFAULT_CALIBRATION, sample(1, true).signals);
+    const weak = predict(DEFAULT_CALIBRATION, sample(0.1, false).signals);
+
+    expect(strong).toBeGreaterThan(weak);
+    expect(bandFor(DEFAULT_CALIBRATION, strong * 100)).toBe('high');
+    expect(bandFor(DEFAULT_CALIBRATION, 50)).toBe('medium');
+    expect(bandFor(DEFAULT_CALIBRATION, weak * 100)).toBe('low');
+  });
+});
+
+describe('brierScore and expectedCalibrationError', () => {
+  it('are zero for perfect predictions and null without any', () => {
+    const perfect = [
+      { p: 1, correct: true },
+      { p: 0, correct: false },
+    ];
+
+    expect(brierScore(perfect)).toBe(0);
+    expect(expectedCalibrationError(perfect)).toBe(0);
+    expect(brierScore([])).toBeNull();
+    expect(expectedCalibrationError([])).toBeNull();
+  });
+
+  it('measure overconfidence', () => {
+    const overconfident = [
+      { p: 0.9, correct: false },
+      { p: 0.9, correct: true },
+    ];
+
+    expect(brierScore(overconfident)).toBeCloseTo(0.41);
+    expect(expectedCalibrationError(overconfident)).toBeCloseTo(0.4);
+  });
+});
+
+describe('fitCalibration', () => {
+  it('improves calibration on the samples it is fitted to', () => {
+    const fitted = fitCalibration(SAMPLES);
+
+    const before = evaluateCalibration(SAMPLES, DEFAULT_CALIBRATION);
+    const after = evaluateCalibration(SAMPLES, fitted);
+
+    expect(after.brierScore!).toBeLessThan(before.brierScore!);
+    expect(fitted.samples).toBe(SAMPLES.length);
+    expect(fitted.bands).toEqual(DEFAULT_CALIBRATION.bands);
+    expect(fitted.weights.grounding).toBeGreaterThan(0);
+  });
+
+  it('rejects an empty sample set', () => {
+    expect(() => fitCalibration([])).toThrow('No evaluated answers');
+  });
+});
+
+describe('evaluateCalibration', () => {
+  it('counts answers and pass rates per band', () => {
+    const metrics = evaluateCalibration(SAMPLES, DEFAULT_CALIBRATION);
+
+    const counted = metrics.bands.high.count + metrics.bands.medium.count + metrics.bands.low.count;
+    expect(counted).toBe(SAMPLES.length);
+    expect(metrics.samples).toBe(SAMPLES.length);
+  });
+});
+
+describe('loadCalibration', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads back a saved calibration', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'calibration-'));
+    const path = join(dir, 'calibration.json');
+    const fitted = fitCalibration(SAMPLES);
+
+    await saveCalibration(path, fitted);
+
+    expect(await loadCalibration(path)).toEqual(fitted);
+  });
+
+  it('rejects a file that is not a calibration', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'calibration-'));
+    const path = join(dir, 'calibration.json');
+    await writeFile(path, JSON.stringify({ weights: { vector: 1 } }));
+
+    await expect(loadCalibration(path)).rejects.toMatchObject({ code: 'CALIBRATION_ERROR' });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Calibration of answer confidence: the weights that turn retrieval and
+ * grounding signals into a probability that the answer is right, fitted
+ * against golden-answer evaluation runs
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { z } from 'zod';
+import { ConfidenceBand, ConfidenceSignals, RagError } from '../types/index.js';
+
+/**
+ * Signals the calibration weighs, in report order
+ */
+export const SIGNAL_NAMES: ReadonlyArray<keyof ConfidenceSignals> = [
+  'vector',
+  'overlap',
+  'rerank',
+  'grounding',
+  'citations',
+];
+
+const SignalsSchema = z.object({
+  vector: z.number(),
+  overlap: z.number(),
+  rerank: z.number(),
+  grounding: z.number(),
+  citations: z.number(),
+});
+
+const CalibrationSchema = z.object({
+  weights: SignalsSchema,
+  bias: z.number(),
+  /** Lowest confidence (0-100) in the high and medium bands */
+  bands: z.object({
+    high: z.number().min(0).max(100),
+    medium: z.number().min(0).max(100),
+  }),
+  fittedAt: z.string().optional(),
+  /** Golden cases the weights were fitted on */
+  samples: z.number().optional(),
+});
+
+/**
+ * Logistic regression over the confidence signals:
+ * confidence = sigmoid(bias + Σ weight × signal)
+ */
+export type ConfidenceCalibration = z.infer<typeof CalibrationSchema>;
+
+/**
+ * Hand-set starting weights, used until `pnpm eval calibrate` has fitted
+ * weights to a golden-answer run. Grounding dominates: an answer whose figures
+ * are not in its sources is wrong however well retrieval went.
+ */
+export const DEFAULT_CALIBRATION: ConfidenceCalibration = {
+  weights: { vector: 1.5, overlap: 1, rerank: 2, grounding: 3.5, citations: 1 },
+  bias: -4.5,
+  bands: { high: 70, medium: 45 },
+};
+
+/**
+ * An evaluated answer: its signals and whether it passed
+ */
+export interface CalibrationSample {
+  signals: ConfidenceSignals;
+  correct: boolean;
+}
+
+export interface CalibrationMetrics {
+  samples: number;
+  /** Mean squared error of the predicted probabilities (0 is perfect) */
+  brierScore: number | null;
+  /** Mean gap between predicted and observed accuracy, see `expectedCalibrationError` */
+  expectedCalibrationError: number | null;
+  /** How many answers fell in each band and how many of them passed */
+  bands: Record<ConfidenceBand, { count: number; accuracy: number | null }>;
+}
+
+export interface FitOptions {
+  iterations?: number;
+  learningRate?: number;
+  /**
+   * Pull towards the starting weights. Golden sets are small, so without it a
+   * handful of cases would decide the weights.
+   */
+  regularization?: number;
+}
+
+const ECE_BINS = 5;
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+/**
+ * Probability (0 to 1) that an answer with these signals is right
+ */
+export function predict(calibration: ConfidenceCalibration, signals: ConfidenceSignals): number {
+  let z = calibration.bias;
+  for (const name of SIGNAL_NAMES) {
+    z += calibration.weights[name] * signals[name];
+  }
+  return sigmoid(z);
+}
+
+/**
+ * Band for a confidence from 0 to 100
+ */
+export function bandFor(calibration: ConfidenceCalibration, confidence: number): ConfidenceBand {
+  if (confidence >= calibration.bands.high) return 'high';
+  if (confidence >= calibration.bands.medium) return 'medium';
+  return 'low';
+}
+
+/**
+ * Fit the weights to evaluated answers by gradient descent on the log loss,
+ * starting from (and regularized towards) the given calibration. Bands are
+ * kept, since they are cut-offs on the calibrated probability.
+ */
+export function fitCalibration(
+  samples: CalibrationSample[],
+  initial: ConfidenceCalibration = DEFAULT_CALIBRATION,
+  options: FitOptions = {}
+): ConfidenceCalibration {
+  const { iterations = 2000, learningRate = 0.5, regularization = 0.05 } = options;
+  if (samples.length === 0) {
+    throw new RagError('No evaluated answers to calibrate against', 'CALIBRATION_ERROR');
+  }
+
+  const weights = { ...initial.weights };
+  let bias = initial.bias;
+
+  for (let i = 0; i < iterations; i++) {
+    const current = { ...initial, weights, bias };
+    const gradient: ConfidenceSignals = {
+      vector: 0,
+      overlap: 0,
+      rerank: 0,
+      grounding: 0,
+      citations: 0,
+    };
+    let biasGradient = 0;
+
+    for (const sample of samples) {
+      const error = predict(current, sample.signals) - (sample.correct ? 1 : 0);
+      biasGradient += error;
+      for (const name of SIGNAL_NAMES) {
+        gradient[name] += error * sample.signals[name];
+      }
+    }
+
+    bias -= (learningRate * biasGradient) / samples.length;
+    for (const name of SIGNAL_NAMES) {
+      const pull = regularization * (weights[name] - initial.weights[name]);
+      weights[name] -= learningRate * (gradient[name] / samples.length + pull);
+    }
+  }
+
+  return {
+    weights,
+    bias,
+    bands: initial.bands,
+    fittedAt: new Date().toISOString(),
+    samples: samples.length,
+  };
+}
+
+/**
+ * Mean squared error of predicted probabilities against outcomes (0 is
+ * perfect), or null without predictions
+ */
+export function brierScore(predictions: Array<{ p: number; correct: boolean }>): number | null {
+  if (predictions.length === 0) return null;
+  return (
+    predictions.reduce((sum, s) => sum + (s.p - (s.correct ? 1 : 0)) ** 2, 0) / predictions.length
+  );
+}
+
+/**
+ * Mean gap between predicted and observed accuracy over equal-width
+ * probability bins, weighted by bin size, or null without predictions
+ */
+export function expectedCalibrationError(
+  predictions: Array<{ p: number; correct: boolean }>
+): number | null {
+  if (predictions.length === 0) return null;
+
+  let error = 0;
+  for (let bin = 0; bin < ECE_BINS; bin++) {
+    const inBin = predictions.filter(
+      (s) => Math.min(Math.floor(s.p * ECE_BINS), ECE_BINS - 1) === bin
+    );
+    if (inBin.length === 0) continue;
+    const meanP = inBin.reduce((sum, s) => sum + s.p, 0) / inBin.length;
+    const accuracy = inBin.filter((s) => s.correct).length / inBin.length;
+    error += (inBin.length / predictions.length) * Math.abs(meanP - accuracy);
+  }
+  return error;
+}
+
+/**
+ * How well a calibration's confidence matches how often answers actually pass
+ */
+export function evaluateCalibration(
+  samples: CalibrationSample[],
+  calibration: ConfidenceCalibration
+): CalibrationMetrics {
+  const predictions = samples.map((s) => ({
+    p: predict(calibration, s.signals),
+    correct: s.correct,
+  }));
+
+  const bands = {} as CalibrationMetrics['bands'];
+  for (const band of ['high', 'medium', 'low'] as const) {
+    const inBand = predictions.filter((s) => bandFor(calibration, s.p * 100) === band);
+    bands[band] = {
+      count: inBand.length,
+      accuracy: inBand.length > 0 ? inBand.filter((s) => s.correct).length / inBand.length : null,
+    };
+  }
+
+  return {
+    samples: predictions.length,
+    brierScore: brierScore(predictions),
+    expectedCalibrationError: expectedCalibrationError(predictions),
+    bands,
+  };
+}
+
+/**
+ * Read a calibration written by `saveCalibration`
+ */
+export async function loadCalibration(path: string): Promise<ConfidenceCalibration> {
+  try {
+    return CalibrationSchema.parse(JSON.parse(await readFile(path, 'utf-8')));
+  } catch (error) {
+    throw new RagError(
+      `Could not load confidence calibration from ${path}`,
+      'CALIBRATION_ERROR',
+      error
+    );
+  }
+}
+
+export async function saveCalibration(
+  path: string,
+  calibration: ConfidenceCalibration
+): Promise<void> {
+  await writeFile(path, JSON.stringify(calibration, null, 2) + '\n');
+}
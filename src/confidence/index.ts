@@ -0,0 +1,37 @@
+// Answer confidence module exports
+
+export {
+  ConfidenceScorer,
+  createConfidenceScorer,
+  DEFAULT_ABSTAIN_THRESHOLD,
+} from './scorer.js';
+
+export type {
+  ConfidenceInput,
+  ConfidenceAssessment,
+  ConfidenceScorerOptions,
+} from './scorer.js';
+
+export { detectAbstention, measureGrounding, retrievalSignals } from './signals.js';
+
+export type { GroundingResult } from './signals.js';
+
+export {
+  DEFAULT_CALIBRATION,
+  SIGNAL_NAMES,
+  predict,
+  bandFor,
+  fitCalibration,
+  evaluateCalibration,
+  brierScore,
+  expectedCalibrationError,
+  loadCalibration,
+  saveCalibration,
+} from './calibration.js';
+
+export type {
+  ConfidenceCalibration,
+  CalibrationSample,
+  CalibrationMetrics,
+  FitOptions,
+} from './calibration.js';
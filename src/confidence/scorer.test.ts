@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { ConfidenceScorer } from './scorer.js';
+import { detectAbstention, measureGrounding, retrievalSignals } from './signals.js';
+import { NO_ANSWER_RESPONSE } from '../prompts/senior-assistant.js';
+import type { RerankedResult } from '../types/index.js';
+
+function result(content: string, overrides: Partial<RerankedResult> = {}): RerankedResult {
+  return {
+    chunkId: `chunk-${content.length}`,
+    documentId: 'doc-1',
+    content,
+    chunkIndex: 0,
+    metadata: {},
+    score: 0.8,
+    vectorScore: 0.8,
+    bm25Score: 2.1,
+    rrfScore: 0.03,
+    sources: ['vector', 'bm25'],
+    rerankScore: 0.9,
+    ...overrides,
+  };
+}
+
+const SLMB_CHUNK =
+  'SLMB pays the Medicare Part B premium for people with monthly income up to $1,585 ' +
+  'in 2025. Apply through the County Assistance Office.';
+
+describe('detectAbstention', () => {
+  it('recognizes answers that say the sources do not cover the question', () => {
+    expect(detectAbstention('I cannot find this information in the documents.')).toBe(true);
+    expect(detectAbstention('The provided documents do not mention dental coverage.')).toBe(true);
+    expect(detectAbstention(NO_ANSWER_RESPONSE)).toBe(true);
+  });
+
+  it('does not flag ordinary answers', () => {
+    expect(detectAbstention('SLMB pays the Part B premium [1].')).toBe(false);
+    expect(detectAbstention('You cannot be denied for owning a home [2].')).toBe(false);
+  });
+
+  it('does not flag partly covered answers that carry a caveat', () => {
+    expect(
+      detectAbstention(
+        'The Part B premium of $185 each month is paid by SLMB [1]. The documents do not ' +
+          'mention whether this changes in 2026.'
+      )
+    ).toBe(false);
+    expect(
+      detectAbstention(
+        'QMB covers income up to $1,325 a month [2]. I could not find the asset limit, so ' +
+          'ask your County Assistance Office.',
+        [2]
+      )
+    ).toBe(false);
+  });
+
+  it('flags caveats when the other statements cite no valid source', () => {
+    const answer =
+      'QMB covers income up to $1,325 a month [4]. I could not find the asset limit.';
+
+    expect(detectAbstention(answer, [1, 2])).toBe(true);
+    expect(detectAbstention('The documents do not mention dental coverage [1].', [1])).toBe(true);
+  });
+});
+
+describe('measureGrounding', () => {
+  it('scores an answer taken from its sources as fully grounded', () => {
+    const grounding = measureGrounding(
+      'SLMB pays the Medicare Part B premium if income is up to $1,585 [1].',
+      [SLMB_CHUNK]
+    );
+
+    expect(grounding.score).toBe(1);
+    expect(grounding.unsupportedFigures).toEqual([]);
+  });
+
+  it('reports figures the sources do not contain', () => {
+    const grounding = measureGrounding('SLMB covers income up to $1,732 a month [1].', [SLMB_CHUNK]);
+
+    expect(grounding.unsupportedFigures).toEqual(['$1,732']);
+    expect(grounding.score).toBeLessThan(0.7);
+  });
+
+  it('ignores referral phone numbers and citation markers', () => {
+    const grounding = measureGrounding(
+      'SLMB pays the Part B premium [1]. Call the CAO at 610-466-1000.',
+      [SLMB_CHUNK]
+    );
+
+    expect(grounding.unsupportedFigures).toEqual([]);
+  });
+});
+
+describe('retrievalSignals', () => {
+  it('combines vector similarity, search agreement and rerank scores', () => {
+    const signals = retrievalSignals([
+      result('a', { vectorScore: 0.82, rerankScore: 1 }),
+      result('bb', { vectorScore: undefined, sources: ['bm25'], rerankScore: 0.5 }),
+    ]);
+
+    expect(signals).toEqual({ vector: 0.82, overlap: 0.5, rerank: 0.75 });
+  });
+});
+
+describe('ConfidenceScorer', () => {
+  const scorer = new ConfidenceScorer({ abstainThreshold: 35 });
+
+  it('gives a grounded, cited answer from strong retrieval high confidence', () => {
+    const assessment = scorer.assess({
+      answer: 'SLMB pays the Medicare Part B premium for income up to $1,585 [1].',
+      results: [result(SLMB_CHUNK)],
+      citedIndices: [1],
+    });
+
+    expect(assessment.band).toBe('high');
+    expect(assessment.abstained).toBe(false);
+    expect(assessment.confidence).toBeGreaterThanOrEqual(70);
+    expect(assessment.reasons).toEqual(['The passages match the question and support the answer']);
+  });
+
+  it('abstains on an ungrounded answer from weak retrieval', () => {
+    const assessment = scorer.assess({
+      answer: 'Dental implants are covered once every five years for anyone over 65.',
+      results: [result(SLMB_CHUNK, { vectorScore: 0.3, sources: ['vector'], rerankScore: 0.2 })],
+      citedIndices: [],
+    });
+
+    expect(assessment.band).toBe('low');
+    expect(assessment.abstained).toBe(true);
+    expect(assessment.confidence).toBeLessThan(35);
+    expect(assessment.reasons).toContain('The answer cites no sources');
+    expect(assessment.reasons).toContain('Figures not found in the cited sources: 65');
+  });
+
+  it('abstains with zero confidence when the model could not answer', () => {
+    const assessment = scorer.assess({
+      answer: 'I cannot find information about dental coverage in these documents [1].',
+      results: [result(SLMB_CHUNK)],
+      citedIndices: [1],
+    });
+
+    expect(assessment.abstained).toBe(true);
+    expect(assessment.confidence).toBe(0);
+    expect(assessment.reasons[0]).toBe('The answer says the documents do not cover the question');
+  });
+
+  it('does not abstain on a cited answer with a caveat about what is missing', () => {
+    const assessment = scorer.assess({
+      answer:
+        'SLMB pays the Medicare Part B premium for income up to $1,585 [1]. The documents do ' +
+        'not mention whether this changes in 2026.',
+      results: [result(SLMB_CHUNK)],
+      citedIndices: [1],
+    });
+
+    expect(assessment.abstained).toBe(false);
+    expect(assessment.confidence).toBeGreaterThan(35);
+    expect(assessment.reasons).not.toContain(
+      'The answer says the documents do not cover the question'
+    );
+  });
+
+  it('abstains without results', () => {
+    const assessment = scorer.assess({ answer: '', results: [], citedIndices: [] });
+
+    expect(assessment).toMatchObject({ confidence: 0, band: 'low', abstained: true });
+  });
+
+  it('only abstains below the configured threshold', () => {
+    const lenient = new ConfidenceScorer({ abstainThreshold: 0 });
+
+    const assessment = lenient.assess({
+      answer: 'Dental implants are covered once every five years for anyone over 65.',
+      results: [result(SLMB_CHUNK, { rerankScore: 0.2 })],
+      citedIndices: [],
+    });
+
+    expect(assessment.band).toBe('low');
+    expect(assessment.abstained).toBe(false);
+  });
+});
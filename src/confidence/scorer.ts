@@ -0,0 +1,139 @@
+import { ConfidenceInfo, ConfidenceSignals, RerankedResult } from '../types/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import {
+  ConfidenceCalibration,
+  DEFAULT_CALIBRATION,
+  bandFor,
+  predict,
+} from './calibration.js';
+import { detectAbstention, measureGrounding, retrievalSignals } from './signals.js';
+
+const logger = createChildLogger('confidence');
+
+/**
+ * Confidence (0-100) below which answers are replaced by the no-answer response
+ */
+export const DEFAULT_ABSTAIN_THRESHOLD = 35;
+
+// Signals below this are named in the reasons
+const WEAK_SIGNAL = 0.5;
+
+/**
+ * A generated answer and the chunks it was generated from
+ */
+export interface ConfidenceInput {
+  answer: string;
+  /** Final chunks shown to the LLM, best first */
+  results: RerankedResult[];
+  /** 1-based indices of the chunks the answer cites */
+  citedIndices: number[];
+}
+
+export interface ConfidenceAssessment extends ConfidenceInfo {
+  /** Calibrated confidence from 0 to 100 */
+  confidence: number;
+}
+
+export interface ConfidenceScorerOptions {
+  calibration?: ConfidenceCalibration;
+  abstainThreshold?: number;
+}
+
+/**
+ * Scores answers from retrieval and grounding signals and decides when to
+ * abstain: when the calibrated confidence is below the threshold, or when the
+ * LLM itself says the sources do not answer the question and cites nothing
+ * else from them
+ */
+export class ConfidenceScorer {
+  private calibration: ConfidenceCalibration;
+  private abstainThreshold: number;
+
+  constructor(options: ConfidenceScorerOptions = {}) {
+    this.calibration = options.calibration ?? DEFAULT_CALIBRATION;
+    this.abstainThreshold = options.abstainThreshold ?? DEFAULT_ABSTAIN_THRESHOLD;
+  }
+
+  assess(input: ConfidenceInput): ConfidenceAssessment {
+    const { answer, results, citedIndices } = input;
+
+    if (results.length === 0) {
+      return {
+        confidence: 0,
+        band: 'low',
+        reasons: ['No passages in the documents match the question'],
+        signals: { vector: 0, overlap: 0, rerank: 0, grounding: 0, citations: 0 },
+        abstained: true,
+      };
+    }
+
+    const validIndices = citedIndices.filter((i) => i >= 1 && i <= results.length);
+    const cited = validIndices.map((i) => results[i - 1]);
+    // Uncited answers are checked against everything they were shown
+    const grounding = measureGrounding(
+      answer,
+      (cited.length > 0 ? cited : results).map((r) => r.content)
+    );
+    const signals: ConfidenceSignals = {
+      ...retrievalSignals(results),
+      grounding: grounding.score,
+      citations: cited.length / results.length,
+    };
+
+    const modelAbstained = detectAbstention(answer, validIndices);
+    const confidence = modelAbstained ? 0 : Math.round(predict(this.calibration, signals) * 100);
+    const abstained = modelAbstained || confidence < this.abstainThreshold;
+    const band = bandFor(this.calibration, confidence);
+    const reasons = this.explain(signals, grounding.unsupportedFigures, modelAbstained);
+
+    logger.debug({ confidence, band, abstained, signals }, 'Answer confidence assessed');
+
+    return { confidence, band, reasons, signals, abstained };
+  }
+
+  private explain(
+    signals: ConfidenceSignals,
+    unsupportedFigures: string[],
+    modelAbstained: boolean
+  ): string[] {
+    const weak: Array<{ value: number; reason: string }> = [];
+
+    if (unsupportedFigures.length > 0) {
+      weak.push({
+        value: 0,
+        reason: `Figures not found in the cited sources: ${unsupportedFigures.join(', ')}`,
+      });
+    }
+    if (signals.grounding < WEAK_SIGNAL) {
+      weak.push({ value: signals.grounding, reason: 'Much of the answer is not in its sources' });
+    }
+    if (signals.citations === 0) {
+      weak.push({ value: 0, reason: 'The answer cites no sources' });
+    }
+    if (signals.rerank < WEAK_SIGNAL) {
+      weak.push({ value: signals.rerank, reason: 'The best passages are only loosely related' });
+    }
+    if (signals.vector < WEAK_SIGNAL) {
+      weak.push({ value: signals.vector, reason: 'No passage closely matches the question' });
+    }
+    if (signals.overlap === 0) {
+      weak.push({ value: 0, reason: 'Keyword and semantic search found different passages' });
+    }
+
+    const reasons = weak.sort((a, b) => a.value - b.value).map((w) => w.reason);
+    if (modelAbstained) {
+      reasons.unshift('The answer says the documents do not cover the question');
+    }
+    if (reasons.length === 0) {
+      reasons.push('The passages match the question and support the answer');
+    }
+    return reasons;
+  }
+}
+
+/**
+ * Create a confidence scorer with the given (or default) calibration
+ */
+export function createConfidenceScorer(options?: ConfidenceScorerOptions): ConfidenceScorer {
+  return new ConfidenceScorer(options);
+}
@@ -0,0 +1,141 @@
+/**
+ * Signals an answer's confidence is computed from: how well retrieval matched
+ * the question, and how much of the answer its sources actually say
+ */
+
+import { RerankedResult } from '../types/index.js';
+import { Claim, splitClaims } from '../verification/claims.js';
+
+/**
+ * Phrasings the LLM uses when the sources do not answer the question
+ */
+const ABSTENTION_PATTERNS = [
+  /\b(?:i|we) (?:cannot|can't|can not|could not|couldn't) (?:find|locate|determine)\b/i,
+  /\b(?:was|am|were) unable to (?:find|locate|determine)\b/i,
+  /\b(?:i|we) (?:do not|don't) have (?:enough |any |specific )?information\b/i,
+  /\b(?:documents|sources|context) (?:do|does) not (?:contain|include|mention|cover|address)\b/i,
+  /\bnot (?:mentioned|covered|addressed) in the (?:provided |available )?(?:documents|sources)\b/i,
+  /\bno (?:relevant |specific )?information (?:about|on|regarding)\b/i,
+];
+
+// Referral phone numbers and web addresses come from the prompt, not the sources
+const REFERRAL_PATTERN = /\b(?:1-)?\d{3}-\d{3}-\d{4}\b|\bwww\.\S+|\bhttps?:\/\/\S+/gi;
+const CITATION_PATTERN = /\[\d+\]/g;
+const FIGURE_PATTERN = /\$?\d[\d,]*(?:\.\d+)?%?/g;
+const WORD_PATTERN = /[a-z][a-z'-]{3,}/g;
+
+// Figures weigh more than words: a wrong dollar amount misleads, a paraphrase does not
+const FIGURE_WEIGHT = 2;
+
+const STOPWORDS = new Set([
+  'about', 'above', 'after', 'also', 'because', 'been', 'before', 'being', 'both', 'could',
+  'does', 'each', 'even', 'from', 'have', 'here', 'into', 'just', 'like', 'many', 'more',
+  'most', 'much', 'must', 'only', 'other', 'over', 'same', 'should', 'some', 'such', 'than',
+  'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through',
+  'under', 'very', 'want', 'well', 'were', 'what', 'when', 'where', 'whether', 'which',
+  'while', 'will', 'with', 'would', 'your', 'yours', 'answer', 'question',
+  'source', 'sources', 'document', 'documents', 'based', 'information', 'provided',
+  'direct', 'next', 'steps', 'step', 'note', 'please', 'help', 'call', 'contact',
+]);
+
+export interface GroundingResult {
+  /** Weighted share of the answer's terms and figures found in the sources, 0 to 1 */
+  score: number;
+  /** Figures in the answer that no source contains, as written */
+  unsupportedFigures: string[];
+}
+
+function isRefusal(claim: Claim): boolean {
+  return ABSTENTION_PATTERNS.some((pattern) => pattern.test(claim.text));
+}
+
+/**
+ * Whether the answer says the sources do not answer the question and cites
+ * them for nothing else. A caveat beside cited statements ("The documents do
+ * not mention whether this changes in 2026.") leaves the answer standing.
+ * Given `citedIndices`, only those source numbers count as citations.
+ */
+export function detectAbstention(answer: string, citedIndices?: number[]): boolean {
+  const claims = splitClaims(answer);
+  if (!claims.some(isRefusal)) {
+    return false;
+  }
+
+  const counts = (index: number) => !citedIndices || citedIndices.includes(index);
+  return !claims.some((claim) => !isRefusal(claim) && claim.citations.some(counts));
+}
+
+function normalizeFigure(figure: string): string | null {
+  const digits = figure.replace(/[$,%]/g, '').replace(/\.0+$/, '');
+  // Single digits are list numbering and counts, not figures worth checking
+  return digits.replace(/\D/g, '').length >= 2 ? digits : null;
+}
+
+function normalizeWord(word: string): string {
+  return word.length > 4 && word.endsWith('s') ? word.slice(0, -1) : word;
+}
+
+function terms(text: string): { words: Set<string>; figures: Map<string, string> } {
+  const cleaned = text.replace(REFERRAL_PATTERN, ' ').replace(CITATION_PATTERN, ' ');
+  const figures = new Map<string, string>();
+  for (const match of cleaned.match(FIGURE_PATTERN) ?? []) {
+    const figure = normalizeFigure(match);
+    if (figure && !figures.has(figure)) {
+      figures.set(figure, match);
+    }
+  }
+  const words = new Set(
+    (cleaned.toLowerCase().match(WORD_PATTERN) ?? [])
+      .filter((word) => !STOPWORDS.has(word))
+      .map(normalizeWord)
+  );
+  return { words, figures };
+}
+
+/**
+ * How much of the answer the sources support. Every figure and content word
+ * of the answer is looked up in the source text.
+ */
+export function measureGrounding(answer: string, sources: string[]): GroundingResult {
+  const answerTerms = terms(answer);
+  const sourceTerms = terms(sources.join('\n'));
+
+  const supportedWords = [...answerTerms.words].filter((w) => sourceTerms.words.has(w)).length;
+  const unsupportedFigures = [...answerTerms.figures]
+    .filter(([figure]) => !sourceTerms.figures.has(figure))
+    .map(([, written]) => written);
+  const supportedFigures = answerTerms.figures.size - unsupportedFigures.length;
+
+  const total = answerTerms.words.size + FIGURE_WEIGHT * answerTerms.figures.size;
+  return {
+    score: total === 0 ? 0 : (supportedWords + FIGURE_WEIGHT * supportedFigures) / total,
+    unsupportedFigures,
+  };
+}
+
+function clamp(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+/**
+ * Retrieval signals for the final chunks: the best vector similarity, how
+ * often keyword and vector search agreed, and the mean rerank score
+ */
+export function retrievalSignals(
+  results: RerankedResult[]
+): { vector: number; overlap: number; rerank: number } {
+  if (results.length === 0) {
+    return { vector: 0, overlap: 0, rerank: 0 };
+  }
+
+  const vectorScores = results
+    .map((r) => r.vectorScore)
+    .filter((score): score is number => score !== undefined);
+  const both = results.filter((r) => r.sources.includes('vector') && r.sources.includes('bm25'));
+
+  return {
+    vector: vectorScores.length > 0 ? clamp(Math.max(...vectorScores)) : 0,
+    overlap: both.length / results.length,
+    rerank: clamp(results.reduce((sum, r) => sum + r.rerankScore, 0) / results.length),
+  };
+}
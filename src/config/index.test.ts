@@ -10,6 +10,7 @@ describe('loadConfig', () => {
     process.env = { ...originalEnv };
     delete process.env.LM_STUDIO_BASE_URL;
     delete process.env.LM_STUDIO_OCR_MODEL;
+    delete process.env.OCR_CONCURRENCY;
     delete process.env.LM_STUDIO_LLM_MODEL;
     delete process.env.LM_STUDIO_EMBEDDING_MODEL;
     delete process.env.EMBEDDING_DIMENSION;
@@ -26,6 +27,7 @@ describe('loadConfig', () => {
 
     expect(config.lmStudio.baseUrl).toBe('http://localhost:1234/v1');
     expect(config.lmStudio.ocrModel).toBe('allenai/olmocr-2-7b');
+    expect(config.lmStudio.ocrConcurrency).toBe(2);
     expect(config.lmStudio.llmModel).toBe('qwen2.5-7b-instruct');
     expect(config.qdrant.url).toBe('http://localhost:6333');
     expect(config.qdrant.collection).toBe('medicaid_chunks');
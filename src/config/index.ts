@@ -29,6 +29,21 @@ function getEnvNumber(key: string, defaultValue?: number): number {
   return parsed;
 }
 
+function getEnvFloat(key: string, defaultValue?: number): number {
+  const value = process.env[key];
+  if (value === undefined) {
+    if (defaultValue !== undefined) {
+      return defaultValue;
+    }
+    throw new Error(`Missing required environment variable: ${key}`);
+  }
+  const parsed = parseFloat(value);
+  if (isNaN(parsed)) {
+    throw new Error(`Environment variable ${key} must be a number`);
+  }
+  return parsed;
+}
+
 function getEnvBoolean(key: string, defaultValue?: boolean): boolean {
   const value = process.env[key];
   if (value === undefined) {
@@ -45,6 +60,7 @@ export function loadConfig(): Config {
     lmStudio: {
       baseUrl: getEnvString('LM_STUDIO_BASE_URL', 'http://localhost:1234/v1'),
       ocrModel: getEnvString('LM_STUDIO_OCR_MODEL', 'allenai/olmocr-2-7b'),
+      ocrConcurrency: getEnvNumber('OCR_CONCURRENCY', 2),
       llmModel: getEnvString('LM_STUDIO_LLM_MODEL', 'qwen2.5-7b-instruct'),
       embeddingModel: getEnvString(
         'LM_STUDIO_EMBEDDING_MODEL',
@@ -70,6 +86,34 @@ export function loadConfig(): Config {
       bm25TopK: getEnvNumber('BM25_TOP_K', 20),
       rerankTopN: getEnvNumber('RERANK_TOP_N', 10),
       finalTopC: getEnvNumber('FINAL_TOP_C', 5),
+      llmFollowUps: getEnvBoolean('LLM_FOLLOW_UPS', false),
+      fusion: getEnvString('FUSION_STRATEGY', 'rrf') as Config['rag']['fusion'],
+      rrfK: getEnvNumber('RRF_K', 60),
+      fusionWeights: {
+        vector: getEnvFloat('FUSION_VECTOR_WEIGHT', 1),
+        bm25: getEnvFloat('FUSION_BM25_WEIGHT', 1),
+      },
+      reranker: getEnvString('RERANKER', 'listwise') as Config['rag']['reranker'],
+      rerankerUrl: getEnvString(
+        'RERANKER_URL',
+        getEnvString('LM_STUDIO_BASE_URL', 'http://localhost:1234/v1')
+      ),
+      rerankerModel: getEnvString('RERANKER_MODEL', 'bge-reranker-v2-m3'),
+      rerankerScores: getEnvString(
+        'RERANKER_SCORES',
+        'logits'
+      ) as Config['rag']['rerankerScores'],
+      abstainThreshold: getEnvNumber('ABSTAIN_THRESHOLD', 35),
+      confidenceCalibration: process.env.CONFIDENCE_CALIBRATION || undefined,
+      citationVerification: getEnvString(
+        'CITATION_VERIFICATION',
+        'flag'
+      ) as Config['rag']['citationVerification'],
+      queryExpansion: getEnvString(
+        'QUERY_EXPANSION',
+        'bm25'
+      ) as Config['rag']['queryExpansion'],
+      queryDictionary: process.env.QUERY_DICTIONARY || undefined,
     },
     cache: {
       enabled: getEnvBoolean('CACHE_ENABLED', true),
@@ -1,20 +1,115 @@
 #!/usr/bin/env node
 
-import { readFile } from 'fs/promises';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
+import { Command, InvalidArgumentError } from 'commander';
 import pg from 'pg';
 import { getConfig } from '../config/index.js';
+import { createMigrationRunner, formatMigration, MigrationRunner } from './migrations.js';
 
 const { Pool } = pg;
 
-const __dirname = dirname(fileURLToPath(import.meta.url));
+const STATE_LABELS = {
+  applied: '✓ applied',
+  pending: '… pending',
+  changed: '✗ changed since applied',
+  missing: '✗ file missing',
+};
 
-async function migrate() {
-  console.log('Running database migrations...');
+const program = new Command();
 
-  const config = getConfig();
+program
+  .name('migrate')
+  .description('Apply, revert and inspect versioned database migrations')
+  .version('1.0.0');
+
+program
+  .command('status')
+  .description('Show which migrations are applied, pending, or edited since they were applied')
+  .action(async () => {
+    await withRunner(async (runner) => {
+      const statuses = await runner.status();
+
+      console.log('\nDatabase migrations\n');
+      for (const status of statuses) {
+        const appliedAt = status.appliedAt ? `  ${new Date(status.appliedAt).toLocaleString()}` : '';
+        console.log(
+          `  ${formatMigration(status).padEnd(28)} ${STATE_LABELS[status.state].padEnd(26)}${appliedAt}`
+        );
+      }
+
+      const pending = statuses.filter((s) => s.state === 'pending').length;
+      const drifted = statuses.filter((s) => s.state === 'changed' || s.state === 'missing').length;
+      console.log(`\n${pending} pending, ${drifted} edited or missing`);
+      if (drifted > 0) {
+        process.exitCode = 1;
+      }
+    });
+  });
+
+program
+  .command('up', { isDefault: true })
+  .description('Apply pending migrations in order')
+  .option('--to <version>', 'Stop after this version', parseVersion)
+  .action(async (options: { to?: number }) => {
+    await withRunner(async (runner, pool) => {
+      console.log('Running database migrations...');
+      const applied = await runner.up(options.to);
+
+      for (const migration of applied) {
+        console.log(`  ✓ ${formatMigration(migration)}`);
+      }
+      console.log(
+        applied.length > 0 ? `Applied ${applied.length} migration(s).` : 'Database is up to date.'
+      );
+      console.log('Migrations completed successfully!');
+
+      // Show table info
+      const tables = await pool.query(`
+        SELECT table_name
+        FROM information_schema.tables
+        WHERE table_schema = 'public'
+        ORDER BY table_name;
+      `);
+
+      console.log('\nCreated tables:');
+      tables.rows.forEach((row) => {
+        console.log(`  - ${row.table_name}`);
+      });
+    });
+  });
 
+program
+  .command('down')
+  .description('Revert applied migrations newer than a version, newest first')
+  .requiredOption('--to <version>', 'Version to keep (0 reverts everything)', parseVersion)
+  .action(async (options: { to: number }) => {
+    await withRunner(async (runner) => {
+      const reverted = await runner.down(options.to);
+
+      if (reverted.length === 0) {
+        console.log(`Nothing to revert above version ${options.to}.`);
+        return;
+      }
+      for (const migration of reverted) {
+        console.log(`  ↩ ${formatMigration(migration)}`);
+      }
+      console.log(`Reverted ${reverted.length} migration(s).`);
+    });
+  });
+
+program.parse();
+
+function parseVersion(value: string): number {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new InvalidArgumentError('Version must be a whole number.');
+  }
+  return version;
+}
+
+async function withRunner(
+  action: (runner: MigrationRunner, pool: pg.Pool) => Promise<void>
+): Promise<void> {
+  const config = getConfig();
   const pool = new Pool({
     host: config.postgres.host,
     port: config.postgres.port,
@@ -24,33 +119,11 @@ async function migrate() {
   });
 
   try {
-    // Read the init script
-    const initSqlPath = join(__dirname, '../../scripts/init-db.sql');
-    const initSql = await readFile(initSqlPath, 'utf-8');
-
-    // Execute the SQL
-    await pool.query(initSql);
-
-    console.log('Migrations completed successfully!');
-
-    // Show table info
-    const tables = await pool.query(`
-      SELECT table_name
-      FROM information_schema.tables
-      WHERE table_schema = 'public'
-      ORDER BY table_name;
-    `);
-
-    console.log('\nCreated tables:');
-    tables.rows.forEach((row) => {
-      console.log(`  - ${row.table_name}`);
-    });
+    await action(createMigrationRunner(pool), pool);
   } catch (error) {
-    console.error('Migration failed:', error);
-    process.exit(1);
+    console.error('Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
   } finally {
     await pool.end();
   }
 }
-
-migrate();
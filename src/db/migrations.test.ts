@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type pg from 'pg';
+import {
+  loadMigrations,
+  compareMigrations,
+  createMigrationRunner,
+  AppliedMigration,
+} from './migrations.js';
+import { hashString } from '../utils/hash.js';
+import { MigrationError } from '../types/index.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+const INIT_SQL = 'CREATE TABLE documents (id UUID);';
+const ADD_TYPE_SQL = 'ALTER TABLE documents ADD COLUMN document_type TEXT;';
+const LIMITS_SQL = 'CREATE TABLE program_limits (id UUID);';
+
+describe('migrations', () => {
+  let dir: string;
+  let initSqlPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'migrations-'));
+    initSqlPath = join(dir, 'init-db.sql');
+    await writeFile(initSqlPath, INIT_SQL);
+    await writeFile(join(dir, '002_document_type.sql'), ADD_TYPE_SQL);
+    await writeFile(
+      join(dir, '002_document_type.down.sql'),
+      'ALTER TABLE documents DROP COLUMN document_type;'
+    );
+    await writeFile(join(dir, '003_limits.sql'), LIMITS_SQL);
+    await writeFile(join(dir, 'README.md'), 'not a migration');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Pool whose schema_migrations table holds the given rows
+   */
+  function createMockPool(applied: AppliedMigration[] | 'no-table', failOn?: string) {
+    const query = vi.fn(async (sql: string) => {
+      if (failOn && sql === failOn) {
+        throw new Error('column "document_type" already exists');
+      }
+      if (sql.includes('FROM schema_migrations')) {
+        if (applied === 'no-table') {
+          throw Object.assign(new Error('relation does not exist'), { code: '42P01' });
+        }
+        return { rows: applied };
+      }
+      return { rows: [] };
+    });
+    const release = vi.fn();
+    const pool = { query, connect: vi.fn(async () => ({ query, release })) };
+    return { pool: pool as unknown as pg.Pool, query, release };
+  }
+
+  function appliedRecord(version: number, name: string, sql: string): AppliedMigration {
+    return { version, name, checksum: hashString(sql), appliedAt: new Date(), executionMs: 5 };
+  }
+
+  describe('loadMigrations', () => {
+    it('should order migrations after init-db.sql and attach down files', async () => {
+      const migrations = await loadMigrations(dir, initSqlPath);
+
+      expect(migrations.map((m) => [m.version, m.name])).toEqual([
+        [1, 'init'],
+        [2, 'document_type'],
+        [3, 'limits'],
+      ]);
+      expect(migrations[1].downSql).toContain('DROP COLUMN');
+      expect(migrations[2].downSql).toBeUndefined();
+      expect(migrations[1].checksum).toBe(hashString(ADD_TYPE_SQL));
+    });
+
+    it('should load the repository migrations without gaps', async () => {
+      const migrations = await loadMigrations();
+
+      expect(migrations.map((m) => m.version)).toEqual(
+        migrations.map((_, index) => index + 1)
+      );
+    });
+
+    it('should reject duplicate versions', async () => {
+      await writeFile(join(dir, '003_other.sql'), 'SELECT 1;');
+
+      await expect(loadMigrations(dir, initSqlPath)).rejects.toThrow(MigrationError);
+    });
+  });
+
+  describe('compareMigrations', () => {
+    it('should report applied, pending, changed and missing migrations', async () => {
+      const migrations = await loadMigrations(dir, initSqlPath);
+      const statuses = compareMigrations(migrations, [
+        appliedRecord(1, 'init', INIT_SQL),
+        appliedRecord(2, 'document_type', 'ALTER TABLE documents ADD COLUMN doc_type TEXT;'),
+        appliedRecord(4, 'removed', 'SELECT 1;'),
+      ]);
+
+      expect(statuses.map((s) => [s.version, s.state])).toEqual([
+        [1, 'applied'],
+        [2, 'changed'],
+        [3, 'pending'],
+        [4, 'missing'],
+      ]);
+    });
+  });
+
+  describe('MigrationRunner', () => {
+    it('should report every migration as pending before the table exists', async () => {
+      const { pool } = createMockPool('no-table');
+
+      const statuses = await createMigrationRunner(pool, { migrationsDir: dir, initSqlPath }).status();
+
+      expect(statuses.every((s) => s.state === 'pending')).toBe(true);
+    });
+
+    it('should apply pending migrations in order, each in its own transaction', async () => {
+      const { pool, query, release } = createMockPool([appliedRecord(1, 'init', INIT_SQL)]);
+
+      const applied = await createMigrationRunner(pool, { migrationsDir: dir, initSqlPath }).up();
+
+      expect(applied.map((m) => m.version)).toEqual([2, 3]);
+      const statements = query.mock.calls.map(([sql]) => sql as string);
+      expect(statements.filter((sql) => sql === 'BEGIN')).toHaveLength(2);
+      expect(statements.indexOf(ADD_TYPE_SQL)).toBeLessThan(statements.indexOf(LIMITS_SQL));
+      expect(query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO schema_migrations'),
+        [3, 'limits', hashString(LIMITS_SQL), expect.any(Number)]
+      );
+      expect(statements.at(-1)).toContain('pg_advisory_unlock');
+      expect(release).toHaveBeenCalled();
+    });
+
+    it('should stop at the requested version', async () => {
+      const { pool } = createMockPool([appliedRecord(1, 'init', INIT_SQL)]);
+
+      const applied = await createMigrationRunner(pool, { migrationsDir: dir, initSqlPath }).up(2);
+
+      expect(applied.map((m) => m.version)).toEqual([2]);
+    });
+
+    it('should refuse to run when an applied migration was edited', async () => {
+      const { pool, query } = createMockPool([
+        appliedRecord(1, 'init', INIT_SQL),
+        appliedRecord(2, 'document_type', 'edited'),
+      ]);
+
+      await expect(
+        createMigrationRunner(pool, { migrationsDir: dir, initSqlPath }).up()
+      ).rejects.toThrow('002_document_type (changed)');
+      expect(query).not.toHaveBeenCalledWith(LIMITS_SQL);
+    });
+
+    it('should roll back a failing migration and stop', async () => {
+      const { pool, query } = createMockPool([appliedRecord(1, 'init', INIT_SQL)], ADD_TYPE_SQL);
+
+      await expect(
+        createMigrationRunner(pool, { migrationsDir: dir, initSqlPath }).up()
+      ).rejects.toThrow('Failed to apply 002_document_type: column "document_type" already exists');
+      expect(query).toHaveBeenCalledWith('ROLLBACK');
+      expect(query).not.toHaveBeenCalledWith(LIMITS_SQL);
+    });
+
+    it('should revert newer migrations with their down files', async () => {
+      const { pool, query } = createMockPool([
+        appliedRecord(1, 'init', INIT_SQL),
+        appliedRecord(2, 'document_type', ADD_TYPE_SQL),
+      ]);
+
+      const reverted = await createMigrationRunner(pool, { migrationsDir: dir, initSqlPath }).down(1);
+
+      expect(reverted.map((m) => m.version)).toEqual([2]);
+      expect(query).toHaveBeenCalledWith('ALTER TABLE documents DROP COLUMN document_type;');
+      expect(query).toHaveBeenCalledWith('DELETE FROM schema_migrations WHERE version = $1', [2]);
+    });
+
+    it('should not revert anything when a migration has no down file', async () => {
+      const { pool, query } = createMockPool([
+        appliedRecord(1, 'init', INIT_SQL),
+        appliedRecord(2, 'document_type', ADD_TYPE_SQL),
+        appliedRecord(3, 'limits', LIMITS_SQL),
+      ]);
+
+      await expect(
+        createMigrationRunner(pool, { migrationsDir: dir, initSqlPath }).down(1)
+      ).rejects.toThrow('No down migration for 003_limits');
+      expect(query).not.toHaveBeenCalledWith('BEGIN');
+    });
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Versioned schema migrations. `scripts/init-db.sql` is version 1 and each
+ * `scripts/migrations/NNN_name.sql` is version NNN, with an optional
+ * `NNN_name.down.sql` to revert it. Applied versions are recorded with a
+ * checksum in `schema_migrations`, so edits to an applied file are detected.
+ */
+
+import { readFile, readdir } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import pg from 'pg';
+import { Config, MigrationError } from '../types/index.js';
+import { hashString } from '../utils/hash.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('migrations');
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export const DEFAULT_MIGRATIONS_DIR = join(__dirname, '../../scripts/migrations');
+export const DEFAULT_INIT_SQL_PATH = join(__dirname, '../../scripts/init-db.sql');
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.sql$/;
+const DOWN_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.down\.sql$/;
+
+/**
+ * Postgres error code for a missing relation
+ */
+const UNDEFINED_TABLE = '42P01';
+
+/**
+ * Key for the advisory lock that keeps two runners from migrating at once
+ */
+const MIGRATION_LOCK_KEY = 72_410_011;
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+  downSql?: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+  executionMs: number;
+}
+
+/**
+ * - applied: recorded and unchanged
+ * - pending: not yet applied
+ * - changed: applied, but the file no longer matches its checksum
+ * - missing: recorded as applied, but the file is gone
+ */
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  appliedAt?: Date;
+  reversible: boolean;
+}
+
+export interface MigrationRunnerOptions {
+  migrationsDir?: string;
+  initSqlPath?: string;
+}
+
+/**
+ * Read migrations from disk, ordered by version
+ */
+export async function loadMigrations(
+  migrationsDir: string = DEFAULT_MIGRATIONS_DIR,
+  initSqlPath: string = DEFAULT_INIT_SQL_PATH
+): Promise<Migration[]> {
+  const initSql = await readFile(initSqlPath, 'utf-8');
+  const migrations = new Map<number, Migration>([
+    [1, { version: 1, name: 'init', sql: initSql, checksum: hashString(initSql) }],
+  ]);
+
+  const files = (await readdir(migrationsDir)).sort();
+
+  for (const file of files) {
+    const match = MIGRATION_FILE_PATTERN.exec(file);
+    if (!match) {
+      continue;
+    }
+    const version = parseInt(match[1], 10);
+    if (migrations.has(version)) {
+      throw new MigrationError(`Duplicate migration version ${version}: ${file}`);
+    }
+    const sql = await readFile(join(migrationsDir, file), 'utf-8');
+    migrations.set(version, { version, name: match[2], sql, checksum: hashString(sql) });
+  }
+
+  for (const file of files) {
+    const match = DOWN_FILE_PATTERN.exec(file);
+    if (!match) {
+      continue;
+    }
+    const migration = migrations.get(parseInt(match[1], 10));
+    if (!migration || migration.name !== match[2]) {
+      throw new MigrationError(`Down migration ${file} has no matching migration`);
+    }
+    migration.downSql = await readFile(join(migrationsDir, file), 'utf-8');
+  }
+
+  return [...migrations.values()].sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Applies and reverts migrations, one transaction per file
+ */
+export class MigrationRunner {
+  private pool: pg.Pool;
+  private migrationsDir: string;
+  private initSqlPath: string;
+
+  constructor(pool: pg.Pool, options: MigrationRunnerOptions = {}) {
+    this.pool = pool;
+    this.migrationsDir = options.migrationsDir ?? DEFAULT_MIGRATIONS_DIR;
+    this.initSqlPath = options.initSqlPath ?? DEFAULT_INIT_SQL_PATH;
+  }
+
+  /**
+   * State of every migration on disk or in the database
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const migrations = await loadMigrations(this.migrationsDir, this.initSqlPath);
+    const applied = await this.getApplied(this.pool);
+    return compareMigrations(migrations, applied);
+  }
+
+  /**
+   * Apply pending migrations in order, up to `to` if given. Refuses to run
+   * while an applied migration has been edited or removed.
+   */
+  async up(to?: number): Promise<Migration[]> {
+    const migrations = await loadMigrations(this.migrationsDir, this.initSqlPath);
+
+    return this.withLock(async (client) => {
+      const statuses = compareMigrations(migrations, await this.getApplied(client));
+      assertUnchanged(statuses);
+
+      const pending = statuses
+        .filter((s) => s.state === 'pending' && (to === undefined || s.version <= to))
+        .map((s) => migrations.find((m) => m.version === s.version)!);
+
+      for (const migration of pending) {
+        await this.apply(client, migration);
+      }
+      return pending;
+    });
+  }
+
+  /**
+   * Revert applied migrations newer than `to`, newest first. Every one of them
+   * must have a down file.
+   */
+  async down(to: number): Promise<Migration[]> {
+    const migrations = await loadMigrations(this.migrationsDir, this.initSqlPath);
+
+    return this.withLock(async (client) => {
+      const statuses = compareMigrations(migrations, await this.getApplied(client));
+      assertUnchanged(statuses);
+
+      const toRevert = statuses
+        .filter((s) => s.state === 'applied' && s.version > to)
+        .map((s) => migrations.find((m) => m.version === s.version)!)
+        .reverse();
+
+      const irreversible = toRevert.filter((m) => m.downSql === undefined);
+      if (irreversible.length > 0) {
+        throw new MigrationError(
+          `No down migration for ${irreversible.map(formatMigration).join(', ')}`
+        );
+      }
+
+      for (const migration of toRevert) {
+        await this.revert(client, migration);
+      }
+      return toRevert;
+    });
+  }
+
+  private async apply(client: pg.PoolClient, migration: Migration): Promise<void> {
+    const start = Date.now();
+    try {
+      await client.query('BEGIN');
+      await client.query(migration.sql);
+      await client.query(
+        `INSERT INTO schema_migrations (version, name, checksum, execution_ms)
+         VALUES ($1, $2, $3, $4)`,
+        [migration.version, migration.name, migration.checksum, Date.now() - start]
+      );
+      await client.query('COMMIT');
+      logger.info({ version: migration.version, name: migration.name }, 'Migration applied');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new MigrationError(
+        `Failed to apply ${formatMigration(migration)}: ${errorMessage(error)}`,
+        error
+      );
+    }
+  }
+
+  private async revert(client: pg.PoolClient, migration: Migration): Promise<void> {
+    try {
+      await client.query('BEGIN');
+      await client.query(migration.downSql!);
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+      await client.query('COMMIT');
+      logger.info({ version: migration.version, name: migration.name }, 'Migration reverted');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new MigrationError(
+        `Failed to revert ${formatMigration(migration)}: ${errorMessage(error)}`,
+        error
+      );
+    }
+  }
+
+  private async withLock<T>(action: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+      try {
+        await this.ensureMigrationsTable(client);
+        return await action(client);
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  private async ensureMigrationsTable(db: pg.Pool | pg.PoolClient): Promise<void> {
+    await db.query(
+      `CREATE TABLE IF NOT EXISTS schema_migrations (
+         version INTEGER PRIMARY KEY,
+         name TEXT NOT NULL,
+         checksum TEXT NOT NULL,
+         applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+         execution_ms INTEGER
+       )`
+    );
+  }
+
+  private async getApplied(db: pg.Pool | pg.PoolClient): Promise<AppliedMigration[]> {
+    try {
+      const result = await db.query<AppliedMigration>(
+        `SELECT version, name, checksum, applied_at as "appliedAt", execution_ms as "executionMs"
+         FROM schema_migrations
+         ORDER BY version`
+      );
+      return result.rows;
+    } catch (error) {
+      // Nothing has been applied by the runner yet
+      if ((error as { code?: string }).code === UNDEFINED_TABLE) {
+        return [];
+      }
+      throw new MigrationError('Failed to read schema_migrations', error);
+    }
+  }
+}
+
+/**
+ * Match migrations on disk against the versions recorded as applied
+ */
+export function compareMigrations(
+  migrations: Migration[],
+  applied: AppliedMigration[]
+): MigrationStatus[] {
+  const appliedByVersion = new Map(applied.map((a) => [a.version, a]));
+  const statuses: MigrationStatus[] = migrations.map((migration) => {
+    const record = appliedByVersion.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: !record ? 'pending' : record.checksum === migration.checksum ? 'applied' : 'changed',
+      appliedAt: record?.appliedAt,
+      reversible: migration.downSql !== undefined,
+    };
+  });
+
+  const known = new Set(migrations.map((m) => m.version));
+  for (const record of applied) {
+    if (!known.has(record.version)) {
+      statuses.push({
+        version: record.version,
+        name: record.name,
+        state: 'missing',
+        appliedAt: record.appliedAt,
+        reversible: false,
+      });
+    }
+  }
+
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+function assertUnchanged(statuses: MigrationStatus[]): void {
+  const drifted = statuses.filter((s) => s.state === 'changed' || s.state === 'missing');
+  if (drifted.length > 0) {
+    throw new MigrationError(
+      `Applied migrations were edited or removed: ${drifted
+        .map((s) => `${formatMigration(s)} (${s.state})`)
+        .join(', ')}. Add a new migration instead of editing an applied one.`
+    );
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function formatMigration(migration: { version: number; name: string }): string {
+  return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+}
+
+/**
+ * Migrations not yet applied (or drifted) in the configured database
+ */
+export async function getUnappliedMigrations(
+  config: Config['postgres']
+): Promise<MigrationStatus[]> {
+  const pool = new pg.Pool({ ...config, max: 1 });
+  try {
+    const statuses = await createMigrationRunner(pool).status();
+    return statuses.filter((s) => s.state !== 'applied');
+  } finally {
+    await pool.end();
+  }
+}
+
+/**
+ * Create a migration runner
+ */
+export function createMigrationRunner(
+  pool: pg.Pool,
+  options?: MigrationRunnerOptions
+): MigrationRunner {
+  return new MigrationRunner(pool, options);
+}
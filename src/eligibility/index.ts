@@ -0,0 +1,12 @@
+// Eligibility screening module exports
+
+export {
+  EligibilityScreener,
+  createEligibilityScreener,
+  extractScreeningInput,
+  formatScreeningSection,
+} from './screener.js';
+
+export type { ExtractedScreeningInput } from './screener.js';
+
+export { DEFAULT_PROGRAM_LIMITS } from './limits.js';
@@ -0,0 +1,45 @@
+/**
+ * Bundled program limits, used when the program_limits table is unavailable.
+ * Mirrors the seed rows in scripts/migrations/006_eligibility_limits.sql.
+ */
+
+import { ProgramLimit } from '../types/index.js';
+
+const FPL_2025 = new Date('2025-01-15');
+const MSP_2025 = new Date('2025-04-01');
+const PACE_2025 = new Date('2025-01-01');
+
+/**
+ * Federal poverty guidelines (annual, 48 contiguous states) by household size
+ */
+const FPL_2025_AMOUNTS = [15650, 21150, 26650, 32150, 37650, 43150, 48650, 54150];
+
+export const DEFAULT_PROGRAM_LIMITS: ProgramLimit[] = [
+  ...FPL_2025_AMOUNTS.map((incomeLimit, i): ProgramLimit => ({
+    program: 'FPL',
+    dataType: 'federal_poverty_level',
+    householdSize: i + 1,
+    effectiveYear: 2025,
+    effectiveDate: FPL_2025,
+    incomeLimit,
+    incomePeriod: 'annual',
+  })),
+
+  // Medicare Savings Programs (monthly, including the $20 disregard)
+  { program: 'QMB', dataType: 'msp_income_limits', householdSize: 1, effectiveYear: 2025, effectiveDate: MSP_2025, incomeLimit: 1325, incomePeriod: 'monthly', assetLimit: 9660 },
+  { program: 'QMB', dataType: 'msp_income_limits', householdSize: 2, effectiveYear: 2025, effectiveDate: MSP_2025, incomeLimit: 1783, incomePeriod: 'monthly', assetLimit: 14470 },
+  { program: 'SLMB', dataType: 'msp_income_limits', householdSize: 1, effectiveYear: 2025, effectiveDate: MSP_2025, incomeLimit: 1585, incomePeriod: 'monthly', assetLimit: 9660 },
+  { program: 'SLMB', dataType: 'msp_income_limits', householdSize: 2, effectiveYear: 2025, effectiveDate: MSP_2025, incomeLimit: 2135, incomePeriod: 'monthly', assetLimit: 14470 },
+  { program: 'QI', dataType: 'msp_income_limits', householdSize: 1, effectiveYear: 2025, effectiveDate: MSP_2025, incomeLimit: 1781, incomePeriod: 'monthly', assetLimit: 9660 },
+  { program: 'QI', dataType: 'msp_income_limits', householdSize: 2, effectiveYear: 2025, effectiveDate: MSP_2025, incomeLimit: 2400, incomePeriod: 'monthly', assetLimit: 14470 },
+
+  // Extra Help (150% FPL)
+  { program: 'EXTRA_HELP', dataType: 'federal_poverty_level', householdSize: 1, effectiveYear: 2025, effectiveDate: FPL_2025, incomeLimit: 1956, incomePeriod: 'monthly', assetLimit: 17600 },
+  { program: 'EXTRA_HELP', dataType: 'federal_poverty_level', householdSize: 2, effectiveYear: 2025, effectiveDate: FPL_2025, incomeLimit: 2643, incomePeriod: 'monthly', assetLimit: 35130 },
+
+  // PACE / PACENET (annual income, no asset test)
+  { program: 'PACE', dataType: 'pace_pacenet_limits', householdSize: 1, effectiveYear: 2025, effectiveDate: PACE_2025, incomeLimit: 14500, incomePeriod: 'annual', minAge: 65 },
+  { program: 'PACE', dataType: 'pace_pacenet_limits', householdSize: 2, effectiveYear: 2025, effectiveDate: PACE_2025, incomeLimit: 17700, incomePeriod: 'annual', minAge: 65 },
+  { program: 'PACENET', dataType: 'pace_pacenet_limits', householdSize: 1, effectiveYear: 2025, effectiveDate: PACE_2025, incomeLimit: 33500, incomePeriod: 'annual', minAge: 65 },
+  { program: 'PACENET', dataType: 'pace_pacenet_limits', householdSize: 2, effectiveYear: 2025, effectiveDate: PACE_2025, incomeLimit: 41500, incomePeriod: 'annual', minAge: 65 },
+];
@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EligibilityScreener,
+  createEligibilityScreener,
+  extractScreeningInput,
+  formatScreeningSection,
+} from './screener.js';
+import { DEFAULT_PROGRAM_LIMITS } from './limits.js';
+import type { ProgramLimit, ScreeningRequest } from '../types/index.js';
+
+const SCREEN_DATE = new Date('2025-06-01');
+
+const single = (overrides: Partial<ScreeningRequest> = {}): ScreeningRequest => ({
+  householdSize: 1,
+  monthlyIncome: 1400,
+  maritalStatus: 'single',
+  age: 72,
+  ...overrides,
+});
+
+describe('EligibilityScreener', () => {
+  const screener = createEligibilityScreener();
+
+  const resultFor = (request: ScreeningRequest, program: string) =>
+    screener.screen(request, SCREEN_DATE).programs.find((p) => p.program === program);
+
+  describe('Medicare Savings Programs', () => {
+    it('should place $1,400/month for a single person in SLMB', () => {
+      const result = screener.screen(single(), SCREEN_DATE);
+
+      expect(result.eligiblePrograms).toContain('SLMB');
+      expect(result.eligiblePrograms).not.toContain('QMB');
+      expect(result.eligiblePrograms).not.toContain('QI');
+    });
+
+    it('should report the limits used and their effective year', () => {
+      const slmb = resultFor(single(), 'SLMB');
+
+      expect(slmb?.limits).toEqual({
+        incomeLimit: 1585,
+        incomePeriod: 'monthly',
+        assetLimit: 9660,
+        minAge: undefined,
+        effectiveYear: 2025,
+        dataType: 'msp_income_limits',
+      });
+      expect(slmb?.benefit).toContain('Part B premium');
+    });
+
+    it('should only mark the most generous qualifying tier', () => {
+      const qi = resultFor(single({ monthlyIncome: 1000 }), 'QI');
+      const qmb = resultFor(single({ monthlyIncome: 1000 }), 'QMB');
+
+      expect(qmb?.likelyEligible).toBe(true);
+      expect(qi?.likelyEligible).toBe(false);
+      expect(qi?.reasons).toContain('Qualifies for QMB instead, which provides more help');
+    });
+
+    it('should use couple limits for married applicants', () => {
+      const result = screener.screen(
+        single({ householdSize: 2, maritalStatus: 'married', monthlyIncome: 1700 }),
+        SCREEN_DATE
+      );
+
+      expect(result.eligiblePrograms).toContain('QMB');
+    });
+
+    it('should fail the asset test when assets exceed the limit', () => {
+      const slmb = resultFor(single({ countableAssets: 20000 }), 'SLMB');
+
+      expect(slmb?.likelyEligible).toBe(false);
+      expect(slmb?.reasons).toContain('Assets of $20,000 are above the $9,660 limit');
+    });
+
+    it('should note that assets were not checked when omitted', () => {
+      const slmb = resultFor(single(), 'SLMB');
+
+      expect(slmb?.reasons).toContain('Assets not checked (limit $9,660)');
+    });
+  });
+
+  describe('Extra Help', () => {
+    it('should follow automatically from an MSP', () => {
+      const extraHelp = resultFor(single({ countableAssets: 12000, monthlyIncome: 1000 }), 'EXTRA_HELP');
+
+      expect(extraHelp?.likelyEligible).toBe(true);
+    });
+
+    it('should scale the income limit from the FPL for larger households', () => {
+      const extraHelp = resultFor(
+        single({ householdSize: 4, maritalStatus: 'married', monthlyIncome: 3500 }),
+        'EXTRA_HELP'
+      );
+
+      // 150% of the $32,150 four-person FPL, per month
+      expect(extraHelp?.limits.incomeLimit).toBe(4019);
+      expect(extraHelp?.likelyEligible).toBe(true);
+    });
+  });
+
+  describe('PACE and PACENET', () => {
+    it('should place annual income above the PACE limit in PACENET', () => {
+      const result = screener.screen(single(), SCREEN_DATE);
+
+      expect(result.eligiblePrograms).toContain('PACENET');
+      expect(result.eligiblePrograms).not.toContain('PACE');
+    });
+
+    it('should prefer PACE when income is within its limit', () => {
+      const result = screener.screen(single({ monthlyIncome: 1100 }), SCREEN_DATE);
+
+      expect(result.eligiblePrograms).toContain('PACE');
+      expect(result.eligiblePrograms).not.toContain('PACENET');
+    });
+
+    it('should require age 65 or older', () => {
+      const pace = resultFor(single({ monthlyIncome: 1100, age: 60 }), 'PACE');
+
+      expect(pace?.likelyEligible).toBe(false);
+      expect(pace?.reasons).toContain('Requires age 65 or older');
+    });
+  });
+
+  describe('versioned limits', () => {
+    const newer: ProgramLimit = {
+      program: 'SLMB',
+      dataType: 'msp_income_limits',
+      householdSize: 1,
+      effectiveYear: 2026,
+      effectiveDate: new Date('2026-04-01'),
+      incomeLimit: 1350,
+      incomePeriod: 'monthly',
+      assetLimit: 9950,
+    };
+
+    it('should use the newest limits in effect on the screening date', () => {
+      const versioned = new EligibilityScreener([...DEFAULT_PROGRAM_LIMITS, newer]);
+
+      const before = versioned.screen(single(), SCREEN_DATE);
+      const after = versioned.screen(single(), new Date('2026-05-01'));
+
+      expect(before.programs.find((p) => p.program === 'SLMB')?.limits.effectiveYear).toBe(2025);
+      expect(after.programs.find((p) => p.program === 'SLMB')?.limits.effectiveYear).toBe(2026);
+    });
+
+    it('should flag limits that are past their expected update', () => {
+      const result = screener.screen(single(), new Date('2026-06-01'));
+      const slmb = result.programs.find((p) => p.program === 'SLMB');
+
+      expect(slmb?.freshnessWarning).toBeDefined();
+    });
+
+    it('should skip programs with no limits', () => {
+      const result = new EligibilityScreener([newer]).screen(single(), SCREEN_DATE);
+
+      expect(result.programs.map((p) => p.program)).toEqual(['SLMB']);
+    });
+  });
+});
+
+describe('extractScreeningInput', () => {
+  it('should extract the golden-answer case', () => {
+    const extracted = extractScreeningInput(
+      'My mother is 72 and gets $1,400/month from Social Security. Can she get help with her Medicare premium?'
+    );
+
+    expect(extracted?.request).toEqual({
+      householdSize: 1,
+      monthlyIncome: 1400,
+      countableAssets: undefined,
+      maritalStatus: 'single',
+      age: 72,
+    });
+    expect(extracted?.assumptions).toContain('Marital status not stated; screened as single');
+  });
+
+  it('should convert annual income and detect spouses and savings', () => {
+    const extracted = extractScreeningInput(
+      'My husband and I get $24,000 a year and have $8,000 in savings. We are 70 years old.'
+    );
+
+    expect(extracted?.request).toMatchObject({
+      householdSize: 2,
+      monthlyIncome: 2000,
+      countableAssets: 8000,
+      maritalStatus: 'married',
+      age: 70,
+    });
+  });
+
+  it('should assume Medicare age when no age is given', () => {
+    const extracted = extractScreeningInput('I get $1200 per month. Do I qualify for QMB?');
+
+    expect(extracted?.request.age).toBe(65);
+    expect(extracted?.assumptions).toContain('Age not stated; assumed 65 or older');
+  });
+
+  it('should return null without a concrete income figure', () => {
+    expect(extractScreeningInput('What are the QMB income limits?')).toBeNull();
+    expect(extractScreeningInput('The home is worth $200,000')).toBeNull();
+  });
+});
+
+describe('formatScreeningSection', () => {
+  it('should list likely programs with their benefits', () => {
+    const result = createEligibilityScreener().screen(single(), SCREEN_DATE, [
+      'Assets not stated; asset limits were not checked',
+    ]);
+
+    const section = formatScreeningSection(result);
+
+    expect(section).toContain('**Eligibility estimate** (2025 limits)');
+    expect(section).toContain('**SLMB**: likely eligible. Pays the Medicare Part B premium.');
+    expect(section).toContain('Assumed: Assets not stated');
+    expect(section).toContain('COMPASS');
+  });
+
+  it('should say when nothing appears to qualify', () => {
+    const result = createEligibilityScreener().screen(
+      single({ monthlyIncome: 5000 }),
+      SCREEN_DATE
+    );
+
+    expect(formatScreeningSection(result)).toContain('appear to be above the limits');
+  });
+});
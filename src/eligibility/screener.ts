@@ -0,0 +1,402 @@
+import {
+  ProgramLimit,
+  ScreeningProgram,
+  ScreeningRequest,
+  ScreeningResult,
+  ProgramScreeningResult,
+} from '../types/index.js';
+import { FreshnessChecker, getFreshnessChecker } from '../freshness/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import { DEFAULT_PROGRAM_LIMITS } from './limits.js';
+
+const logger = createChildLogger('eligibility-screener');
+
+/**
+ * Display name and benefit for each screened program
+ */
+const PROGRAM_INFO: Record<ScreeningProgram, { name: string; label: string; benefit: string }> = {
+  QMB: {
+    name: 'Qualified Medicare Beneficiary (QMB)',
+    label: 'QMB',
+    benefit: 'Pays Medicare Part A and Part B premiums, deductibles and coinsurance',
+  },
+  SLMB: {
+    name: 'Specified Low-Income Medicare Beneficiary (SLMB)',
+    label: 'SLMB',
+    benefit: 'Pays the Medicare Part B premium',
+  },
+  QI: {
+    name: 'Qualifying Individual (QI)',
+    label: 'QI',
+    benefit: 'Pays the Medicare Part B premium (funding is first come, first served)',
+  },
+  EXTRA_HELP: {
+    name: 'Extra Help (Part D Low-Income Subsidy)',
+    label: 'Extra Help',
+    benefit: 'Lowers Medicare Part D prescription drug premiums and copays',
+  },
+  PACE: {
+    name: 'PACE',
+    label: 'PACE',
+    benefit: 'Pennsylvania prescription coverage with $6 generic and $9 brand copays',
+  },
+  PACENET: {
+    name: 'PACENET',
+    label: 'PACENET',
+    benefit: 'Pennsylvania prescription coverage with low copays after a monthly premium',
+  },
+};
+
+/**
+ * Medicare Savings Programs from most to least generous; a person receives only one
+ */
+const MSP_TIERS: ScreeningProgram[] = ['QMB', 'SLMB', 'QI'];
+
+/**
+ * Extra Help income limit as a share of the federal poverty level
+ */
+const EXTRA_HELP_FPL_RATIO = 1.5;
+
+const MEDICARE_AGE = 65;
+
+const SCREENING_DISCLAIMER =
+  'This is an estimate based on the figures provided, not an eligibility decision. ' +
+  'Apply through COMPASS or your County Assistance Office (Medicare Savings Programs), ' +
+  'Social Security (Extra Help) or the PACE program (PACE/PACENET) to confirm.';
+
+/**
+ * Deterministic screening for Medicare Savings Programs, Extra Help and PACE/PACENET.
+ * Limits come from the versioned program_limits table; for each program the newest
+ * row in effect on the screening date is used.
+ */
+export class EligibilityScreener {
+  private limits: ProgramLimit[];
+  private freshnessChecker: FreshnessChecker;
+
+  constructor(limits: ProgramLimit[] = DEFAULT_PROGRAM_LIMITS) {
+    this.limits = limits;
+    this.freshnessChecker = getFreshnessChecker();
+  }
+
+  /**
+   * Screen a household against every program
+   */
+  screen(
+    request: ScreeningRequest,
+    asOf: Date = new Date(),
+    assumptions: string[] = []
+  ): ScreeningResult {
+    const married = request.maritalStatus === 'married';
+    // MSP, Extra Help asset and PACE limits are set for an individual or a couple
+    const limitSize = married ? 2 : 1;
+    const monthlyIncome = request.monthlyIncome;
+    const annualIncome = monthlyIncome * 12;
+    const programs: ProgramScreeningResult[] = [];
+
+    // Medicare Savings Programs
+    let mspMatched: ScreeningProgram | undefined;
+    for (const program of MSP_TIERS) {
+      const limit = this.findLimit(program, limitSize, asOf);
+      if (!limit) continue;
+
+      const reasons: string[] = [];
+      const incomeOk = this.checkIncome(monthlyIncome, limit, reasons);
+      const assetsOk = this.checkAssets(request.countableAssets, limit, reasons);
+      this.checkMedicareAge(request.age, reasons);
+
+      let likelyEligible = incomeOk && assetsOk;
+      if (likelyEligible && mspMatched) {
+        reasons.push(`Qualifies for ${mspMatched} instead, which provides more help`);
+        likelyEligible = false;
+      } else if (likelyEligible) {
+        mspMatched = program;
+      }
+
+      programs.push(this.buildResult(program, likelyEligible, reasons, limit, asOf));
+    }
+
+    // Extra Help
+    const extraHelp = this.findExtraHelpLimit(request.householdSize, limitSize, asOf);
+    if (extraHelp) {
+      const reasons: string[] = [];
+      const incomeOk = this.checkIncome(monthlyIncome, extraHelp, reasons);
+      const assetsOk = this.checkAssets(request.countableAssets, extraHelp, reasons);
+      this.checkMedicareAge(request.age, reasons);
+      if (mspMatched) {
+        reasons.push(`Anyone who gets ${mspMatched} automatically qualifies for Extra Help`);
+      }
+
+      const likelyEligible = Boolean(mspMatched) || (incomeOk && assetsOk);
+      programs.push(this.buildResult('EXTRA_HELP', likelyEligible, reasons, extraHelp, asOf));
+    }
+
+    // PACE, then PACENET for incomes above the PACE limit
+    const pace = this.findLimit('PACE', limitSize, asOf);
+    const pacenet = this.findLimit('PACENET', limitSize, asOf);
+    let paceMatched = false;
+    for (const [program, limit] of [['PACE', pace], ['PACENET', pacenet]] as const) {
+      if (!limit) continue;
+
+      const reasons: string[] = [];
+      const incomeOk = this.checkIncome(annualIncome, limit, reasons);
+      const ageOk = this.checkMinAge(request.age, limit, reasons);
+
+      let likelyEligible = incomeOk && ageOk;
+      if (likelyEligible && paceMatched) {
+        reasons.push('Qualifies for PACE instead, which has lower copays and no premium');
+        likelyEligible = false;
+      } else if (likelyEligible) {
+        paceMatched = true;
+      }
+
+      programs.push(this.buildResult(program, likelyEligible, reasons, limit, asOf));
+    }
+
+    const eligiblePrograms = programs.filter((p) => p.likelyEligible).map((p) => p.program);
+
+    logger.debug(
+      { householdSize: request.householdSize, married, eligiblePrograms },
+      'Eligibility screened'
+    );
+
+    return {
+      programs,
+      eligiblePrograms,
+      assumptions,
+      disclaimer: SCREENING_DISCLAIMER,
+    };
+  }
+
+  /**
+   * Newest limit in effect on the given date, or the newest known limit if none is yet
+   */
+  private findLimit(
+    program: ProgramLimit['program'],
+    householdSize: number,
+    asOf: Date
+  ): ProgramLimit | undefined {
+    const candidates = this.limits
+      .filter((l) => l.program === program && l.householdSize === householdSize)
+      .sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime());
+
+    return candidates.find((l) => l.effectiveDate.getTime() <= asOf.getTime()) ?? candidates[0];
+  }
+
+  /**
+   * Extra Help limits are published for individuals and couples; larger households
+   * are scaled from the federal poverty level for their size
+   */
+  private findExtraHelpLimit(
+    householdSize: number,
+    limitSize: number,
+    asOf: Date
+  ): ProgramLimit | undefined {
+    const base = this.findLimit('EXTRA_HELP', limitSize, asOf);
+    if (!base || householdSize <= 2) {
+      return base;
+    }
+
+    const fpl = this.findLimit('FPL', householdSize, asOf);
+    if (!fpl) {
+      return base;
+    }
+
+    return {
+      ...base,
+      householdSize,
+      effectiveYear: fpl.effectiveYear,
+      effectiveDate: fpl.effectiveDate,
+      incomeLimit: Math.round((fpl.incomeLimit * EXTRA_HELP_FPL_RATIO) / 12),
+    };
+  }
+
+  private checkIncome(income: number, limit: ProgramLimit, reasons: string[]): boolean {
+    const period = limit.incomePeriod === 'monthly' ? 'month' : 'year';
+    const ok = income <= limit.incomeLimit;
+    reasons.push(
+      `Income of ${formatDollars(income)}/${period} is ${ok ? 'within' : 'above'} the ` +
+        `${formatDollars(limit.incomeLimit)}/${period} limit`
+    );
+    return ok;
+  }
+
+  private checkAssets(
+    assets: number | undefined,
+    limit: ProgramLimit,
+    reasons: string[]
+  ): boolean {
+    if (limit.assetLimit === undefined) {
+      return true;
+    }
+    if (assets === undefined) {
+      reasons.push(`Assets not checked (limit ${formatDollars(limit.assetLimit)})`);
+      return true;
+    }
+
+    const ok = assets <= limit.assetLimit;
+    reasons.push(
+      `Assets of ${formatDollars(assets)} are ${ok ? 'within' : 'above'} the ` +
+        `${formatDollars(limit.assetLimit)} limit`
+    );
+    return ok;
+  }
+
+  private checkMinAge(age: number, limit: ProgramLimit, reasons: string[]): boolean {
+    if (limit.minAge === undefined || age >= limit.minAge) {
+      return true;
+    }
+    reasons.push(`Requires age ${limit.minAge} or older`);
+    return false;
+  }
+
+  /**
+   * Medicare programs also cover people under 65 who are on Medicare due to disability
+   */
+  private checkMedicareAge(age: number, reasons: string[]): void {
+    if (age < MEDICARE_AGE) {
+      reasons.push('Requires Medicare; under 65 this means Medicare due to disability');
+    }
+  }
+
+  private buildResult(
+    program: ScreeningProgram,
+    likelyEligible: boolean,
+    reasons: string[],
+    limit: ProgramLimit,
+    asOf: Date
+  ): ProgramScreeningResult {
+    const freshness = this.freshnessChecker.checkDataType(limit.dataType, limit.effectiveDate, asOf);
+
+    return {
+      program,
+      name: PROGRAM_INFO[program].name,
+      likelyEligible,
+      benefit: PROGRAM_INFO[program].benefit,
+      reasons,
+      limits: {
+        incomeLimit: limit.incomeLimit,
+        incomePeriod: limit.incomePeriod,
+        assetLimit: limit.assetLimit,
+        minAge: limit.minAge,
+        effectiveYear: limit.effectiveYear,
+        dataType: limit.dataType,
+      },
+      freshnessWarning: freshness.isStale ? freshness.warningMessage : undefined,
+    };
+  }
+}
+
+function formatDollars(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Screening input pulled from a free-text question, with anything that had to be assumed
+ */
+export interface ExtractedScreeningInput {
+  request: ScreeningRequest;
+  assumptions: string[];
+}
+
+const INCOME_PATTERN =
+  /\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.\d{1,2})?\s*(?:\/|per|a|an|each)?\s*(month|mo|monthly|year|yr|annually|annual)\b/gi;
+const ASSET_PATTERN =
+  /\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.\d{1,2})?\s+(?:in\s+)?(?:savings|assets|resources|the bank)\b/i;
+const AGE_PATTERNS = [
+  /\b(\d{2,3})\s*(?:years?\s*old|yrs?\s*old|y\/o)\b/i,
+  /\b(?:is|am|aged?|age of)\s+(\d{2,3})\b/i,
+];
+const MARRIED_PATTERN = /\b(married|husband|wife|spouse|couple)\b/i;
+
+/**
+ * Pull screening input from a question that states concrete income figures,
+ * e.g. "My mother is 72 and gets $1,400/month". Returns null when no income is stated.
+ */
+export function extractScreeningInput(query: string): ExtractedScreeningInput | null {
+  const incomes = [...query.matchAll(INCOME_PATTERN)].map((match) => {
+    const amount = parseFloat(match[1].replace(/,/g, ''));
+    return /^(month|mo|monthly)$/i.test(match[2]) ? amount : amount / 12;
+  });
+  if (incomes.length === 0) {
+    return null;
+  }
+
+  const assumptions: string[] = [];
+  if (incomes.length > 1) {
+    assumptions.push(`Combined ${incomes.length} income amounts as household income`);
+  }
+
+  let age: number | undefined;
+  for (const pattern of AGE_PATTERNS) {
+    const match = query.match(pattern);
+    const value = match ? parseInt(match[1], 10) : NaN;
+    if (value >= 18 && value <= 120) {
+      age = value;
+      break;
+    }
+  }
+  if (age === undefined) {
+    age = MEDICARE_AGE;
+    assumptions.push('Age not stated; assumed 65 or older');
+  }
+
+  const married = MARRIED_PATTERN.test(query);
+  if (!married) {
+    assumptions.push('Marital status not stated; screened as single');
+  }
+
+  const assetMatch = query.match(ASSET_PATTERN);
+  const countableAssets = assetMatch ? parseFloat(assetMatch[1].replace(/,/g, '')) : undefined;
+  if (countableAssets === undefined) {
+    assumptions.push('Assets not stated; asset limits were not checked');
+  }
+
+  return {
+    request: {
+      householdSize: married ? 2 : 1,
+      monthlyIncome: Math.round(incomes.reduce((sum, amount) => sum + amount, 0) * 100) / 100,
+      countableAssets,
+      maritalStatus: married ? 'married' : 'single',
+      age,
+    },
+    assumptions,
+  };
+}
+
+/**
+ * Markdown summary of a screening result, appended to answers
+ */
+export function formatScreeningSection(result: ScreeningResult): string {
+  const years = [...new Set(result.programs.map((p) => p.limits.effectiveYear))].sort();
+  const lines = ['---', `**Eligibility estimate** (${years.join('/')} limits)`];
+
+  const eligible = result.programs.filter((p) => p.likelyEligible);
+  if (eligible.length === 0) {
+    lines.push(
+      '- Based on the figures given, income or assets appear to be above the limits for ' +
+        result.programs.map((p) => PROGRAM_INFO[p.program].label).join(', ') +
+        '.'
+    );
+  }
+  for (const program of eligible) {
+    lines.push(`- **${PROGRAM_INFO[program.program].label}**: likely eligible. ${program.benefit}.`);
+  }
+
+  if (result.assumptions.length > 0) {
+    lines.push(`- Assumed: ${result.assumptions.join('; ')}.`);
+  }
+  if (result.programs.some((p) => p.freshnessWarning)) {
+    lines.push('- Some of these limits may have been updated since they were last loaded.');
+  }
+
+  lines.push('', `_${result.disclaimer}_`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Create an eligibility screener
+ */
+export function createEligibilityScreener(limits?: ProgramLimit[]): EligibilityScreener {
+  return new EligibilityScreener(limits);
+}
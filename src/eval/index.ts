@@ -0,0 +1,44 @@
+// Evaluation module exports
+
+export {
+  EvalRunner,
+  createEvalRunner,
+  loadGoldenCases,
+  summarize,
+  settingsFromConfig,
+  DEFAULT_GOLDEN_ANSWERS_PATH,
+  DEFAULT_RECALL_K,
+} from './runner.js';
+
+export type { EvalRunnerOptions } from './runner.js';
+
+export {
+  scoreAnswer,
+  scoreRetrieval,
+  recallAtK,
+  reciprocalRank,
+} from './metrics.js';
+
+export {
+  loadReport,
+  writeReport,
+  compareReports,
+  formatMarkdownReport,
+  compareRuns,
+  formatRunComparison,
+} from './report.js';
+
+export type {
+  GoldenCase,
+  RuleKind,
+  RuleResult,
+  RetrievalScore,
+  CaseResult,
+  EvalSummary,
+  EvalSettings,
+  EvalReport,
+  LabelledReport,
+  MetricDelta,
+  CaseChange,
+  ReportComparison,
+} from './types.js';
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  scoreAnswer,
+  rulesPassed,
+  normalizeDocumentName,
+  rankDocuments,
+  recallAtK,
+  reciprocalRank,
+  scoreRetrieval,
+} from './metrics.js';
+
+describe('scoreAnswer', () => {
+  const expected = {
+    mustContain: ['SLMB', 'Part B premium'],
+    shouldContain: ['COMPASS'],
+    mustNotContain: ['I cannot find'],
+    citationCount: { min: 1, max: 3 },
+  };
+
+  it('checks every rule case-insensitively', () => {
+    const rules = scoreAnswer('slmb pays the Part B Premium. [1]', 1, expected);
+
+    expect(rules).toEqual([
+      { rule: 'mustContain', target: 'SLMB', passed: true },
+      { rule: 'mustContain', target: 'Part B premium', passed: true },
+      { rule: 'shouldContain', target: 'COMPASS', passed: false },
+      { rule: 'mustNotContain', target: 'I cannot find', passed: true },
+      { rule: 'citationCount', target: '1-3', passed: true },
+    ]);
+  });
+
+  it('fails mustNotContain and citation count rules', () => {
+    const rules = scoreAnswer('I cannot find that.', 0, expected);
+
+    expect(rules.find((r) => r.rule === 'mustNotContain')?.passed).toBe(false);
+    expect(rules.find((r) => r.rule === 'citationCount')?.passed).toBe(false);
+  });
+});
+
+describe('rulesPassed', () => {
+  it('ignores shouldContain rules', () => {
+    expect(
+      rulesPassed([
+        { rule: 'mustContain', target: 'LIFE', passed: true },
+        { rule: 'shouldContain', target: 'home', passed: false },
+      ])
+    ).toBe(true);
+    expect(rulesPassed([{ rule: 'citationCount', target: '1-3', passed: false }])).toBe(false);
+  });
+});
+
+describe('retrieval metrics', () => {
+  it('normalizes case and extension', () => {
+    expect(normalizeDocumentName('OIM-LTC-Handbook.pdf')).toBe('oim-ltc-handbook');
+    expect(normalizeDocumentName('oim-ltc-handbook')).toBe('oim-ltc-handbook');
+  });
+
+  it('ranks distinct documents in first-seen order', () => {
+    expect(rankDocuments(['a.pdf', 'b.pdf', 'A.pdf', 'c.pdf'])).toEqual(['a.pdf', 'b.pdf', 'c.pdf']);
+  });
+
+  it('computes recall at k', () => {
+    const ranked = ['a.pdf', 'b.pdf', 'c.pdf'];
+
+    expect(recallAtK(ranked, ['a.pdf', 'c.pdf'], 2)).toBe(0.5);
+    expect(recallAtK(ranked, ['a.pdf', 'c'], 3)).toBe(1);
+  });
+
+  it('computes reciprocal rank of the first expected document', () => {
+    expect(reciprocalRank(['a.pdf', 'b.pdf', 'c.pdf'], ['c.pdf', 'b.pdf'])).toBe(0.5);
+    expect(reciprocalRank(['a.pdf'], ['z.pdf'])).toBe(0);
+  });
+
+  it('returns null scores without expected documents', () => {
+    expect(scoreRetrieval(['a.pdf', 'a.pdf'], undefined, 5)).toEqual({
+      retrievedDocuments: ['a.pdf'],
+      recallAtK: null,
+      reciprocalRank: null,
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Scoring for golden-answer rules and retrieval quality
+ */
+
+import { extname } from 'path';
+import { GoldenCase, RuleResult, RetrievalScore } from './types.js';
+
+/**
+ * Score an answer against every rule of a golden case
+ */
+export function scoreAnswer(
+  answer: string,
+  citationCount: number,
+  expected: GoldenCase['expectedAnswer']
+): RuleResult[] {
+  const lowerAnswer = answer.toLowerCase();
+  const contains = (term: string) => lowerAnswer.includes(term.toLowerCase());
+  const { min, max } = expected.citationCount;
+
+  return [
+    ...expected.mustContain.map((term) => ({
+      rule: 'mustContain' as const,
+      target: term,
+      passed: contains(term),
+    })),
+    ...expected.shouldContain.map((term) => ({
+      rule: 'shouldContain' as const,
+      target: term,
+      passed: contains(term),
+    })),
+    ...expected.mustNotContain.map((term) => ({
+      rule: 'mustNotContain' as const,
+      target: term,
+      passed: !contains(term),
+    })),
+    {
+      rule: 'citationCount',
+      target: `${min}-${max}`,
+      passed: citationCount >= min && citationCount <= max,
+    },
+  ];
+}
+
+/**
+ * A case passes when every rule other than shouldContain passes
+ */
+export function rulesPassed(rules: RuleResult[]): boolean {
+  return rules.every((r) => r.rule === 'shouldContain' || r.passed);
+}
+
+/**
+ * Normalize a document name so "OIM-LTC-Handbook.pdf" matches "oim-ltc-handbook"
+ */
+export function normalizeDocumentName(filename: string): string {
+  const lower = filename.toLowerCase();
+  const ext = extname(lower);
+  return ext ? lower.slice(0, -ext.length) : lower;
+}
+
+/**
+ * Distinct document names in first-seen order
+ */
+export function rankDocuments(filenames: string[]): string[] {
+  const seen = new Set<string>();
+  const ranked: string[] = [];
+  for (const filename of filenames) {
+    const key = normalizeDocumentName(filename);
+    if (!seen.has(key)) {
+      seen.add(key);
+      ranked.push(filename);
+    }
+  }
+  return ranked;
+}
+
+/**
+ * Share of expected documents found in the top k ranked documents
+ */
+export function recallAtK(ranked: string[], expected: string[], k: number): number {
+  if (expected.length === 0) {
+    return 0;
+  }
+  const topK = new Set(ranked.slice(0, k).map(normalizeDocumentName));
+  const found = expected.filter((doc) => topK.has(normalizeDocumentName(doc))).length;
+  return found / expected.length;
+}
+
+/**
+ * 1/rank of the first expected document, 0 if none was retrieved
+ */
+export function reciprocalRank(ranked: string[], expected: string[]): number {
+  const wanted = new Set(expected.map(normalizeDocumentName));
+  const index = ranked.findIndex((doc) => wanted.has(normalizeDocumentName(doc)));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * Retrieval metrics for a case; null scores when it has no expected documents
+ */
+export function scoreRetrieval(
+  retrievedFilenames: string[],
+  expected: string[] | undefined,
+  k: number
+): RetrievalScore {
+  const retrievedDocuments = rankDocuments(retrievedFilenames);
+
+  if (!expected || expected.length === 0) {
+    return { retrievedDocuments, recallAtK: null, reciprocalRank: null };
+  }
+
+  return {
+    retrievedDocuments,
+    recallAtK: recallAtK(retrievedDocuments, expected, k),
+    reciprocalRank: reciprocalRank(retrievedDocuments, expected),
+  };
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  compareReports,
+  formatMarkdownReport,
+  formatRunComparison,
+  writeReport,
+  loadReport,
+} from './report.js';
+import { summarize } from './runner.js';
+import type { CaseResult, EvalReport } from './types.js';
+
+function caseResult(overrides: Partial<CaseResult> = {}): CaseResult {
+  return {
+    queryId: 'msp-1',
+    query: 'Can she get help with her Medicare premium?',
+    passed: true,
+    rules: [
+      { rule: 'mustContain', target: 'SLMB', passed: true },
+      { rule: 'citationCount', target: '1-5', passed: true },
+    ],
+    shouldContainRate: 1,
+    retrieval: { retrievedDocuments: ['msp.pdf'], recallAtK: 1, reciprocalRank: 1 },
+    citationCount: 2,
+    confidence: 80,
+    latencyMs: 100,
+    ...overrides,
+  };
+}
+
+function report(cases: CaseResult[], settings: EvalReport['settings'] = {}): EvalReport {
+  return {
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    k: 5,
+    settings,
+    summary: summarize(cases),
+    cases,
+  };
+}
+
+describe('compareReports', () => {
+  it('reports regressions, changed settings and metric deltas', () => {
+    const baseline = report([caseResult()], { chunkSize: 512 });
+    const current = report(
+      [
+        caseResult({
+          passed: false,
+          rules: [
+            { rule: 'mustContain', target: 'SLMB', passed: false },
+            { rule: 'citationCount', target: '1-5', passed: true },
+          ],
+          retrieval: { retrievedDocuments: ['other.pdf', 'msp.pdf'], recallAtK: 1, reciprocalRank: 0.5 },
+        }),
+      ],
+      { chunkSize: 256 }
+    );
+
+    const comparison = compareReports(baseline, current);
+
+    expect(comparison.changedSettings).toEqual([{ setting: 'chunkSize', baseline: 512, current: 256 }]);
+    expect(comparison.regressions.map((r) => r.detail)).toEqual([
+      'now fails',
+      'mustContain "SLMB" no longer met',
+      'reciprocal rank 1 → 0.50',
+    ]);
+    expect(comparison.improvements).toEqual([]);
+    expect(comparison.metricDeltas.find((d) => d.metric === 'mrr')).toMatchObject({
+      baseline: 1,
+      current: 0.5,
+      delta: -0.5,
+    });
+  });
+
+  it('reports improvements and skips cases missing from the baseline', () => {
+    const baseline = report([caseResult({ passed: false })]);
+    const current = report([caseResult(), caseResult({ queryId: 'new-1', passed: false })]);
+
+    const comparison = compareReports(baseline, current);
+
+    expect(comparison.improvements).toEqual([{ queryId: 'msp-1', detail: 'now passes' }]);
+    expect(comparison.regressions).toEqual([]);
+  });
+});
+
+describe('formatMarkdownReport', () => {
+  it('lists cases and failures', () => {
+    const markdown = formatMarkdownReport(
+      report([caseResult(), caseResult({ queryId: 'ltc-1', passed: false, error: 'timeout' })])
+    );
+
+    expect(markdown).toContain('1/2 passed');
+    expect(markdown).toContain('| msp-1 | pass | 1/1 | 1 | 2 | 1 | 1 |');
+    expect(markdown).toContain('- **ltc-1**: timeout');
+  });
+
+  it('includes the comparison when given', () => {
+    const baseline = report([caseResult()]);
+    const current = report([caseResult({ passed: false })]);
+
+    const markdown = formatMarkdownReport(current, compareReports(baseline, current));
+
+    expect(markdown).toContain('| passRate | 0 | 1 | -1 |');
+    expect(markdown).toContain('### Regressions (1)');
+  });
+});
+
+describe('formatRunComparison', () => {
+  it('ranks runs by pass rate, then MRR', () => {
+    const runs = [
+      { label: 'rrf', report: report([caseResult({ passed: false })]) },
+      {
+        label: 'combsum',
+        report: report([
+          caseResult({
+            retrieval: {
+              retrievedDocuments: ['a.pdf', 'msp.pdf'],
+              recallAtK: 1,
+              reciprocalRank: 0.5,
+            },
+          }),
+        ]),
+      },
+      { label: 'combmnz', report: report([caseResult()]) },
+    ];
+
+    const markdown = formatRunComparison('Fusion strategy comparison', runs);
+
+    const rows = markdown.split('\n').filter((line) => /^\| (rrf|comb)/.test(line));
+    expect(rows.map((row) => row.split(' | ')[0])).toEqual(['| combmnz', '| combsum', '| rrf']);
+    expect(rows[0]).toBe('| combmnz | 1/1 | 1 | 1 | 1 | 100 |');
+    expect(markdown).toContain('Best: **combmnz**');
+  });
+});
+
+describe('writeReport', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes JSON that loads back and a Markdown copy', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'eval-report-'));
+    const original = report([caseResult()]);
+
+    const { jsonPath, markdownPath } = await writeReport(original, join(dir, 'nested/run'));
+
+    expect(await loadReport(jsonPath)).toEqual(original);
+    expect(await readFile(markdownPath, 'utf-8')).toContain('# Golden-answer evaluation');
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Evaluation reports: JSON for diffing between runs and Markdown for reading
+ */
+
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import {
+  EvalReport,
+  EvalSummary,
+  CaseResult,
+  CaseChange,
+  LabelledReport,
+  MetricDelta,
+  ReportComparison,
+} from './types.js';
+
+/**
+ * Summary metrics compared between runs
+ */
+const COMPARED_METRICS: Array<keyof EvalSummary> = [
+  'passRate',
+  'mustContainRate',
+  'shouldContainRate',
+  'mustNotContainViolations',
+  'citationCountPassRate',
+  'meanRecallAtK',
+  'mrr',
+  'meanConfidence',
+  'abstentionRate',
+  'confidenceBrierScore',
+  'confidenceCalibrationError',
+  'meanLatencyMs',
+];
+
+/**
+ * Load a report written by a previous run
+ */
+export async function loadReport(path: string): Promise<EvalReport> {
+  const raw = await readFile(path, 'utf-8');
+  return JSON.parse(raw) as EvalReport;
+}
+
+/**
+ * Write `<basePath>.json` and `<basePath>.md`, returning both paths
+ */
+export async function writeReport(
+  report: EvalReport,
+  basePath: string,
+  comparison?: ReportComparison
+): Promise<{ jsonPath: string; markdownPath: string }> {
+  const jsonPath = `${basePath}.json`;
+  const markdownPath = `${basePath}.md`;
+
+  await mkdir(dirname(jsonPath), { recursive: true });
+  await writeFile(jsonPath, JSON.stringify(report, null, 2) + '\n');
+  await writeFile(markdownPath, formatMarkdownReport(report, comparison));
+
+  return { jsonPath, markdownPath };
+}
+
+/**
+ * Compare a run against a baseline: changed settings, metric deltas, and the
+ * cases whose results got worse or better
+ */
+export function compareReports(baseline: EvalReport, current: EvalReport): ReportComparison {
+  const settingKeys = new Set([...Object.keys(baseline.settings), ...Object.keys(current.settings)]);
+  const changedSettings = [...settingKeys]
+    .filter((key) => baseline.settings[key] !== current.settings[key])
+    .map((setting) => ({
+      setting,
+      baseline: baseline.settings[setting],
+      current: current.settings[setting],
+    }));
+
+  const metricDeltas: MetricDelta[] = COMPARED_METRICS.map((metric) => {
+    // Reports from older runs may lack newer metrics
+    const before = baseline.summary[metric] ?? null;
+    const after = current.summary[metric] ?? null;
+    return {
+      metric,
+      baseline: before,
+      current: after,
+      delta: before !== null && after !== null ? after - before : null,
+    };
+  });
+
+  const regressions: CaseChange[] = [];
+  const improvements: CaseChange[] = [];
+  const baselineCases = new Map(baseline.cases.map((c) => [c.queryId, c]));
+
+  for (const after of current.cases) {
+    const before = baselineCases.get(after.queryId);
+    if (!before) {
+      continue;
+    }
+    compareCase(before, after, regressions, improvements);
+  }
+
+  return {
+    baselineGeneratedAt: baseline.generatedAt,
+    changedSettings,
+    metricDeltas,
+    regressions,
+    improvements,
+  };
+}
+
+function compareCase(
+  before: CaseResult,
+  after: CaseResult,
+  regressions: CaseChange[],
+  improvements: CaseChange[]
+): void {
+  const { queryId } = after;
+
+  if (before.passed && !after.passed) {
+    regressions.push({ queryId, detail: after.error ? `now errors: ${after.error}` : 'now fails' });
+  } else if (!before.passed && after.passed) {
+    improvements.push({ queryId, detail: 'now passes' });
+  }
+
+  const beforeRules = new Map(before.rules.map((r) => [`${r.rule}:${r.target}`, r.passed]));
+  for (const rule of after.rules) {
+    const wasPassed = beforeRules.get(`${rule.rule}:${rule.target}`);
+    if (wasPassed === true && !rule.passed) {
+      regressions.push({ queryId, detail: `${rule.rule} "${rule.target}" no longer met` });
+    } else if (wasPassed === false && rule.passed) {
+      improvements.push({ queryId, detail: `${rule.rule} "${rule.target}" now met` });
+    }
+  }
+
+  const metrics = [
+    ['recall@k', before.retrieval.recallAtK, after.retrieval.recallAtK],
+    ['reciprocal rank', before.retrieval.reciprocalRank, after.retrieval.reciprocalRank],
+  ] as const;
+  for (const [name, was, now] of metrics) {
+    if (was === null || now === null || was === now) {
+      continue;
+    }
+    const change = { queryId, detail: `${name} ${formatNumber(was)} → ${formatNumber(now)}` };
+    (now < was ? regressions : improvements).push(change);
+  }
+}
+
+/**
+ * Render a report (and optional comparison) as Markdown
+ */
+export function formatMarkdownReport(report: EvalReport, comparison?: ReportComparison): string {
+  const { summary } = report;
+  const lines: string[] = [
+    '# Golden-answer evaluation',
+    '',
+    `Generated ${report.generatedAt} · ${summary.passed}/${summary.total} passed · recall@${report.k}`,
+    '',
+  ];
+
+  if (Object.keys(report.settings).length > 0) {
+    lines.push('## Settings', '', '| Setting | Value |', '| --- | --- |');
+    for (const [key, value] of Object.entries(report.settings)) {
+      lines.push(`| ${key} | ${value} |`);
+    }
+    lines.push('');
+  }
+
+  lines.push('## Summary', '');
+  if (comparison) {
+    lines.push('| Metric | Value | Baseline | Change |', '| --- | --- | --- | --- |');
+    for (const delta of comparison.metricDeltas) {
+      lines.push(
+        `| ${delta.metric} | ${formatNumber(delta.current)} | ${formatNumber(delta.baseline)} | ` +
+          `${formatDelta(delta.delta)} |`
+      );
+    }
+  } else {
+    lines.push('| Metric | Value |', '| --- | --- |');
+    for (const metric of COMPARED_METRICS) {
+      lines.push(`| ${metric} | ${formatNumber(summary[metric])} |`);
+    }
+  }
+  lines.push('');
+
+  lines.push(
+    '## Cases',
+    '',
+    `| Query | Result | Must contain | Should contain | Citations | Recall@${report.k} | RR | ` +
+      'Confidence |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- |'
+  );
+  for (const result of report.cases) {
+    const must = result.rules.filter((r) => r.rule === 'mustContain');
+    lines.push(
+      `| ${result.queryId} | ${result.error ? 'ERROR' : result.passed ? 'pass' : 'FAIL'} | ` +
+        `${must.filter((r) => r.passed).length}/${must.length} | ` +
+        `${formatNumber(result.shouldContainRate)} | ${result.citationCount} | ` +
+        `${formatNumber(result.retrieval.recallAtK)} | ${formatNumber(result.retrieval.reciprocalRank)} |` +
+        ` ${formatConfidence(result)} |`
+    );
+  }
+  lines.push('');
+
+  const failures = report.cases.filter((c) => !c.passed);
+  if (failures.length > 0) {
+    lines.push('## Failures', '');
+    for (const result of failures) {
+      const failed = result.rules
+        .filter((r) => !r.passed && r.rule !== 'shouldContain')
+        .map((r) => `${r.rule} "${r.target}"`);
+      lines.push(`- **${result.queryId}**: ${result.error ?? failed.join(', ')}`);
+    }
+    lines.push('');
+  }
+
+  if (comparison) {
+    lines.push(`## Changes since ${comparison.baselineGeneratedAt}`, '');
+    if (comparison.changedSettings.length > 0) {
+      lines.push('Settings changed:');
+      for (const change of comparison.changedSettings) {
+        lines.push(`- ${change.setting}: ${change.baseline ?? '(unset)'} → ${change.current ?? '(unset)'}`);
+      }
+      lines.push('');
+    }
+    lines.push(`### Regressions (${comparison.regressions.length})`, '');
+    for (const change of comparison.regressions) {
+      lines.push(`- **${change.queryId}**: ${change.detail}`);
+    }
+    lines.push('', `### Improvements (${comparison.improvements.length})`, '');
+    for (const change of comparison.improvements) {
+      lines.push(`- **${change.queryId}**: ${change.detail}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Order runs of the same golden queries best first: by pass rate, then MRR,
+ * then recall@k. Missing retrieval metrics rank last.
+ */
+export function compareRuns(runs: LabelledReport[]): LabelledReport[] {
+  const orNegative = (value: number | null) => value ?? -1;
+  return [...runs].sort(
+    (a, b) =>
+      b.report.summary.passRate - a.report.summary.passRate ||
+      orNegative(b.report.summary.mrr) - orNegative(a.report.summary.mrr) ||
+      orNegative(b.report.summary.meanRecallAtK) - orNegative(a.report.summary.meanRecallAtK)
+  );
+}
+
+/**
+ * Render runs under different settings side by side as Markdown, best first
+ */
+export function formatRunComparison(title: string, runs: LabelledReport[]): string {
+  const ranked = compareRuns(runs);
+  const k = ranked[0]?.report.k;
+  const lines: string[] = [
+    `# ${title}`,
+    '',
+    `| Run | Passed | Pass rate | Recall@${k} | MRR | Mean latency (ms) |`,
+    '| --- | --- | --- | --- | --- | --- |',
+  ];
+
+  for (const { label, report } of ranked) {
+    const { summary } = report;
+    lines.push(
+      `| ${label} | ${summary.passed}/${summary.total} | ${formatNumber(summary.passRate)} | ` +
+        `${formatNumber(summary.meanRecallAtK)} | ${formatNumber(summary.mrr)} | ` +
+        `${summary.meanLatencyMs} |`
+    );
+  }
+
+  if (ranked.length > 1) {
+    lines.push('', `Best: **${ranked[0].label}**`);
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+function formatNumber(value: number | null): string {
+  if (value === null) return '–';
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function formatConfidence(result: CaseResult): string {
+  const value = formatNumber(result.confidence);
+  if (result.abstained) return `${value} (abstained)`;
+  return result.confidenceBand ? `${value} (${result.confidenceBand})` : value;
+}
+
+function formatDelta(value: number | null): string {
+  if (value === null || value === 0) return '–';
+  return `${value > 0 ? '+' : ''}${formatNumber(value)}`;
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EvalRunner, summarize } from './runner.js';
+import type { GoldenCase, CaseResult } from './types.js';
+import type { QueryOptions } from '../retrieval/pipeline.js';
+import type { QueryResponse, RerankedResult } from '../types/index.js';
+
+function goldenCase(queryId: string, expectedDocuments?: string[]): GoldenCase {
+  return {
+    queryId,
+    query: `Question ${queryId}`,
+    expectedDocuments,
+    expectedAnswer: {
+      mustContain: ['LIFE'],
+      shouldContain: ['home'],
+      mustNotContain: ['I cannot find'],
+      citationCount: { min: 1, max: 3 },
+    },
+  };
+}
+
+function retrieved(filename: string): RerankedResult {
+  return {
+    chunkId: `${filename}-0`,
+    documentId: filename,
+    content: '',
+    chunkIndex: 0,
+    metadata: { filename },
+    rrfScore: 0,
+    rerankScore: 0,
+  } as RerankedResult;
+}
+
+function response(answer: string, citationCount: number): QueryResponse {
+  return {
+    answer,
+    citations: Array.from({ length: citationCount }, (_, i) => ({
+      chunkId: `c${i}`,
+      documentId: 'd',
+      filename: 'f.pdf',
+      excerpt: '',
+    })),
+    confidence: 80,
+    queryId: 'q',
+    latencyMs: 10,
+  } as QueryResponse;
+}
+
+describe('EvalRunner', () => {
+  it('scores answers and the documents retrieval surfaced', async () => {
+    const query = vi.fn(async (_query: string, options?: QueryOptions) => {
+      options?.onResults?.([retrieved('other.pdf'), retrieved('PA-DHS-LIFE-Program.pdf')]);
+      return response('LIFE keeps people at home. [1]', 1);
+    });
+    const onCase = vi.fn();
+
+    const report = await new EvalRunner({ query }, { k: 1, onCase }).run([
+      goldenCase('life-1', ['PA-DHS-LIFE-Program.pdf']),
+    ]);
+
+    expect(query).toHaveBeenCalledWith('Question life-1', expect.objectContaining({ useCache: false }));
+    expect(onCase).toHaveBeenCalledWith(expect.objectContaining({ queryId: 'life-1' }), 0, 1);
+    expect(report.k).toBe(1);
+    expect(report.cases[0]).toMatchObject({
+      passed: true,
+      shouldContainRate: 1,
+      citationCount: 1,
+      retrieval: {
+        retrievedDocuments: ['other.pdf', 'PA-DHS-LIFE-Program.pdf'],
+        recallAtK: 0,
+        reciprocalRank: 0.5,
+      },
+    });
+  });
+
+  it('records a failed query and carries on', async () => {
+    const query = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('LM Studio unavailable'))
+      .mockResolvedValueOnce(response('LIFE [1]', 1));
+
+    const report = await new EvalRunner({ query }).run([goldenCase('a'), goldenCase('b')]);
+
+    expect(report.cases[0]).toMatchObject({ passed: false, error: 'LM Studio unavailable' });
+    expect(report.cases[1].passed).toBe(true);
+    expect(report.summary).toMatchObject({ total: 2, passed: 1, errors: 1 });
+  });
+
+  it('queries with the fusion overrides it was given', async () => {
+    const query = vi.fn().mockResolvedValue(response('LIFE [1]', 1));
+    const fusion = { strategy: 'combmnz' as const, weights: { bm25: 2 } };
+
+    await new EvalRunner({ query }, { fusion }).run([goldenCase('a')]);
+
+    expect(query).toHaveBeenCalledWith('Question a', expect.objectContaining({ fusion }));
+  });
+});
+
+describe('summarize', () => {
+  it('leaves retrieval metrics null when no case has expected documents', () => {
+    const result: CaseResult = {
+      queryId: 'a',
+      query: 'a',
+      passed: true,
+      rules: [{ rule: 'mustContain', target: 'x', passed: true }],
+      shouldContainRate: 0,
+      retrieval: { retrievedDocuments: [], recallAtK: null, reciprocalRank: null },
+      citationCount: 1,
+      confidence: 50,
+      latencyMs: 101,
+    };
+
+    expect(summarize([result])).toMatchObject({
+      passRate: 1,
+      mustContainRate: 1,
+      meanRecallAtK: null,
+      mrr: null,
+      meanLatencyMs: 101,
+    });
+  });
+
+  it('scores confidence against outcomes on answered cases only', () => {
+    const base: CaseResult = {
+      queryId: 'a',
+      query: 'a',
+      passed: true,
+      rules: [],
+      shouldContainRate: 0,
+      retrieval: { retrievedDocuments: [], recallAtK: null, reciprocalRank: null },
+      citationCount: 1,
+      confidence: 90,
+      latencyMs: 100,
+    };
+
+    const summary = summarize([
+      base,
+      { ...base, queryId: 'b', passed: false, confidence: 90 },
+      { ...base, queryId: 'c', passed: false, confidence: 20, abstained: true },
+    ]);
+
+    expect(summary.abstentionRate).toBeCloseTo(1 / 3);
+    expect(summary.confidenceBrierScore).toBeCloseTo(0.41);
+    expect(summary.confidenceCalibrationError).toBeCloseTo(0.4);
+  });
+});
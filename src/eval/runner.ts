@@ -0,0 +1,232 @@
+/**
+ * Runs golden queries through the retrieval pipeline and scores the results
+ */
+
+import { readFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { Config, FusionOptions, RerankedResult } from '../types/index.js';
+import type { RetrievalPipeline } from '../retrieval/pipeline.js';
+import { resolveFusionSettings } from '../retrieval/fusion.js';
+import { createChildLogger } from '../utils/logger.js';
+import { brierScore, expectedCalibrationError } from '../confidence/index.js';
+import { scoreAnswer, scoreRetrieval, rulesPassed } from './metrics.js';
+import { GoldenCase, CaseResult, EvalReport, EvalSettings, EvalSummary } from './types.js';
+
+const logger = createChildLogger('eval-runner');
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/**
+ * Default location of the golden answers fixture
+ */
+export const DEFAULT_GOLDEN_ANSWERS_PATH = join(
+  __dirname,
+  '../../tests/fixtures/expected/golden-answers.json'
+);
+
+/**
+ * Default cutoff for recall@k
+ */
+export const DEFAULT_RECALL_K = 5;
+
+export interface EvalRunnerOptions {
+  /** Cutoff for recall@k */
+  k?: number;
+  /** Settings recorded in the report (chunk size, RRF k, models...) */
+  settings?: EvalSettings;
+  /** Fuse retrieval results differently from the config, e.g. to compare strategies */
+  fusion?: FusionOptions;
+  /** Called after each case, e.g. for progress output */
+  onCase?: (result: CaseResult, index: number, total: number) => void;
+}
+
+/**
+ * Load golden cases from the fixture file
+ */
+export async function loadGoldenCases(
+  path: string = DEFAULT_GOLDEN_ANSWERS_PATH
+): Promise<GoldenCase[]> {
+  const raw = await readFile(path, 'utf-8');
+  const parsed = JSON.parse(raw) as { goldenAnswers?: GoldenCase[] };
+  return parsed.goldenAnswers ?? [];
+}
+
+/**
+ * Settings that change answers between runs, taken from the config and any
+ * fusion overrides the run uses
+ */
+export function settingsFromConfig(config: Config, fusion?: FusionOptions): EvalSettings {
+  const { strategy, rrfK, weights } = resolveFusionSettings(config.rag, fusion);
+  return {
+    chunkSize: config.rag.chunkSize,
+    chunkOverlap: config.rag.chunkOverlap,
+    vectorTopK: config.rag.vectorTopK,
+    bm25TopK: config.rag.bm25TopK,
+    rerankTopN: config.rag.rerankTopN,
+    finalTopC: config.rag.finalTopC,
+    abstainThreshold: config.rag.abstainThreshold,
+    fusion: strategy,
+    rrfK,
+    vectorWeight: weights.vector,
+    bm25Weight: weights.bm25,
+    queryExpansion: config.rag.queryExpansion,
+    llmModel: config.lmStudio.llmModel,
+    embeddingModel: config.lmStudio.embeddingModel,
+  };
+}
+
+/**
+ * Evaluation runner. Queries run one at a time and bypass the query cache so
+ * every run reflects the current chunks, fusion settings and prompts.
+ */
+export class EvalRunner {
+  private pipeline: Pick<RetrievalPipeline, 'query'>;
+  private k: number;
+  private settings: EvalSettings;
+  private fusion?: FusionOptions;
+  private onCase?: EvalRunnerOptions['onCase'];
+
+  constructor(pipeline: Pick<RetrievalPipeline, 'query'>, options: EvalRunnerOptions = {}) {
+    this.pipeline = pipeline;
+    this.k = options.k ?? DEFAULT_RECALL_K;
+    this.settings = options.settings ?? {};
+    this.fusion = options.fusion;
+    this.onCase = options.onCase;
+  }
+
+  /**
+   * Run every case and build a report
+   */
+  async run(cases: GoldenCase[]): Promise<EvalReport> {
+    const results: CaseResult[] = [];
+
+    for (const [index, goldenCase] of cases.entries()) {
+      const result = await this.runCase(goldenCase);
+      results.push(result);
+      this.onCase?.(result, index, cases.length);
+    }
+
+    const summary = summarize(results);
+    logger.info(
+      { total: summary.total, passed: summary.passed, mrr: summary.mrr },
+      'Evaluation complete'
+    );
+
+    return {
+      generatedAt: new Date().toISOString(),
+      k: this.k,
+      settings: this.settings,
+      summary,
+      cases: results,
+    };
+  }
+
+  private async runCase(goldenCase: GoldenCase): Promise<CaseResult> {
+    let retrieved: RerankedResult[] = [];
+
+    try {
+      const response = await this.pipeline.query(goldenCase.query, {
+        useCache: false,
+        fusion: this.fusion,
+        onResults: (results) => {
+          retrieved = results;
+        },
+      });
+
+      const rules = scoreAnswer(
+        response.answer,
+        response.citations.length,
+        goldenCase.expectedAnswer
+      );
+      const shouldRules = rules.filter((r) => r.rule === 'shouldContain');
+      const retrievedFilenames = retrieved.map(
+        (r) => (r.metadata.filename as string | undefined) ?? r.documentId
+      );
+
+      return {
+        queryId: goldenCase.queryId,
+        query: goldenCase.query,
+        passed: rulesPassed(rules),
+        rules,
+        shouldContainRate: ratio(shouldRules.filter((r) => r.passed).length, shouldRules.length),
+        retrieval: scoreRetrieval(retrievedFilenames, goldenCase.expectedDocuments, this.k),
+        citationCount: response.citations.length,
+        confidence: response.confidence,
+        confidenceBand: response.confidenceInfo?.band,
+        abstained: response.confidenceInfo?.abstained,
+        signals: response.confidenceInfo?.signals,
+        latencyMs: response.latencyMs,
+      };
+    } catch (error) {
+      logger.error({ error, queryId: goldenCase.queryId }, 'Golden query failed');
+      return {
+        queryId: goldenCase.queryId,
+        query: goldenCase.query,
+        passed: false,
+        error: error instanceof Error ? error.message : String(error),
+        rules: [],
+        shouldContainRate: 0,
+        retrieval: scoreRetrieval([], goldenCase.expectedDocuments, this.k),
+        citationCount: 0,
+        confidence: 0,
+        latencyMs: 0,
+      };
+    }
+  }
+}
+
+/**
+ * Aggregate case results into summary metrics
+ */
+export function summarize(results: CaseResult[]): EvalSummary {
+  const rules = results.flatMap((r) => r.rules);
+  const byRule = (rule: string) => rules.filter((r) => r.rule === rule);
+  const passRate = (list: typeof rules) => ratio(list.filter((r) => r.passed).length, list.length);
+  const recalls = results.map((r) => r.retrieval.recallAtK).filter((v): v is number => v !== null);
+  const ranks = results
+    .map((r) => r.retrieval.reciprocalRank)
+    .filter((v): v is number => v !== null);
+  const passed = results.filter((r) => r.passed).length;
+  // Abstentions say nothing about whether the answer would have been right
+  const answered = results
+    .filter((r) => !r.error && !r.abstained)
+    .map((r) => ({ p: r.confidence / 100, correct: r.passed }));
+
+  return {
+    total: results.length,
+    passed,
+    failed: results.length - passed,
+    errors: results.filter((r) => r.error).length,
+    passRate: ratio(passed, results.length),
+    mustContainRate: passRate(byRule('mustContain')),
+    shouldContainRate: passRate(byRule('shouldContain')),
+    mustNotContainViolations: byRule('mustNotContain').filter((r) => !r.passed).length,
+    citationCountPassRate: passRate(byRule('citationCount')),
+    meanRecallAtK: recalls.length > 0 ? mean(recalls) : null,
+    mrr: ranks.length > 0 ? mean(ranks) : null,
+    meanConfidence: mean(results.map((r) => r.confidence)),
+    abstentionRate: ratio(results.filter((r) => r.abstained).length, results.length),
+    confidenceBrierScore: brierScore(answered),
+    confidenceCalibrationError: expectedCalibrationError(answered),
+    meanLatencyMs: Math.round(mean(results.map((r) => r.latencyMs))),
+  };
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Create an evaluation runner
+ */
+export function createEvalRunner(
+  pipeline: Pick<RetrievalPipeline, 'query'>,
+  options?: EvalRunnerOptions
+): EvalRunner {
+  return new EvalRunner(pipeline, options);
+}
@@ -0,0 +1,123 @@
+/**
+ * Types for the golden-answer evaluation harness
+ */
+
+import type { ConfidenceBand, ConfidenceSignals } from '../types/index.js';
+
+/**
+ * A golden query with the rules its answer must satisfy
+ */
+export interface GoldenCase {
+  queryId: string;
+  query: string;
+  /** Documents (registry filenames) that retrieval should surface */
+  expectedDocuments?: string[];
+  expectedAnswer: {
+    mustContain: string[];
+    shouldContain: string[];
+    mustNotContain: string[];
+    citationCount: { min: number; max: number };
+  };
+}
+
+export type RuleKind = 'mustContain' | 'shouldContain' | 'mustNotContain' | 'citationCount';
+
+/**
+ * Outcome of one rule; shouldContain rules are reported but never fail a case
+ */
+export interface RuleResult {
+  rule: RuleKind;
+  target: string;
+  passed: boolean;
+}
+
+export interface RetrievalScore {
+  /** Distinct documents in rank order */
+  retrievedDocuments: string[];
+  /** Share of expected documents in the top k, or null without expectations */
+  recallAtK: number | null;
+  /** 1/rank of the first expected document, or null without expectations */
+  reciprocalRank: number | null;
+}
+
+export interface CaseResult {
+  queryId: string;
+  query: string;
+  passed: boolean;
+  error?: string;
+  rules: RuleResult[];
+  shouldContainRate: number;
+  retrieval: RetrievalScore;
+  citationCount: number;
+  confidence: number;
+  /** Missing from reports written before confidence bands */
+  confidenceBand?: ConfidenceBand;
+  /** The answer was replaced by the no-answer response */
+  abstained?: boolean;
+  /** What the confidence was computed from, for `eval calibrate` */
+  signals?: ConfidenceSignals;
+  latencyMs: number;
+}
+
+export interface EvalSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  errors: number;
+  passRate: number;
+  mustContainRate: number;
+  shouldContainRate: number;
+  mustNotContainViolations: number;
+  citationCountPassRate: number;
+  meanRecallAtK: number | null;
+  mrr: number | null;
+  meanConfidence: number;
+  /** Share of cases answered with the no-answer response */
+  abstentionRate: number;
+  /** How far confidence is from pass/fail on answered cases (0 is perfect), see `src/confidence` */
+  confidenceBrierScore: number | null;
+  /** Gap between confidence and pass rate on answered cases, see `src/confidence` */
+  confidenceCalibrationError: number | null;
+  meanLatencyMs: number;
+}
+
+/**
+ * Settings that affect answers, recorded so runs can be compared
+ */
+export type EvalSettings = Record<string, string | number | boolean>;
+
+export interface EvalReport {
+  generatedAt: string;
+  k: number;
+  settings: EvalSettings;
+  summary: EvalSummary;
+  cases: CaseResult[];
+}
+
+/**
+ * A run under one set of settings, e.g. a fusion strategy, for `compareRuns`
+ */
+export interface LabelledReport {
+  label: string;
+  report: EvalReport;
+}
+
+export interface MetricDelta {
+  metric: keyof EvalSummary;
+  baseline: number | null;
+  current: number | null;
+  delta: number | null;
+}
+
+export interface CaseChange {
+  queryId: string;
+  detail: string;
+}
+
+export interface ReportComparison {
+  baselineGeneratedAt: string;
+  changedSettings: Array<{ setting: string; baseline?: string | number | boolean; current?: string | number | boolean }>;
+  metricDeltas: MetricDelta[];
+  regressions: CaseChange[];
+  improvements: CaseChange[];
+}
@@ -5,6 +5,7 @@ import { Suspense, lazy } from 'react';
 const Home = lazy(() => import('./pages/Home'));
 const Chat = lazy(() => import('./pages/Chat'));
 const Resources = lazy(() => import('./pages/Resources'));
+const Eligibility = lazy(() => import('./pages/Eligibility'));
 
 // Loading fallback component
 function LoadingFallback() {
@@ -45,6 +46,7 @@ export default function App() {
         <Routes>
           <Route path="/" element={<Home />} />
           <Route path="/ask" element={<Chat />} />
+          <Route path="/eligibility" element={<Eligibility />} />
           <Route path="/help" element={<Resources />} />
         </Routes>
       </Suspense>
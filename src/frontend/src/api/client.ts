@@ -6,8 +6,13 @@
 import type {
   QueryRequest,
   QueryResponse,
+  QueryFilters,
+  PromptMode,
+  QueryStreamEvent,
   HealthResponse,
   MetricsResponse,
+  ScreeningRequest,
+  ScreeningResult,
 } from '../types';
 
 // API base URL - empty string means same origin (works with Vite proxy in dev)
@@ -97,6 +102,110 @@ export async function submitQuery(
   });
 }
 
+/**
+ * Screen a household for Medicare Savings Programs, Extra Help and PACE/PACENET
+ */
+export async function screenEligibility(request: ScreeningRequest): Promise<ScreeningResult> {
+  return fetchWithErrorHandling<ScreeningResult>(`${API_BASE}/screen`, {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+}
+
+/**
+ * Parse a single Server-Sent Event block into a stream event
+ */
+function parseStreamEvent(block: string): QueryStreamEvent | null {
+  const data = block
+    .split('\n')
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).trim())
+    .join('\n');
+
+  if (!data) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(data) as QueryStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Submit a query and stream progress and answer tokens as they arrive.
+ * Resolves with the final response once the server sends it.
+ */
+export async function submitQueryStream(
+  query: string,
+  onEvent: (event: QueryStreamEvent) => void,
+  options: {
+    useCache?: boolean;
+    conversationId?: string;
+    filters?: QueryFilters;
+    mode?: PromptMode;
+  } = {}
+): Promise<QueryResponse> {
+  const request: QueryRequest = {
+    query,
+    useCache: options.useCache ?? true,
+    stream: true,
+    conversationId: options.conversationId,
+    filters: options.filters,
+    mode: options.mode,
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/query`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      },
+      body: JSON.stringify(request),
+    });
+  } catch (error) {
+    throw new ApiError(getFriendlyErrorMessage(error), 0, true);
+  }
+
+  if (!response.ok || !response.body) {
+    throw new ApiError(getFriendlyErrorMessage(null, response.status), response.status);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const event = parseStreamEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      if (!event) continue;
+
+      if (event.type === 'done') {
+        return event.response;
+      }
+      if (event.type === 'error') {
+        throw new ApiError(getFriendlyErrorMessage(null, 500), 500);
+      }
+      onEvent(event);
+    }
+  }
+
+  // Stream closed without a final response
+  throw new ApiError(getFriendlyErrorMessage(null, 500), 500);
+}
+
 /**
  * Check if the API is healthy
  */
@@ -117,3 +226,10 @@ export async function getMetrics(): Promise<MetricsResponse> {
 export function generateMessageId(): string {
   return `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
+
+/**
+ * Generate a unique conversation ID
+ */
+export function generateConversationId(): string {
+  return `conv_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { render } from '../test/test-utils';
+import { EligibilityForm } from './EligibilityForm';
+import { ScreeningResults } from './ScreeningResults';
+import type { ScreeningResult } from '../types';
+
+describe('EligibilityForm', () => {
+  const onSubmit = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('submits the household figures', async () => {
+    const user = userEvent.setup();
+    render(<EligibilityForm onSubmit={onSubmit} />);
+
+    await user.type(screen.getByLabelText('Monthly income'), '$1,400');
+    await user.type(screen.getByLabelText('Age'), '72');
+    await user.type(screen.getByLabelText(/countable assets/), '5000');
+    await user.click(screen.getByRole('button', { name: 'Check my eligibility' }));
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      householdSize: 1,
+      monthlyIncome: 1400,
+      countableAssets: 5000,
+      maritalStatus: 'single',
+      age: 72,
+    });
+  });
+
+  it('sends marital status and household size', async () => {
+    const user = userEvent.setup();
+    render(<EligibilityForm onSubmit={onSubmit} />);
+
+    await user.type(screen.getByLabelText('Monthly income'), '2000');
+    await user.type(screen.getByLabelText('Age'), '70');
+    await user.selectOptions(screen.getByLabelText('Marital status'), 'married');
+    await user.selectOptions(screen.getByLabelText('People in household'), '2');
+    await user.click(screen.getByRole('button', { name: 'Check my eligibility' }));
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ householdSize: 2, maritalStatus: 'married', countableAssets: undefined })
+    );
+  });
+
+  it('asks for income before submitting', async () => {
+    const user = userEvent.setup();
+    render(<EligibilityForm onSubmit={onSubmit} />);
+
+    await user.type(screen.getByLabelText('Age'), '72');
+    await user.click(screen.getByRole('button', { name: 'Check my eligibility' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('monthly income');
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('disables the button while checking', () => {
+    render(<EligibilityForm onSubmit={onSubmit} isSubmitting />);
+
+    expect(screen.getByRole('button', { name: 'Checking...' })).toBeDisabled();
+  });
+});
+
+describe('ScreeningResults', () => {
+  const limits = {
+    incomeLimit: 1585,
+    incomePeriod: 'monthly' as const,
+    assetLimit: 9660,
+    effectiveYear: 2025,
+    dataType: 'msp_income_limits' as const,
+  };
+
+  const result: ScreeningResult = {
+    programs: [
+      {
+        program: 'QMB',
+        name: 'Qualified Medicare Beneficiary (QMB)',
+        likelyEligible: false,
+        benefit: 'Pays Medicare Part A and Part B premiums',
+        reasons: ['Income of $1,400/month is above the $1,325/month limit'],
+        limits: { ...limits, incomeLimit: 1325 },
+      },
+      {
+        program: 'SLMB',
+        name: 'Specified Low-Income Medicare Beneficiary (SLMB)',
+        likelyEligible: true,
+        benefit: 'Pays the Medicare Part B premium',
+        reasons: [],
+        limits,
+      },
+    ],
+    eligiblePrograms: ['SLMB'],
+    assumptions: [],
+    disclaimer: 'This is an estimate.',
+  };
+
+  it('lists likely programs with the limits used', () => {
+    render(<ScreeningResults result={result} />);
+
+    expect(screen.getByText('You may qualify for')).toBeInTheDocument();
+    expect(screen.getByText('Specified Low-Income Medicare Beneficiary (SLMB)')).toBeInTheDocument();
+    expect(screen.getByText('$1,585/month income limit (2025)')).toBeInTheDocument();
+  });
+
+  it('explains why other programs do not look likely', () => {
+    render(<ScreeningResults result={result} />);
+
+    expect(screen.getByText('Programs that do not look likely (1)')).toBeInTheDocument();
+    expect(
+      screen.getByText('Income of $1,400/month is above the $1,325/month limit')
+    ).toBeInTheDocument();
+  });
+});
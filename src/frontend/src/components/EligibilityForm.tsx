@@ -0,0 +1,165 @@
+import { useId, useState, type FormEvent } from 'react';
+import type { MaritalStatus, ScreeningRequest } from '../types';
+import styles from './EligibilityForm.module.css';
+
+interface EligibilityFormProps {
+  onSubmit: (request: ScreeningRequest) => void;
+  isSubmitting?: boolean;
+}
+
+const MARITAL_OPTIONS: Array<{ value: MaritalStatus; label: string }> = [
+  { value: 'single', label: 'Single' },
+  { value: 'married', label: 'Married' },
+  { value: 'widowed', label: 'Widowed' },
+  { value: 'divorced', label: 'Divorced' },
+  { value: 'separated', label: 'Separated' },
+];
+
+/**
+ * Parse a dollar amount typed with or without "$" and commas
+ */
+function parseAmount(value: string): number | undefined {
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (cleaned === '') return undefined;
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+}
+
+/**
+ * EligibilityForm - Collects household figures for the eligibility screener
+ * Large, labeled fields; only income and age are required
+ */
+export function EligibilityForm({ onSubmit, isSubmitting = false }: EligibilityFormProps) {
+  const householdId = useId();
+  const incomeId = useId();
+  const assetsId = useId();
+  const maritalId = useId();
+  const ageId = useId();
+
+  const [householdSize, setHouseholdSize] = useState('1');
+  const [monthlyIncome, setMonthlyIncome] = useState('');
+  const [countableAssets, setCountableAssets] = useState('');
+  const [maritalStatus, setMaritalStatus] = useState<MaritalStatus>('single');
+  const [age, setAge] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    const income = parseAmount(monthlyIncome);
+    const ageValue = Number(age);
+    if (income === undefined) {
+      setError('Please enter monthly income as a dollar amount, like 1400.');
+      return;
+    }
+    if (!age || !Number.isInteger(ageValue) || ageValue <= 0) {
+      setError('Please enter age in years.');
+      return;
+    }
+
+    setError(null);
+    onSubmit({
+      householdSize: Number(householdSize),
+      monthlyIncome: income,
+      countableAssets: parseAmount(countableAssets),
+      maritalStatus,
+      age: ageValue,
+    });
+  };
+
+  return (
+    <form className={styles.form} onSubmit={handleSubmit} noValidate>
+      <div className={styles.field}>
+        <label htmlFor={incomeId} className={styles.label}>
+          Monthly income
+        </label>
+        <span className={styles.hint}>Before taxes, e.g. Social Security and pensions</span>
+        <input
+          id={incomeId}
+          className={styles.input}
+          inputMode="decimal"
+          value={monthlyIncome}
+          onChange={(e) => setMonthlyIncome(e.target.value)}
+          placeholder="$1,400"
+        />
+      </div>
+
+      <div className={styles.field}>
+        <label htmlFor={ageId} className={styles.label}>
+          Age
+        </label>
+        <input
+          id={ageId}
+          className={styles.input}
+          inputMode="numeric"
+          value={age}
+          onChange={(e) => setAge(e.target.value)}
+        />
+      </div>
+
+      <div className={styles.field}>
+        <label htmlFor={maritalId} className={styles.label}>
+          Marital status
+        </label>
+        <select
+          id={maritalId}
+          className={styles.input}
+          value={maritalStatus}
+          onChange={(e) => setMaritalStatus(e.target.value as MaritalStatus)}
+        >
+          {MARITAL_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className={styles.field}>
+        <label htmlFor={householdId} className={styles.label}>
+          People in household
+        </label>
+        <select
+          id={householdId}
+          className={styles.input}
+          value={householdSize}
+          onChange={(e) => setHouseholdSize(e.target.value)}
+        >
+          {[1, 2, 3, 4, 5, 6, 7, 8].map((size) => (
+            <option key={size} value={size}>
+              {size}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className={styles.field}>
+        <label htmlFor={assetsId} className={styles.label}>
+          Savings and other countable assets (optional)
+        </label>
+        <span className={styles.hint}>Not counting your home or one car</span>
+        <input
+          id={assetsId}
+          className={styles.input}
+          inputMode="decimal"
+          value={countableAssets}
+          onChange={(e) => setCountableAssets(e.target.value)}
+        />
+      </div>
+
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        className={`btn btn-primary btn-large ${styles.submitBtn}`}
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? 'Checking...' : 'Check my eligibility'}
+      </button>
+    </form>
+  );
+}
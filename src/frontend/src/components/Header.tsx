@@ -35,6 +35,12 @@ export function Header() {
           >
             Ask a Question
           </Link>
+          <Link
+            to="/eligibility"
+            className={`${styles.navLink} ${isActive('/eligibility') ? styles.active : ''}`}
+          >
+            Check Eligibility
+          </Link>
           <Link
             to="/help"
             className={`${styles.navLink} ${isActive('/help') ? styles.active : ''}`}
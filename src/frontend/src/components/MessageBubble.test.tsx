@@ -111,6 +111,34 @@ describe('MessageBubble', () => {
       const dots = document.querySelectorAll('span');
       expect(dots.length).toBeGreaterThan(0);
     });
+
+    it('describes the current retrieval stage', () => {
+      const message = { ...createMockLoadingMessage(), progressStage: 'retrieval' as const };
+      render(<MessageBubble message={message} />);
+
+      expect(screen.getByText('Searching official documents...')).toBeInTheDocument();
+    });
+  });
+
+  describe('Streaming State', () => {
+    it('renders partial answer text while streaming', () => {
+      const message = createMockAssistantMessage('QMB pays your Medicare', {
+        isStreaming: true,
+      });
+      render(<MessageBubble message={message} />);
+
+      expect(screen.getByText('QMB pays your Medicare')).toBeInTheDocument();
+      expect(screen.queryByText('Finding your answer...')).not.toBeInTheDocument();
+    });
+
+    it('marks the streaming content as a live region', () => {
+      const message = createMockAssistantMessage('Partial', { isStreaming: true });
+      render(<MessageBubble message={message} />);
+
+      const live = screen.getByText('Partial').closest('[aria-live]');
+      expect(live).toHaveAttribute('aria-live', 'polite');
+      expect(live).toHaveAttribute('aria-busy', 'true');
+    });
   });
 
   describe('Error State', () => {
@@ -210,6 +238,17 @@ describe('MessageBubble', () => {
       expect(screen.getByText('Vector: 10')).toBeInTheDocument();
     });
 
+    it('shows the fusion strategy in detailed view when available', () => {
+      const message = createMockAssistantMessage('Answer', {
+        retrievalStats: createMockRetrievalStats({
+          fusion: { strategy: 'combmnz', weights: { vector: 1, bm25: 2 }, rrfK: 60 },
+        }),
+      });
+      render(<MessageBubble message={message} />);
+
+      expect(screen.getByText('Fusion: combmnz')).toBeInTheDocument();
+    });
+
     it('shows latency in detailed view when available', () => {
       const message = createMockAssistantMessage('Answer', {
         retrievalStats: createMockRetrievalStats(),
@@ -268,6 +307,68 @@ describe('MessageBubble', () => {
     });
   });
 
+  describe('Follow-up Questions', () => {
+    const followUps = [
+      'How do I apply for a Medicare Savings Program?',
+      'What documents do I need to show my income?',
+    ];
+
+    it('asks the suggested question when a chip is clicked', async () => {
+      const user = userEvent.setup();
+      const onFollowUp = vi.fn();
+      const message = createMockAssistantMessage('SLMB pays the Part B premium.', { followUps });
+      render(<MessageBubble message={message} onFollowUp={onFollowUp} />);
+
+      expect(screen.getByRole('group', { name: 'You might also ask:' })).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: followUps[1] }));
+
+      expect(onFollowUp).toHaveBeenCalledWith(followUps[1]);
+    });
+
+    it('disables chips while another answer is loading', () => {
+      const message = createMockAssistantMessage('Answer', { followUps });
+      render(<MessageBubble message={message} onFollowUp={vi.fn()} followUpsDisabled />);
+
+      expect(screen.getByRole('button', { name: followUps[0] })).toBeDisabled();
+    });
+
+    it('hides chips without a follow-up handler', () => {
+      const message = createMockAssistantMessage('Answer', { followUps });
+      render(<MessageBubble message={message} />);
+
+      expect(screen.queryByText('You might also ask:')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Verified Figures', () => {
+    it('marks figures the cited sources confirmed and no others', () => {
+      const message = createMockAssistantMessage(
+        'The limit is $1,585 a month [1]. Assets must be under $9,999 [1].',
+        {
+          claims: [
+            {
+              text: 'The limit is $1,585 a month .',
+              citations: [1],
+              status: 'supported',
+              facts: [{ kind: 'amount', text: '$1,585', supported: true }],
+            },
+            {
+              text: 'Assets must be under $9,999 .',
+              citations: [1],
+              status: 'unsupported',
+              facts: [{ kind: 'amount', text: '$9,999', supported: false }],
+              reason: 'Not in the cited sources: $9,999',
+            },
+          ],
+        }
+      );
+      render(<MessageBubble message={message} />);
+
+      expect(screen.getByText('$1,585')).toHaveTextContent('$1,585✓ (verified)');
+      expect(screen.getAllByText('(verified)', { exact: false })).toHaveLength(1);
+    });
+  });
+
   describe('Complete Message', () => {
     it('renders a fully loaded message with all metadata in detailed view', () => {
       mockIsCaregiver.mockReturnValue(true);
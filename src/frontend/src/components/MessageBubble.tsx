@@ -1,5 +1,5 @@
 import { motion } from 'framer-motion';
-import type { Message } from '../types';
+import type { ClaimSupport, Message, QueryStage } from '../types';
 import { useUserMode } from '../hooks/useUserMode';
 import { CitationCard } from './CitationCard';
 import { FreshnessBadge } from './FreshnessBadge';
@@ -26,15 +26,46 @@ function stripSourceInfo(content: string): string {
   return cleaned.trim();
 }
 
+/**
+ * Figures (amounts, percentages, phone numbers) the cited sources confirmed.
+ * A figure that failed a check anywhere in the answer is left out.
+ */
+function verifiedFigures(claims: ClaimSupport[]): string[] {
+  const verified = new Set<string>();
+  const failed = new Set<string>();
+
+  for (const claim of claims) {
+    for (const fact of claim.facts) {
+      if (fact.kind === 'program') continue;
+      if (claim.status === 'supported' && fact.supported) {
+        verified.add(fact.text);
+      } else if (!fact.supported || claim.status === 'unsupported') {
+        failed.add(fact.text);
+      }
+    }
+  }
+
+  // Longest first so "$1,585.00" is matched before "$1,585"
+  return [...verified].filter((text) => !failed.has(text)).sort((a, b) => b.length - a.length);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 interface MessageBubbleProps {
   message: Message;
+  /** Ask a suggested follow-up question; chips are hidden without it */
+  onFollowUp?: (question: string) => void;
+  /** Disable the follow-up chips, e.g. while another answer is loading */
+  followUpsDisabled?: boolean;
 }
 
 /**
  * MessageBubble - Displays a chat message with appropriate styling
  * User messages appear on the right, assistant messages on the left
  */
-export function MessageBubble({ message }: MessageBubbleProps) {
+export function MessageBubble({ message, onFollowUp, followUpsDisabled }: MessageBubbleProps) {
   const { isCaregiver } = useUserMode();
   const isUser = message.type === 'user';
 
@@ -47,6 +78,8 @@ export function MessageBubble({ message }: MessageBubbleProps) {
     ? message.content
     : stripSourceInfo(message.content);
 
+  const figures = message.claims ? verifiedFigures(message.claims) : [];
+
   // Format timestamp for display
   const formattedTime = message.timestamp.toLocaleTimeString([], {
     hour: 'numeric',
@@ -64,18 +97,30 @@ export function MessageBubble({ message }: MessageBubbleProps) {
     >
       <div className={styles.bubble}>
         {/* Loading state */}
-        {message.isLoading && <LoadingContent />}
+        {message.isLoading && <LoadingContent stage={message.progressStage} />}
 
         {/* Error state */}
         {message.error && <ErrorContent error={message.error} />}
 
+        {/* Streaming state - partial answer text as it arrives */}
+        {message.isStreaming && (
+          <div className={styles.content} aria-live="polite" aria-busy="true">
+            {message.content.split('\n').map((paragraph, i) => (
+              <p key={i} className={styles.paragraph}>
+                {paragraph}
+              </p>
+            ))}
+            <span className={styles.streamingCursor} aria-hidden="true" />
+          </div>
+        )}
+
         {/* Normal content */}
-        {!message.isLoading && !message.error && (
+        {!message.isLoading && !message.isStreaming && !message.error && (
           <>
             <div className={styles.content}>
               {displayContent.split('\n').map((paragraph, i) => (
                 <p key={i} className={styles.paragraph}>
-                  {paragraph}
+                  <VerifiedText text={paragraph} figures={figures} />
                 </p>
               ))}
             </div>
@@ -99,6 +144,32 @@ export function MessageBubble({ message }: MessageBubbleProps) {
               <FreshnessBadge freshnessInfo={message.freshnessInfo} />
             )}
 
+            {/* Suggested next questions - shown in both views */}
+            {onFollowUp && message.followUps && message.followUps.length > 0 && (
+              <div className={styles.followUps}>
+                <span className={styles.followUpsLabel} id={`follow-ups-${message.id}`}>
+                  You might also ask:
+                </span>
+                <div
+                  className={styles.followUpChips}
+                  role="group"
+                  aria-labelledby={`follow-ups-${message.id}`}
+                >
+                  {message.followUps.map((question) => (
+                    <button
+                      key={question}
+                      type="button"
+                      className={styles.followUpChip}
+                      onClick={() => onFollowUp(question)}
+                      disabled={followUpsDisabled}
+                    >
+                      {question}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Disclaimer banner for sensitive topics */}
             {message.disclaimer && (
               <div className={styles.disclaimerWrapper}>
@@ -114,6 +185,9 @@ export function MessageBubble({ message }: MessageBubbleProps) {
                   <span>Vector: {message.retrievalStats.vectorResults}</span>
                   <span>BM25: {message.retrievalStats.bm25Results}</span>
                   <span>Fused: {message.retrievalStats.fusedResults}</span>
+                  {message.retrievalStats.fusion && (
+                    <span>Fusion: {message.retrievalStats.fusion.strategy}</span>
+                  )}
                   <span>Final: {message.retrievalStats.finalResults}</span>
                   {message.latencyMs && <span>Latency: {message.latencyMs}ms</span>}
                   {message.confidence !== undefined && (
@@ -133,10 +207,50 @@ export function MessageBubble({ message }: MessageBubbleProps) {
   );
 }
 
+/**
+ * Paragraph text with a "verified" mark after each confirmed figure
+ */
+function VerifiedText({ text, figures }: { text: string; figures: string[] }) {
+  if (figures.length === 0) {
+    return <>{text}</>;
+  }
+
+  const pattern = new RegExp(`(${figures.map(escapeRegExp).join('|')})`);
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        // split() puts the captured figures at the odd indexes
+        i % 2 === 1 ? (
+          <span key={i} className={styles.verifiedFigure}>
+            {part}
+            <span className={styles.verifiedMark} title="Matches the cited source">
+              <span aria-hidden="true">✓</span>
+              <span className="sr-only"> (verified)</span>
+            </span>
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Friendly descriptions of each retrieval stage
+ */
+const STAGE_TEXT: Record<QueryStage, string> = {
+  embedding: 'Reading your question...',
+  retrieval: 'Searching official documents...',
+  fusion: 'Gathering the most relevant information...',
+  rerank: 'Gathering the most relevant information...',
+  generation: 'Writing your answer...',
+};
+
 /**
  * Loading state content with calming animation
  */
-function LoadingContent() {
+function LoadingContent({ stage }: { stage?: QueryStage }) {
   return (
     <div className={styles.loading} role="status" aria-label="Finding your answer">
       <div className={styles.loadingDots}>
@@ -153,7 +267,9 @@ function LoadingContent() {
           transition={{ duration: 1.4, repeat: Infinity, delay: 0.4 }}
         />
       </div>
-      <span className={styles.loadingText}>Finding your answer...</span>
+      <span className={styles.loadingText}>
+        {stage ? STAGE_TEXT[stage] : 'Finding your answer...'}
+      </span>
     </div>
   );
 }
@@ -0,0 +1,73 @@
+import type { ProgramScreeningResult, ScreeningResult } from '../types';
+import styles from './ScreeningResults.module.css';
+
+interface ScreeningResultsProps {
+  result: ScreeningResult;
+}
+
+function formatLimit(program: ProgramScreeningResult): string {
+  const { incomeLimit, incomePeriod, effectiveYear } = program.limits;
+  const period = incomePeriod === 'monthly' ? 'month' : 'year';
+  return `$${incomeLimit.toLocaleString('en-US')}/${period} income limit (${effectiveYear})`;
+}
+
+/**
+ * ScreeningResults - Shows which programs the screener thinks are likely
+ * Likely programs come first; the limits used are listed with their year
+ */
+export function ScreeningResults({ result }: ScreeningResultsProps) {
+  const likely = result.programs.filter((p) => p.likelyEligible);
+  const unlikely = result.programs.filter((p) => !p.likelyEligible);
+
+  return (
+    <section className={styles.container} aria-labelledby="screening-results-title">
+      <h2 id="screening-results-title" className={styles.title}>
+        {likely.length > 0 ? 'You may qualify for' : 'No programs look likely'}
+      </h2>
+
+      {likely.length === 0 && (
+        <p className={styles.text}>
+          Based on the figures you entered, income or assets appear to be above these
+          programs' limits. Rules have exceptions, so it can still be worth asking.
+        </p>
+      )}
+
+      <ul className={styles.list}>
+        {likely.map((program) => (
+          <li key={program.program} className={`${styles.card} ${styles.likely}`}>
+            <h3 className={styles.programName}>{program.name}</h3>
+            <p className={styles.text}>{program.benefit}</p>
+            <p className={styles.limit}>{formatLimit(program)}</p>
+            {program.freshnessWarning && (
+              <p className={styles.warning}>{program.freshnessWarning}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {unlikely.length > 0 && (
+        <details className={styles.details}>
+          <summary>Programs that do not look likely ({unlikely.length})</summary>
+          <ul className={styles.list}>
+            {unlikely.map((program) => (
+              <li key={program.program} className={styles.card}>
+                <h3 className={styles.programName}>{program.name}</h3>
+                <ul className={styles.reasons}>
+                  {program.reasons.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {result.assumptions.length > 0 && (
+        <p className={styles.text}>Assumed: {result.assumptions.join('; ')}.</p>
+      )}
+
+      <p className={styles.disclaimer}>{result.disclaimer}</p>
+    </section>
+  );
+}
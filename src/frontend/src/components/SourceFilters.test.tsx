@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { render } from '../test/test-utils';
+import { SourceFilters } from './SourceFilters';
+
+describe('SourceFilters', () => {
+  const onChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders document, source type and authority controls', () => {
+    render(<SourceFilters filters={{}} onChange={onChange} />);
+
+    expect(screen.getByLabelText('Document')).toBeInTheDocument();
+    expect(screen.getByLabelText('Source type')).toBeInTheDocument();
+    expect(screen.getByLabelText('Primary sources only')).toBeInTheDocument();
+  });
+
+  it('selects a single document type', async () => {
+    const user = userEvent.setup();
+    render(<SourceFilters filters={{}} onChange={onChange} />);
+
+    await user.selectOptions(screen.getByLabelText('Document'), 'oim_ltc_handbook');
+
+    expect(onChange).toHaveBeenCalledWith({ documentTypes: ['oim_ltc_handbook'] });
+  });
+
+  it('restricts to regulatory sources', async () => {
+    const user = userEvent.setup();
+    render(<SourceFilters filters={{ sourceAuthority: 'primary' }} onChange={onChange} />);
+
+    await user.selectOptions(screen.getByLabelText('Source type'), 'regulatory');
+
+    expect(onChange).toHaveBeenCalledWith({ sourceAuthority: 'primary', legalWeight: 'regulatory' });
+  });
+
+  it('drops a filter when its selection is cleared', async () => {
+    const user = userEvent.setup();
+    render(
+      <SourceFilters
+        filters={{ documentTypes: ['pa_code'], legalWeight: 'regulatory' }}
+        onChange={onChange}
+      />
+    );
+
+    await user.selectOptions(screen.getByLabelText('Document'), '');
+
+    expect(onChange).toHaveBeenCalledWith({ legalWeight: 'regulatory' });
+  });
+
+  it('toggles primary sources only', async () => {
+    const user = userEvent.setup();
+    render(<SourceFilters filters={{}} onChange={onChange} />);
+
+    await user.click(screen.getByLabelText('Primary sources only'));
+
+    expect(onChange).toHaveBeenCalledWith({ sourceAuthority: 'primary' });
+  });
+
+  it('shows a clear button only when filters are active', async () => {
+    const user = userEvent.setup();
+    const { rerender } = render(<SourceFilters filters={{}} onChange={onChange} />);
+
+    expect(screen.queryByRole('button', { name: 'Clear filters' })).not.toBeInTheDocument();
+
+    rerender(<SourceFilters filters={{ legalWeight: 'guidance' }} onChange={onChange} />);
+    await user.click(screen.getByRole('button', { name: 'Clear filters' }));
+
+    expect(onChange).toHaveBeenCalledWith({});
+  });
+});
@@ -0,0 +1,125 @@
+import { useId } from 'react';
+import type { DocumentType, LegalWeight, QueryFilters } from '../types';
+import styles from './SourceFilters.module.css';
+
+interface SourceFiltersProps {
+  filters: QueryFilters;
+  onChange: (filters: QueryFilters) => void;
+  disabled?: boolean;
+}
+
+const DOCUMENT_OPTIONS: Array<{ value: DocumentType; label: string }> = [
+  { value: 'oim_ltc_handbook', label: 'OIM Long-Term Care Handbook' },
+  { value: 'oim_ma_handbook', label: 'OIM Medical Assistance Handbook' },
+  { value: 'oim_ops_memo', label: 'OIM Operations Memoranda' },
+  { value: 'pa_code', label: 'PA Code' },
+  { value: 'pa_bulletin', label: 'PA Bulletin' },
+  { value: 'msp_guide', label: 'Medicare Savings Program guides' },
+  { value: 'income_limits', label: 'Income limit tables' },
+  { value: 'chc_handbook', label: 'Community HealthChoices handbook' },
+];
+
+const WEIGHT_OPTIONS: Array<{ value: LegalWeight; label: string }> = [
+  { value: 'regulatory', label: 'Regulations only' },
+  { value: 'guidance', label: 'Official guidance only' },
+  { value: 'informational', label: 'Consumer guides only' },
+];
+
+/**
+ * SourceFilters - Lets caregivers restrict answers to particular sources
+ * e.g. "only the OIM LTC Handbook" or "only regulatory sources"
+ */
+export function SourceFilters({ filters, onChange, disabled = false }: SourceFiltersProps) {
+  const documentId = useId();
+  const weightId = useId();
+  const primaryId = useId();
+
+  // Drop cleared fields so an empty selection means "no filters"
+  const update = (changes: QueryFilters) => {
+    const next: QueryFilters = { ...filters, ...changes };
+    for (const key of Object.keys(next) as Array<keyof QueryFilters>) {
+      if (next[key] === undefined) {
+        delete next[key];
+      }
+    }
+    onChange(next);
+  };
+
+  const hasFilters = Boolean(
+    filters.documentTypes?.length || filters.legalWeight || filters.sourceAuthority
+  );
+
+  return (
+    <fieldset className={styles.container} disabled={disabled}>
+      <legend className={styles.legend}>Limit sources</legend>
+
+      <div className={styles.field}>
+        <label htmlFor={documentId} className={styles.label}>
+          Document
+        </label>
+        <select
+          id={documentId}
+          className={styles.select}
+          value={filters.documentTypes?.[0] ?? ''}
+          onChange={(e) =>
+            update({
+              documentTypes: e.target.value ? [e.target.value as DocumentType] : undefined,
+            })
+          }
+        >
+          <option value="">All documents</option>
+          {DOCUMENT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className={styles.field}>
+        <label htmlFor={weightId} className={styles.label}>
+          Source type
+        </label>
+        <select
+          id={weightId}
+          className={styles.select}
+          value={filters.legalWeight ?? ''}
+          onChange={(e) =>
+            update({
+              legalWeight: (e.target.value as LegalWeight) || undefined,
+            })
+          }
+        >
+          <option value="">All source types</option>
+          {WEIGHT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className={styles.checkboxField}>
+        <input
+          id={primaryId}
+          type="checkbox"
+          checked={filters.sourceAuthority === 'primary'}
+          onChange={(e) =>
+            update({
+              sourceAuthority: e.target.checked ? 'primary' : undefined,
+            })
+          }
+        />
+        <label htmlFor={primaryId} className={styles.label}>
+          Primary sources only
+        </label>
+      </div>
+
+      {hasFilters && (
+        <button type="button" className={styles.clearButton} onClick={() => onChange({})}>
+          Clear filters
+        </button>
+      )}
+    </fieldset>
+  );
+}
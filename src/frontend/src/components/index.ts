@@ -7,3 +7,6 @@ export { DisclaimerBanner } from './DisclaimerBanner';
 export { HelpPanel } from './HelpPanel';
 export { Header } from './Header';
 export { QuickTopics } from './QuickTopics';
+export { SourceFilters } from './SourceFilters';
+export { EligibilityForm } from './EligibilityForm';
+export { ScreeningResults } from './ScreeningResults';
@@ -2,3 +2,5 @@
 export { useHealth } from './useHealth';
 export { useSubmitQuery, createUserMessage, createAssistantMessage, createLoadingMessage, createErrorMessage } from './useQuery';
 export { useUserMode } from './useUserMode';
+export { useConversation } from './useConversation';
+export { useScreenEligibility } from './useScreening';
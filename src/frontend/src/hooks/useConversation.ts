@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { generateConversationId } from '../api/client';
+import type { Conversation, Message } from '../types';
+
+const STORAGE_KEY = 'pa-medicaid-conversation';
+
+/**
+ * Create an empty conversation
+ */
+function createConversation(): Conversation {
+  return {
+    id: generateConversationId(),
+    messages: [],
+    createdAt: new Date(),
+  };
+}
+
+/**
+ * Restore the conversation from sessionStorage, or start a new one.
+ * Pending (loading/streaming) messages are dropped since their request is gone.
+ */
+function getInitialConversation(): Conversation {
+  if (typeof window === 'undefined') {
+    return createConversation();
+  }
+
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Conversation;
+      return {
+        ...parsed,
+        createdAt: new Date(parsed.createdAt),
+        messages: parsed.messages
+          .filter((m) => !m.isLoading && !m.isStreaming)
+          .map((m) => ({ ...m, timestamp: new Date(m.timestamp) })),
+      };
+    }
+  } catch {
+    // sessionStorage may not be available or hold invalid data
+  }
+
+  return createConversation();
+}
+
+/**
+ * Hook to hold the current chat conversation.
+ * The conversation id is sent with each query so the server can use prior turns,
+ * and the conversation is kept in sessionStorage so a page refresh does not lose it.
+ */
+export function useConversation() {
+  const [conversation, setConversation] = useState<Conversation>(getInitialConversation);
+
+  // Persist conversation changes to sessionStorage
+  useEffect(() => {
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(conversation));
+    } catch {
+      // sessionStorage may not be available
+    }
+  }, [conversation]);
+
+  const setMessages = useCallback((update: (messages: Message[]) => Message[]) => {
+    setConversation((current) => ({ ...current, messages: update(current.messages) }));
+  }, []);
+
+  const startNewConversation = useCallback(() => {
+    setConversation(createConversation());
+  }, []);
+
+  return {
+    conversation,
+    messages: conversation.messages,
+    setMessages,
+    startNewConversation,
+  };
+}
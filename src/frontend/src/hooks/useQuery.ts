@@ -1,19 +1,51 @@
 import { useMutation } from '@tanstack/react-query';
-import { submitQuery, generateMessageId } from '../api/client';
-import type { Message, QueryResponse } from '../types';
+import { submitQueryStream, generateMessageId } from '../api/client';
+import type {
+  Message,
+  QueryResponse,
+  QueryProgressEvent,
+  QueryFilters,
+  UserMode,
+} from '../types';
 
 interface UseSubmitQueryOptions {
+  /** Conversation the queries belong to, so follow-ups keep their context */
+  conversationId?: string;
+  /** Restrict answers to matching source documents */
+  filters?: QueryFilters;
+  /** Answer style: plain language for seniors, denser and section-cited for caregivers */
+  mode?: UserMode;
   onSuccess?: (response: QueryResponse, query: string) => void;
   onError?: (error: Error, query: string) => void;
+  /** Called as the server moves through retrieval stages */
+  onProgress?: (event: QueryProgressEvent) => void;
+  /** Called with each piece of answer text as it is generated */
+  onToken?: (text: string) => void;
 }
 
 /**
  * Hook to submit queries to the RAG system
- * Returns a mutation that can be triggered with a query string
+ * Returns a mutation that can be triggered with a query string.
+ * Answers are streamed so partial text can be shown while the LLM is writing.
  */
 export function useSubmitQuery(options?: UseSubmitQueryOptions) {
   return useMutation({
-    mutationFn: (query: string) => submitQuery(query),
+    mutationFn: (query: string) =>
+      submitQueryStream(
+        query,
+        (event) => {
+          if (event.type === 'progress') {
+            options?.onProgress?.(event);
+          } else if (event.type === 'token') {
+            options?.onToken?.(event.text);
+          }
+        },
+        {
+          conversationId: options?.conversationId,
+          filters: options?.filters,
+          mode: options?.mode,
+        }
+      ),
     onSuccess: (data, query) => {
       options?.onSuccess?.(data, query);
     },
@@ -49,7 +81,9 @@ export function createAssistantMessage(response: QueryResponse): Message {
     freshnessInfo: response.freshnessInfo,
     disclaimer: response.disclaimer,
     confidence: response.confidence,
+    claims: response.claims,
     latencyMs: response.latencyMs,
+    followUps: response.followUps,
   };
 }
 
@@ -0,0 +1,13 @@
+import { useMutation } from '@tanstack/react-query';
+import { screenEligibility } from '../api/client';
+import type { ScreeningRequest } from '../types';
+
+/**
+ * Hook to run the eligibility screener
+ * Returns a mutation that can be triggered with household figures
+ */
+export function useScreenEligibility() {
+  return useMutation({
+    mutationFn: (request: ScreeningRequest) => screenEligibility(request),
+  });
+}
@@ -3,6 +3,7 @@ import { screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { render } from '../test/test-utils';
 import Chat from './Chat';
+import { useSubmitQuery } from '../hooks/useQuery';
 
 // Mock the useQuery hook
 vi.mock('../hooks/useQuery', () => ({
@@ -107,6 +108,19 @@ describe('Chat', () => {
       expect(screen.getByText(/Detailed.*View/)).toBeInTheDocument();
     });
 
+    it('asks for answers in the current mode', async () => {
+      const user = userEvent.setup();
+      render(<Chat />);
+
+      expect(useSubmitQuery).toHaveBeenLastCalledWith(expect.objectContaining({ mode: 'senior' }));
+
+      await user.click(screen.getByRole('button', { name: /View/i }));
+
+      expect(useSubmitQuery).toHaveBeenLastCalledWith(
+        expect.objectContaining({ mode: 'caregiver' })
+      );
+    });
+
     it('renders the Help link', () => {
       render(<Chat />);
 
@@ -2,10 +2,12 @@ import { useState, useEffect, useRef } from 'react';
 import { useSearchParams, Link } from 'react-router-dom';
 import { useSubmitQuery, createUserMessage, createAssistantMessage, createLoadingMessage, createErrorMessage } from '../hooks/useQuery';
 import { useUserMode } from '../hooks/useUserMode';
+import { useConversation } from '../hooks/useConversation';
 import { QueryInput } from '../components/QueryInput';
 import { MessageBubble } from '../components/MessageBubble';
 import { HelpPanel } from '../components/HelpPanel';
-import type { Message } from '../types';
+import { SourceFilters } from '../components/SourceFilters';
+import type { QueryFilters } from '../types';
 import styles from './Chat.module.css';
 
 /**
@@ -14,24 +16,45 @@ import styles from './Chat.module.css';
  */
 export default function Chat() {
   const [searchParams] = useSearchParams();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const { conversation, messages, setMessages, startNewConversation } = useConversation();
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const { mode, toggleMode } = useUserMode();
+  const { mode, toggleMode, isCaregiver } = useUserMode();
+  const [filters, setFilters] = useState<QueryFilters>({});
   const hasProcessedInitialQuery = useRef(false);
 
   const queryMutation = useSubmitQuery({
+    conversationId: conversation.id,
+    // Source filters are a caregiver tool; simple view always searches everything
+    filters: isCaregiver && Object.keys(filters).length > 0 ? filters : undefined,
+    mode,
+    onProgress: (event) => {
+      // Show which retrieval stage we are in
+      setMessages((prev) =>
+        prev.map((m) => (m.isLoading ? { ...m, progressStage: event.stage } : m))
+      );
+    },
+    onToken: (text) => {
+      // Turn the loading placeholder into partial answer text
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.isLoading || m.isStreaming
+            ? { ...m, isLoading: false, isStreaming: true, content: m.content + text }
+            : m
+        )
+      );
+    },
     onSuccess: (response) => {
-      // Replace loading message with actual response
+      // Replace loading/streaming message with actual response
       setMessages((prev) => {
-        const withoutLoading = prev.filter((m) => !m.isLoading);
-        return [...withoutLoading, createAssistantMessage(response)];
+        const withoutPending = prev.filter((m) => !m.isLoading && !m.isStreaming);
+        return [...withoutPending, createAssistantMessage(response)];
       });
     },
     onError: (error) => {
-      // Replace loading message with error
+      // Replace loading/streaming message with error
       setMessages((prev) => {
-        const withoutLoading = prev.filter((m) => !m.isLoading);
-        return [...withoutLoading, createErrorMessage(error.message)];
+        const withoutPending = prev.filter((m) => !m.isLoading && !m.isStreaming);
+        return [...withoutPending, createErrorMessage(error.message)];
       });
     },
   });
@@ -70,6 +93,17 @@ export default function Chat() {
         </Link>
 
         <div className={styles.headerActions}>
+          {/* Start a fresh conversation (previous questions no longer used as context) */}
+          {messages.length > 0 && (
+            <button
+              onClick={startNewConversation}
+              className="btn btn-ghost"
+              disabled={queryMutation.isPending}
+            >
+              Start Over
+            </button>
+          )}
+
           {/* Mode toggle */}
           <button
             onClick={toggleMode}
@@ -103,7 +137,12 @@ export default function Chat() {
               ) : (
                 <>
                   {messages.map((message) => (
-                    <MessageBubble key={message.id} message={message} />
+                    <MessageBubble
+                      key={message.id}
+                      message={message}
+                      onFollowUp={handleSubmit}
+                      followUpsDisabled={queryMutation.isPending}
+                    />
                   ))}
                   <div ref={messagesEndRef} />
                 </>
@@ -113,6 +152,14 @@ export default function Chat() {
 
           {/* Input area */}
           <div className={styles.inputContainer}>
+            {isCaregiver && (
+              <SourceFilters
+                filters={filters}
+                onChange={setFilters}
+                disabled={queryMutation.isPending}
+              />
+            )}
+
             <QueryInput
               onSubmit={handleSubmit}
               isLoading={queryMutation.isPending}
@@ -0,0 +1,42 @@
+import { Header } from '../components/Header';
+import { EligibilityForm } from '../components/EligibilityForm';
+import { ScreeningResults } from '../components/ScreeningResults';
+import { useScreenEligibility } from '../hooks/useScreening';
+import styles from './Eligibility.module.css';
+
+/**
+ * Eligibility page - "Check my eligibility" screener
+ * Estimates Medicare Savings Program, Extra Help and PACE/PACENET eligibility
+ */
+export default function Eligibility() {
+  const screening = useScreenEligibility();
+
+  return (
+    <div className={styles.page}>
+      <Header />
+
+      <main id="main-content" className={styles.main}>
+        <div className={styles.content}>
+          <h1 className={styles.title}>Check My Eligibility</h1>
+          <p className={styles.subtitle}>
+            Answer a few questions to see which programs could help pay Medicare costs
+            and prescriptions. Nothing you enter is saved.
+          </p>
+
+          <EligibilityForm
+            onSubmit={(request) => screening.mutate(request)}
+            isSubmitting={screening.isPending}
+          />
+
+          {screening.error && (
+            <p className={styles.error} role="alert">
+              {screening.error.message}
+            </p>
+          )}
+
+          {screening.data && <ScreeningResults result={screening.data} />}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -9,6 +9,12 @@ export type {
   SourceAuthority,
   LegalWeight,
   SensitiveCategory,
+  QueryFilters,
+  PromptMode,
+  FusionStrategy,
+  FusionWeights,
+  FusionSettings,
+  FusionOptions,
   QueryRequest,
   Citation,
   RetrievalStats,
@@ -16,22 +22,39 @@ export type {
   FreshnessInfo,
   DisclaimerInfo,
   QueryResponse,
+  ClaimStatus,
+  ClaimFactKind,
+  ClaimFact,
+  ClaimSupport,
+  QueryStage,
+  QueryProgressEvent,
+  QueryStreamEvent,
   HealthResponse,
   MetricsResponse,
+  ScreeningProgram,
+  MaritalStatus,
+  ScreeningRequest,
+  ScreeningLimits,
+  ProgramScreeningResult,
+  ScreeningResult,
 } from '@shared/api-types';
 
 // ============================================
 // UI State Types (Frontend-specific)
 // ============================================
 
-export type UserMode = 'senior' | 'caregiver';
+/** The interface modes; each is also the answer style sent with queries */
+export type UserMode = Extract<PromptMode, 'senior' | 'caregiver'>;
 
 // Import types we need for Message interface
 import type {
+  PromptMode,
   Citation,
   RetrievalStats,
   FreshnessInfo,
   DisclaimerInfo,
+  ClaimSupport,
+  QueryStage,
 } from '@shared/api-types';
 
 export interface Message {
@@ -44,8 +67,16 @@ export interface Message {
   freshnessInfo?: FreshnessInfo;
   disclaimer?: DisclaimerInfo;
   confidence?: number;
+  /** Per-sentence support of the answer by its cited sources */
+  claims?: ClaimSupport[];
   latencyMs?: number;
   isLoading?: boolean;
+  /** Answer text is still arriving from the server */
+  isStreaming?: boolean;
+  /** Current retrieval stage while loading */
+  progressStage?: QueryStage;
+  /** Suggested next questions */
+  followUps?: string[];
   error?: string;
 }
 
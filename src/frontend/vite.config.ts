@@ -24,6 +24,10 @@ export default defineConfig({
         target: 'http://localhost:3000',
         changeOrigin: true,
       },
+      '/screen': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+      },
       '/ingest': {
         target: 'http://localhost:3000',
         changeOrigin: true,
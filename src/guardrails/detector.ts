@@ -11,15 +11,25 @@ export type SensitiveCategory =
 
 export interface DetectionResult {
   isSensitive: boolean;
-  category?: SensitiveCategory;
+  /** Built-in SensitiveCategory, or a category added to the sensitive_topics table */
+  category?: string;
   matchedKeywords: string[];
   confidence: number;
 }
 
 /**
- * Keywords and patterns for each sensitive category
+ * Keywords that flag a category, and how strongly a match counts
  */
-const SENSITIVE_PATTERNS: Record<SensitiveCategory, { keywords: string[]; weight: number }> = {
+export interface DetectionRule {
+  category: string;
+  keywords: string[];
+  weight: number;
+}
+
+/**
+ * Built-in keywords and patterns for each sensitive category
+ */
+export const SENSITIVE_PATTERNS: Record<SensitiveCategory, { keywords: string[]; weight: number }> = {
   estate_planning: {
     keywords: [
       'estate plan',
@@ -119,27 +129,33 @@ const SENSITIVE_PATTERNS: Record<SensitiveCategory, { keywords: string[]; weight
   },
 };
 
+const BUILT_IN_RULES: DetectionRule[] = Object.entries(SENSITIVE_PATTERNS).map(
+  ([category, pattern]) => ({ category, ...pattern })
+);
+
 /**
- * Detect sensitive topics in a query
+ * Detect sensitive topics in a query, using the built-in patterns unless
+ * other rules are given
  */
-export function detectSensitiveTopic(query: string): DetectionResult {
+export function detectSensitiveTopic(
+  query: string,
+  rules: DetectionRule[] = BUILT_IN_RULES
+): DetectionResult {
   const lowerQuery = query.toLowerCase();
   const matchedKeywords: string[] = [];
-  let highestCategory: SensitiveCategory | undefined;
+  let highestCategory: string | undefined;
   let highestScore = 0;
 
-  for (const [category, config] of Object.entries(SENSITIVE_PATTERNS) as Array<
-    [SensitiveCategory, { keywords: string[]; weight: number }]
-  >) {
-    const matches = config.keywords.filter((keyword) =>
+  for (const rule of rules) {
+    const matches = rule.keywords.filter((keyword) =>
       lowerQuery.includes(keyword.toLowerCase())
     );
 
     if (matches.length > 0) {
-      const score = matches.length * config.weight;
+      const score = matches.length * rule.weight;
       if (score > highestScore) {
         highestScore = score;
-        highestCategory = category;
+        highestCategory = rule.category;
         matchedKeywords.push(...matches);
       }
     }
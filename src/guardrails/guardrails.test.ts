@@ -1,7 +1,14 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { detectSensitiveTopic, isCategoryDetected, getCategoryKeywords } from './detector.js';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  detectSensitiveTopic,
+  isCategoryDetected,
+  getCategoryKeywords,
+  SensitiveCategory,
+} from './detector.js';
 import { getDisclaimer, getReferral, getChesterCountyResources } from './disclaimers.js';
+import { DEFAULT_GUARDRAIL_RULES, validateGuardrailRule, validateGuardrailRuleUpdate } from './rules.js';
 import { GuardrailsEngine } from './index.js';
+import type { GuardrailRule } from '../types/index.js';
 
 describe('Sensitive Topic Detection', () => {
   describe('detectSensitiveTopic', () => {
@@ -244,4 +251,108 @@ describe('GuardrailsEngine', () => {
       expect(wrapped.answer).toBe(response.answer);
     });
   });
+
+  describe('rules from storage', () => {
+    const reverseMortgage: GuardrailRule = {
+      category: 'reverse_mortgage',
+      keywords: ['reverse mortgage'],
+      weight: 1,
+      disclaimer: 'A reverse mortgage can affect Medicaid eligibility.',
+    };
+
+    it('should use loaded rules and their disclaimer text', async () => {
+      const loaded = engineWith([reverseMortgage]);
+
+      const result = await loaded.engine.checkQuery('Should I take a reverse mortgage?');
+
+      expect(result.category).toBe('reverse_mortgage');
+      expect(result.disclaimer).toBe(reverseMortgage.disclaimer);
+      expect(result.referral).toBeUndefined();
+    });
+
+    it('should fall back to built-in rules when none are stored', async () => {
+      const loaded = engineWith([]);
+
+      const result = await loaded.engine.checkQuery('How do I transfer my house to my kids?');
+
+      expect(result.category).toBe('asset_transfer');
+      expect(result.disclaimer).toBe(getDisclaimer('asset_transfer'));
+    });
+
+    it('should keep the last loaded rules when loading fails', async () => {
+      const loaded = engineWith([reverseMortgage], 0);
+      await loaded.engine.checkQuery('first query');
+      loaded.loadRules.mockRejectedValueOnce(new Error('connection refused'));
+
+      const result = await loaded.engine.checkQuery('Is a reverse mortgage a good idea?');
+
+      expect(loaded.loadRules).toHaveBeenCalledTimes(2);
+      expect(result.category).toBe('reverse_mortgage');
+    });
+
+    it('should only reload after the interval unless asked', async () => {
+      const loaded = engineWith([reverseMortgage]);
+      await loaded.engine.checkQuery('first query');
+      await loaded.engine.checkQuery('second query');
+      expect(loaded.loadRules).toHaveBeenCalledTimes(1);
+
+      const edited = { ...reverseMortgage, disclaimer: 'Edited disclaimer.' };
+      loaded.loadRules.mockResolvedValueOnce([edited]);
+      await loaded.engine.reload();
+
+      const result = await loaded.engine.checkQuery('reverse mortgage');
+      expect(result.disclaimer).toBe('Edited disclaimer.');
+    });
+
+    function engineWith(rules: GuardrailRule[], reloadIntervalMs = 60_000) {
+      const loadRules = vi.fn().mockResolvedValue(rules);
+      return { loadRules, engine: new GuardrailsEngine({ loadRules, reloadIntervalMs }) };
+    }
+  });
+});
+
+describe('Guardrail rules', () => {
+  it('should include every built-in category with its disclaimer and referral', () => {
+    expect(DEFAULT_GUARDRAIL_RULES.map((r) => r.category)).toContain('look_back_period');
+    for (const rule of DEFAULT_GUARDRAIL_RULES) {
+      expect(rule.keywords.length).toBeGreaterThan(0);
+      expect(rule.disclaimer).toBe(getDisclaimer(rule.category as SensitiveCategory));
+      expect(rule.referral).toBe(getReferral(rule.category as SensitiveCategory));
+    }
+  });
+
+  it('should detect with custom rules', () => {
+    const result = detectSensitiveTopic('what about a pooled trust', [
+      { category: 'pooled_trust', keywords: ['pooled trust'], weight: 1.5 },
+    ]);
+    expect(result.category).toBe('pooled_trust');
+    expect(result.confidence).toBe(0.75);
+  });
+
+  describe('validateGuardrailRule', () => {
+    const valid = { category: 'pooled_trust', keywords: ['pooled trust'], disclaimer: 'Text.' };
+
+    it('should accept a complete rule', () => {
+      expect(validateGuardrailRule(valid)).toBeNull();
+      expect(validateGuardrailRule({ ...valid, weight: 1.4, referral: 'PHLP' })).toBeNull();
+    });
+
+    it('should reject bad categories, keywords and weights', () => {
+      expect(validateGuardrailRule({ ...valid, category: 'Pooled Trust' })).toContain('category');
+      expect(validateGuardrailRule({ ...valid, keywords: ['', 'x'] })).toContain('keywords');
+      expect(validateGuardrailRule({ ...valid, weight: 0 })).toContain('weight');
+      expect(validateGuardrailRule({ ...valid, referral: null })).toContain('referral');
+      expect(validateGuardrailRule({ category: 'x', keywords: ['y'] })).toBe('disclaimer is required');
+    });
+  });
+
+  describe('validateGuardrailRuleUpdate', () => {
+    it('should allow removing the referral', () => {
+      expect(validateGuardrailRuleUpdate({ referral: null })).toBeNull();
+    });
+
+    it('should require at least one field', () => {
+      expect(validateGuardrailRuleUpdate({})).toContain('at least one');
+    });
+  });
 });
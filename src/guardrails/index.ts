@@ -1,12 +1,26 @@
+import { GuardrailRule } from '../types/index.js';
 import { createChildLogger } from '../utils/logger.js';
-import { detectSensitiveTopic, SensitiveCategory } from './detector.js';
-import { getDisclaimer, getReferral } from './disclaimers.js';
+import { detectSensitiveTopic } from './detector.js';
+import { DEFAULT_GUARDRAIL_RULES } from './rules.js';
 
 const logger = createChildLogger('guardrails');
 
+/**
+ * How long loaded rules are used before they are read again
+ */
+export const DEFAULT_RULE_RELOAD_INTERVAL_MS = 60_000;
+
+export interface GuardrailsEngineOptions {
+  /** Reads the current rules, e.g. from the sensitive_topics table */
+  loadRules?: () => Promise<GuardrailRule[]>;
+  /** How long loaded rules are used before they are read again */
+  reloadIntervalMs?: number;
+}
+
 export interface GuardrailResult {
   isSensitive: boolean;
-  category?: SensitiveCategory;
+  /** Built-in SensitiveCategory, or a category added to the sensitive_topics table */
+  category?: string;
   disclaimerRequired: boolean;
   disclaimer?: string;
   referral?: string;
@@ -28,16 +42,75 @@ export interface QueryResponse {
 }
 
 /**
- * Guardrails engine for detecting sensitive topics and adding appropriate disclaimers
+ * Guardrails engine for detecting sensitive topics and adding appropriate disclaimers.
+ * With a rule loader, rules are read again once the reload interval has passed,
+ * so edits to the sensitive_topics table apply without a restart. When the
+ * loader returns nothing the built-in rules are used; when it fails the last
+ * loaded rules are kept.
  */
 export class GuardrailsEngine {
+  private loadRules?: () => Promise<GuardrailRule[]>;
+  private reloadIntervalMs: number;
+  private rules: GuardrailRule[] = DEFAULT_GUARDRAIL_RULES;
+  private loadedAt: number | null = null;
+  private loading: Promise<GuardrailRule[]> | null = null;
+
+  constructor(options: GuardrailsEngineOptions = {}) {
+    this.loadRules = options.loadRules;
+    this.reloadIntervalMs = options.reloadIntervalMs ?? DEFAULT_RULE_RELOAD_INTERVAL_MS;
+  }
+
+  /**
+   * Rules in effect, reloading them first if they are stale
+   */
+  async getRules(): Promise<GuardrailRule[]> {
+    if (
+      this.loadRules &&
+      (this.loadedAt === null || Date.now() - this.loadedAt >= this.reloadIntervalMs)
+    ) {
+      return this.reload();
+    }
+    return this.rules;
+  }
+
+  /**
+   * Read the rules again now, e.g. after an administrator edits them
+   */
+  async reload(): Promise<GuardrailRule[]> {
+    if (!this.loadRules) {
+      return this.rules;
+    }
+    if (!this.loading) {
+      this.loading = this.readRules().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readRules(): Promise<GuardrailRule[]> {
+    try {
+      const loaded = await this.loadRules!();
+      this.rules = loaded.length > 0 ? loaded : DEFAULT_GUARDRAIL_RULES;
+      logger.debug(
+        { ruleCount: this.rules.length, source: loaded.length > 0 ? 'database' : 'built-in' },
+        'Guardrail rules loaded'
+      );
+    } catch (error) {
+      logger.warn({ error }, 'Failed to load guardrail rules, keeping current rules');
+    }
+    this.loadedAt = Date.now();
+    return this.rules;
+  }
+
   /**
    * Check a query for sensitive topics
    */
   async checkQuery(query: string): Promise<GuardrailResult> {
     logger.debug({ query: query.substring(0, 100) }, 'Checking query for sensitive topics');
 
-    const detection = detectSensitiveTopic(query);
+    const rules = await this.getRules();
+    const detection = detectSensitiveTopic(query, rules);
 
     if (!detection.isSensitive) {
       return {
@@ -48,8 +121,7 @@ export class GuardrailsEngine {
       };
     }
 
-    const disclaimer = getDisclaimer(detection.category!);
-    const referral = getReferral(detection.category!);
+    const rule = rules.find((r) => r.category === detection.category)!;
 
     logger.info(
       { category: detection.category, confidence: detection.confidence },
@@ -60,8 +132,8 @@ export class GuardrailsEngine {
       isSensitive: true,
       category: detection.category,
       disclaimerRequired: true,
-      disclaimer,
-      referral,
+      disclaimer: rule.disclaimer,
+      referral: rule.referral,
       shouldProceed: true, // We still answer but add disclaimers
       confidence: detection.confidence,
     };
@@ -111,5 +183,17 @@ export function resetGuardrailsEngine(): void {
   guardrailsInstance = null;
 }
 
+/**
+ * Create a guardrails engine with its own rule loader
+ */
+export function createGuardrailsEngine(options?: GuardrailsEngineOptions): GuardrailsEngine {
+  return new GuardrailsEngine(options);
+}
+
 export type { SensitiveCategory } from './detector.js';
 export { detectSensitiveTopic } from './detector.js';
+export {
+  DEFAULT_GUARDRAIL_RULES,
+  validateGuardrailRule,
+  validateGuardrailRuleUpdate,
+} from './rules.js';
@@ -0,0 +1,103 @@
+/**
+ * Built-in guardrail rules, used when the sensitive_topics table is empty or
+ * unavailable. Mirrors the rows in scripts/migrations/007_guardrail_rules.sql.
+ */
+
+import { GuardrailRule } from '../types/index.js';
+import { SENSITIVE_PATTERNS, SensitiveCategory } from './detector.js';
+import { getDisclaimer, getReferral } from './disclaimers.js';
+
+export const DEFAULT_GUARDRAIL_RULES: GuardrailRule[] = (
+  Object.keys(SENSITIVE_PATTERNS) as SensitiveCategory[]
+).map((category) => ({
+  category,
+  keywords: SENSITIVE_PATTERNS[category].keywords,
+  weight: SENSITIVE_PATTERNS[category].weight,
+  disclaimer: getDisclaimer(category),
+  referral: getReferral(category),
+}));
+
+/**
+ * Category names: lowercase words joined by underscores, like the built-in ones
+ */
+export const GUARDRAIL_CATEGORY_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+export const MAX_GUARDRAIL_WEIGHT = 5;
+
+/**
+ * Check a new rule, returning an error message if invalid
+ */
+export function validateGuardrailRule(body: unknown): string | null {
+  if (typeof body !== 'object' || body === null) {
+    return 'Request body must be an object';
+  }
+
+  const { category, keywords, disclaimer } = body as Record<string, unknown>;
+
+  if (typeof category !== 'string' || !GUARDRAIL_CATEGORY_PATTERN.test(category)) {
+    return 'category must be lowercase letters, digits and underscores (max 64 characters)';
+  }
+  if (keywords === undefined) {
+    return 'keywords is required';
+  }
+  if (disclaimer === undefined) {
+    return 'disclaimer is required';
+  }
+
+  return validateGuardrailRuleFields(body as Record<string, unknown>, false);
+}
+
+/**
+ * Check changes to an existing rule, returning an error message if invalid
+ */
+export function validateGuardrailRuleUpdate(body: unknown): string | null {
+  if (typeof body !== 'object' || body === null) {
+    return 'Request body must be an object';
+  }
+
+  const fields = body as Record<string, unknown>;
+  if (['keywords', 'weight', 'disclaimer', 'referral'].every((key) => fields[key] === undefined)) {
+    return 'Provide at least one of keywords, weight, disclaimer or referral';
+  }
+
+  return validateGuardrailRuleFields(fields, true);
+}
+
+function validateGuardrailRuleFields(
+  fields: Record<string, unknown>,
+  allowNullReferral: boolean
+): string | null {
+  const { keywords, weight, disclaimer, referral } = fields;
+
+  if (
+    keywords !== undefined &&
+    (!Array.isArray(keywords) ||
+      keywords.length === 0 ||
+      !keywords.every((k) => typeof k === 'string' && k.trim().length > 0))
+  ) {
+    return 'keywords must be a non-empty array of non-empty strings';
+  }
+  if (
+    weight !== undefined &&
+    (typeof weight !== 'number' ||
+      !Number.isFinite(weight) ||
+      weight <= 0 ||
+      weight > MAX_GUARDRAIL_WEIGHT)
+  ) {
+    return `weight must be a number greater than 0 and at most ${MAX_GUARDRAIL_WEIGHT}`;
+  }
+  if (disclaimer !== undefined && (typeof disclaimer !== 'string' || disclaimer.trim().length === 0)) {
+    return 'disclaimer must be a non-empty string';
+  }
+  if (
+    referral !== undefined &&
+    !(allowNullReferral && referral === null) &&
+    (typeof referral !== 'string' || referral.trim().length === 0)
+  ) {
+    return allowNullReferral
+      ? 'referral must be a non-empty string, or null to remove it'
+      : 'referral must be a non-empty string';
+  }
+
+  return null;
+}
@@ -229,6 +229,70 @@ More text here.`;
     });
   });
 
+  describe('Tables', () => {
+    const header = '| Code | Description | Rate |\n| --- | --- | --- |';
+    const row = (n: number) => `| C${String(n).padStart(2, '0')} | Allowance item ${n} | ${n}.00 |`;
+    const table = (rows: number) =>
+      [header, ...Array.from({ length: rows }, (_, i) => row(i + 1))].join('\n');
+
+    let chunker: MarkdownChunker;
+
+    beforeEach(() => {
+      chunker = createChunker({
+        chunkSize: 200,
+        chunkOverlap: 40,
+        preserveMarkdownStructure: true,
+      });
+    });
+
+    it('should move a table that fits in a chunk to the next chunk whole', () => {
+      const intro = 'The rates below apply from 1 July. '.repeat(4).trim();
+      const content = `# Rates\n\n${intro}\n${table(3)}\n\nRates are reviewed yearly.`;
+
+      const chunks = chunker.chunk(content, 'doc-1');
+      const withTable = chunks.filter((c) => c.content.includes('| Code |'));
+
+      expect(withTable).toHaveLength(1);
+      expect(withTable[0].content).toContain(table(3));
+    });
+
+    it('should split a large table between rows and repeat its header', () => {
+      const content = `# Rates\n\n${table(12)}`;
+
+      const chunks = chunker.chunk(content, 'doc-1');
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        const lines = chunk.content.split('\n').filter((line) => line.startsWith('|'));
+        expect(lines.slice(0, 2).join('\n')).toBe(header);
+        expect(lines.slice(2).every((line) => /^\| C\d{2} \| .* \|$/.test(line))).toBe(true);
+      }
+
+      const rows = chunks.flatMap((c) => c.metadata.tables?.[0].rows ?? []);
+      expect(rows.map((r) => r[0])).toEqual(Array.from({ length: 12 }, (_, i) => row(i + 1).slice(2, 5)));
+    });
+
+    it('should store a structured copy of each table in chunk metadata', () => {
+      const chunks = chunker.chunk(`# Rates\n\n${table(2)}`, 'doc-1');
+
+      expect(chunks[0].metadata.tables).toEqual([
+        {
+          headers: ['Code', 'Description', 'Rate'],
+          rows: [
+            ['C01', 'Allowance item 1', '1.00'],
+            ['C02', 'Allowance item 2', '2.00'],
+          ],
+        },
+      ]);
+    });
+
+    it('should leave tables out of metadata for chunks without one', () => {
+      const chunks = chunker.chunk('# Notes\n\nNo tables here.', 'doc-1');
+
+      expect(chunks[0].metadata.tables).toBeUndefined();
+    });
+  });
+
   describe('Chunk Index Assignment', () => {
     it('should assign sequential chunk indices', () => {
       const chunker = createChunker({
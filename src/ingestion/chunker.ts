@@ -1,5 +1,6 @@
 import { ChunkInput, ChunkMetadata } from '../types/index.js';
 import { createChildLogger } from '../utils/logger.js';
+import { MarkdownTableRange, extractTables, findMarkdownTables } from './tables.js';
 
 const logger = createChildLogger('chunker');
 
@@ -17,6 +18,16 @@ interface MarkdownSection {
   endIndex: number;
 }
 
+/**
+ * Where to end a chunk and where the next one picks up. `carry` is text
+ * repeated at the start of the next chunk, i.e. a split table's header.
+ */
+interface ChunkSplit {
+  end: number;
+  resume: number;
+  carry: string;
+}
+
 /**
  * Structure-aware markdown chunker
  */
@@ -78,10 +89,10 @@ export class MarkdownChunker {
             startChar: currentStart,
             endChar: charOffset,
             pageNumber: this.extractPageNumber(currentChunk, baseMetadata),
-            metadata: {
-              ...baseMetadata,
-              section: this.extractSection(currentChunk),
-            },
+            metadata: this.withTables(
+              { ...baseMetadata, section: this.extractSection(currentChunk) },
+              currentChunk
+            ),
           });
           chunkIndex++;
         }
@@ -106,10 +117,10 @@ export class MarkdownChunker {
         startChar: currentStart,
         endChar: charOffset,
         pageNumber: this.extractPageNumber(currentChunk, baseMetadata),
-        metadata: {
-          ...baseMetadata,
-          section: this.extractSection(currentChunk),
-        },
+        metadata: this.withTables(
+          { ...baseMetadata, section: this.extractSection(currentChunk) },
+          currentChunk
+        ),
       });
     }
 
@@ -227,10 +238,10 @@ export class MarkdownChunker {
           startChar: section.startIndex,
           endChar: section.endIndex,
           pageNumber: this.extractPageNumber(section.content, baseMetadata),
-          metadata: {
-            ...baseMetadata,
-            section: section.title || undefined,
-          },
+          metadata: this.withTables(
+            { ...baseMetadata, section: section.title || undefined },
+            section.content
+          ),
         },
       ];
     }
@@ -244,20 +255,19 @@ export class MarkdownChunker {
     while (currentContent.length > 0) {
       let chunkContent: string;
       let chunkEnd: number;
+      let nextStart = section.endIndex;
 
       if (currentContent.length <= chunkSize) {
         chunkContent = currentContent;
         chunkEnd = section.endIndex;
         currentContent = '';
       } else {
-        // Find a good break point
-        const breakPoint = this.findBreakPoint(
-          currentContent,
-          chunkSize
-        );
-        chunkContent = currentContent.substring(0, breakPoint);
-        currentContent = currentContent.substring(breakPoint - chunkOverlap);
-        chunkEnd = currentStart + breakPoint;
+        // Find a good break point that does not cut through a table
+        const split = this.findSplit(currentContent, chunkSize, chunkOverlap);
+        chunkContent = currentContent.substring(0, split.end);
+        currentContent = split.carry + currentContent.substring(split.resume);
+        chunkEnd = currentStart + split.end;
+        nextStart = currentStart + split.resume;
       }
 
       if (chunkContent.trim().length > 0) {
@@ -268,19 +278,67 @@ export class MarkdownChunker {
           startChar: currentStart,
           endChar: chunkEnd,
           pageNumber: this.extractPageNumber(chunkContent, baseMetadata),
-          metadata: {
-            ...baseMetadata,
-            section: section.title || undefined,
-          },
+          metadata: this.withTables(
+            { ...baseMetadata, section: section.title || undefined },
+            chunkContent
+          ),
         });
         localIndex++;
-        currentStart = chunkEnd - chunkOverlap;
       }
+      currentStart = nextStart;
     }
 
     return chunks;
   }
 
+  /**
+   * Where to end a chunk of `content`. Tables are never cut mid-row: a table
+   * that fits in a chunk moves to the next chunk whole, and otherwise it is
+   * split between rows with its header repeated in the next chunk. Overlap
+   * never starts inside a table.
+   */
+  private findSplit(content: string, maxLength: number, overlap: number): ChunkSplit {
+    const tables = findMarkdownTables(content);
+    const breakPoint = this.findBreakPoint(content, maxLength);
+    const table = tables.find((t) => t.start < breakPoint && breakPoint < t.end);
+
+    if (!table) {
+      return {
+        end: breakPoint,
+        resume: this.overlapStart(breakPoint - overlap, tables),
+        carry: '',
+      };
+    }
+
+    // Moving the table would leave nothing but a heading behind
+    const textBefore = content.substring(0, table.start).replace(/^#{1,6}\s.*$/gm, '').trim();
+    if (textBefore.length > 0 && table.end - table.start <= maxLength) {
+      return { end: table.start, resume: table.start, carry: '' };
+    }
+
+    const rowEnds = table.rowEnds.filter((rowEnd) => rowEnd <= maxLength);
+    const end = rowEnds.length > 0 ? rowEnds[rowEnds.length - 1] : (table.rowEnds[0] ?? table.end);
+    const carry = end < table.end ? content.substring(table.start, table.headerEnd) : '';
+
+    return { end, resume: end, carry };
+  }
+
+  /**
+   * Move an overlap start that falls inside a table to the table's end
+   */
+  private overlapStart(position: number, tables: MarkdownTableRange[]): number {
+    const table = tables.find((t) => t.start < position && position < t.end);
+    return table ? table.end : position;
+  }
+
+  /**
+   * Chunk metadata with a structured copy of each table in the chunk
+   */
+  private withTables(metadata: ChunkMetadata, content: string): ChunkMetadata {
+    const tables = extractTables(content);
+    return tables.length > 0 ? { ...metadata, tables } : metadata;
+  }
+
   /**
    * Find a good break point (end of sentence or paragraph)
    */
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  DocumentRegistry,
+  loadDocumentRegistry,
+  DEFAULT_REGISTRY_PATH,
+} from './document-registry.js';
+
+describe('DocumentRegistry', () => {
+  const registry = new DocumentRegistry([
+    {
+      filename: 'PHLP-2025-MSP-Guide.pdf',
+      documentType: 'msp_guide',
+      title: 'PHLP 2025 Medicare Savings Programs Guide',
+      targetPrograms: ['QMB', 'SLMB'],
+      effectiveDate: '2025-02-01',
+      updateFrequency: 'annually_april',
+      sourceUrl: 'https://www.phlp.org/msp-guide.pdf',
+      sourceAuthority: 'secondary',
+    },
+    {
+      filename: 'PA-Code-Chapter-258',
+      documentType: 'pa_code',
+      sourceAuthority: 'primary',
+      legalWeight: 'regulatory',
+      sourceFormat: 'html_structured',
+    },
+  ]);
+
+  describe('find', () => {
+    it('should match an exact filename', () => {
+      expect(registry.find('PHLP-2025-MSP-Guide.pdf')?.documentType).toBe('msp_guide');
+    });
+
+    it('should ignore case and file extension', () => {
+      expect(registry.find('phlp-2025-msp-guide.PDF')?.documentType).toBe('msp_guide');
+      expect(registry.find('PA-Code-Chapter-258.html')?.documentType).toBe('pa_code');
+    });
+
+    it('should return undefined for unknown files', () => {
+      expect(registry.find('unknown.pdf')).toBeUndefined();
+    });
+  });
+
+  describe('getDocumentFields', () => {
+    it('should map registry values to document fields', () => {
+      const fields = registry.getDocumentFields('PHLP-2025-MSP-Guide.pdf');
+
+      expect(fields).toMatchObject({
+        title: 'PHLP 2025 Medicare Savings Programs Guide',
+        documentType: 'msp_guide',
+        sourceAuthority: 'secondary',
+        targetPrograms: ['QMB', 'SLMB'],
+        sourceUrl: 'https://www.phlp.org/msp-guide.pdf',
+        updateFrequency: 'annually_april',
+      });
+      expect(fields.effectiveDate).toEqual(new Date('2025-02-01'));
+    });
+
+    it('should include regulatory classification', () => {
+      const fields = registry.getDocumentFields('PA-Code-Chapter-258');
+
+      expect(fields.legalWeight).toBe('regulatory');
+      expect(fields.sourceFormat).toBe('html_structured');
+    });
+
+    it('should return an empty object for unknown files', () => {
+      expect(registry.getDocumentFields('unknown.pdf')).toEqual({});
+    });
+  });
+});
+
+describe('loadDocumentRegistry', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'registry-test-'));
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load entries from a registry file', async () => {
+    const path = join(tempDir, 'registry.json');
+    await writeFile(
+      path,
+      JSON.stringify({ documents: [{ filename: 'a.pdf', documentType: 'ltc_info' }] })
+    );
+
+    const registry = await loadDocumentRegistry(path);
+
+    expect(registry.size).toBe(1);
+    expect(registry.find('a.pdf')?.documentType).toBe('ltc_info');
+  });
+
+  it('should return an empty registry when the file is missing', async () => {
+    const registry = await loadDocumentRegistry(join(tempDir, 'missing.json'));
+
+    expect(registry.size).toBe(0);
+  });
+
+  it('should return an empty registry for invalid JSON', async () => {
+    const path = join(tempDir, 'invalid.json');
+    await writeFile(path, '{ not json');
+
+    const registry = await loadDocumentRegistry(path);
+
+    expect(registry.size).toBe(0);
+  });
+
+  it('should load the bundled registry', async () => {
+    const registry = await loadDocumentRegistry(DEFAULT_REGISTRY_PATH);
+
+    expect(registry.size).toBeGreaterThan(0);
+    expect(registry.find('PHLP-2025-MSP-Guide.pdf')?.documentType).toBe('msp_guide');
+  });
+});
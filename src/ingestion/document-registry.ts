@@ -0,0 +1,137 @@
+/**
+ * Document registry: curated classification for known source documents
+ * Loaded from data/metadata/document-registry.json and matched by filename
+ */
+
+import { readFile } from 'fs/promises';
+import { join, dirname, extname } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  DocumentInput,
+  DocumentType,
+  SourceAuthority,
+  LegalWeight,
+  SourceFormat,
+} from '../types/index.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('document-registry');
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/**
+ * Default location of the registry file
+ */
+export const DEFAULT_REGISTRY_PATH = join(__dirname, '../../data/metadata/document-registry.json');
+
+/**
+ * A registry entry (only the fields used to seed documents are typed)
+ */
+export interface DocumentRegistryEntry {
+  filename: string;
+  documentType?: DocumentType;
+  title?: string;
+  targetPrograms?: string[];
+  effectiveDate?: string;
+  updateFrequency?: string;
+  sourceUrl?: string;
+  sourceAuthority?: SourceAuthority;
+  legalWeight?: LegalWeight;
+  sourceFormat?: SourceFormat;
+  [key: string]: unknown;
+}
+
+/**
+ * Document fields seeded from the registry
+ */
+export type RegistryDocumentFields = Pick<
+  DocumentInput,
+  | 'title'
+  | 'documentType'
+  | 'sourceAuthority'
+  | 'legalWeight'
+  | 'sourceFormat'
+  | 'effectiveDate'
+  | 'targetPrograms'
+  | 'sourceUrl'
+  | 'updateFrequency'
+>;
+
+/**
+ * Lookup of registry entries by filename
+ */
+export class DocumentRegistry {
+  private entries: Map<string, DocumentRegistryEntry> = new Map();
+
+  constructor(entries: DocumentRegistryEntry[] = []) {
+    for (const entry of entries) {
+      this.entries.set(this.normalize(entry.filename), entry);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Find the entry for a filename. Matching ignores case and the file extension,
+   * so "OIM-LTC-Handbook.pdf" matches the "OIM-LTC-Handbook" entry.
+   */
+  find(filename: string): DocumentRegistryEntry | undefined {
+    return this.entries.get(this.normalize(filename));
+  }
+
+  /**
+   * Document fields for a filename, or an empty object if it is not registered
+   */
+  getDocumentFields(filename: string): RegistryDocumentFields {
+    const entry = this.find(filename);
+    if (!entry) {
+      return {};
+    }
+
+    const effectiveDate = entry.effectiveDate ? new Date(entry.effectiveDate) : undefined;
+
+    return {
+      title: entry.title,
+      documentType: entry.documentType,
+      sourceAuthority: entry.sourceAuthority,
+      legalWeight: entry.legalWeight,
+      sourceFormat: entry.sourceFormat,
+      effectiveDate:
+        effectiveDate && !isNaN(effectiveDate.getTime()) ? effectiveDate : undefined,
+      targetPrograms: entry.targetPrograms,
+      sourceUrl: entry.sourceUrl,
+      updateFrequency: entry.updateFrequency,
+    };
+  }
+
+  private normalize(filename: string): string {
+    const lower = filename.toLowerCase();
+    const ext = extname(lower);
+    return ext ? lower.slice(0, -ext.length) : lower;
+  }
+}
+
+/**
+ * Load the registry from disk. A missing or invalid file yields an empty registry
+ * so ingestion still works without curated metadata.
+ */
+export async function loadDocumentRegistry(
+  path: string = DEFAULT_REGISTRY_PATH
+): Promise<DocumentRegistry> {
+  try {
+    const raw = await readFile(path, 'utf-8');
+    const parsed = JSON.parse(raw) as { documents?: DocumentRegistryEntry[] };
+    const entries = (parsed.documents ?? []).filter(
+      (entry) => typeof entry.filename === 'string'
+    );
+
+    logger.info({ path, entryCount: entries.length }, 'Document registry loaded');
+
+    return new DocumentRegistry(entries);
+  } catch (error) {
+    logger.warn({ error, path }, 'Could not load document registry, continuing without it');
+    return new DocumentRegistry();
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { htmlToMarkdown, extractHtmlTitle } from './html-to-markdown.js';
+import { createChunker } from './chunker.js';
+
+describe('htmlToMarkdown', () => {
+  it('should turn headings into markdown headers without inline formatting', () => {
+    const markdown = htmlToMarkdown('<h1>Chapter 440 <b>Resources</b></h1><h3>440.1 General</h3>');
+
+    expect(markdown).toBe('# Chapter 440 Resources\n\n### 440.1 General');
+  });
+
+  it('should keep paragraphs, line breaks and emphasis', () => {
+    const markdown = htmlToMarkdown(
+      '<p>Apply at your <strong>County Assistance Office</strong>.<br>Bring ID.<p>Next &amp; last'
+    );
+
+    expect(markdown).toBe('Apply at your **County Assistance Office**.\nBring ID.\n\nNext & last');
+  });
+
+  it('should keep nested and ordered lists', () => {
+    const markdown = htmlToMarkdown(
+      '<ul><li>Income<ul><li>Wages</li><li>Pensions</li></ul></li><li>Resources</ul>' +
+        '<ol start="2"><li>Second</li><li>Third</li></ol>'
+    );
+
+    expect(markdown).toBe(
+      '- Income\n  - Wages\n  - Pensions\n- Resources\n\n2. Second\n3. Third'
+    );
+  });
+
+  it('should turn data tables into markdown tables', () => {
+    const markdown = htmlToMarkdown(`
+      <table>
+        <thead><tr><th>Program</th><th>Monthly limit</th></tr></thead>
+        <tbody>
+          <tr><td>QMB</td><td>$1,325</td></tr>
+          <tr><td>SLMB<td>$1,585 | individual
+        </tbody>
+      </table>`);
+
+    expect(markdown).toBe(
+      [
+        '| Program | Monthly limit |',
+        '| --- | --- |',
+        '| QMB | $1,325 |',
+        '| SLMB | $1,585 \\| individual |',
+      ].join('\n')
+    );
+  });
+
+  it('should render layout tables as ordinary content', () => {
+    const markdown = htmlToMarkdown(
+      '<table><tr><td><h2>Estate Recovery</h2><p>Body text</p></td><td>Sidebar</td></tr></table>'
+    );
+
+    expect(markdown).toBe('## Estate Recovery\n\nBody text\n\nSidebar');
+  });
+
+  it('should drop scripts, styles and navigation', () => {
+    const markdown = htmlToMarkdown(`
+      <html><head><title>Page</title><style>p { color: red; }</style></head>
+      <body>
+        <nav><a href="/">Home</a></nav>
+        <script>document.write("<p>hidden</p>");</script>
+        <!-- comment -->
+        <p>Visible</p>
+      </body></html>`);
+
+    expect(markdown).toBe('Visible');
+  });
+
+  it('should produce sections the chunker can split on', () => {
+    const markdown = htmlToMarkdown(
+      '<h2>Eligibility</h2><p>Age 65 or older.</p><h2>How to Apply</h2><p>Call the CAO.</p>'
+    );
+
+    const chunks = createChunker({ preserveMarkdownStructure: true }).chunk(markdown, 'doc-1', {
+      filename: 'page.html',
+    });
+
+    expect(chunks.map((chunk) => chunk.metadata.section)).toEqual(['Eligibility', 'How to Apply']);
+  });
+});
+
+describe('extractHtmlTitle', () => {
+  it('should prefer the title element and fall back to the first h1', () => {
+    expect(extractHtmlTitle('<title> PACE &amp; PACENET </title><h1>Other</h1>')).toBe(
+      'PACE & PACENET'
+    );
+    expect(extractHtmlTitle('<h1>Estate <em>Recovery</em></h1>')).toBe('Estate Recovery');
+    expect(extractHtmlTitle('<p>No title</p>')).toBeUndefined();
+  });
+});
@@ -0,0 +1,429 @@
+/**
+ * Converts HTML to Markdown, keeping the structure the chunker relies on:
+ * headings become `#` headers, lists stay lists and data tables become
+ * Markdown tables. Scripts, styles and page navigation are dropped.
+ */
+
+import { formatMarkdownTable } from './tables.js';
+
+interface HtmlElement {
+  tag: string;
+  attrs: string;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+/**
+ * Elements with no closing tag
+ */
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source',
+  'track', 'wbr',
+]);
+
+/**
+ * Elements whose content is never part of the document text
+ */
+const SKIPPED_TAGS = new Set([
+  'head', 'script', 'style', 'noscript', 'template', 'svg', 'nav', 'form', 'iframe', 'button',
+  'select', 'textarea',
+]);
+
+/**
+ * Elements whose content is text, not markup
+ */
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'pre', 'textarea']);
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'center', 'dd', 'details', 'div', 'dl',
+  'dt', 'fieldset', 'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'header', 'hr', 'html', 'li', 'main', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody',
+  'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+/**
+ * Open elements closed implicitly when one of these tags starts, e.g. `<li>`
+ * ends the previous `<li>` of the same list
+ */
+const IMPLIED_END: Record<string, { closes: string[]; boundary: string[] }> = {
+  li: { closes: ['li'], boundary: ['ul', 'ol'] },
+  p: { closes: ['p'], boundary: ['div', 'li', 'td', 'th', 'blockquote', 'section', 'article'] },
+  tr: { closes: ['tr', 'td', 'th'], boundary: ['table', 'thead', 'tbody', 'tfoot'] },
+  td: { closes: ['td', 'th'], boundary: ['tr', 'table'] },
+  th: { closes: ['td', 'th'], boundary: ['tr', 'table'] },
+  dt: { closes: ['dt', 'dd'], boundary: ['dl'] },
+  dd: { closes: ['dt', 'dd'], boundary: ['dl'] },
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  bull: '•',
+  sect: '§',
+  para: '¶',
+  copy: '©',
+  reg: '®',
+  deg: '°',
+};
+
+/**
+ * Convert an HTML document or fragment to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  const root = parseHtml(html);
+  return renderBlocks(root.children, 0)
+    .join('\n\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Title of an HTML document, from `<title>` or the first `<h1>`
+ */
+export function extractHtmlTitle(html: string): string | undefined {
+  const match =
+    /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html) ?? /<h1[^>]*>([\s\S]*?)<\/h1>/i.exec(html);
+  if (!match) {
+    return undefined;
+  }
+  const title = collapse(decodeEntities(match[1].replace(/<[^>]+>/g, ''))).trim();
+  return title || undefined;
+}
+
+/**
+ * Build a loose element tree. Unknown closing tags are ignored and unclosed
+ * elements end with their parent, which is enough for real-world pages.
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: 'root', attrs: '', children: [] };
+  const stack: HtmlElement[] = [root];
+  const source = html.replace(/<!--[\s\S]*?-->/g, '').replace(/<!DOCTYPE[^>]*>/gi, '');
+  const tokenPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>|[^<]+|</g;
+
+  const lowerSource = source.toLowerCase();
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(source)) !== null) {
+    const [token, closing, rawTag, attrs] = match;
+
+    if (!rawTag) {
+      stack[stack.length - 1].children.push(token);
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+
+    if (closing) {
+      const index = findOpen(stack, tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    const implied = IMPLIED_END[tag];
+    if (implied) {
+      closeImplied(stack, implied.closes, implied.boundary);
+    } else if (BLOCK_TAGS.has(tag)) {
+      // A block element ends an open paragraph
+      closeImplied(stack, ['p'], IMPLIED_END.p.boundary);
+    }
+
+    const element: HtmlElement = { tag, attrs, children: [] };
+    stack[stack.length - 1].children.push(element);
+
+    // Raw text elements: take everything up to the closing tag as text
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const end = lowerSource.indexOf(`</${tag}`, tokenPattern.lastIndex);
+      const stop = end === -1 ? source.length : end;
+      element.children.push(source.slice(tokenPattern.lastIndex, stop).replace(/<[^>]+>/g, ''));
+      const close = source.indexOf('>', stop);
+      tokenPattern.lastIndex = close === -1 ? source.length : close + 1;
+    } else if (!VOID_TAGS.has(tag) && !attrs.trimEnd().endsWith('/')) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+function findOpen(stack: HtmlElement[], tag: string): number {
+  for (let i = stack.length - 1; i > 0; i--) {
+    if (stack[i].tag === tag) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function closeImplied(stack: HtmlElement[], closes: string[], boundary: string[]): void {
+  for (let i = stack.length - 1; i > 0; i--) {
+    const tag = stack[i].tag;
+    if (boundary.includes(tag)) {
+      return;
+    }
+    if (closes.includes(tag)) {
+      stack.length = i;
+      return;
+    }
+  }
+}
+
+function isElement(node: HtmlNode): node is HtmlElement {
+  return typeof node !== 'string';
+}
+
+function isBlock(node: HtmlNode): boolean {
+  return isElement(node) && (BLOCK_TAGS.has(node.tag) || SKIPPED_TAGS.has(node.tag));
+}
+
+/**
+ * Render a run of sibling nodes as Markdown blocks. Inline content between
+ * block elements becomes a paragraph.
+ */
+function renderBlocks(nodes: HtmlNode[], depth: number): string[] {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const paragraph = inline
+      .split('\n')
+      .map((line) => line.trim())
+      .join('\n')
+      .trim();
+    if (paragraph) {
+      blocks.push(paragraph);
+    }
+    inline = '';
+  };
+
+  for (const node of nodes) {
+    if (!isBlock(node)) {
+      inline += renderInline(node);
+      continue;
+    }
+    flush();
+    const block = renderBlock(node as HtmlElement, depth);
+    if (block) {
+      blocks.push(block);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+function renderBlock(element: HtmlElement, depth: number): string {
+  const { tag } = element;
+
+  if (SKIPPED_TAGS.has(tag)) {
+    return '';
+  }
+
+  const heading = /^h([1-6])$/.exec(tag);
+  if (heading) {
+    const text = plainText(element.children);
+    return text ? `${'#'.repeat(Number(heading[1]))} ${text}` : '';
+  }
+
+  switch (tag) {
+    case 'ul':
+    case 'ol':
+      return renderList(element, depth);
+    case 'table':
+      return renderTable(element, depth);
+    case 'pre': {
+      const code = decodeEntities(textContent(element)).replace(/^\n+|\s+$/g, '');
+      return code ? '```\n' + code + '\n```' : '';
+    }
+    case 'blockquote':
+      return renderBlocks(element.children, depth)
+        .join('\n\n')
+        .split('\n')
+        .map((line) => (line ? `> ${line}` : '>'))
+        .join('\n');
+    case 'hr':
+      return '';
+    default:
+      return renderBlocks(element.children, depth).join('\n\n');
+  }
+}
+
+function renderList(list: HtmlElement, depth: number): string {
+  const indent = '  '.repeat(depth);
+  const ordered = list.tag === 'ol';
+  const start = ordered ? Number(/\bstart=["']?(\d+)/i.exec(list.attrs)?.[1] ?? 1) : 1;
+  const lines: string[] = [];
+
+  const items = list.children.filter(
+    (child): child is HtmlElement => isElement(child) && child.tag === 'li'
+  );
+
+  items.forEach((item, index) => {
+    const nested = item.children.filter(
+      (child): child is HtmlElement =>
+        isElement(child) && (child.tag === 'ul' || child.tag === 'ol')
+    );
+    const text = renderBlocks(
+      item.children.filter((child) => !nested.includes(child as HtmlElement)),
+      depth + 1
+    )
+      .join(' ')
+      .replace(/\s*\n\s*/g, ' ');
+    const marker = ordered ? `${start + index}.` : '-';
+
+    lines.push(`${indent}${marker} ${text}`.trimEnd());
+    for (const sublist of nested) {
+      const rendered = renderList(sublist, depth + 1);
+      if (rendered) {
+        lines.push(rendered);
+      }
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Data tables become Markdown tables with the first row as the header.
+ * Single-column tables and tables holding headings or other tables are page
+ * layout, so their cells are rendered as ordinary blocks instead.
+ */
+function renderTable(table: HtmlElement, depth: number): string {
+  const rows = collectRows(table);
+  const width = Math.max(0, ...rows.map((row) => row.length));
+
+  if (width <= 1 || rows.flat().some(containsLayout)) {
+    return rows
+      .flat()
+      .flatMap((cell) => renderBlocks(cell.children, depth))
+      .join('\n\n');
+  }
+
+  const cells = rows
+    .map((row) => row.map((cell) => plainText(cell.children)))
+    .filter((row) => row.some(Boolean));
+
+  return cells.length > 0 ? formatMarkdownTable(cells) : '';
+}
+
+/**
+ * Rows of a table, looking through thead/tbody/tfoot but not into nested tables
+ */
+function collectRows(element: HtmlElement): HtmlElement[][] {
+  const rows: HtmlElement[][] = [];
+  for (const child of element.children) {
+    if (!isElement(child)) {
+      continue;
+    }
+    if (child.tag === 'tr') {
+      rows.push(
+        child.children.filter(
+          (cell): cell is HtmlElement => isElement(cell) && (cell.tag === 'td' || cell.tag === 'th')
+        )
+      );
+    } else if (child.tag === 'thead' || child.tag === 'tbody' || child.tag === 'tfoot') {
+      rows.push(...collectRows(child));
+    }
+  }
+  return rows;
+}
+
+function containsLayout(node: HtmlNode): boolean {
+  return (
+    isElement(node) &&
+    node.children.some(
+      (child) => isElement(child) && (/^(h[1-6]|table)$/.test(child.tag) || containsLayout(child))
+    )
+  );
+}
+
+function renderInline(node: HtmlNode): string {
+  if (!isElement(node)) {
+    return collapse(decodeEntities(node));
+  }
+
+  switch (node.tag) {
+    case 'br':
+      return '\n';
+    case 'img':
+      return '';
+    case 'strong':
+    case 'b':
+      return wrap(node.children.map(renderInline).join(''), '**');
+    case 'em':
+    case 'i':
+      return wrap(node.children.map(renderInline).join(''), '_');
+    case 'code':
+      return wrap(node.children.map(renderInline).join(''), '`');
+    default:
+      // Block elements wrapped in inline ones (e.g. a div inside a link) are flattened
+      return node.children
+        .map((child) => {
+          if (isElement(child) && SKIPPED_TAGS.has(child.tag)) {
+            return '';
+          }
+          return isBlock(child) ? ` ${renderInline(child)} ` : renderInline(child);
+        })
+        .join('');
+  }
+}
+
+/**
+ * Text without formatting, on one line, for headings and table cells
+ */
+function plainText(nodes: HtmlNode[]): string {
+  const text = (node: HtmlNode): string => {
+    if (!isElement(node)) {
+      return decodeEntities(node);
+    }
+    if (SKIPPED_TAGS.has(node.tag)) {
+      return '';
+    }
+    const inner = node.children.map(text).join('');
+    return isBlock(node) || node.tag === 'br' ? ` ${inner} ` : inner;
+  };
+  return collapse(nodes.map(text).join('')).trim();
+}
+
+function wrap(text: string, marker: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return text;
+  }
+  const leading = text.startsWith(' ') ? ' ' : '';
+  const trailing = text.endsWith(' ') ? ' ' : '';
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function textContent(node: HtmlNode): string {
+  return isElement(node) ? node.children.map(textContent).join('') : node;
+}
+
+function collapse(text: string): string {
+  return text.replace(/[ \t\r\n\f]+/g, ' ');
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
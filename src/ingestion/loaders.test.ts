@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { LMStudioClient } from '../clients/lm-studio.js';
+import { UnsupportedFileTypeError } from '../types/index.js';
+import { createLoaderRegistry, DocxLoader, HtmlLoader, TextLoader } from './loaders.js';
+
+vi.mock('mammoth', () => ({
+  default: {
+    convertToHtml: vi.fn(async () => ({
+      value:
+        '<h1>CAO Notice</h1><p>Your renewal is due.</p>' +
+        '<table><tr><td>A</td><td>B</td></tr></table>',
+      messages: [],
+    })),
+  },
+}));
+
+describe('LoaderRegistry', () => {
+  const registry = createLoaderRegistry({} as LMStudioClient);
+
+  it('should pick loaders by extension, ignoring case', () => {
+    expect(registry.forFile('/data/notice.DOCX')).toBeInstanceOf(DocxLoader);
+    expect(registry.forFile('page.htm')).toBeInstanceOf(HtmlLoader);
+    expect(registry.forFile('scan.png')).toBeUndefined();
+    expect(registry.extensions).toEqual([
+      '.docx', '.htm', '.html', '.markdown', '.md', '.pdf', '.txt',
+    ]);
+  });
+
+  it('should pick loaders by MIME type, ignoring parameters', () => {
+    expect(registry.forMimeType('text/html; charset=utf-8')).toBeInstanceOf(HtmlLoader);
+    expect(registry.forMimeType('application/octet-stream')).toBeUndefined();
+  });
+
+  it('should throw for unsupported files', () => {
+    expect(() => registry.get('scan.png')).toThrow(UnsupportedFileTypeError);
+  });
+
+  it('should let a later loader take over an extension', () => {
+    const custom = { extensions: ['.txt'], mimeTypes: [], load: vi.fn() };
+
+    registry.register(custom);
+
+    expect(registry.forFile('notes.txt')).toBe(custom);
+  });
+});
+
+describe('document loaders', () => {
+  let dir: string;
+  const registry = createLoaderRegistry({} as LMStudioClient);
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'loaders-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should load HTML as markdown, using the title when there is no h1', async () => {
+    const filepath = join(dir, 'estate-recovery.html');
+    await writeFile(
+      filepath,
+      '<html><head><title>Estate Recovery</title></head>' +
+        '<body><h2>Who</h2><ul><li>Age 55+</li></ul></body></html>'
+    );
+    const onPage = vi.fn();
+
+    const result = await registry.get(filepath).load(filepath, { onPage });
+
+    expect(result).toMatchObject({ filename: 'estate-recovery.html', totalPages: 1 });
+    expect(result.fullMarkdown).toBe('# Estate Recovery\n\n## Who\n\n- Age 55+');
+    expect(onPage).toHaveBeenCalledWith({
+      pageNumber: 1,
+      pagesDone: 1,
+      totalPages: 1,
+      failed: false,
+    });
+  });
+
+  it('should load DOCX through HTML', async () => {
+    const result = await new DocxLoader().load(join(dir, 'notice.docx'));
+
+    expect(result.pages[0].markdown).toBe(
+      '# CAO Notice\n\nYour renewal is due.\n\n| A | B |\n| --- | --- |'
+    );
+  });
+
+  it('should split plain text into pages on form feeds', async () => {
+    const filepath = join(dir, 'memo.txt');
+    await writeFile(filepath, 'Page one\r\n\fPage two\f\f');
+
+    const result = await new TextLoader().load(filepath);
+
+    expect(result.pages.map((page) => page.markdown)).toEqual(['Page one', 'Page two']);
+    expect(result.fullMarkdown).toBe('Page one\n\n---\n\nPage two');
+  });
+
+  it('should load markdown as it is', async () => {
+    const filepath = join(dir, 'guide.md');
+    await writeFile(filepath, '# Guide\n\n| a | b |\n| --- | --- |\n');
+
+    const result = await registry.get(filepath).load(filepath);
+
+    expect(result.fullMarkdown).toBe('# Guide\n\n| a | b |\n| --- | --- |');
+  });
+});
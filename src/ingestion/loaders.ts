@@ -0,0 +1,216 @@
+import { readFile } from 'fs/promises';
+import { basename, extname } from 'path';
+import mammoth from 'mammoth';
+import { OcrPage, OcrResult, UnsupportedFileTypeError } from '../types/index.js';
+import { LMStudioClient } from '../clients/lm-studio.js';
+import { createChildLogger } from '../utils/logger.js';
+import { sanitizeForPostgres } from '../utils/text-sanitizer.js';
+import {
+  PdfProcessOptions,
+  PdfProcessor,
+  PdfProcessorOptions,
+  createPdfProcessor,
+} from './pdf-processor.js';
+import { extractHtmlTitle, htmlToMarkdown } from './html-to-markdown.js';
+
+const logger = createChildLogger('document-loaders');
+
+/**
+ * Progress reporting, cancellation and OCR reuse while loading. Only PDFs
+ * that need OCR report more than one page at a time, can be stopped midway or
+ * reuse cached OCR output.
+ */
+export type LoadOptions = PdfProcessOptions;
+
+/**
+ * Turns a file into Markdown pages for chunking
+ */
+export interface DocumentLoader {
+  /** Lowercase file extensions including the dot, e.g. `.pdf` */
+  readonly extensions: string[];
+  /** MIME types, matched against a Content-Type header without its parameters */
+  readonly mimeTypes: string[];
+  load(filepath: string, options?: LoadOptions): Promise<OcrResult>;
+}
+
+/**
+ * Build a result from Markdown pages. Text formats have no real pages, so
+ * they are a single page unless the text contains form feeds.
+ */
+function toResult(filepath: string, markdown: string[], options: LoadOptions): OcrResult {
+  const pages: OcrPage[] = markdown
+    .map((text) => sanitizeForPostgres(text).trim())
+    .filter((text) => text.length > 0)
+    .map((text, index) => ({ pageNumber: index + 1, markdown: text, confidence: 1.0 }));
+
+  for (const { pageNumber } of pages) {
+    options.onPage?.({
+      pageNumber,
+      pagesDone: pageNumber,
+      totalPages: pages.length,
+      failed: false,
+    });
+  }
+
+  return {
+    filename: basename(filepath),
+    pages,
+    fullMarkdown: pages.map((p) => p.markdown).join('\n\n---\n\n'),
+    totalPages: pages.length,
+  };
+}
+
+/**
+ * PDFs, using native text where available and OCR otherwise
+ */
+export class PdfLoader implements DocumentLoader {
+  readonly extensions = ['.pdf'];
+  readonly mimeTypes = ['application/pdf'];
+  private processor: PdfProcessor;
+
+  constructor(lmStudio: LMStudioClient, options?: PdfProcessorOptions) {
+    this.processor = createPdfProcessor(lmStudio, options);
+  }
+
+  load(filepath: string, options: LoadOptions = {}): Promise<OcrResult> {
+    return this.processor.process(filepath, options);
+  }
+
+  /**
+   * OCR selected pages again, e.g. ones that scored poorly the first time
+   */
+  reprocessPages(
+    filepath: string,
+    pageNumbers: number[],
+    options: LoadOptions = {}
+  ): Promise<OcrPage[]> {
+    return this.processor.reprocessPages(filepath, pageNumbers, options);
+  }
+}
+
+/**
+ * Saved web pages. Headings, lists and tables are kept as Markdown, and the
+ * page title becomes the heading when the page has no `<h1>`.
+ */
+export class HtmlLoader implements DocumentLoader {
+  readonly extensions = ['.html', '.htm'];
+  readonly mimeTypes = ['text/html', 'application/xhtml+xml'];
+
+  async load(filepath: string, options: LoadOptions = {}): Promise<OcrResult> {
+    const html = await readFile(filepath, 'utf-8');
+    return toResult(filepath, [HtmlLoader.toMarkdown(html)], options);
+  }
+
+  static toMarkdown(html: string): string {
+    const markdown = htmlToMarkdown(html);
+    const title = extractHtmlTitle(html);
+    return title && !/^# /m.test(markdown) ? `# ${title}\n\n${markdown}` : markdown;
+  }
+}
+
+/**
+ * Word documents, converted through HTML so heading styles, lists and tables
+ * survive
+ */
+export class DocxLoader implements DocumentLoader {
+  readonly extensions = ['.docx'];
+  readonly mimeTypes = [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ];
+
+  async load(filepath: string, options: LoadOptions = {}): Promise<OcrResult> {
+    const { value: html, messages } = await mammoth.convertToHtml({ path: filepath });
+    if (messages.length > 0) {
+      logger.debug({ filepath, messages }, 'DOCX conversion warnings');
+    }
+    return toResult(filepath, [htmlToMarkdown(html)], options);
+  }
+}
+
+/**
+ * Markdown files, used as they are
+ */
+export class MarkdownLoader implements DocumentLoader {
+  readonly extensions = ['.md', '.markdown'];
+  readonly mimeTypes = ['text/markdown'];
+
+  async load(filepath: string, options: LoadOptions = {}): Promise<OcrResult> {
+    return toResult(filepath, [await readFile(filepath, 'utf-8')], options);
+  }
+}
+
+/**
+ * Plain text files, with form feeds as page breaks
+ */
+export class TextLoader implements DocumentLoader {
+  readonly extensions = ['.txt'];
+  readonly mimeTypes = ['text/plain'];
+
+  async load(filepath: string, options: LoadOptions = {}): Promise<OcrResult> {
+    const text = await readFile(filepath, 'utf-8');
+    return toResult(filepath, text.replace(/\r\n/g, '\n').split('\f'), options);
+  }
+}
+
+/**
+ * Loaders by file extension and MIME type. A loader registered later takes
+ * over the extensions and MIME types it shares with earlier ones.
+ */
+export class LoaderRegistry {
+  private loaders: DocumentLoader[] = [];
+
+  register(loader: DocumentLoader): this {
+    this.loaders.unshift(loader);
+    return this;
+  }
+
+  /**
+   * Loader for a file path or URL path, by its extension
+   */
+  forFile(filepath: string): DocumentLoader | undefined {
+    const extension = extname(filepath).toLowerCase();
+    return this.loaders.find((loader) => loader.extensions.includes(extension));
+  }
+
+  /**
+   * Loader for a Content-Type header value
+   */
+  forMimeType(contentType: string): DocumentLoader | undefined {
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    return this.loaders.find((loader) => loader.mimeTypes.includes(mimeType));
+  }
+
+  /**
+   * Loader for a file, throwing if its type is not supported
+   */
+  get(filepath: string): DocumentLoader {
+    const loader = this.forFile(filepath);
+    if (!loader) {
+      throw new UnsupportedFileTypeError(filepath, this.extensions);
+    }
+    return loader;
+  }
+
+  isSupported(filepath: string): boolean {
+    return this.forFile(filepath) !== undefined;
+  }
+
+  get extensions(): string[] {
+    return [...new Set(this.loaders.flatMap((loader) => loader.extensions))].sort();
+  }
+}
+
+/**
+ * Create a registry with the built-in PDF, DOCX, HTML, Markdown and text loaders
+ */
+export function createLoaderRegistry(
+  lmStudio: LMStudioClient,
+  pdfOptions?: PdfProcessorOptions
+): LoaderRegistry {
+  return new LoaderRegistry()
+    .register(new PdfLoader(lmStudio, pdfOptions))
+    .register(new DocxLoader())
+    .register(new HtmlLoader())
+    .register(new MarkdownLoader())
+    .register(new TextLoader());
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { PostgresStore } from '../clients/postgres.js';
+import { OcrPageCache } from './ocr-cache.js';
+
+const KEY = { fileHash: 'abc123', pageNumber: 3, model: 'allenai/olmocr-2-7b' };
+
+describe('OcrPageCache', () => {
+  it('should key entries by file hash, page and model', () => {
+    const key = OcrPageCache.keyOf(KEY);
+
+    expect(OcrPageCache.keyOf({ ...KEY })).toBe(key);
+    expect(OcrPageCache.keyOf({ ...KEY, pageNumber: 4 })).not.toBe(key);
+    expect(OcrPageCache.keyOf({ ...KEY, model: 'other-ocr' })).not.toBe(key);
+    expect(OcrPageCache.keyOf({ ...KEY, fileHash: 'def456' })).not.toBe(key);
+  });
+
+  it('should store entries under their key', async () => {
+    const postgres = {
+      cacheOcrPage: vi.fn().mockResolvedValue(undefined),
+      getCachedOcrPage: vi.fn().mockResolvedValue('# Page 3'),
+    };
+    const cache = new OcrPageCache(postgres as unknown as PostgresStore);
+
+    await cache.set(KEY, '# Page 3');
+    const markdown = await cache.get(KEY);
+
+    expect(postgres.cacheOcrPage).toHaveBeenCalledWith({
+      ...KEY,
+      cacheKey: OcrPageCache.keyOf(KEY),
+      markdown: '# Page 3',
+    });
+    expect(postgres.getCachedOcrPage).toHaveBeenCalledWith(OcrPageCache.keyOf(KEY));
+    expect(markdown).toBe('# Page 3');
+  });
+});
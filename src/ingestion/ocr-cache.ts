@@ -0,0 +1,50 @@
+/**
+ * Cache of raw OCR output per PDF page. Entries are addressed by the PDF's
+ * content hash, the page number and the OCR model, so a moved or renamed file
+ * still hits the cache while a different model starts afresh.
+ */
+
+import { PostgresStore } from '../clients/postgres.js';
+import { OcrCachePruneFilter, OcrCacheStats } from '../types/index.js';
+import { hashString } from '../utils/hash.js';
+
+export interface OcrPageKey {
+  fileHash: string;
+  pageNumber: number;
+  model: string;
+}
+
+export class OcrPageCache {
+  private postgres: PostgresStore;
+
+  constructor(postgres: PostgresStore) {
+    this.postgres = postgres;
+  }
+
+  static keyOf({ fileHash, pageNumber, model }: OcrPageKey): string {
+    return hashString(`${fileHash}:${pageNumber}:${model}`);
+  }
+
+  get(key: OcrPageKey): Promise<string | null> {
+    return this.postgres.getCachedOcrPage(OcrPageCache.keyOf(key));
+  }
+
+  set(key: OcrPageKey, markdown: string): Promise<void> {
+    return this.postgres.cacheOcrPage({ ...key, cacheKey: OcrPageCache.keyOf(key), markdown });
+  }
+
+  stats(): Promise<OcrCacheStats> {
+    return this.postgres.getOcrCacheStats();
+  }
+
+  prune(filter: OcrCachePruneFilter = {}): Promise<number> {
+    return this.postgres.pruneOcrCache(filter);
+  }
+}
+
+/**
+ * Create an OCR page cache stored in Postgres
+ */
+export function createOcrPageCache(postgres: PostgresStore): OcrPageCache {
+  return new OcrPageCache(postgres);
+}
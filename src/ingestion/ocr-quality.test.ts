@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { MIN_PAGE_QUALITY, scorePageText } from './ocr-quality.js';
+
+const CLEAN_PAGE = `Medical Assistance for Workers with Disabilities
+
+An applicant must be between 16 and 64 years of age, have a disability and be employed.
+Countable monthly income must be below 250 percent of the federal poverty level. The
+applicant pays a monthly premium of 5 percent of countable income. Resources may not
+exceed $10,000, although retirement accounts and the home are excluded.`;
+
+const GARBLED_PAGE = `M3d1c@l  Ass1st@nce f0r W0rk3rs w1th D1s@b1l1t13s
+Aⁿ ▯▯▯ℓ¡c∆nt m⌐st b▯ ƀ▯tw▯▯n ¹⁶ ∆nd ⁶⁴ ▯▯▯rs
+Cxvntblq mnthly ncmq mst bq blw ▯▯▯ prcnt ▯f thq fdrl pvrty lvl`;
+
+describe('scorePageText', () => {
+  it('should score clean text above the re-OCR threshold', () => {
+    const quality = scorePageText(CLEAN_PAGE);
+
+    expect(quality.score).toBeGreaterThanOrEqual(MIN_PAGE_QUALITY);
+    expect(quality.dictionaryRatio).toBeGreaterThan(0.9);
+    expect(quality.garbageRatio).toBe(0);
+    expect(quality.nativeAgreement).toBeUndefined();
+  });
+
+  it('should score garbled text below the re-OCR threshold', () => {
+    const quality = scorePageText(GARBLED_PAGE);
+
+    expect(quality.score).toBeLessThan(MIN_PAGE_QUALITY);
+    expect(quality.garbageRatio).toBeGreaterThan(0.05);
+    expect(quality.dictionaryRatio).toBeLessThan(0.5);
+  });
+
+  it('should score empty text as zero', () => {
+    expect(scorePageText('  \n ')).toEqual({
+      score: 0,
+      density: 0,
+      dictionaryRatio: 0,
+      garbageRatio: 0,
+    });
+  });
+
+  it('should count a short page as less dense than a full one', () => {
+    const short = scorePageText('Appendix A');
+    const full = scorePageText(CLEAN_PAGE.repeat(3));
+
+    expect(short.density).toBeLessThan(0.1);
+    expect(full.density).toBe(1);
+  });
+
+  it('should measure agreement with native text', () => {
+    const matching = scorePageText(CLEAN_PAGE, CLEAN_PAGE);
+    const unrelated = scorePageText(CLEAN_PAGE, 'Nursing home care requires a level of care assessment.');
+
+    expect(matching.nativeAgreement).toBe(1);
+    expect(unrelated.nativeAgreement).toBeLessThan(0.2);
+    expect(matching.score).toBeGreaterThan(unrelated.score);
+  });
+});
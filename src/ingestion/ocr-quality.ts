@@ -0,0 +1,140 @@
+/**
+ * Page text quality heuristics. PDF pages are scored so native text and OCR
+ * output can be chosen between page by page, and so pages that came out
+ * badly can be found and sent through OCR again.
+ */
+
+import { PageQuality } from '../types/index.js';
+
+/**
+ * Pages scoring below this are sent to OCR during ingestion and picked up by
+ * `pnpm ingest reocr`
+ */
+export const MIN_PAGE_QUALITY = 0.6;
+
+// Letters and digits at which a page counts as full
+const FULL_PAGE_CHARS = 800;
+
+// Weights of the parts of the combined score
+const DICTIONARY_WEIGHT = 0.55;
+const GARBAGE_WEIGHT = 0.3;
+const DENSITY_WEIGHT = 0.15;
+// Share of the score taken by agreement with native text, when there is some
+const AGREEMENT_WEIGHT = 0.3;
+// A garbage ratio of 1 / GARBAGE_TOLERANCE or more zeroes its part of the score
+const GARBAGE_TOLERANCE = 4;
+
+// Frequent English words and program vocabulary. Words outside the list still
+// count when they are spelled like real words (see `looksLikeWord`).
+const COMMON_WORDS = new Set(
+  (
+    'a an and are as at be been but by can could did do does for from had has have he her his ' +
+    'i if in into is it its may me might must my no not of on or our shall she should so than ' +
+    'that the their them then there these they this those to under up us was we were what when ' +
+    'where which who will with would you your all any each every more most other same such only ' +
+    'also about after before between during over per within without one two three four ' +
+    'five six seven eight nine ten first second new date page section chapter part table total ' +
+    'amount month monthly year annual income resources assets benefits benefit eligibility ' +
+    'eligible medicaid medicare chip snap ssi ltc care home nursing waiver program programs ' +
+    'applicant applicants recipient recipients individual household spouse county office ' +
+    'department human services assistance application apply state federal law rule rules'
+  ).split(' ')
+);
+
+// Letters, digits, whitespace and the punctuation ordinary documents use
+const EXPECTED_CHAR =
+  /[\p{L}\p{N}\s.,;:!?'"‘’“”()[\]{}\-–—/\\%$&@#*+=<>|_~^`§¶°•·…]/u;
+
+const WORD = /\p{L}+(?:['’]\p{L}+)*/gu;
+
+/**
+ * Score a page's text. Pass the page's native text to also measure how well
+ * OCR output agrees with it.
+ */
+export function scorePageText(text: string, nativeText?: string): PageQuality {
+  const characters = [...text.replace(/\s+/g, '')];
+  if (characters.length === 0) {
+    return { score: 0, density: 0, dictionaryRatio: 0, garbageRatio: 0 };
+  }
+
+  const alphanumeric = characters.filter((c) => /[\p{L}\p{N}]/u.test(c)).length;
+  const density = Math.min(1, alphanumeric / FULL_PAGE_CHARS);
+  const garbageRatio = characters.filter((c) => !EXPECTED_CHAR.test(c)).length / characters.length;
+
+  const words = text.match(WORD) ?? [];
+  const dictionaryRatio =
+    words.length > 0 ? words.filter(isDictionaryWord).length / words.length : 0;
+
+  let score =
+    DICTIONARY_WEIGHT * dictionaryRatio +
+    GARBAGE_WEIGHT * Math.max(0, 1 - garbageRatio * GARBAGE_TOLERANCE) +
+    DENSITY_WEIGHT * density;
+
+  let nativeAgreement: number | undefined;
+  if (nativeText && nativeText.trim().length > 0) {
+    nativeAgreement = wordOverlap(words, nativeText.match(WORD) ?? []);
+    score = (1 - AGREEMENT_WEIGHT) * score + AGREEMENT_WEIGHT * nativeAgreement;
+  }
+
+  return {
+    score: round(score),
+    density: round(density),
+    dictionaryRatio: round(dictionaryRatio),
+    garbageRatio: round(garbageRatio),
+    ...(nativeAgreement !== undefined && { nativeAgreement: round(nativeAgreement) }),
+  };
+}
+
+function isDictionaryWord(word: string): boolean {
+  const lower = word.toLowerCase().replace(/['’]s$/, '');
+  return COMMON_WORDS.has(lower) || looksLikeWord(word);
+}
+
+/**
+ * Spelled like an English word: consistently cased, at least two letters,
+ * with a vowel and without runs of one letter or of consonants that OCR
+ * noise produces
+ */
+function looksLikeWord(word: string): boolean {
+  if (!/^(?:[a-z]+|[A-Z][a-z]+|[A-Z]+)$/.test(word.replace(/['’]/g, ''))) {
+    return false;
+  }
+  const lower = word.toLowerCase();
+  return (
+    lower.length >= 2 &&
+    /[aeiouy]/.test(lower) &&
+    !/(.)\1\1/.test(lower) &&
+    !/[bcdfghjklmnpqrstvwxz]{5,}/.test(lower)
+  );
+}
+
+/**
+ * Dice coefficient of two word lists, counting repeated words
+ */
+function wordOverlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const word of b) {
+    const key = word.toLowerCase();
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  let shared = 0;
+  for (const word of a) {
+    const key = word.toLowerCase();
+    const remaining = counts.get(key) ?? 0;
+    if (remaining > 0) {
+      shared++;
+      counts.set(key, remaining - 1);
+    }
+  }
+
+  return (2 * shared) / (a.length + b.length);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
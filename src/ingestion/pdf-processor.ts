@@ -1,77 +1,161 @@
-import { readFile, unlink, readdir, mkdir } from 'fs/promises';
+import { readFile, unlink, mkdtemp, rm } from 'fs/promises';
 import { basename, join } from 'path';
 import { tmpdir } from 'os';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import pdfParse from 'pdf-parse';
-import { OcrResult, OcrPage } from '../types/index.js';
+import { OcrResult, OcrPage, PageQuality, PageTextSource } from '../types/index.js';
 import { LMStudioClient } from '../clients/lm-studio.js';
 import { createChildLogger } from '../utils/logger.js';
+import { hashFile } from '../utils/hash.js';
 import { sanitizeForPostgres } from '../utils/text-sanitizer.js';
+import { htmlToMarkdown } from './html-to-markdown.js';
+import { OcrPageCache } from './ocr-cache.js';
+import { MIN_PAGE_QUALITY, scorePageText } from './ocr-quality.js';
+import { tabularLinesToMarkdown } from './tables.js';
 
 const execAsync = promisify(exec);
 const logger = createChildLogger('pdf-processor');
 
-// Minimum text length to consider a page as having extractable text
+// Native text shorter than this counts as none, so the page goes to OCR
 const MIN_TEXT_LENGTH = 50;
 
+// Times a page is sent to the OCR model before it is given up on
+const PAGE_OCR_ATTEMPTS = 3;
+
+// Horizontal gap between text runs on a line, in multiples of the font size,
+// that marks a new table column
+const COLUMN_GAP_EM = 1.5;
+
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+}
+
+/**
+ * Render a page's text like pdf-parse does, but keep widely spaced runs on a
+ * line apart with a tab so table columns can be recognised
+ */
+async function renderPageText(pageData: {
+  getTextContent(options: object): Promise<{ items: PdfTextItem[] }>;
+}): Promise<string> {
+  const content = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+
+  let text = '';
+  let lastY: number | undefined;
+  let lastEndX = 0;
+
+  for (const item of content.items) {
+    const [a, b, , , x, y] = item.transform;
+    const fontSize = Math.hypot(a, b);
+    if (lastY === undefined || y === lastY) {
+      if (lastY !== undefined && x - lastEndX > fontSize * COLUMN_GAP_EM) {
+        text += '\t';
+      }
+      text += item.str;
+    } else {
+      text += '\n' + item.str;
+    }
+    lastY = y;
+    lastEndX = x + item.width;
+  }
+
+  return text;
+}
+
+export interface PdfProcessOptions {
+  /** Called as each page is extracted; pages may finish out of order */
+  onPage?: (progress: {
+    pageNumber: number;
+    pagesDone: number;
+    totalPages: number;
+    failed: boolean;
+  }) => void;
+  /** Stops OCR between pages */
+  signal?: AbortSignal;
+  /** Use OCR output cached by an earlier run instead of OCRing pages again */
+  reuseOcr?: boolean;
+}
+
+export interface PdfProcessorOptions {
+  /** Pages sent to the OCR model at once */
+  concurrency?: number;
+  /** Where OCR output is saved, and read back with `reuseOcr` */
+  cache?: OcrPageCache;
+}
+
+/**
+ * What extracting the pages of one file needs to know
+ */
+interface ExtractionContext {
+  filepath: string;
+  tempDir: string;
+  /** Set when OCR output is cached */
+  fileHash?: string;
+  forceOcr: boolean;
+  reuseOcr: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * A page's text and whether OCR gave up on it
+ */
+interface ExtractedPage {
+  page: OcrPage;
+  failed: boolean;
+}
+
 /**
  * Process PDF files and convert to markdown using OCR
  */
 export class PdfProcessor {
   private lmStudio: LMStudioClient;
+  private concurrency: number;
+  private cache?: OcrPageCache;
 
-  constructor(lmStudio: LMStudioClient) {
+  constructor(lmStudio: LMStudioClient, options: PdfProcessorOptions = {}) {
     this.lmStudio = lmStudio;
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+    this.cache = options.cache;
   }
 
   /**
    * Process a PDF file and extract text/markdown
    *
-   * This method tries text extraction first, falling back to
-   * OCR for scanned/image-based PDFs.
+   * Each page uses its native text when that scores well enough, and is
+   * sent to OCR otherwise. The better of the two is kept, so a document can
+   * mix native and OCR pages.
    */
-  async process(filepath: string): Promise<OcrResult> {
+  async process(filepath: string, options: PdfProcessOptions = {}): Promise<OcrResult> {
     const filename = basename(filepath);
     logger.info({ filepath, filename }, 'Processing PDF');
 
     try {
-      const pdfBuffer = await readFile(filepath);
-
-      // First, try to get basic info about the PDF
-      const pdfData = await pdfParse(pdfBuffer);
-      const totalPages = pdfData.numpages;
+      const nativePages = await this.extractNativeText(filepath);
+      const totalPages = nativePages.length;
 
       logger.info({ totalPages }, 'PDF parsed, extracting pages');
 
-      // Try text extraction first
-      const extractedText = sanitizeForPostgres(pdfData.text).trim();
-
-      // Check if we got meaningful text
-      if (extractedText.length >= MIN_TEXT_LENGTH) {
-        logger.info({ textLength: extractedText.length }, 'Text extraction successful, using native text');
-        const pages = this.extractPagesFromText(extractedText, totalPages);
-
-        logger.info({ extractedPages: pages.length }, 'Text extraction complete');
-
-        return {
-          filename,
-          pages,
-          fullMarkdown: pages.map((p) => p.markdown).join('\n\n---\n\n'),
-          totalPages,
-        };
-      }
-
-      // Text extraction failed or returned minimal content - use OCR
-      logger.info({ textLength: extractedText.length }, 'Text extraction insufficient, switching to OCR');
-      const pages = await this.extractPagesWithOCR(filepath, totalPages);
+      const pageNumbers = nativePages.map((_, index) => index + 1);
+      const pages = await this.extractPages(filepath, nativePages, pageNumbers, false, options);
+      const ocrPages = pages.filter((page) => page.source === 'ocr').length;
 
-      logger.info({ extractedPages: pages.length }, 'OCR extraction complete');
+      logger.info(
+        { extractedPages: pages.length, ocrPages, nativePages: pages.length - ocrPages },
+        'PDF extraction complete'
+      );
 
       return {
         filename,
         pages,
-        fullMarkdown: pages.map((p) => p.markdown).join('\n\n---\n\n'),
+        fullMarkdown: pages
+          .filter((p) => p.markdown.length > 0)
+          .map((p) => p.markdown)
+          .join('\n\n---\n\n'),
         totalPages,
       };
     } catch (error) {
@@ -81,138 +165,256 @@ export class PdfProcessor {
   }
 
   /**
-   * Extract pages from native PDF text
+   * OCR the given pages again, whatever their native text scores or the
+   * cache holds, keeping native text where it still scores better
    */
-  private extractPagesFromText(text: string, _totalPages: number): OcrPage[] {
-    const pages: OcrPage[] = [];
-
-    // Split text by form feed or other page markers
-    const pageTexts = text.split(/\f/);
-
-    for (let i = 0; i < pageTexts.length; i++) {
-      const pageText = pageTexts[i].trim();
-      if (pageText.length > 0) {
-        const markdown = this.textToMarkdown(pageText, i + 1);
-        pages.push({
-          pageNumber: i + 1,
-          markdown,
-          confidence: 1.0, // Text extraction is 100% confident
-        });
-      }
-    }
+  async reprocessPages(
+    filepath: string,
+    pageNumbers: number[],
+    options: PdfProcessOptions = {}
+  ): Promise<OcrPage[]> {
+    logger.info({ filepath, pageNumbers }, 'Reprocessing PDF pages with OCR');
+    const nativePages = await this.extractNativeText(filepath);
+    const existing = pageNumbers.filter((n) => n >= 1 && n <= nativePages.length);
+    return this.extractPages(filepath, nativePages, existing, true, {
+      ...options,
+      reuseOcr: false,
+    });
+  }
 
-    // If no pages were extracted from splits, treat entire text as one page
-    if (pages.length === 0 && text.trim().length > 0) {
-      pages.push({
-        pageNumber: 1,
-        markdown: this.textToMarkdown(text.trim(), 1),
-        confidence: 1.0,
-      });
+  /**
+   * Native text of every page. Widely spaced runs on a line are kept apart
+   * with tabs so table columns can be recognised.
+   */
+  private async extractNativeText(filepath: string): Promise<string[]> {
+    const pdfBuffer = await readFile(filepath);
+    const pages: string[] = [];
+
+    // pdf-parse renders pages one at a time, in order
+    const pdfData = await pdfParse(pdfBuffer, {
+      pagerender: async (pageData: Parameters<typeof renderPageText>[0]) => {
+        const text = await renderPageText(pageData);
+        pages.push(text);
+        return text;
+      },
+    });
+
+    while (pages.length < pdfData.numpages) {
+      pages.push('');
     }
-
-    return pages;
+    return pages.map((text) => sanitizeForPostgres(text).trim());
   }
 
   /**
-   * Extract pages using true OCR with vision model
+   * Extract the given pages into scored Markdown, up to `concurrency` pages
+   * at a time, reporting each one as it finishes
    */
-  private async extractPagesWithOCR(filepath: string, totalPages: number): Promise<OcrPage[]> {
-    const pages: OcrPage[] = [];
-    const tempDir = join(tmpdir(), `ocr_${Date.now()}`);
-    const baseName = 'page';
-    const convertedFiles: string[] = [];
+  private async extractPages(
+    filepath: string,
+    nativePages: string[],
+    pageNumbers: number[],
+    forceOcr: boolean,
+    options: PdfProcessOptions
+  ): Promise<OcrPage[]> {
+    const pages: OcrPage[] = new Array(pageNumbers.length);
+    const context: ExtractionContext = {
+      filepath,
+      tempDir: await mkdtemp(join(tmpdir(), 'ocr_')),
+      fileHash: this.cache ? await hashFile(filepath) : undefined,
+      forceOcr,
+      reuseOcr: options.reuseOcr ?? false,
+      signal: options.signal,
+    };
+    let next = 0;
+    let pagesDone = 0;
+
+    const work = async () => {
+      while (next < pageNumbers.length) {
+        options.signal?.throwIfAborted();
+        const index = next++;
+        const pageNumber = pageNumbers[index];
+
+        const { page, failed } = await this.extractPage(
+          context,
+          pageNumber,
+          nativePages[pageNumber - 1]
+        );
+        pages[index] = page;
+        pagesDone++;
+        options.onPage?.({ pageNumber, pagesDone, totalPages: pageNumbers.length, failed });
+      }
+    };
 
     try {
-      // Create temp directory for images
-      await mkdir(tempDir, { recursive: true });
-
-      // Convert PDF pages to PNG images using system pdftoppm (from poppler)
-      logger.info({ filepath, totalPages }, 'Converting PDF pages to images for OCR');
+      const workers = Math.min(this.concurrency, pageNumbers.length);
+      await Promise.all(Array.from({ length: workers }, work));
+      return pages;
+    } finally {
+      await rm(context.tempDir, { recursive: true, force: true }).catch(() => {
+        // Ignore cleanup errors
+      });
+    }
+  }
 
-      const outputPrefix = join(tempDir, baseName);
-      const cmd = `pdftoppm -png -r 150 "${filepath}" "${outputPrefix}"`;
+  /**
+   * Extract one page: native text when it scores well enough, otherwise the
+   * better of native text and OCR output. A page OCR gives up on keeps its
+   * native text, or is left empty so nothing placeholder-like is embedded.
+   */
+  private async extractPage(
+    context: ExtractionContext,
+    pageNumber: number,
+    nativeText: string
+  ): Promise<ExtractedPage> {
+    const nativePage =
+      nativeText.length >= MIN_TEXT_LENGTH
+        ? this.scoredPage(
+            pageNumber,
+            this.textToMarkdown(nativeText, pageNumber),
+            'native',
+            scorePageText(nativeText)
+          )
+        : undefined;
+
+    if (nativePage && !context.forceOcr && nativePage.quality!.score >= MIN_PAGE_QUALITY) {
+      return { page: nativePage, failed: false };
+    }
 
-      try {
-        await execAsync(cmd);
-      } catch (error) {
-        logger.error({ error, cmd }, 'pdftoppm failed - ensure poppler is installed (brew install poppler)');
-        throw new Error('PDF to image conversion failed. Please install poppler: brew install poppler');
-      }
+    const markdown = await this.ocrPageCached(context, pageNumber, nativePage?.quality?.score);
 
-      // Find all generated image files
-      const tempFiles = await readdir(tempDir);
-      const imageFiles = tempFiles
-        .filter(f => f.startsWith(baseName) && f.endsWith('.png'))
-        .sort(); // Ensure pages are in order
+    if (markdown === null) {
+      return {
+        page: nativePage ?? this.scoredPage(pageNumber, '', 'ocr', scorePageText('')),
+        failed: true,
+      };
+    }
 
-      logger.info({ imageCount: imageFiles.length }, 'PDF converted to images');
+    const text = sanitizeForPostgres(this.convertHtmlTables(markdown)).trim();
+    const quality = scorePageText(text, nativeText);
+    if (nativePage && nativePage.quality!.score >= quality.score) {
+      return { page: nativePage, failed: false };
+    }
 
-      // Process each page with OCR
-      for (let i = 0; i < imageFiles.length; i++) {
-        const imagePath = join(tempDir, imageFiles[i]);
-        convertedFiles.push(imagePath);
-        const pageNumber = i + 1;
+    const ocrMarkdown = text.length > 0 ? `[Page: ${pageNumber}]\n\n${text}` : '';
+    return { page: this.scoredPage(pageNumber, ocrMarkdown, 'ocr', quality), failed: false };
+  }
 
-        logger.info({ pageNumber, totalPages: imageFiles.length }, 'OCR processing page');
+  /**
+   * OCR a page, reading the cache first when reusing OCR output and saving
+   * fresh output to it. Returns null if OCR gave up on the page.
+   */
+  private async ocrPageCached(
+    context: ExtractionContext,
+    pageNumber: number,
+    nativeScore?: number
+  ): Promise<string | null> {
+    const key = context.fileHash
+      ? { fileHash: context.fileHash, pageNumber, model: this.lmStudio.ocrModel }
+      : undefined;
+
+    if (key && context.reuseOcr) {
+      const cached = await this.cache!.get(key);
+      if (cached !== null) {
+        logger.debug({ pageNumber }, 'Using cached OCR output');
+        return cached;
+      }
+    }
 
-        try {
-          // Read image and convert to base64
-          const imageBuffer = await readFile(imagePath);
-          const imageBase64 = imageBuffer.toString('base64');
+    logger.info({ pageNumber, nativeScore }, 'OCR processing page');
+    const imageBase64 = await this.renderPage(context.filepath, pageNumber, context.tempDir);
+    const markdown = await this.ocrPage(imageBase64, pageNumber, context.signal);
 
-          // Call OCR model
-          const markdown = await this.lmStudio.ocrToMarkdown(imageBase64, 'image/png');
+    if (key && markdown !== null) {
+      await this.cache!.set(key, markdown);
+    }
+    return markdown;
+  }
 
-          pages.push({
-            pageNumber,
-            markdown: `[Page: ${pageNumber}]\n\n${markdown}`,
-            confidence: 0.95, // OCR has some uncertainty
-          });
+  private scoredPage(
+    pageNumber: number,
+    markdown: string,
+    source: PageTextSource,
+    quality: PageQuality
+  ): OcrPage {
+    return { pageNumber, markdown, confidence: quality.score, source, quality };
+  }
 
-          logger.debug({ pageNumber, markdownLength: markdown.length }, 'Page OCR complete');
-        } catch (error) {
-          logger.error({ error, pageNumber }, 'Failed to OCR page');
+  /**
+   * Render one page to a PNG with the system pdftoppm (from poppler) and
+   * return it base64 encoded
+   */
+  private async renderPage(filepath: string, pageNumber: number, tempDir: string): Promise<string> {
+    const outputPrefix = join(tempDir, `page-${pageNumber}`);
+    const pages = `-f ${pageNumber} -l ${pageNumber}`;
+    const cmd = `pdftoppm -png -r 150 ${pages} -singlefile "${filepath}" "${outputPrefix}"`;
 
-          // Add placeholder for failed page
-          pages.push({
-            pageNumber,
-            markdown: `[Page: ${pageNumber}]\n\n[OCR failed for this page]`,
-            confidence: 0,
-          });
-        }
-      }
+    try {
+      await execAsync(cmd);
+    } catch (error) {
+      logger.error({ error, cmd }, 'pdftoppm failed - ensure poppler is installed (brew install poppler)');
+      throw new Error('PDF to image conversion failed. Please install poppler: brew install poppler');
+    }
 
-      return pages;
+    const imagePath = `${outputPrefix}.png`;
+    try {
+      return (await readFile(imagePath)).toString('base64');
     } finally {
-      // Clean up temporary image files and directory
-      for (const file of convertedFiles) {
-        try {
-          await unlink(file);
-        } catch {
-          // Ignore cleanup errors
-        }
-      }
-      try {
-        const { rmdir } = await import('fs/promises');
-        await rmdir(tempDir);
-      } catch {
+      await unlink(imagePath).catch(() => {
         // Ignore cleanup errors
+      });
+    }
+  }
+
+  /**
+   * OCR one page image, retrying failures. Returns null if every attempt failed.
+   */
+  private async ocrPage(
+    imageBase64: string,
+    pageNumber: number,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    for (let attempt = 1; attempt <= PAGE_OCR_ATTEMPTS; attempt++) {
+      try {
+        const markdown = await this.lmStudio.ocrToMarkdown(imageBase64, 'image/png');
+        logger.debug({ pageNumber, markdownLength: markdown.length }, 'Page OCR complete');
+        return markdown;
+      } catch (error) {
+        logger.error({ error, pageNumber, attempt }, 'Failed to OCR page');
+        signal?.throwIfAborted();
       }
     }
+    return null;
   }
 
   /**
-   * Convert raw text to markdown format
+   * The OCR model sometimes writes tables as HTML; turn them into Markdown
+   * tables like the rest of the page
+   */
+  private convertHtmlTables(markdown: string): string {
+    return markdown.replace(
+      /<table[\s\S]*?<\/table>/gi,
+      (table) => `\n\n${htmlToMarkdown(table)}\n\n`
+    );
+  }
+
+  /**
+   * Convert raw text to markdown format. Runs of lines split into the same
+   * columns become Markdown tables.
    */
   private textToMarkdown(text: string, pageNumber: number): string {
     // Add page marker
     let markdown = `[Page: ${pageNumber}]\n\n`;
 
     // Process the text to add basic markdown structure
-    const lines = text.split('\n');
+    const lines = tabularLinesToMarkdown(text.split('\n'));
     const processedLines: string[] = [];
 
     for (const line of lines) {
+      if (typeof line !== 'string') {
+        processedLines.push('', line.table, '');
+        continue;
+      }
+
       const trimmed = line.trim();
 
       if (trimmed.length === 0) {
@@ -259,6 +461,9 @@ export class PdfProcessor {
 /**
  * Create a PDF processor
  */
-export function createPdfProcessor(lmStudio: LMStudioClient): PdfProcessor {
-  return new PdfProcessor(lmStudio);
+export function createPdfProcessor(
+  lmStudio: LMStudioClient,
+  options?: PdfProcessorOptions
+): PdfProcessor {
+  return new PdfProcessor(lmStudio, options);
 }
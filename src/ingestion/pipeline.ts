@@ -1,11 +1,19 @@
 import { readdir, writeFile, mkdir } from 'fs/promises';
 import { join, basename, extname } from 'path';
 import { tmpdir } from 'os';
+import { randomUUID } from 'crypto';
 import {
   Config,
   Document,
+  DocumentInput,
+  ScrapedItemInput,
   Chunk,
+  ChunkInput,
+  ChunkMetadata,
+  OcrPage,
+  RegulatoryChunkInput,
   RagError,
+  CollectionSwitchError,
   DocumentType,
   SourceAuthority,
   LegalWeight,
@@ -16,11 +24,35 @@ import { sanitizeForPostgres } from '../utils/text-sanitizer.js';
 import { LMStudioClient, getLMStudioClient } from '../clients/lm-studio.js';
 import { QdrantStore, getQdrantStore, QdrantPayload } from '../clients/qdrant.js';
 import { PostgresStore, getPostgresStore } from '../clients/postgres.js';
-import { PdfProcessor, createPdfProcessor } from './pdf-processor.js';
+import {
+  EmbeddingRegistry,
+  collectionNameFor,
+  createEmbeddingRegistry,
+} from '../clients/embedding-registry.js';
+import { LoaderRegistry, HtmlLoader, PdfLoader, createLoaderRegistry } from './loaders.js';
 import { MarkdownChunker, createChunker } from './chunker.js';
+import { createOcrPageCache } from './ocr-cache.js';
+import { MIN_PAGE_QUALITY } from './ocr-quality.js';
+import { RegulatoryChunker, createRegulatoryChunker } from './regulatory-chunker.js';
+import { RegulatoryChunkMetadata, RegulatorySourceType } from './regulatory-types.js';
+import {
+  DocumentRegistry,
+  RegistryDocumentFields,
+  loadDocumentRegistry,
+} from './document-registry.js';
 
 const logger = createChildLogger('ingestion-pipeline');
 
+/**
+ * Document types that are chunked by section/subsection instead of by markdown structure
+ */
+const REGULATORY_SOURCE_TYPES: Partial<Record<DocumentType, RegulatorySourceType>> = {
+  pa_code: 'pa_code',
+  oim_ltc_handbook: 'oim_handbook',
+  oim_ma_handbook: 'oim_handbook',
+  pa_bulletin: 'pa_bulletin',
+};
+
 export interface IngestionStats {
   documentsProcessed: number;
   documentsSkipped: number;
@@ -30,33 +62,113 @@ export interface IngestionStats {
 }
 
 /**
- * Complete ingestion pipeline for processing PDFs into the RAG system
+ * Classification fields for a file, plus how to extract it
+ */
+export interface IngestFileOptions extends RegistryDocumentFields {
+  /** Use OCR output cached by an earlier run instead of OCRing pages again */
+  reuseOcr?: boolean;
+}
+
+/**
+ * Outcome of OCRing a document's low-quality pages again
+ */
+export interface ReocrResult {
+  documentId: string;
+  /** Pages sent to OCR again */
+  pagesReprocessed: number[];
+  /** Pages whose new text scored higher and replaced the stored text */
+  pagesImproved: number[];
+  /** Chunks after re-chunking; 0 when no page improved */
+  chunksCreated: number;
+  /** Pages still scoring below the threshold */
+  lowQualityPages: number[];
+}
+
+/**
+ * How to rebuild the vector index
+ */
+export interface RebuildOptions {
+  /**
+   * Split documents again from their stored markdown with the current chunk
+   * settings. Otherwise the existing chunks are only embedded again.
+   */
+  rechunk?: boolean;
+  /** Keep the collection that was live before the switch instead of deleting it */
+  keepPrevious?: boolean;
+}
+
+/**
+ * Outcome of rebuilding the vector index into a new collection
+ */
+export interface RebuildResult {
+  /** Collection now searched */
+  collection: string;
+  /** Collection searched before, unless it was deleted */
+  previousCollection?: string;
+  documentsRebuilt: number;
+  chunksEmbedded: number;
+  /** Documents embedded with their existing chunks as they have no stored markdown */
+  documentsNotRechunked: string[];
+}
+
+/**
+ * Progress reported while ingesting:
+ * - file: a file or URL of a batch is starting
+ * - ocr: a page has been extracted (failed if OCR gave up on it)
+ * - embedding: a batch of chunks has been embedded
+ */
+export type IngestionProgressEvent =
+  | { stage: 'file'; file: string; filesDone: number; filesTotal: number }
+  | { stage: 'ocr'; pageNumber: number; pagesDone: number; totalPages: number; failed: boolean }
+  | { stage: 'embedding'; chunksDone: number; chunksTotal: number };
+
+/**
+ * Progress reporting and cancellation for long-running ingestion
+ */
+export interface IngestionHooks {
+  onProgress?: (event: IngestionProgressEvent) => void;
+  /** Aborting stops ingestion between pages, chunk batches and files */
+  signal?: AbortSignal;
+}
+
+/**
+ * Complete ingestion pipeline for processing documents into the RAG system
  */
 export class IngestionPipeline {
   private config: Config;
   private lmStudio: LMStudioClient;
   private qdrant: QdrantStore;
   private postgres: PostgresStore;
-  private pdfProcessor: PdfProcessor;
+  private loaders: LoaderRegistry;
   private chunker: MarkdownChunker;
+  private regulatoryChunker: RegulatoryChunker;
+  private embeddingRegistry: EmbeddingRegistry;
+  private registryPromise: Promise<DocumentRegistry> | null = null;
 
   constructor(config: Config) {
     this.config = config;
     this.lmStudio = getLMStudioClient(config.lmStudio);
     this.qdrant = getQdrantStore(config.qdrant);
     this.postgres = getPostgresStore(config.postgres);
-    this.pdfProcessor = createPdfProcessor(this.lmStudio);
+    this.loaders = createLoaderRegistry(this.lmStudio, {
+      concurrency: config.lmStudio.ocrConcurrency,
+      cache: createOcrPageCache(this.postgres),
+    });
     this.chunker = createChunker({
       chunkSize: config.rag.chunkSize,
       chunkOverlap: config.rag.chunkOverlap,
       preserveMarkdownStructure: true,
     });
+    this.regulatoryChunker = createRegulatoryChunker();
+    this.embeddingRegistry = createEmbeddingRegistry(this.postgres, this.qdrant, this.lmStudio);
   }
 
   /**
-   * Initialize the pipeline (create collections/tables if needed)
+   * Initialize the pipeline (create collections/tables if needed) and check
+   * the embedding model matches the collection. Rebuilds skip that check, as
+   * they exist to move the index to a different model or dimension.
    */
-  async initialize(): Promise<void> {
+  async initialize(options: { verifyEmbeddings?: boolean } = {}): Promise<void> {
     logger.info('Initializing ingestion pipeline');
 
     // Check health of all services
@@ -80,18 +192,26 @@ export class IngestionPipeline {
 
     // Initialize Qdrant collection
     await this.qdrant.initialize();
+    if (options.verifyEmbeddings !== false) {
+      await this.embeddingRegistry.verify(this.qdrant, { probe: lmOk });
+    }
 
     logger.info('Ingestion pipeline initialized');
   }
 
   /**
-   * Ingest a single PDF file
+   * Ingest a single file of any type with a registered loader
    */
-  async ingestFile(filepath: string): Promise<{
+  async ingestFile(
+    filepath: string,
+    options: IngestFileOptions = {},
+    hooks: IngestionHooks = {}
+  ): Promise<{
     document: Document;
     chunks: Chunk[];
   }> {
     const filename = basename(filepath);
+    const loader = this.loaders.get(filepath);
     logger.info({ filepath, filename }, 'Ingesting file');
 
     // Check if already ingested
@@ -104,33 +224,43 @@ export class IngestionPipeline {
       return { document: existingDoc, chunks };
     }
 
-    // Process PDF to markdown
-    const ocrResult = await this.pdfProcessor.process(filepath);
+    // Convert to markdown
+    const { reuseOcr, ...overrides } = options;
+    const ocrResult = await loader.load(filepath, {
+      signal: hooks.signal,
+      onPage: (page) => hooks.onProgress?.({ stage: 'ocr', ...page }),
+      reuseOcr,
+    });
 
-    // Create document record
+    // Create document record, classified from the registry where known
+    const fields = await this.classify(filename, overrides);
+    const previous = await this.postgres.getCurrentVersion(filename, fields.sourceUrl);
     const document = await this.postgres.insertDocument({
+      ...fields,
+      ...this.nextVersion(previous),
       filename,
       filepath,
       fileHash,
-      title: this.extractTitle(ocrResult.fullMarkdown, filename),
+      title: fields.title || this.extractTitle(ocrResult.fullMarkdown, filename),
       totalPages: ocrResult.totalPages,
       metadata: {
         processedAt: new Date().toISOString(),
         pageCount: ocrResult.pages.length,
+        ...this.pageQualitySummary(ocrResult.pages),
       },
     });
 
-    // Chunk the content
-    const chunkInputs = this.chunker.chunk(ocrResult.fullMarkdown, document.id, {
-      filename,
-      title: document.title,
-    });
-
-    // Store chunks in Postgres
-    const chunks = await this.postgres.insertChunksBatch(chunkInputs);
+    const chunks = await this.indexDocument(
+      document,
+      ocrResult.fullMarkdown,
+      fields.documentType,
+      hooks,
+      ocrResult.pages
+    );
 
-    // Generate embeddings and store in Qdrant
-    await this.embedAndStoreChunks(chunks, document);
+    if (previous) {
+      await this.supersede(previous, document);
+    }
 
     logger.info(
       { filename, documentId: document.id, chunkCount: chunks.length },
@@ -140,12 +270,261 @@ export class IngestionPipeline {
     return { document, chunks };
   }
 
+  /**
+   * Load the document registry once per pipeline
+   */
+  private getRegistry(): Promise<DocumentRegistry> {
+    if (!this.registryPromise) {
+      this.registryPromise = loadDocumentRegistry();
+    }
+    return this.registryPromise;
+  }
+
+  /**
+   * Classification fields for a document: explicit values win over registry values
+   */
+  private async classify(
+    filename: string,
+    overrides: RegistryDocumentFields = {}
+  ): Promise<RegistryDocumentFields> {
+    const registry = await this.getRegistry();
+    const fields: Record<string, unknown> = { ...registry.getDocumentFields(filename) };
+
+    for (const [key, value] of Object.entries(overrides)) {
+      if (value !== undefined) {
+        fields[key] = value;
+      }
+    }
+
+    return fields as RegistryDocumentFields;
+  }
+
+  /**
+   * Chunk a newly inserted document, store the chunks and embed them. If any
+   * step fails or is cancelled the partial document is removed again, so a
+   * retry is not skipped as already ingested.
+   */
+  private async indexDocument(
+    document: Document,
+    content: string,
+    documentType: DocumentType | undefined,
+    hooks: IngestionHooks,
+    pages: OcrPage[] = []
+  ): Promise<Chunk[]> {
+    try {
+      // Content without pages is stored as one page, so it can be re-chunked later
+      await this.postgres.saveDocumentPages(
+        document.id,
+        pages.length > 0 ? pages : [{ pageNumber: 1, markdown: content }]
+      );
+
+      // Chunk the content
+      const chunkInputs = this.chunkContent(content, document, documentType, pages);
+
+      // Store chunks in Postgres
+      const chunks = await this.postgres.insertChunksBatch(chunkInputs);
+      await this.storeRegulatoryMetadata(chunks);
+
+      // Generate embeddings and store in Qdrant
+      await this.embedAndStoreChunks(chunks, document, hooks);
+
+      return chunks;
+    } catch (error) {
+      logger.warn({ documentId: document.id }, 'Ingestion incomplete, removing partial document');
+      await this.deleteDocument(document.id).catch((cleanupError) =>
+        logger.error(
+          { error: cleanupError, documentId: document.id },
+          'Failed to remove partial document'
+        )
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Lineage fields for a document replacing `previous`
+   */
+  private nextVersion(previous: Document | null): Pick<DocumentInput, 'lineageId' | 'version'> {
+    if (!previous) {
+      return {};
+    }
+    return {
+      lineageId: previous.lineageId ?? previous.id,
+      version: (previous.version ?? 1) + 1,
+    };
+  }
+
+  /**
+   * Retire the previous version once its replacement is fully stored. It stays
+   * in Postgres for the version history, but its vectors leave the index and
+   * cached answers citing it are dropped.
+   */
+  private async supersede(previous: Document, current: Document): Promise<void> {
+    await this.postgres.supersedeDocument(
+      previous.id,
+      current.id,
+      current.effectiveDate ?? undefined
+    );
+    await this.qdrant.deleteByDocument(previous.id);
+    await this.postgres.invalidateCachedQueries([previous.id]);
+
+    logger.info(
+      {
+        filename: current.filename,
+        previousId: previous.id,
+        documentId: current.id,
+        version: current.version,
+      },
+      'Previous document version superseded'
+    );
+  }
+
+  /**
+   * Chunk document content, using the regulatory chunker for legal text.
+   * Falls back to markdown chunking when no sections can be parsed.
+   */
+  private chunkContent(
+    content: string,
+    document: Document,
+    documentType?: DocumentType,
+    pages: OcrPage[] = []
+  ): ChunkInput[] {
+    return this.annotatePageQuality(
+      this.chunkSections(content, document, documentType),
+      content,
+      pages
+    );
+  }
+
+  private chunkSections(
+    content: string,
+    document: Document,
+    documentType?: DocumentType
+  ): ChunkInput[] {
+    const baseMetadata: ChunkMetadata = {
+      filename: document.filename,
+      title: document.title,
+      ...(documentType && { documentType }),
+    };
+
+    const sourceType = documentType ? REGULATORY_SOURCE_TYPES[documentType] : undefined;
+    if (sourceType) {
+      const sections = this.regulatoryChunker.parseStructure(content, sourceType);
+      if (sections.length > 0) {
+        return this.regulatoryChunker.chunkSections(
+          sections,
+          document.id,
+          sourceType,
+          baseMetadata
+        );
+      }
+
+      logger.warn(
+        { documentId: document.id, documentType },
+        'No regulatory sections found, using markdown chunking'
+      );
+    }
+
+    return this.chunker.chunk(content, document.id, baseMetadata);
+  }
+
+  /**
+   * Record the lowest quality score of the PDF pages each chunk covers. A
+   * chunk covers the page whose `[Page: N]` marker precedes it and any whose
+   * markers fall inside it.
+   */
+  private annotatePageQuality(
+    chunks: ChunkInput[],
+    content: string,
+    pages: OcrPage[]
+  ): ChunkInput[] {
+    const scored = new Map(pages.filter((p) => p.quality).map((p) => [p.pageNumber, p]));
+    if (scored.size === 0) {
+      return chunks;
+    }
+
+    const markers = [...content.matchAll(/\[Page: (\d+)\]/g)].map((match) => ({
+      index: match.index ?? 0,
+      pageNumber: Number(match[1]),
+    }));
+
+    return chunks.map((chunk) => {
+      const start = chunk.startChar ?? 0;
+      const end = chunk.endChar ?? start + chunk.content.length;
+      const covered = markers
+        .filter((marker, i) => marker.index < end && (markers[i + 1]?.index ?? Infinity) > start)
+        .map((marker) => scored.get(marker.pageNumber))
+        .filter((page): page is OcrPage => page !== undefined);
+
+      if (covered.length === 0) {
+        return chunk;
+      }
+
+      const lowest = covered.reduce((a, b) => (b.quality!.score < a.quality!.score ? b : a));
+      return {
+        ...chunk,
+        metadata: {
+          ...chunk.metadata,
+          pageQuality: lowest.quality!.score,
+          textSource: lowest.source,
+        },
+      };
+    });
+  }
+
+  /**
+   * Pages scoring below the threshold, for document metadata. Empty for
+   * formats without page scores.
+   */
+  private pageQualitySummary(
+    pages: OcrPage[],
+    threshold: number = MIN_PAGE_QUALITY
+  ): { lowQualityPages?: number[] } {
+    if (!pages.some((page) => page.quality)) {
+      return {};
+    }
+    return {
+      lowQualityPages: pages
+        .filter((page) => page.quality && page.quality.score < threshold)
+        .map((page) => page.pageNumber),
+    };
+  }
+
+  /**
+   * Persist section metadata for chunks produced by the regulatory chunker
+   */
+  private async storeRegulatoryMetadata(chunks: Chunk[]): Promise<void> {
+    const entries: RegulatoryChunkInput[] = chunks
+      .filter((chunk) => Array.isArray(chunk.metadata.sectionPath))
+      .map((chunk) => {
+        const metadata = chunk.metadata as RegulatoryChunkMetadata;
+        return {
+          chunkId: chunk.id,
+          chapterNumber: metadata.chapterNumber,
+          sectionNumber: metadata.sectionNumber,
+          subsectionNumber: metadata.subsectionNumber,
+          sectionPath: metadata.sectionPath,
+          sectionTitle: metadata.sectionTitle,
+          sourceAuthority: metadata.sourceAuthority,
+          legalWeight: metadata.legalWeight,
+          crossReferences: metadata.crossReferences,
+          effectiveDate: metadata.effectiveDate,
+          lastAmended: metadata.lastAmended,
+          amendmentCitation: metadata.amendmentCitation,
+        };
+      });
+
+    await this.postgres.insertRegulatoryChunks(entries);
+  }
+
   /**
    * Generate embeddings for chunks and store in Qdrant
    */
   private async embedAndStoreChunks(
     chunks: Chunk[],
-    document: Document
+    document: Document,
+    hooks: IngestionHooks = {},
+    target: QdrantStore = this.qdrant
   ): Promise<void> {
     logger.debug({ chunkCount: chunks.length }, 'Generating embeddings');
 
@@ -154,6 +533,7 @@ export class IngestionPipeline {
       [];
 
     for (let i = 0; i < chunks.length; i += batchSize) {
+      hooks.signal?.throwIfAborted();
       const batch = chunks.slice(i, i + batchSize);
 
       // Check cache first, then generate missing embeddings
@@ -162,7 +542,10 @@ export class IngestionPipeline {
           const contentHash = hashString(chunk.content);
 
           // Try cache
-          const cached = await this.postgres.getCachedEmbedding(contentHash);
+          const cached = await this.postgres.getCachedEmbedding(
+            contentHash,
+            this.lmStudio.embeddingModel
+          );
           if (cached) {
             return cached;
           }
@@ -198,28 +581,306 @@ export class IngestionPipeline {
               filename: document.filename,
               title: document.title,
             },
+            documentType: document.documentType,
+            sourceAuthority: document.sourceAuthority,
+            legalWeight: document.legalWeight,
+            targetPrograms: document.targetPrograms,
+            effectiveDate: document.effectiveDate?.toISOString(),
           },
         });
       }
 
-      logger.debug(
-        { processed: Math.min(i + batchSize, chunks.length), total: chunks.length },
-        'Embedding batch progress'
-      );
+      const processed = Math.min(i + batchSize, chunks.length);
+      hooks.onProgress?.({ stage: 'embedding', chunksDone: processed, chunksTotal: chunks.length });
+      logger.debug({ processed, total: chunks.length }, 'Embedding batch progress');
     }
 
     // Upsert all vectors
-    await this.qdrant.upsertBatch(points);
+    await target.upsertBatch(points);
 
     logger.info({ vectorCount: points.length }, 'Vectors stored in Qdrant');
   }
 
   /**
-   * Ingest all PDF files in a directory
+   * OCR a PDF document's low-quality pages again, or the given pages. Pages
+   * whose new text scores higher replace the stored ones, and the document is
+   * re-chunked and re-embedded in place. The other pages are reused as
+   * stored, so pages that came out well are not sent to OCR again.
+   */
+  async reocrDocument(
+    documentId: string,
+    options: { threshold?: number; pages?: number[] } = {},
+    hooks: IngestionHooks = {}
+  ): Promise<ReocrResult> {
+    const threshold = options.threshold ?? MIN_PAGE_QUALITY;
+    const document = await this.postgres.getDocumentById(documentId);
+    if (!document) {
+      throw new RagError(`Document ${documentId} not found`, 'DOCUMENT_NOT_FOUND');
+    }
+    if (document.supersededBy) {
+      // Re-indexing would put an old version's chunks back into search
+      throw new RagError(
+        `${document.filename} has been superseded by document ${document.supersededBy}; ` +
+          're-OCR the current version instead',
+        'REOCR_ERROR'
+      );
+    }
+
+    const loader = this.loaders.get(document.filepath);
+    if (!(loader instanceof PdfLoader)) {
+      throw new RagError(`Only PDF documents can be re-OCRed: ${document.filename}`, 'REOCR_ERROR');
+    }
+    if ((await hashFile(document.filepath)) !== document.fileHash) {
+      throw new RagError(
+        `${document.filepath} has changed since it was ingested; ingest it again instead`,
+        'REOCR_ERROR'
+      );
+    }
+
+    const stored = await this.postgres.getDocumentPages(documentId);
+    if (stored.length === 0) {
+      throw new RagError(
+        `No stored pages for ${document.filename}; it was ingested before page quality was ` +
+          'recorded, so delete and ingest it again',
+        'REOCR_ERROR'
+      );
+    }
+
+    const targets =
+      options.pages ??
+      stored
+        .filter((page) => (page.quality?.score ?? 0) < threshold)
+        .map((page) => page.pageNumber);
+    const result: ReocrResult = {
+      documentId,
+      pagesReprocessed: targets,
+      pagesImproved: [],
+      chunksCreated: 0,
+      lowQualityPages: this.pageQualitySummary(stored, threshold).lowQualityPages ?? [],
+    };
+
+    if (targets.length === 0) {
+      logger.info({ documentId, threshold }, 'No low-quality pages to re-OCR');
+      return result;
+    }
+
+    const fresh = await loader.reprocessPages(document.filepath, targets, {
+      signal: hooks.signal,
+      onPage: (page) => hooks.onProgress?.({ stage: 'ocr', ...page }),
+    });
+
+    const pages = new Map(stored.map((page) => [page.pageNumber, page]));
+    const improved = fresh.filter(
+      (page) => (page.quality?.score ?? 0) > (pages.get(page.pageNumber)?.quality?.score ?? 0)
+    );
+    result.pagesImproved = improved.map((page) => page.pageNumber);
+
+    if (improved.length === 0) {
+      logger.info({ documentId, pages: targets }, 'Re-OCR did not improve any page');
+      return result;
+    }
+
+    for (const page of improved) {
+      pages.set(page.pageNumber, page);
+    }
+    const merged = [...pages.values()].sort((a, b) => a.pageNumber - b.pageNumber);
+    const content = this.joinPages(merged);
+
+    // The new pages are stored last, so if any step fails running reocr
+    // again starts over
+    const chunkInputs = this.chunkContent(content, document, document.documentType, merged);
+    const chunks = await this.postgres.replaceChunks(documentId, chunkInputs);
+    await this.storeRegulatoryMetadata(chunks);
+    await this.qdrant.deleteByDocument(documentId);
+    await this.embedAndStoreChunks(chunks, document, hooks);
+    await this.postgres.saveDocumentPages(documentId, improved);
+    await this.postgres.invalidateCachedQueries([documentId]);
+
+    result.chunksCreated = chunks.length;
+    result.lowQualityPages = this.pageQualitySummary(merged, threshold).lowQualityPages ?? [];
+    await this.postgres.updateDocumentMetadata(documentId, {
+      lowQualityPages: result.lowQualityPages,
+      reocrAt: new Date().toISOString(),
+    });
+
+    logger.info(
+      { documentId, pagesImproved: result.pagesImproved, chunkCount: chunks.length },
+      'Document re-OCR complete'
+    );
+
+    return result;
+  }
+
+  /**
+   * Rebuild the vector index into a new collection and switch searches over
+   * to it in one step, e.g. after changing the chunk settings or the
+   * embedding model. Documents are re-chunked from their stored markdown, so
+   * nothing is extracted or OCRed again. Documents ingested or superseded
+   * while the rebuild runs are caught up before the switch.
+   */
+  async rebuildIndex(
+    options: RebuildOptions = {},
+    hooks: IngestionHooks = {}
+  ): Promise<RebuildResult> {
+    const target = this.qdrant.withCollection(await this.newCollectionName());
+    const rechunked = new Map<string, Chunk[]>();
+    const built = new Map<string, number>();
+    const notRechunked = new Set<string>();
+
+    logger.info({ collection: target.collection, options }, 'Rebuilding vector index');
+    await target.initialize();
+
+    let previous: string | null;
+    try {
+      await this.embeddingRegistry.verify(target, { probe: true });
+
+      let pending = await this.postgres.listDocumentsWithChunkCounts();
+      while (pending.length > 0) {
+        for (const [index, document] of pending.entries()) {
+          hooks.signal?.throwIfAborted();
+          hooks.onProgress?.({
+            stage: 'file',
+            file: document.filename,
+            filesDone: index,
+            filesTotal: pending.length,
+          });
+
+          const chunks = await this.rebuildChunks(document, options.rechunk ?? false);
+          if (chunks.fresh) {
+            rechunked.set(document.id, chunks.chunks);
+          } else if (options.rechunk) {
+            notRechunked.add(document.filename);
+          }
+          await this.embedAndStoreChunks(chunks.chunks, document, hooks, target);
+          built.set(document.id, chunks.chunks.length);
+        }
+
+        const current = await this.postgres.listDocumentsWithChunkCounts();
+        const currentIds = new Set(current.map((document) => document.id));
+        for (const documentId of built.keys()) {
+          if (!currentIds.has(documentId)) {
+            await target.deleteByDocument(documentId);
+            rechunked.delete(documentId);
+            built.delete(documentId);
+          }
+        }
+        pending = current.filter((document) => !built.has(document.id));
+      }
+
+      // Postgres takes the new chunks just before the switch. Should the
+      // switch still fail, rebuilding again brings both back in line.
+      if (rechunked.size > 0) {
+        await this.postgres.replaceDocumentChunks(rechunked);
+        await this.storeRegulatoryMetadata([...rechunked.values()].flat());
+      }
+      previous = await this.qdrant.switchCollection(target.collection);
+    } catch (error) {
+      if (error instanceof CollectionSwitchError && error.originalDropped) {
+        // The new collection is the only index left, so it stays for the alias
+        logger.error(
+          { alias: this.qdrant.collection, collection: target.collection },
+          'Original collection deleted but the alias was not created; run `collections use`'
+        );
+        throw error;
+      }
+      logger.warn({ collection: target.collection }, 'Rebuild incomplete, removing new collection');
+      await target
+        .deleteCollection(target.collection)
+        .then(() => this.embeddingRegistry.forget(target.collection))
+        .catch((cleanupError) =>
+          logger.error(
+            { error: cleanupError, collection: target.collection },
+            'Failed to remove new collection'
+          )
+        );
+      throw error;
+    }
+
+    // Without a previous alias, the collection that had the alias's name is gone
+    if (!previous) {
+      await this.embeddingRegistry.forget(this.qdrant.collection);
+    } else if (!options.keepPrevious) {
+      await this.qdrant.deleteCollection(previous);
+      await this.embeddingRegistry.forget(previous);
+    }
+    await this.postgres.invalidateCachedQueries([...built.keys()]);
+
+    const result: RebuildResult = {
+      collection: target.collection,
+      ...(previous && options.keepPrevious && { previousCollection: previous }),
+      documentsRebuilt: built.size,
+      chunksEmbedded: [...built.values()].reduce((sum, count) => sum + count, 0),
+      documentsNotRechunked: [...notRechunked],
+    };
+    logger.info({ result }, 'Vector index rebuilt');
+
+    return result;
+  }
+
+  /**
+   * Name for a rebuilt collection after the configured name and the current
+   * embedding model, numbered when a collection of that name exists already
+   */
+  private async newCollectionName(): Promise<string> {
+    const base = collectionNameFor(this.qdrant.collection, this.lmStudio.embeddingModel);
+    const existing = new Set((await this.qdrant.listCollections()).map(({ name }) => name));
+
+    let name = base;
+    for (let n = 2; existing.has(name); n++) {
+      name = `${base}_${n}`;
+    }
+    return name;
+  }
+
+  /**
+   * A document's chunks for a rebuild: split afresh from its stored markdown
+   * when re-chunking, else the stored chunks. Fresh chunks get their IDs
+   * here, as they are only written to Postgres once every document is done.
+   */
+  private async rebuildChunks(
+    document: Document,
+    rechunk: boolean
+  ): Promise<{ chunks: Chunk[]; fresh: boolean }> {
+    const pages = rechunk ? await this.postgres.getDocumentPages(document.id) : [];
+    if (pages.length === 0) {
+      return { chunks: await this.postgres.getChunksByDocument(document.id), fresh: false };
+    }
+
+    const inputs = this.chunkContent(
+      this.joinPages(pages),
+      document,
+      document.documentType,
+      pages
+    );
+    const createdAt = new Date();
+    return {
+      chunks: inputs.map((input) => ({
+        ...input,
+        id: randomUUID(),
+        metadata: input.metadata ?? {},
+        createdAt,
+      })),
+      fresh: true,
+    };
+  }
+
+  /**
+   * A document's full markdown from its stored pages, as loaders join them
+   */
+  private joinPages(pages: OcrPage[]): string {
+    return pages
+      .filter((page) => page.markdown.length > 0)
+      .map((page) => page.markdown)
+      .join('\n\n---\n\n');
+  }
+
+  /**
+   * Ingest all supported files in a directory
    */
   async ingestDirectory(
     dirPath: string,
-    options?: { recursive?: boolean; saveMarkdown?: boolean }
+    options?: { recursive?: boolean; saveMarkdown?: boolean; reuseOcr?: boolean },
+    hooks: IngestionHooks = {}
   ): Promise<IngestionStats> {
     const stats: IngestionStats = {
       documentsProcessed: 0,
@@ -231,13 +892,25 @@ export class IngestionPipeline {
 
     logger.info({ dirPath, options }, 'Starting directory ingestion');
 
-    const pdfFiles = await this.findPdfFiles(dirPath, options?.recursive);
+    const files = await this.findSupportedFiles(dirPath, options?.recursive);
 
-    logger.info({ fileCount: pdfFiles.length }, 'Found PDF files');
+    logger.info({ fileCount: files.length }, 'Found supported files');
+
+    for (const [index, filepath] of files.entries()) {
+      hooks.signal?.throwIfAborted();
+      hooks.onProgress?.({
+        stage: 'file',
+        file: basename(filepath),
+        filesDone: index,
+        filesTotal: files.length,
+      });
 
-    for (const filepath of pdfFiles) {
       try {
-        const { document, chunks } = await this.ingestFile(filepath);
+        const { document, chunks } = await this.ingestFile(
+          filepath,
+          { reuseOcr: options?.reuseOcr },
+          hooks
+        );
 
         // Check if this was a new document or skipped
         const existingDoc = await this.postgres.getDocumentByHash(
@@ -251,18 +924,21 @@ export class IngestionPipeline {
           stats.vectorsStored += chunks.length;
         }
 
-        // Optionally save markdown
+        // Optionally save markdown, from the OCR output just cached
         if (options?.saveMarkdown) {
-          const ocrResult = await this.pdfProcessor.process(filepath);
+          const ocrResult = await this.loaders.get(filepath).load(filepath, { reuseOcr: true });
           const mdDir = join(dirPath, 'markdown');
           await mkdir(mdDir, { recursive: true });
           const mdPath = join(
             mdDir,
-            basename(filepath).replace(/\.pdf$/i, '.md')
+            basename(filepath, extname(filepath)) + '.md'
           );
           await writeFile(mdPath, ocrResult.fullMarkdown);
         }
       } catch (error) {
+        if (hooks.signal?.aborted) {
+          throw error;
+        }
         const errorMsg = `Failed to ingest ${filepath}: ${error instanceof Error ? error.message : String(error)}`;
         logger.error({ error, filepath }, 'Ingestion failed for file');
         stats.errors.push(errorMsg);
@@ -275,27 +951,28 @@ export class IngestionPipeline {
   }
 
   /**
-   * Find all PDF files in a directory
+   * Find all files in a directory that a loader can read. The `markdown`
+   * folder written by `saveMarkdown` is left out so it is not ingested twice.
    */
-  private async findPdfFiles(
+  private async findSupportedFiles(
     dirPath: string,
     recursive: boolean = false
   ): Promise<string[]> {
-    const pdfFiles: string[] = [];
+    const files: string[] = [];
     const entries = await readdir(dirPath, { withFileTypes: true });
 
     for (const entry of entries) {
       const fullPath = join(dirPath, entry.name);
 
-      if (entry.isFile() && extname(entry.name).toLowerCase() === '.pdf') {
-        pdfFiles.push(fullPath);
-      } else if (entry.isDirectory() && recursive) {
-        const subFiles = await this.findPdfFiles(fullPath, true);
-        pdfFiles.push(...subFiles);
+      if (entry.isFile() && this.loaders.isSupported(entry.name)) {
+        files.push(fullPath);
+      } else if (entry.isDirectory() && recursive && entry.name !== 'markdown') {
+        const subFiles = await this.findSupportedFiles(fullPath, true);
+        files.push(...subFiles);
       }
     }
 
-    return pdfFiles;
+    return files;
   }
 
   /**
@@ -314,7 +991,7 @@ export class IngestionPipeline {
   }
 
   /**
-   * Delete a document and all its chunks/vectors
+   * Delete a document and all its chunks/vectors, and cached answers citing it
    */
   async deleteDocument(documentId: string): Promise<void> {
     logger.info({ documentId }, 'Deleting document');
@@ -324,10 +1001,39 @@ export class IngestionPipeline {
 
     // Delete from Postgres (cascades to chunks)
     await this.postgres.deleteDocument(documentId);
+    await this.postgres.invalidateCachedQueries([documentId]);
 
     logger.info({ documentId }, 'Document deleted');
   }
 
+  /**
+   * List ingested documents with their chunk counts
+   */
+  async listDocuments(): Promise<Array<Document & { chunkCount: number }>> {
+    return this.postgres.listDocumentsWithChunkCounts();
+  }
+
+  /**
+   * Get a document and its chunks, or null if it does not exist
+   */
+  async getDocument(documentId: string): Promise<{ document: Document; chunks: Chunk[] } | null> {
+    const document = await this.postgres.getDocumentById(documentId);
+    if (!document) {
+      return null;
+    }
+
+    const chunks = await this.postgres.getChunksByDocument(documentId);
+    return { document, chunks };
+  }
+
+  /**
+   * All versions of a document's lineage with their chunk counts, newest first.
+   * Empty if the document does not exist.
+   */
+  async getDocumentVersions(documentId: string): Promise<Array<Document & { chunkCount: number }>> {
+    return this.postgres.getDocumentVersions(documentId);
+  }
+
   /**
    * Get ingestion statistics
    */
@@ -345,7 +1051,8 @@ export class IngestionPipeline {
   }
 
   /**
-   * Ingest content from a URL (HTML or PDF)
+   * Ingest content from a URL. HTML is converted in memory; other supported
+   * types (PDF, DOCX, text) are downloaded and ingested as files.
    */
   async ingestFromUrl(
     url: string,
@@ -354,7 +1061,8 @@ export class IngestionPipeline {
       documentType?: DocumentType;
       sourceAuthority?: SourceAuthority;
       legalWeight?: LegalWeight;
-    }
+    },
+    hooks: IngestionHooks = {}
   ): Promise<{ document: Document; chunks: Chunk[] }> {
     logger.info({ url, options }, 'Ingesting from URL');
 
@@ -374,16 +1082,24 @@ export class IngestionPipeline {
     }
 
     const contentType = response.headers.get('content-type') || '';
-    const isPdf = contentType.includes('application/pdf') || url.endsWith('.pdf');
+    const filename = new URL(url).pathname.split('/').pop() || 'web-content';
+    const loader = this.loaders.forMimeType(contentType) ?? this.loaders.forFile(filename);
+    const fields = await this.classify(filename, {
+      title: options?.title,
+      documentType: options?.documentType,
+      sourceAuthority: options?.sourceAuthority,
+      legalWeight: options?.legalWeight,
+      sourceUrl: url,
+    });
 
-    if (isPdf) {
-      // Download PDF to temp file and process
+    if (loader && !(loader instanceof HtmlLoader)) {
+      // Download to a temp file and process
       const buffer = await response.arrayBuffer();
-      const tempPath = join(tmpdir(), `ingest-${Date.now()}.pdf`);
+      const tempPath = join(tmpdir(), `ingest-${Date.now()}${loader.extensions[0]}`);
       await writeFile(tempPath, Buffer.from(buffer));
 
       try {
-        const result = await this.ingestFile(tempPath);
+        const result = await this.ingestFile(tempPath, fields, hooks);
         // Update document with URL metadata
         // Note: Document already created, metadata update would need separate method
         return result;
@@ -398,10 +1114,9 @@ export class IngestionPipeline {
       }
     }
 
-    // Handle HTML content
+    // Handle HTML content (and unknown types, as HTML)
     const html = await response.text();
-    const textContent = this.stripHtml(html);
-    const sanitizedContent = sanitizeForPostgres(textContent);
+    const sanitizedContent = sanitizeForPostgres(HtmlLoader.toMarkdown(html));
     const contentHash = hashString(sanitizedContent);
 
     // Check if already ingested
@@ -413,33 +1128,26 @@ export class IngestionPipeline {
     }
 
     // Create document record
-    const title = options?.title || this.extractTitle(sanitizedContent, url);
+    const previous = await this.postgres.getCurrentVersion(filename, fields.sourceUrl);
     const document = await this.postgres.insertDocument({
-      filename: new URL(url).pathname.split('/').pop() || 'web-content',
+      ...fields,
+      ...this.nextVersion(previous),
+      filename,
       filepath: url,
       fileHash: contentHash,
-      title,
+      title: fields.title || this.extractTitle(sanitizedContent, url),
       metadata: {
         sourceUrl: url,
         processedAt: new Date().toISOString(),
         contentType,
       },
-      documentType: options?.documentType,
-      sourceAuthority: options?.sourceAuthority,
-      legalWeight: options?.legalWeight,
     });
 
-    // Chunk the content
-    const chunkInputs = this.chunker.chunk(sanitizedContent, document.id, {
-      filename: document.filename,
-      title: document.title,
-    });
+    const chunks = await this.indexDocument(document, sanitizedContent, fields.documentType, hooks);
 
-    // Store chunks in Postgres
-    const chunks = await this.postgres.insertChunksBatch(chunkInputs);
-
-    // Generate embeddings and store in Qdrant
-    await this.embedAndStoreChunks(chunks, document);
+    if (previous) {
+      await this.supersede(previous, document);
+    }
 
     logger.info(
       { url, documentId: document.id, chunkCount: chunks.length },
@@ -453,15 +1161,11 @@ export class IngestionPipeline {
    * Ingest multiple scraped items from source monitoring
    */
   async ingestScrapedItems(
-    items: Array<{
-      url: string;
-      title?: string;
-      date?: Date;
-      description?: string;
-    }>,
+    items: ScrapedItemInput[],
     sourceType: DocumentType,
     sourceAuthority: SourceAuthority = 'primary',
-    legalWeight: LegalWeight = 'guidance'
+    legalWeight: LegalWeight = 'guidance',
+    hooks: IngestionHooks = {}
   ): Promise<IngestionStats> {
     const stats: IngestionStats = {
       documentsProcessed: 0,
@@ -476,14 +1180,26 @@ export class IngestionPipeline {
       'Ingesting scraped items'
     );
 
-    for (const item of items) {
+    for (const [index, item] of items.entries()) {
+      hooks.signal?.throwIfAborted();
+      hooks.onProgress?.({
+        stage: 'file',
+        file: item.url,
+        filesDone: index,
+        filesTotal: items.length,
+      });
+
       try {
-        const { document, chunks } = await this.ingestFromUrl(item.url, {
-          title: item.title,
-          documentType: sourceType,
-          sourceAuthority,
-          legalWeight,
-        });
+        const { document, chunks } = await this.ingestFromUrl(
+          item.url,
+          {
+            title: item.title,
+            documentType: sourceType,
+            sourceAuthority,
+            legalWeight,
+          },
+          hooks
+        );
 
         // Check if this was new or existing
         const contentHash = hashString(item.url);
@@ -497,6 +1213,9 @@ export class IngestionPipeline {
           stats.documentsSkipped++;
         }
       } catch (error) {
+        if (hooks.signal?.aborted) {
+          throw error;
+        }
         const errorMsg = `Failed to ingest ${item.url}: ${error instanceof Error ? error.message : String(error)}`;
         logger.error({ error, url: item.url }, 'Ingestion failed for URL');
         stats.errors.push(errorMsg);
@@ -506,42 +1225,6 @@ export class IngestionPipeline {
     logger.info({ stats }, 'Scraped items ingestion complete');
     return stats;
   }
-
-  /**
-   * Strip HTML tags and extract text content
-   */
-  private stripHtml(html: string): string {
-    // Remove script and style elements entirely
-    let text = html.replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '');
-    text = text.replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '');
-
-    // Remove HTML comments
-    text = text.replace(/<!--[\s\S]*?-->/g, '');
-
-    // Replace common block elements with newlines
-    text = text.replace(/<\/?(p|div|br|h[1-6]|li|tr|td|th|blockquote)[^>]*>/gi, '\n');
-
-    // Remove all remaining HTML tags
-    text = text.replace(/<[^>]+>/g, '');
-
-    // Decode HTML entities
-    text = text.replace(/&nbsp;/g, ' ');
-    text = text.replace(/&amp;/g, '&');
-    text = text.replace(/&lt;/g, '<');
-    text = text.replace(/&gt;/g, '>');
-    text = text.replace(/&quot;/g, '"');
-    text = text.replace(/&#39;/g, "'");
-    text = text.replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(dec));
-
-    // Clean up whitespace
-    text = text.replace(/\t/g, ' ');
-    text = text.replace(/ +/g, ' ');
-    text = text.replace(/\n +/g, '\n');
-    text = text.replace(/ +\n/g, '\n');
-    text = text.replace(/\n{3,}/g, '\n\n');
-
-    return text.trim();
-  }
 }
 
 /**
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractTables,
+  findMarkdownTables,
+  formatMarkdownTable,
+  parseMarkdownTable,
+  tabularLinesToMarkdown,
+} from './tables.js';
+
+describe('formatMarkdownTable', () => {
+  it('should use the first row as the header', () => {
+    expect(formatMarkdownTable([['Code', 'Rate'], ['A1', '10.00']])).toBe(
+      '| Code | Rate |\n| --- | --- |\n| A1 | 10.00 |'
+    );
+  });
+
+  it('should pad short rows and escape pipes', () => {
+    expect(formatMarkdownTable([['Code', 'Rate'], ['A|B']])).toBe(
+      '| Code | Rate |\n| --- | --- |\n| A\\|B |  |'
+    );
+  });
+});
+
+describe('findMarkdownTables', () => {
+  it('should locate the header and each row of a table', () => {
+    const content = 'Intro\n| A | B |\n|---|---|\n| 1 | 2 |\n| 3 | 4 |\nAfter';
+
+    const [table] = findMarkdownTables(content);
+
+    expect(content.slice(table.start, table.headerEnd)).toBe('| A | B |\n|---|---|\n');
+    expect(table.rowEnds.map((end) => content.slice(table.headerEnd, end))).toEqual([
+      '| 1 | 2 |\n',
+      '| 1 | 2 |\n| 3 | 4 |\n',
+    ]);
+    expect(content.slice(table.end)).toBe('After');
+  });
+
+  it('should ignore pipe lines without a separator row', () => {
+    expect(findMarkdownTables('| not | a table |\n| still | not |')).toEqual([]);
+  });
+});
+
+describe('parseMarkdownTable', () => {
+  it('should unescape pipes in cells', () => {
+    expect(parseMarkdownTable('| Term | Meaning |\n| --- | --- |\n| a\\|b | or |')).toEqual({
+      headers: ['Term', 'Meaning'],
+      rows: [['a|b', 'or']],
+    });
+  });
+});
+
+describe('extractTables', () => {
+  it('should skip tables without body rows', () => {
+    expect(extractTables('| A | B |\n| --- | --- |')).toEqual([]);
+  });
+});
+
+describe('tabularLinesToMarkdown', () => {
+  it('should turn runs of tab-separated lines into a table', () => {
+    const output = tabularLinesToMarkdown([
+      'Pay rates',
+      'Level\tWeekly\tHourly',
+      'Level 1\t$900.00\t$23.68',
+      'Level 2\t$950.00\t$25.00',
+      'Rates include loading.',
+    ]);
+
+    expect(output).toEqual([
+      'Pay rates',
+      {
+        table:
+          '| Level | Weekly | Hourly |\n| --- | --- | --- |\n' +
+          '| Level 1 | $900.00 | $23.68 |\n| Level 2 | $950.00 | $25.00 |',
+      },
+      'Rates include loading.',
+    ]);
+  });
+
+  it('should keep a single tab-separated line as text', () => {
+    expect(tabularLinesToMarkdown(['Total\t$42.00', 'Thanks'])).toEqual([
+      'Total $42.00',
+      'Thanks',
+    ]);
+  });
+});
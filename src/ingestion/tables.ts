@@ -0,0 +1,157 @@
+/**
+ * Markdown tables: detecting them in extracted text, locating them in
+ * Markdown so chunking can keep them whole, and parsing them into the
+ * structured copy stored in chunk metadata.
+ */
+
+import { TableData } from '../types/index.js';
+
+/**
+ * Position of a Markdown table within a string. `rowEnds` holds the offset
+ * just past each body row, i.e. the places a table may be split.
+ */
+export interface MarkdownTableRange {
+  start: number;
+  end: number;
+  /** Offset just past the separator row */
+  headerEnd: number;
+  rowEnds: number[];
+}
+
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const SEPARATOR_ROW = /^\s*\|(\s*:?-{3,}:?\s*\|)+\s*$/;
+
+/**
+ * Format rows as a Markdown table with the first row as the header. Short
+ * rows are padded and pipes in cells are escaped.
+ */
+export function formatMarkdownTable(rows: string[][]): string {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  const format = (row: string[]) => {
+    const cells = [...row, ...Array(width - row.length).fill('')];
+    return `| ${cells.map((cell) => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  };
+  const [header, ...body] = rows;
+  const separator = `| ${Array(width).fill('---').join(' | ')} |`;
+
+  return [format(header), separator, ...body.map(format)].join('\n');
+}
+
+/**
+ * Find Markdown tables: a header row, a separator row and any body rows
+ */
+export function findMarkdownTables(content: string): MarkdownTableRange[] {
+  const tables: MarkdownTableRange[] = [];
+  const lines = content.split('\n');
+  let offset = 0;
+  let i = 0;
+
+  const lineEnd = (start: number, line: string) =>
+    Math.min(start + line.length + 1, content.length);
+
+  while (i < lines.length) {
+    if (
+      i + 1 < lines.length &&
+      TABLE_ROW.test(lines[i]) &&
+      SEPARATOR_ROW.test(lines[i + 1])
+    ) {
+      const start = offset;
+      let position = lineEnd(offset, lines[i]);
+      position = lineEnd(position, lines[i + 1]);
+      const headerEnd = position;
+      const rowEnds: number[] = [];
+      let j = i + 2;
+
+      while (j < lines.length && TABLE_ROW.test(lines[j])) {
+        position = lineEnd(position, lines[j]);
+        rowEnds.push(position);
+        j++;
+      }
+
+      tables.push({ start, end: position, headerEnd, rowEnds });
+      offset = position;
+      i = j;
+      continue;
+    }
+
+    offset = lineEnd(offset, lines[i]);
+    i++;
+  }
+
+  return tables;
+}
+
+/**
+ * Parse a Markdown table into its header and body cells
+ */
+export function parseMarkdownTable(table: string): TableData {
+  const rows = table
+    .trim()
+    .split('\n')
+    .filter((line) => !SEPARATOR_ROW.test(line))
+    .map(splitRow);
+  const [headers = [], ...body] = rows;
+
+  return { headers, rows: body };
+}
+
+/**
+ * Structured copies of the tables in a piece of Markdown
+ */
+export function extractTables(content: string): TableData[] {
+  return findMarkdownTables(content)
+    .map((range) => parseMarkdownTable(content.slice(range.start, range.end)))
+    .filter((table) => table.headers.length > 0 && table.rows.length > 0);
+}
+
+/**
+ * A line of extracted text, or a Markdown table built from several lines
+ */
+export type ExtractedLine = string | { table: string };
+
+/**
+ * Convert runs of tab-separated lines, as produced by PDF text extraction
+ * where columns are spaced apart, into Markdown tables. Runs need at least
+ * two lines with the same number of columns.
+ */
+export function tabularLinesToMarkdown(lines: string[]): ExtractedLine[] {
+  const output: ExtractedLine[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const cells = splitColumns(lines[i]);
+    let j = i + 1;
+
+    if (cells.length >= 2) {
+      while (j < lines.length && splitColumns(lines[j]).length === cells.length) {
+        j++;
+      }
+      if (j - i >= 2) {
+        output.push({ table: formatMarkdownTable(lines.slice(i, j).map(splitColumns)) });
+        i = j;
+        continue;
+      }
+    }
+
+    output.push(lines[i].replace(/\t+/g, ' '));
+    i++;
+  }
+
+  return output;
+}
+
+function splitColumns(line: string): string[] {
+  return line
+    .split(/\t+/)
+    .map((cell) => cell.trim())
+    .filter((cell) => cell.length > 0);
+}
+
+function splitRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
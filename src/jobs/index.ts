@@ -0,0 +1,20 @@
+/**
+ * Background ingestion jobs
+ *
+ * Ingestion requests from the API and the source monitor are queued in the
+ * ingestion_jobs table and run by a worker, with per-file, per-page and
+ * per-chunk progress and cancellation.
+ */
+
+export { JobQueue, createJobQueue } from './queue.js';
+export type { JobChangeResult } from './queue.js';
+export {
+  JobWorker,
+  createJobWorker,
+  initialProgress,
+  applyProgressEvent,
+  DEFAULT_POLL_INTERVAL_MS,
+  DEFAULT_PROGRESS_INTERVAL_MS,
+  DEFAULT_STALE_AFTER_MS,
+} from './worker.js';
+export type { JobWorkerOptions } from './worker.js';
@@ -0,0 +1,67 @@
+import { PostgresStore } from '../clients/postgres.js';
+import { IngestionJob, IngestionJobRequest, JobState } from '../types/index.js';
+
+/**
+ * Outcome of cancelling or retrying a job. `job` is null if it does not exist;
+ * `changed` is false if it was not in a state the action applies to.
+ */
+export interface JobChangeResult {
+  job: IngestionJob | null;
+  changed: boolean;
+}
+
+/**
+ * Queue of background ingestion jobs stored in the ingestion_jobs table.
+ * Jobs are run by a JobWorker, in the API server or `pnpm jobs work`.
+ */
+export class JobQueue {
+  private postgres: PostgresStore;
+
+  constructor(postgres: PostgresStore) {
+    this.postgres = postgres;
+  }
+
+  async enqueue(request: IngestionJobRequest): Promise<IngestionJob> {
+    return this.postgres.insertJob(request);
+  }
+
+  async get(id: string): Promise<IngestionJob | null> {
+    return this.postgres.getJob(id);
+  }
+
+  async list(options: { state?: JobState; limit?: number } = {}): Promise<IngestionJob[]> {
+    return this.postgres.listJobs(options);
+  }
+
+  /**
+   * Cancel a queued job right away, or ask the worker to stop a running one
+   * at its next page or chunk batch
+   */
+  async cancel(id: string): Promise<JobChangeResult> {
+    const job = await this.postgres.requestJobCancel(id);
+    if (job) {
+      return { job, changed: true };
+    }
+    return { job: await this.postgres.getJob(id), changed: false };
+  }
+
+  /**
+   * Queue a failed or cancelled job again. Documents it already ingested are
+   * skipped as duplicates and pages it already OCRed come from the OCR cache,
+   * so the retry picks up where it stopped.
+   */
+  async retry(id: string): Promise<JobChangeResult> {
+    const job = await this.postgres.requeueJob(id);
+    if (job) {
+      return { job, changed: true };
+    }
+    return { job: await this.postgres.getJob(id), changed: false };
+  }
+}
+
+/**
+ * Create a job queue
+ */
+export function createJobQueue(postgres: PostgresStore): JobQueue {
+  return new JobQueue(postgres);
+}
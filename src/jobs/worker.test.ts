@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { PostgresStore } from '../clients/postgres.js';
+import type { IngestionHooks, IngestionPipeline } from '../ingestion/pipeline.js';
+import type { IngestionJob } from '../types/index.js';
+import { JobWorker, applyProgressEvent, initialProgress } from './worker.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createChildLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  })),
+}));
+
+const DIRECTORY_REQUEST = { type: 'ingest_directory', dirPath: '/data/pdfs' } as const;
+
+function job(overrides: Partial<IngestionJob> = {}): IngestionJob {
+  return {
+    id: 'job-1',
+    request: DIRECTORY_REQUEST,
+    state: 'running',
+    progress: initialProgress(DIRECTORY_REQUEST),
+    attempts: 1,
+    cancelRequested: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('initialProgress', () => {
+  it('should count a single file up front', () => {
+    const progress = initialProgress({ type: 'ingest_file', filepath: '/data/pdfs/handbook.pdf' });
+
+    expect(progress).toMatchObject({ currentFile: 'handbook.pdf', filesDone: 0, filesTotal: 1 });
+  });
+
+  it('should leave directory totals to the pipeline', () => {
+    expect(initialProgress(DIRECTORY_REQUEST).filesTotal).toBe(0);
+  });
+});
+
+describe('applyProgressEvent', () => {
+  it('should reset page and chunk counts when a new file starts', () => {
+    const progress = {
+      ...initialProgress(DIRECTORY_REQUEST),
+      pagesDone: 4,
+      pagesTotal: 4,
+      chunksDone: 20,
+      chunksTotal: 20,
+    };
+
+    const next = applyProgressEvent(progress, {
+      stage: 'file',
+      file: 'b.pdf',
+      filesDone: 1,
+      filesTotal: 3,
+    });
+
+    expect(next).toMatchObject({
+      currentFile: 'b.pdf',
+      filesDone: 1,
+      filesTotal: 3,
+      pagesDone: 0,
+      chunksDone: 0,
+    });
+  });
+
+  it('should record pages that failed OCR against the current file', () => {
+    let progress = applyProgressEvent(initialProgress(DIRECTORY_REQUEST), {
+      stage: 'file',
+      file: 'scan.pdf',
+      filesDone: 0,
+      filesTotal: 1,
+    });
+
+    progress = applyProgressEvent(progress, {
+      stage: 'ocr',
+      pageNumber: 1,
+      pagesDone: 1,
+      totalPages: 2,
+      failed: false,
+    });
+    progress = applyProgressEvent(progress, {
+      stage: 'ocr',
+      pageNumber: 2,
+      pagesDone: 2,
+      totalPages: 2,
+      failed: true,
+    });
+
+    expect(progress.pagesDone).toBe(2);
+    expect(progress.failedPages).toEqual([{ file: 'scan.pdf', page: 2 }]);
+  });
+});
+
+describe('JobWorker', () => {
+  let postgres: {
+    claimNextJob: ReturnType<typeof vi.fn>;
+    updateJobProgress: ReturnType<typeof vi.fn>;
+    finishJob: ReturnType<typeof vi.fn>;
+    requeueStaleJobs: ReturnType<typeof vi.fn>;
+  };
+  let pipeline: {
+    initialize: ReturnType<typeof vi.fn>;
+    ingestDirectory: ReturnType<typeof vi.fn>;
+  };
+  let worker: JobWorker;
+
+  beforeEach(() => {
+    postgres = {
+      claimNextJob: vi.fn().mockResolvedValueOnce(job()).mockResolvedValue(null),
+      updateJobProgress: vi.fn().mockResolvedValue(false),
+      finishJob: vi.fn().mockResolvedValue(undefined),
+      requeueStaleJobs: vi.fn().mockResolvedValue(0),
+    };
+    pipeline = {
+      initialize: vi.fn().mockResolvedValue(undefined),
+      ingestDirectory: vi.fn(),
+    };
+    worker = new JobWorker(
+      postgres as unknown as PostgresStore,
+      pipeline as unknown as IngestionPipeline,
+      { progressIntervalMs: 60_000 }
+    );
+  });
+
+  it('should return false when the queue is empty', async () => {
+    postgres.claimNextJob.mockReset().mockResolvedValue(null);
+
+    expect(await worker.runNext()).toBe(false);
+    expect(pipeline.initialize).not.toHaveBeenCalled();
+  });
+
+  it('should mark a job succeeded with the pipeline result', async () => {
+    pipeline.ingestDirectory.mockImplementation(
+      async (_dir: string, _options: unknown, hooks: IngestionHooks) => {
+        hooks.onProgress?.({ stage: 'file', file: 'a.pdf', filesDone: 0, filesTotal: 2 });
+        hooks.onProgress?.({ stage: 'embedding', chunksDone: 8, chunksTotal: 8 });
+        return { documentsProcessed: 2, documentsSkipped: 0, chunksCreated: 8, errors: [] };
+      }
+    );
+
+    expect(await worker.runNext()).toBe(true);
+
+    expect(postgres.finishJob).toHaveBeenCalledWith('job-1', 'succeeded', {
+      progress: expect.objectContaining({ filesDone: 2, filesTotal: 2, chunksDone: 8 }),
+      result: expect.objectContaining({ documentsProcessed: 2 }),
+      error: undefined,
+    });
+  });
+
+  it('should mark a job failed with the error message', async () => {
+    pipeline.ingestDirectory.mockRejectedValue(new Error('Directory not found'));
+
+    await worker.runNext();
+
+    expect(postgres.finishJob).toHaveBeenCalledWith(
+      'job-1',
+      'failed',
+      expect.objectContaining({ error: 'Directory not found' })
+    );
+  });
+
+  it('should cancel a job when cancellation was requested', async () => {
+    postgres.updateJobProgress.mockResolvedValue(true);
+    pipeline.ingestDirectory.mockImplementation(
+      async (_dir: string, _options: unknown, hooks: IngestionHooks) => {
+        hooks.signal?.throwIfAborted();
+        return { documentsProcessed: 0, documentsSkipped: 0, chunksCreated: 0, errors: [] };
+      }
+    );
+
+    await worker.runNext();
+
+    expect(pipeline.initialize).not.toHaveBeenCalled();
+    expect(postgres.finishJob).toHaveBeenCalledWith(
+      'job-1',
+      'cancelled',
+      expect.objectContaining({ error: undefined })
+    );
+  });
+
+  it('should reuse cached OCR output when a job runs again', async () => {
+    postgres.claimNextJob.mockReset().mockResolvedValueOnce(job({ attempts: 2 }));
+    pipeline.ingestDirectory.mockResolvedValue({
+      documentsProcessed: 1,
+      documentsSkipped: 1,
+      chunksCreated: 3,
+      errors: [],
+    });
+
+    await worker.runNext();
+
+    expect(pipeline.ingestDirectory).toHaveBeenCalledWith(
+      '/data/pdfs',
+      expect.objectContaining({ reuseOcr: true }),
+      expect.anything()
+    );
+  });
+
+  it('should run every queued job when draining', async () => {
+    postgres.claimNextJob
+      .mockReset()
+      .mockResolvedValueOnce(job({ id: 'job-1' }))
+      .mockResolvedValueOnce(job({ id: 'job-2' }))
+      .mockResolvedValue(null);
+    pipeline.ingestDirectory.mockResolvedValue({
+      documentsProcessed: 1,
+      documentsSkipped: 0,
+      chunksCreated: 3,
+      errors: [],
+    });
+    const onJobFinished = vi.fn();
+    worker = new JobWorker(
+      postgres as unknown as PostgresStore,
+      pipeline as unknown as IngestionPipeline,
+      { onJobFinished }
+    );
+
+    expect(await worker.drain()).toBe(2);
+    expect(postgres.requeueStaleJobs).toHaveBeenCalled();
+    expect(onJobFinished).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,298 @@
+import { basename } from 'path';
+import { PostgresStore } from '../clients/postgres.js';
+import {
+  IngestionHooks,
+  IngestionPipeline,
+  IngestionProgressEvent,
+} from '../ingestion/pipeline.js';
+import {
+  IngestionCancelledError,
+  IngestionJob,
+  IngestionJobRequest,
+  JobProgress,
+  JobState,
+} from '../types/index.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('job-worker');
+
+/**
+ * How often an idle worker looks for queued jobs
+ */
+export const DEFAULT_POLL_INTERVAL_MS = 2_000;
+
+/**
+ * How often a running job saves its progress and checks for cancellation
+ */
+export const DEFAULT_PROGRESS_INTERVAL_MS = 2_000;
+
+/**
+ * Running jobs without a progress update for this long are assumed abandoned
+ */
+export const DEFAULT_STALE_AFTER_MS = 10 * 60_000;
+
+export interface JobWorkerOptions {
+  pollIntervalMs?: number;
+  progressIntervalMs?: number;
+  staleAfterMs?: number;
+  /** Called after each job finishes, e.g. to refresh retrieval caches */
+  onJobFinished?: (job: IngestionJob, state: JobState) => void;
+}
+
+type FinishedState = Extract<JobState, 'succeeded' | 'failed' | 'cancelled'>;
+
+/**
+ * Progress of a job that has not started any work yet
+ */
+export function initialProgress(request: IngestionJobRequest): JobProgress {
+  const singleFile = request.type === 'ingest_file';
+  return {
+    currentFile: singleFile ? basename(request.filepath) : undefined,
+    filesDone: 0,
+    filesTotal: singleFile ? 1 : 0,
+    pagesDone: 0,
+    pagesTotal: 0,
+    failedPages: [],
+    chunksDone: 0,
+    chunksTotal: 0,
+  };
+}
+
+/**
+ * Fold a pipeline progress event into a job's progress
+ */
+export function applyProgressEvent(
+  progress: JobProgress,
+  event: IngestionProgressEvent
+): JobProgress {
+  switch (event.stage) {
+    case 'file':
+      return {
+        ...progress,
+        currentFile: event.file,
+        filesDone: event.filesDone,
+        filesTotal: event.filesTotal,
+        pagesDone: 0,
+        pagesTotal: 0,
+        chunksDone: 0,
+        chunksTotal: 0,
+      };
+    case 'ocr':
+      return {
+        ...progress,
+        pagesDone: event.pagesDone,
+        pagesTotal: event.totalPages,
+        failedPages: event.failed
+          ? [...progress.failedPages, { file: progress.currentFile ?? '', page: event.pageNumber }]
+          : progress.failedPages,
+      };
+    case 'embedding':
+      return { ...progress, chunksDone: event.chunksDone, chunksTotal: event.chunksTotal };
+  }
+}
+
+/**
+ * Runs queued ingestion jobs one at a time
+ */
+export class JobWorker {
+  private postgres: PostgresStore;
+  private pipeline: IngestionPipeline;
+  private options: Required<Omit<JobWorkerOptions, 'onJobFinished'>> &
+    Pick<JobWorkerOptions, 'onJobFinished'>;
+  private timer: NodeJS.Timeout | null = null;
+  private started = false;
+
+  constructor(postgres: PostgresStore, pipeline: IngestionPipeline, options: JobWorkerOptions = {}) {
+    this.postgres = postgres;
+    this.pipeline = pipeline;
+    this.options = {
+      pollIntervalMs: options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS,
+      progressIntervalMs: options.progressIntervalMs ?? DEFAULT_PROGRESS_INTERVAL_MS,
+      staleAfterMs: options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS,
+      onJobFinished: options.onJobFinished,
+    };
+  }
+
+  /**
+   * Poll for queued jobs in the background until stopped
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    await this.requeueStaleJobs();
+    this.schedule(0);
+    logger.info({ pollIntervalMs: this.options.pollIntervalMs }, 'Job worker started');
+  }
+
+  /**
+   * Stop picking up new jobs. A job already running is left to finish; if the
+   * process exits first, it is requeued as stale by the next worker.
+   */
+  stop(): void {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run queued jobs until the queue is empty, returning how many ran
+   */
+  async drain(): Promise<number> {
+    await this.requeueStaleJobs();
+
+    let count = 0;
+    while (await this.runNext()) {
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Run the oldest queued job, if any. Returns false when the queue is empty.
+   */
+  async runNext(): Promise<boolean> {
+    const job = await this.postgres.claimNextJob();
+    if (!job) {
+      return false;
+    }
+
+    await this.run(job);
+    return true;
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.started) {
+      return;
+    }
+    this.timer = setTimeout(() => void this.poll(), delayMs);
+    this.timer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    this.timer = null;
+    try {
+      const ran = await this.runNext();
+      this.schedule(ran ? 0 : this.options.pollIntervalMs);
+    } catch (error) {
+      logger.error({ error }, 'Job worker poll failed');
+      this.schedule(this.options.pollIntervalMs);
+    }
+  }
+
+  private async requeueStaleJobs(): Promise<void> {
+    const count = await this.postgres.requeueStaleJobs(this.options.staleAfterMs);
+    if (count > 0) {
+      logger.warn({ count }, 'Requeued ingestion jobs abandoned by a previous worker');
+    }
+  }
+
+  private async run(job: IngestionJob): Promise<void> {
+    logger.info({ jobId: job.id, type: job.request.type, attempt: job.attempts }, 'Running job');
+
+    const controller = new AbortController();
+    let progress = initialProgress(job.request);
+
+    // Saving progress doubles as the heartbeat and the check for cancellation
+    const saveProgress = async () => {
+      const cancelRequested = await this.postgres.updateJobProgress(job.id, progress);
+      if (cancelRequested && !controller.signal.aborted) {
+        logger.info({ jobId: job.id }, 'Cancelling job');
+        controller.abort(new IngestionCancelledError());
+      }
+    };
+    await saveProgress();
+    const heartbeat = setInterval(() => void saveProgress(), this.options.progressIntervalMs);
+
+    let state: FinishedState;
+    let result: Record<string, unknown> | undefined;
+    let error: string | undefined;
+
+    try {
+      controller.signal.throwIfAborted();
+      await this.pipeline.initialize();
+      result = await this.execute(job, {
+        signal: controller.signal,
+        onProgress: (event) => {
+          progress = applyProgressEvent(progress, event);
+        },
+      });
+      state = 'succeeded';
+      progress = { ...progress, filesDone: progress.filesTotal };
+    } catch (err) {
+      if (controller.signal.aborted) {
+        state = 'cancelled';
+      } else {
+        state = 'failed';
+        error = err instanceof Error ? err.message : String(err);
+        logger.error({ error: err, jobId: job.id }, 'Job failed');
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    await this.postgres.finishJob(job.id, state, { progress, result, error });
+    logger.info({ jobId: job.id, state }, 'Job finished');
+    this.options.onJobFinished?.(job, state);
+  }
+
+  /**
+   * Run a job's request. A retried or requeued job picks up the OCR output its
+   * earlier attempt cached, so an interrupted ingest resumes where it stopped.
+   */
+  private async execute(
+    job: IngestionJob,
+    hooks: IngestionHooks
+  ): Promise<Record<string, unknown>> {
+    const { request } = job;
+    const reuseOcr = request.type !== 'ingest_scraped' && (request.reuseOcr || job.attempts > 1);
+
+    switch (request.type) {
+      case 'ingest_file': {
+        const { document, chunks } = await this.pipeline.ingestFile(
+          request.filepath,
+          { documentType: request.documentType, reuseOcr },
+          hooks
+        );
+        return { documentId: document.id, filename: document.filename, chunkCount: chunks.length };
+      }
+      case 'ingest_directory':
+        return {
+          ...(await this.pipeline.ingestDirectory(
+            request.dirPath,
+            {
+              recursive: request.recursive,
+              saveMarkdown: request.saveMarkdown,
+              reuseOcr,
+            },
+            hooks
+          )),
+        };
+      case 'ingest_scraped':
+        return {
+          ...(await this.pipeline.ingestScrapedItems(
+            request.items,
+            request.documentType,
+            request.sourceAuthority,
+            request.legalWeight,
+            hooks
+          )),
+        };
+    }
+  }
+}
+
+/**
+ * Create a job worker
+ */
+export function createJobWorker(
+  postgres: PostgresStore,
+  pipeline: IngestionPipeline,
+  options?: JobWorkerOptions
+): JobWorker {
+  return new JobWorker(postgres, pipeline, options);
+}
@@ -93,15 +93,17 @@ export class MonitorRepository {
     changeDetection: ChangeDetection,
     autoIngested: boolean = false,
     ingestionStatus: string = 'pending',
-    ingestionError?: string
+    ingestionError?: string,
+    ingestionJobId?: string
   ): Promise<string> {
     const result = await this.pool.query(
       `
       INSERT INTO source_change_log (
         monitor_id, previous_hash, new_hash, change_summary,
-        items_added, items_removed, auto_ingested, ingestion_status, ingestion_error
+        items_added, items_removed, auto_ingested, ingestion_status, ingestion_error,
+        ingestion_job_id
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
       RETURNING id
       `,
       [
@@ -114,6 +116,7 @@ export class MonitorRepository {
         autoIngested,
         ingestionStatus,
         ingestionError,
+        ingestionJobId,
       ]
     );
 
@@ -132,6 +135,7 @@ export class MonitorRepository {
         cl.change_summary as "changeSummary", cl.items_added as "itemsAdded",
         cl.items_removed as "itemsRemoved", cl.auto_ingested as "autoIngested",
         cl.ingestion_status as "ingestionStatus", cl.ingestion_error as "ingestionError",
+        cl.ingestion_job_id as "ingestionJobId",
         sm.source_name as "sourceName"
       FROM source_change_log cl
       JOIN source_monitors sm ON sm.id = cl.monitor_id
@@ -367,6 +367,7 @@ describe('SourceMonitorService Integration Tests', () => {
       expect(typeof result.changesDetected).toBe('number');
       expect(typeof result.ingestionsSucceeded).toBe('number');
       expect(typeof result.ingestionsFailed).toBe('number');
+      expect(typeof result.ingestionsQueued).toBe('number');
       expect(Array.isArray(result.details)).toBe(true);
       expect(result.startedAt).toBeInstanceOf(Date);
       expect(result.completedAt).toBeInstanceOf(Date);
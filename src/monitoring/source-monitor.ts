@@ -10,11 +10,13 @@ import {
   ScraperResult,
   ChangeDetection,
   SourceChangeLog,
+  IngestionStatus,
 } from './types.js';
 import { ScraperOptions } from './scrapers/base-scraper.js';
 import { MonitorRepository, createMonitorRepository } from './monitor-repository.js';
 import { ScraperRegistry, createScraperRegistry } from './scraper-registry.js';
-import { IngestionPipeline, createIngestionPipeline } from '../ingestion/pipeline.js';
+import { JobQueue, createJobQueue } from '../jobs/index.js';
+import { getPostgresStore } from '../clients/postgres.js';
 import { Config } from '../types/index.js';
 
 const logger = createChildLogger('source-monitor');
@@ -25,13 +27,13 @@ const logger = createChildLogger('source-monitor');
 export class SourceMonitorService {
   private repository: MonitorRepository;
   private scraperRegistry: ScraperRegistry;
-  private ingestionPipeline: IngestionPipeline | null = null;
+  private jobQueue: JobQueue | null = null;
 
   constructor(pool: Pool, config?: Config) {
     this.repository = createMonitorRepository(pool);
     this.scraperRegistry = createScraperRegistry();
     if (config) {
-      this.ingestionPipeline = createIngestionPipeline(config);
+      this.jobQueue = createJobQueue(getPostgresStore(config.postgres));
     }
   }
 
@@ -145,14 +147,16 @@ export class SourceMonitorService {
     changeDetection: ChangeDetection,
     autoIngested: boolean = false,
     ingestionStatus: string = 'pending',
-    ingestionError?: string
+    ingestionError?: string,
+    ingestionJobId?: string
   ): Promise<string> {
     return this.repository.logChange(
       monitorId,
       changeDetection,
       autoIngested,
       ingestionStatus,
-      ingestionError
+      ingestionError,
+      ingestionJobId
     );
   }
 
@@ -174,6 +178,7 @@ export class SourceMonitorService {
     let changesDetected = 0;
     let ingestionsSucceeded = 0;
     let ingestionsFailed = 0;
+    let ingestionsQueued = 0;
 
     let monitors = await this.getMonitors(options.frequency);
 
@@ -214,11 +219,13 @@ export class SourceMonitorService {
             changeDetection,
             ingestionResult.ingested,
             ingestionResult.status,
-            ingestionResult.error
+            ingestionResult.error,
+            ingestionResult.jobId
           );
 
           if (ingestionResult.status === 'success') ingestionsSucceeded++;
           if (ingestionResult.status === 'failed') ingestionsFailed++;
+          if (ingestionResult.status === 'queued') ingestionsQueued++;
 
           details.push({
             sourceName: monitor.sourceName,
@@ -227,7 +234,8 @@ export class SourceMonitorService {
             hasChanges: true,
             changeDetection,
             ingested: ingestionResult.ingested,
-            ingestionStatus: ingestionResult.status as 'pending' | 'success' | 'failed' | 'skipped',
+            ingestionStatus: ingestionResult.status,
+            ingestionJobId: ingestionResult.jobId,
             error: ingestionResult.error,
           });
         } else {
@@ -263,6 +271,7 @@ export class SourceMonitorService {
         changesDetected,
         ingestionsSucceeded,
         ingestionsFailed,
+        ingestionsQueued,
         durationMs: completedAt.getTime() - startedAt.getTime(),
       },
       'Monitor run complete'
@@ -273,6 +282,7 @@ export class SourceMonitorService {
       changesDetected,
       ingestionsSucceeded,
       ingestionsFailed,
+      ingestionsQueued,
       details,
       startedAt,
       completedAt,
@@ -280,19 +290,20 @@ export class SourceMonitorService {
   }
 
   /**
-   * Handle ingestion of new items from a change detection
+   * Queue ingestion of new items from a change detection. The job worker
+   * (API server or `pnpm jobs work`) does the ingesting.
    */
   private async handleIngestion(
     monitor: SourceMonitor,
     changeDetection: ChangeDetection,
     options: MonitorRunOptions
-  ): Promise<{ ingested: boolean; status: string; error?: string }> {
+  ): Promise<{ ingested: boolean; status: IngestionStatus; error?: string; jobId?: string }> {
     if (!monitor.autoIngest || options.dryRun) {
       return { ingested: false, status: 'pending' };
     }
 
-    if (!this.ingestionPipeline) {
-      logger.warn({ sourceName: monitor.sourceName }, 'Ingestion pipeline not configured');
+    if (!this.jobQueue) {
+      logger.warn({ sourceName: monitor.sourceName }, 'Ingestion job queue not configured');
       return { ingested: false, status: 'skipped' };
     }
 
@@ -306,32 +317,25 @@ export class SourceMonitorService {
         monitor.sourceType as SourceType
       );
 
-      const ingestionStats = await this.ingestionPipeline.ingestScrapedItems(
-        changeDetection.newItems,
+      const job = await this.jobQueue.enqueue({
+        type: 'ingest_scraped',
+        items: changeDetection.newItems,
         documentType,
-        'primary',
-        legalWeight
-      );
-
-      if (ingestionStats.errors.length > 0) {
-        return {
-          ingested: false,
-          status: 'failed',
-          error: ingestionStats.errors.join('; '),
-        };
-      }
+        sourceAuthority: 'primary',
+        legalWeight,
+        sourceName: monitor.sourceName,
+      });
 
       logger.info(
         {
           sourceName: monitor.sourceName,
-          processed: ingestionStats.documentsProcessed,
-          skipped: ingestionStats.documentsSkipped,
-          chunks: ingestionStats.chunksCreated,
+          jobId: job.id,
+          items: changeDetection.newItems.length,
         },
-        'Ingested new items from source'
+        'Queued ingestion of new items from source'
       );
 
-      return { ingested: true, status: 'success' };
+      return { ingested: false, status: 'queued', jobId: job.id };
     } catch (error) {
       return {
         ingested: false,
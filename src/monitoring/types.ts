@@ -24,7 +24,7 @@ export type CheckFrequency = 'weekly' | 'monthly' | 'quarterly' | 'annually';
 /**
  * Status of an ingestion attempt
  */
-export type IngestionStatus = 'pending' | 'success' | 'failed' | 'skipped';
+export type IngestionStatus = 'pending' | 'queued' | 'success' | 'failed' | 'skipped';
 
 /**
  * Source monitor configuration from database
@@ -60,6 +60,8 @@ export interface SourceChangeLog {
   autoIngested: boolean;
   ingestionStatus: IngestionStatus;
   ingestionError?: string;
+  /** Ingestion job the new items were queued in */
+  ingestionJobId?: string;
 }
 
 /**
@@ -146,6 +148,8 @@ export interface MonitorRunResult {
   ingestionsSucceeded: number;
   /** Sources that failed to ingest */
   ingestionsFailed: number;
+  /** Sources whose new items were queued as an ingestion job */
+  ingestionsQueued: number;
   /** Details for each source checked */
   details: MonitorSourceResult[];
   /** Time the run started */
@@ -165,5 +169,6 @@ export interface MonitorSourceResult {
   changeDetection?: ChangeDetection;
   ingested: boolean;
   ingestionStatus?: IngestionStatus;
+  ingestionJobId?: string;
   error?: string;
 }
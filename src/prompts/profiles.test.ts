@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PROMPT_PROFILES,
+  DEFAULT_PROMPT_MODE,
+  getPromptProfile,
+  isPromptMode,
+  formatContextWithSections,
+} from './profiles.js';
+import { SENIOR_SYSTEM_PROMPT, RESOURCES_FOOTER, NO_ANSWER_RESPONSE } from './senior-assistant.js';
+
+describe('Prompt Profiles', () => {
+  const contexts = [
+    {
+      index: 1,
+      content: 'The home is excluded while a spouse lives there.',
+      filename: 'pa-code-178.pdf',
+      pageNumber: 4,
+      section: '§ 178.4 Home',
+    },
+  ];
+
+  describe('getPromptProfile', () => {
+    it('defaults to the senior profile', () => {
+      expect(DEFAULT_PROMPT_MODE).toBe('senior');
+      expect(getPromptProfile()).toBe(PROMPT_PROFILES.senior);
+    });
+
+    it('returns the profile for each mode', () => {
+      for (const mode of ['senior', 'caregiver', 'caseworker'] as const) {
+        expect(getPromptProfile(mode).mode).toBe(mode);
+      }
+    });
+  });
+
+  describe('senior profile', () => {
+    const profile = PROMPT_PROFILES.senior;
+
+    it('uses the senior assistant templates', () => {
+      expect(profile.systemPrompt).toBe(SENIOR_SYSTEM_PROMPT);
+      expect(profile.noAnswerResponse).toBe(NO_ANSWER_RESPONSE);
+      expect(profile.footer).toBe(RESOURCES_FOOTER);
+    });
+
+    it('asks for the Direct Answer / Next Steps format', () => {
+      const prompt = profile.buildUserPrompt('What is QMB?', profile.formatContext(contexts));
+
+      expect(prompt).toContain('[1] Source: pa-code-178.pdf (Page 4)');
+      expect(prompt).toContain('Direct Answer');
+      expect(prompt).toContain('Next Steps');
+    });
+  });
+
+  describe('caregiver profile', () => {
+    const profile = PROMPT_PROFILES.caregiver;
+
+    it('asks for dense answers citing sections', () => {
+      const prompt = profile.buildUserPrompt('Is the home exempt?', profile.formatContext(contexts));
+
+      expect(profile.systemPrompt).toContain('dense');
+      expect(profile.systemPrompt).toContain('section or page');
+      expect(prompt).toContain('Question from a family caregiver: Is the home exempt?');
+      expect(prompt).toContain('Section: § 178.4 Home, Page 4');
+      expect(profile.maxTokens).toBeGreaterThan(PROMPT_PROFILES.senior.maxTokens);
+      expect(profile.footer).toBeUndefined();
+    });
+  });
+
+  describe('caseworker profile', () => {
+    it('prefers regulatory sources', () => {
+      expect(PROMPT_PROFILES.caseworker.systemPrompt).toContain('Prefer regulatory sources');
+    });
+  });
+
+  describe('formatContextWithSections', () => {
+    it('omits missing section and page', () => {
+      expect(formatContextWithSections([{ index: 2, content: 'Text', filename: 'faq.pdf' }])).toBe(
+        '[2] Source: faq.pdf\nText'
+      );
+    });
+  });
+
+  describe('isPromptMode', () => {
+    it('accepts known modes only', () => {
+      expect(isPromptMode('caseworker')).toBe(true);
+      expect(isPromptMode('lawyer')).toBe(false);
+      expect(isPromptMode('toString')).toBe(false);
+      expect(isPromptMode(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Prompt profiles: the system prompt, context layout and answer format used
+ * for each audience, selected by the `mode` of a query
+ */
+
+import type { PromptMode } from '../types/index.js';
+import {
+  SENIOR_SYSTEM_PROMPT,
+  formatContextForSeniors,
+  generateUserPrompt,
+  RESOURCES_FOOTER,
+  NO_ANSWER_RESPONSE,
+} from './senior-assistant.js';
+
+/**
+ * A retrieved chunk as shown to the LLM
+ */
+export interface PromptContext {
+  index: number;
+  content: string;
+  filename: string;
+  pageNumber?: number;
+  /** Section heading or regulation number the chunk came from */
+  section?: string;
+}
+
+export interface PromptProfile {
+  mode: PromptMode;
+  systemPrompt: string;
+  formatContext: (contexts: PromptContext[]) => string;
+  buildUserPrompt: (query: string, contextText: string) => string;
+  /** Token budget for the answer */
+  maxTokens: number;
+  /** Answer returned when retrieval finds nothing */
+  noAnswerResponse: string;
+  /** Appended to every generated answer */
+  footer?: string;
+}
+
+export const DEFAULT_PROMPT_MODE: PromptMode = 'senior';
+
+/**
+ * System prompt for family caregivers managing someone else's benefits
+ */
+export const CAREGIVER_SYSTEM_PROMPT = `You are a Medicaid and Medicare assistant for family caregivers who manage benefits for an older relative in Pennsylvania.
+
+COMMUNICATION STYLE:
+- Be dense and specific: caregivers want the details, not a summary
+- Give exact figures, deadlines, and required documents when the sources state them
+- Use program names and acronyms (QMB, SLMB, LIS, CHC, LIFE) without re-explaining them
+
+IMPORTANT RULES:
+1. Only use information from the provided documents
+2. Cite every fact with [N] notation, followed by the section or page in parentheses when the source gives one, e.g. [2] (§ 178.4)
+3. Point out spousal protections, look-back periods, and appeal deadlines when relevant
+4. For estate planning or asset transfers, recommend an elder law attorney
+5. Note that limits change annually and eligibility is decided by the County Assistance Office
+6. If the documents do not answer the question, say so plainly`;
+
+/**
+ * Answer format for caregivers: compact, sectioned, fully cited
+ */
+export const CAREGIVER_ANSWER_FORMAT = `
+Format your response as follows:
+- Start with a one or two sentence answer
+- Follow with the key rules, limits, and exceptions as bullet points, each cited with [N] and its section or page
+- End with what the caregiver should gather or file next, if the sources say
+
+Skip greetings and general encouragement.`;
+
+/**
+ * System prompt for caseworkers and benefits counselors
+ */
+export const CASEWORKER_SYSTEM_PROMPT = `You are a reference assistant for Pennsylvania Medicaid caseworkers and benefits counselors.
+
+RULES:
+1. Only use information from the provided documents
+2. Cite every statement with [N] notation, followed by the regulation, handbook section, or page in parentheses
+3. Prefer regulatory sources (PA Code, OIM handbooks) over informational material, and say which one a statement comes from
+4. Quote limits, percentages, and effective dates exactly as written
+5. Flag conflicts between sources and any figures that may be out of date
+6. Do not simplify terminology or add consumer-facing advice
+7. If the documents do not answer the question, say so plainly`;
+
+/**
+ * Answer format for caseworkers
+ */
+export const CASEWORKER_ANSWER_FORMAT = `
+Answer in short paragraphs or bullet points. Lead with the governing rule and its citation,
+then list exceptions and related sections. Keep the response terse.`;
+
+/**
+ * Context layout that keeps the section each chunk came from
+ */
+export function formatContextWithSections(contexts: PromptContext[]): string {
+  return contexts
+    .map((ctx) => {
+      const location = [
+        ctx.section ? `Section: ${ctx.section}` : undefined,
+        ctx.pageNumber ? `Page ${ctx.pageNumber}` : undefined,
+      ]
+        .filter(Boolean)
+        .join(', ');
+      return `[${ctx.index}] Source: ${ctx.filename}${location ? ` (${location})` : ''}\n${ctx.content}`;
+    })
+    .join('\n\n---\n\n');
+}
+
+const NO_ANSWER_BRIEF = `The available documents do not cover this question.
+
+For a determination, contact the Chester County CAO (610-466-1000), APPRISE for Medicare
+questions (610-344-6350) or PHLP (1-800-274-3258).`;
+
+export const PROMPT_PROFILES: Record<PromptMode, PromptProfile> = {
+  senior: {
+    mode: 'senior',
+    systemPrompt: SENIOR_SYSTEM_PROMPT,
+    formatContext: formatContextForSeniors,
+    buildUserPrompt: generateUserPrompt,
+    maxTokens: 1024,
+    noAnswerResponse: NO_ANSWER_RESPONSE,
+    footer: RESOURCES_FOOTER,
+  },
+  caregiver: {
+    mode: 'caregiver',
+    systemPrompt: CAREGIVER_SYSTEM_PROMPT,
+    formatContext: formatContextWithSections,
+    buildUserPrompt: (query, contextText) => `Context Documents:
+${contextText}
+
+---
+
+Question from a family caregiver: ${query}
+
+${CAREGIVER_ANSWER_FORMAT}`,
+    maxTokens: 1536,
+    noAnswerResponse: NO_ANSWER_BRIEF,
+  },
+  caseworker: {
+    mode: 'caseworker',
+    systemPrompt: CASEWORKER_SYSTEM_PROMPT,
+    formatContext: formatContextWithSections,
+    buildUserPrompt: (query, contextText) => `Context Documents:
+${contextText}
+
+---
+
+Question: ${query}
+
+${CASEWORKER_ANSWER_FORMAT}`,
+    maxTokens: 1024,
+    noAnswerResponse: NO_ANSWER_BRIEF,
+  },
+};
+
+/**
+ * Check that a value names a prompt profile
+ */
+export function isPromptMode(value: unknown): value is PromptMode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROMPT_PROFILES, value);
+}
+
+/**
+ * Profile for a mode, falling back to the senior profile
+ */
+export function getPromptProfile(mode: PromptMode = DEFAULT_PROMPT_MODE): PromptProfile {
+  return PROMPT_PROFILES[mode] ?? PROMPT_PROFILES[DEFAULT_PROMPT_MODE];
+}
@@ -5,6 +5,7 @@ import {
   formatContextForSeniors,
   generateUserPrompt,
   getFollowUpSuggestions,
+  FOLLOW_UP_SUGGESTIONS,
   RESOURCES_FOOTER,
   NO_ANSWER_RESPONSE,
 } from './senior-assistant.js';
@@ -116,22 +117,42 @@ describe('Senior Assistant Prompts', () => {
   describe('getFollowUpSuggestions', () => {
     it('should return Medicare Savings suggestions for QMB queries', () => {
       const suggestions = getFollowUpSuggestions(['QMB', 'income limits']);
-      expect(suggestions).toContain('Would you like to know how to apply for this program?');
+      expect(suggestions).toContain('How do I apply for a Medicare Savings Program?');
     });
 
     it('should return nursing home suggestions for LTC queries', () => {
       const suggestions = getFollowUpSuggestions(['nursing home', 'spouse']);
-      expect(suggestions).toContain('Would you like to know about home care alternatives?');
+      expect(suggestions).toContain(
+        'What are the alternatives to a nursing home, like care at home?'
+      );
     });
 
     it('should return prescription suggestions for drug help queries', () => {
       const suggestions = getFollowUpSuggestions(['prescription', 'Extra Help']);
-      expect(suggestions).toContain('Would you like to know about Extra Help/LIS?');
+      expect(suggestions).toContain('Can Extra Help lower my prescription costs?');
     });
 
     it('should return general suggestions for unknown topics', () => {
       const suggestions = getFollowUpSuggestions(['unknown topic']);
-      expect(suggestions).toContain('Is there anything else you would like to know?');
+      expect(suggestions).toContain('How do I apply for Medical Assistance?');
+    });
+
+    it('should match keywords as whole words and acronyms only as written', () => {
+      const general = getFollowUpSuggestions(['unknown topic']);
+
+      expect(getFollowUpSuggestions(['Is there space in the home?'])).toEqual(general);
+      expect(getFollowUpSuggestions(['Does life insurance count?'])).toEqual(general);
+      expect(getFollowUpSuggestions(['Is LIFE like nursing homes?'])).not.toEqual(general);
+      expect(getFollowUpSuggestions(['Do prescriptions count?'])).toContain(
+        'Can Extra Help lower my prescription costs?'
+      );
+    });
+
+    it('should phrase every suggestion as a question from the user', () => {
+      const all = Object.values(FOLLOW_UP_SUGGESTIONS).flat();
+
+      expect(all.every((q) => q.endsWith('?'))).toBe(true);
+      expect(all.filter((q) => /\bwould you like\b|\bcan I help\b/i.test(q))).toEqual([]);
     });
   });
 
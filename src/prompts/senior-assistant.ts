@@ -97,53 +97,75 @@ ${SENIOR_ANSWER_FORMAT}`;
 }
 
 /**
- * Common follow-up suggestions based on query type
+ * Common follow-up suggestions based on query type. They are offered as
+ * questions the user can send, so they are written in the user's voice.
  */
 export const FOLLOW_UP_SUGGESTIONS: Record<string, string[]> = {
   medicare_savings: [
-    'Would you like to know how to apply for this program?',
-    'Do you need information about income verification documents?',
-    'Would you like the phone number for free Medicare counseling?',
+    'How do I apply for a Medicare Savings Program?',
+    'What documents do I need to show my income?',
+    'Where can I get free Medicare counseling?',
   ],
   nursing_home: [
-    'Would you like to know about home care alternatives?',
-    'Do you need information about spousal protections?',
-    'Would you like to speak with a Medicaid counselor?',
+    'What are the alternatives to a nursing home, like care at home?',
+    'How is my spouse protected if I need nursing home care?',
+    'Who can I talk to about Medicaid for long-term care?',
   ],
   prescription_help: [
-    'Would you like to know about Extra Help/LIS?',
-    'Do you need information about PACE or PACENET?',
-    'Would you like help comparing drug coverage options?',
+    'Can Extra Help lower my prescription costs?',
+    'Do I qualify for PACE or PACENET?',
+    'How do I compare drug coverage options?',
   ],
   general: [
-    'Is there anything else you would like to know?',
-    'Would you like contact information for additional help?',
-    'Do you have questions about how to apply?',
+    'How do I apply for Medical Assistance?',
+    'Who can I call for free help with Medicaid questions?',
+    'What programs help pay my Medicare costs?',
   ],
 };
 
+/**
+ * Keywords that pick a follow-up category. Keywords in capitals are acronyms
+ * and match only as written, so "life insurance" is not the LIFE program.
+ */
+const FOLLOW_UP_TOPICS: Record<string, keyof typeof FOLLOW_UP_SUGGESTIONS> = {
+  QMB: 'medicare_savings',
+  SLMB: 'medicare_savings',
+  QI: 'medicare_savings',
+  'Medicare Savings': 'medicare_savings',
+  'nursing home': 'nursing_home',
+  'long-term care': 'nursing_home',
+  LIFE: 'nursing_home',
+  CHC: 'nursing_home',
+  prescription: 'prescription_help',
+  'Extra Help': 'prescription_help',
+  PACE: 'prescription_help',
+  PACENET: 'prescription_help',
+};
+
+/**
+ * Whole-word pattern for a topic keyword that treats spaces and hyphens alike
+ * and allows a plural "s"
+ */
+function topicPattern(keyword: string): RegExp {
+  const body = keyword
+    .split(/[\s-]+/)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[\\s-]+');
+  const flags = keyword === keyword.toUpperCase() ? '' : 'i';
+  return new RegExp(`(?<!\\w)${body}s?(?!\\w)`, flags);
+}
+
+const FOLLOW_UP_TOPIC_PATTERNS = Object.entries(FOLLOW_UP_TOPICS).map(
+  ([keyword, category]) => ({ pattern: topicPattern(keyword), category })
+);
+
 /**
  * Get appropriate follow-up suggestions based on query topic
  */
 export function getFollowUpSuggestions(queryTopics: string[]): string[] {
-  const topicMap: Record<string, keyof typeof FOLLOW_UP_SUGGESTIONS> = {
-    QMB: 'medicare_savings',
-    SLMB: 'medicare_savings',
-    QI: 'medicare_savings',
-    'Medicare Savings': 'medicare_savings',
-    'nursing home': 'nursing_home',
-    'long-term care': 'nursing_home',
-    LIFE: 'nursing_home',
-    CHC: 'nursing_home',
-    prescription: 'prescription_help',
-    'Extra Help': 'prescription_help',
-    PACE: 'prescription_help',
-    PACENET: 'prescription_help',
-  };
-
   for (const topic of queryTopics) {
-    for (const [keyword, category] of Object.entries(topicMap)) {
-      if (topic.toLowerCase().includes(keyword.toLowerCase())) {
+    for (const { pattern, category } of FOLLOW_UP_TOPIC_PATTERNS) {
+      if (pattern.test(topic)) {
         return FOLLOW_UP_SUGGESTIONS[category];
       }
     }
@@ -152,6 +174,24 @@ export function getFollowUpSuggestions(queryTopics: string[]): string[] {
   return FOLLOW_UP_SUGGESTIONS.general;
 }
 
+/**
+ * Topic keywords for the documents an answer cites, so follow-ups can match
+ * an answer drawn from (say) an Extra Help guide when the question was vague
+ */
+export const DOCUMENT_TYPE_TOPICS: Record<string, string> = {
+  msp_guide: 'Medicare Savings',
+  income_limits: 'Medicare Savings',
+  dual_eligible: 'Medicare Savings',
+  ltc_info: 'long-term care',
+  oim_ltc_handbook: 'long-term care',
+  life_program: 'LIFE',
+  chc_waiver: 'CHC',
+  chc_publications: 'CHC',
+  chc_handbook: 'CHC',
+  extra_help: 'Extra Help',
+  pace_pacenet: 'PACENET',
+};
+
 /**
  * Helpful resources footer for all responses
  */
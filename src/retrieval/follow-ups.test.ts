@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FollowUpGenerator, createFollowUpGenerator } from './follow-ups.js';
+import { FOLLOW_UP_SUGGESTIONS } from '../prompts/senior-assistant.js';
+import { LMStudioClient } from '../clients/lm-studio.js';
+
+// Mock LMStudioClient
+const createMockLMStudio = (): LMStudioClient => ({
+  chat: vi.fn(),
+} as unknown as LMStudioClient);
+
+describe('FollowUpGenerator', () => {
+  let mockLMStudio: LMStudioClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLMStudio = createMockLMStudio();
+  });
+
+  describe('topic suggestions', () => {
+    let generator: FollowUpGenerator;
+
+    beforeEach(() => {
+      generator = new FollowUpGenerator(mockLMStudio);
+    });
+
+    it('should suggest follow-ups for topics in the question', async () => {
+      const result = await generator.generate('What is QMB?', 'QMB pays premiums [1].', []);
+
+      expect(result).toEqual(FOLLOW_UP_SUGGESTIONS.medicare_savings);
+      expect(mockLMStudio.chat).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the cited document types for vague questions', async () => {
+      const result = await generator.generate(
+        'How can I save money on my pills?',
+        'Extra Help lowers drug costs [1].',
+        ['extra_help']
+      );
+
+      expect(result).toEqual(FOLLOW_UP_SUGGESTIONS.prescription_help);
+    });
+
+    it('should prefer the question topic over document types', async () => {
+      const result = await generator.generate(
+        'Will the nursing home take my house?',
+        'The home is exempt [1].',
+        ['msp_guide']
+      );
+
+      expect(result).toEqual(FOLLOW_UP_SUGGESTIONS.nursing_home);
+    });
+
+    it('should use general suggestions when nothing matches', async () => {
+      const result = await generator.generate('Hello', 'Hi there.', ['pa_bulletin']);
+
+      expect(result).toEqual(FOLLOW_UP_SUGGESTIONS.general);
+    });
+  });
+
+  describe('LLM suggestions', () => {
+    let generator: FollowUpGenerator;
+
+    beforeEach(() => {
+      generator = createFollowUpGenerator(mockLMStudio, { useLlm: true });
+    });
+
+    it('should lead with cleaned LLM questions', async () => {
+      vi.mocked(mockLMStudio.chat).mockResolvedValue(
+        '1. "How do I apply for SLMB?"\n- What documents do I need?\nThanks for asking'
+      );
+
+      const result = await generator.generate('What is SLMB?', 'SLMB pays Part B [1].', []);
+
+      expect(result).toEqual([
+        'How do I apply for SLMB?',
+        'What documents do I need?',
+        FOLLOW_UP_SUGGESTIONS.medicare_savings[0],
+      ]);
+    });
+
+    it('should fall back to topic suggestions when the LLM fails', async () => {
+      vi.mocked(mockLMStudio.chat).mockRejectedValue(new Error('LLM unavailable'));
+
+      const result = await generator.generate('What is SLMB?', 'SLMB pays Part B [1].', []);
+
+      expect(result).toEqual(FOLLOW_UP_SUGGESTIONS.medicare_savings);
+    });
+  });
+});
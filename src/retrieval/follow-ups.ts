@@ -0,0 +1,109 @@
+import { LMStudioClient } from '../clients/lm-studio.js';
+import { getFollowUpSuggestions, DOCUMENT_TYPE_TOPICS } from '../prompts/senior-assistant.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('follow-ups');
+
+/**
+ * Maximum number of follow-up questions returned with an answer
+ */
+const MAX_FOLLOW_UPS = 3;
+
+/**
+ * Maximum characters of the answer included in the follow-up prompt
+ */
+const MAX_ANSWER_CHARS = 1200;
+
+/**
+ * LLM suggestions longer than this are dropped
+ */
+const MAX_QUESTION_LENGTH = 150;
+
+export interface FollowUpOptions {
+  /** Ask the LLM for suggestions specific to the answer */
+  useLlm?: boolean;
+}
+
+/**
+ * Suggest questions a user might ask next, so an answer is not a dead end
+ */
+export class FollowUpGenerator {
+  private lmStudio: LMStudioClient;
+  private useLlm: boolean;
+
+  constructor(lmStudio: LMStudioClient, options: FollowUpOptions = {}) {
+    this.lmStudio = lmStudio;
+    this.useLlm = options.useLlm ?? false;
+  }
+
+  /**
+   * Suggestions for the topics in the question and the types of the cited
+   * documents, led by LLM suggestions when enabled
+   */
+  async generate(query: string, answer: string, documentTypes: string[]): Promise<string[]> {
+    // The question's own wording wins over what the cited documents cover
+    const topics = [
+      query,
+      ...documentTypes.map((type) => DOCUMENT_TYPE_TOPICS[type]).filter(Boolean),
+    ];
+    const suggestions = getFollowUpSuggestions(topics);
+
+    if (!this.useLlm) {
+      return suggestions.slice(0, MAX_FOLLOW_UPS);
+    }
+
+    const generated = await this.generateWithLlm(query, answer);
+    const seen = new Set<string>();
+    return [...generated, ...suggestions]
+      .filter((question) => {
+        const key = question.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, MAX_FOLLOW_UPS);
+  }
+
+  /**
+   * Ask the LLM for follow-up questions; returns none if the call fails
+   */
+  private async generateWithLlm(query: string, answer: string): Promise<string[]> {
+    const excerpt =
+      answer.length > MAX_ANSWER_CHARS ? answer.substring(0, MAX_ANSWER_CHARS) + '...' : answer;
+
+    const prompt = `A senior or their family member asked about Pennsylvania Medicaid or Medicare benefits.
+
+Question: ${query}
+
+Answer they received:
+${excerpt}
+
+Suggest ${MAX_FOLLOW_UPS - 1} short follow-up questions they are likely to ask next, written in their own words (e.g. "How do I apply for QMB?"). Output one question per line and nothing else.`;
+
+    try {
+      const response = await this.lmStudio.chat(
+        [{ role: 'user', content: prompt }],
+        { temperature: 0.3, maxTokens: 150 }
+      );
+
+      return response
+        .split('\n')
+        .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/^["“]+|["”]+$/g, '').trim())
+        .filter((line) => line.endsWith('?') && line.length <= MAX_QUESTION_LENGTH)
+        .slice(0, MAX_FOLLOW_UPS - 1);
+    } catch (error) {
+      logger.error({ error }, 'Follow-up generation failed, using topic suggestions');
+      return [];
+    }
+  }
+}
+
+/**
+ * Create a follow-up generator
+ */
+export function createFollowUpGenerator(
+  lmStudio: LMStudioClient,
+  options?: FollowUpOptions
+): FollowUpGenerator {
+  return new FollowUpGenerator(lmStudio, options);
+}
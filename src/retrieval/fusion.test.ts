@@ -4,6 +4,9 @@ import {
   calculateRRFScore,
   normalizeScores,
   deduplicateResults,
+  resolveFusionSettings,
+  formatFusion,
+  DEFAULT_FUSION,
 } from './fusion.js';
 import { SearchResult, FusedResult } from '../types/index.js';
 
@@ -151,6 +154,95 @@ describe('fuseResults', () => {
     expect(fused[0].vectorScore).toBe(0.95);
     expect(fused[0].bm25Score).toBe(7.5);
   });
+
+  describe('strategies', () => {
+    // chunk-5 is a "§ 258.3" section BM25 ranks first and vector search ranks last
+    const vectorResults: SearchResult[] = [
+      createSearchResult('chunk-1', 0.9, 'vector'),
+      createSearchResult('chunk-2', 0.85, 'vector'),
+      createSearchResult('chunk-3', 0.8, 'vector'),
+      createSearchResult('chunk-5', 0.5, 'vector'),
+    ];
+    const bm25Results: SearchResult[] = [
+      createSearchResult('chunk-5', 12.0, 'bm25'),
+      createSearchResult('chunk-4', 3.0, 'bm25'),
+      createSearchResult('chunk-1', 2.0, 'bm25'),
+    ];
+    const ids = (fused: FusedResult[]) => fused.map((r) => r.chunkId);
+
+    it('should weigh sources in RRF', () => {
+      const equal = fuseResults(vectorResults, bm25Results, 10);
+      const keyword = fuseResults(vectorResults, bm25Results, 10, {
+        ...DEFAULT_FUSION,
+        weights: { vector: 1, bm25: 3 },
+      });
+
+      expect(ids(equal)[0]).toBe('chunk-1');
+      expect(ids(keyword)[0]).toBe('chunk-5');
+      expect(keyword[0].score).toBeCloseTo(1 / 64 + 3 / 61);
+      expect(keyword[0].rrfScore).toBe(keyword[0].score);
+    });
+
+    it('should sum normalized scores with CombSUM', () => {
+      const fused = fuseResults(vectorResults, bm25Results, 10, {
+        ...DEFAULT_FUSION,
+        strategy: 'combsum',
+      });
+
+      // chunk-5: vector (0.5-0.5)/0.4 = 0, BM25 (12-2)/10 = 1
+      expect(fused.find((r) => r.chunkId === 'chunk-5')!.score).toBeCloseTo(1);
+      // chunk-1: vector 1, BM25 0
+      expect(fused.find((r) => r.chunkId === 'chunk-1')!.score).toBeCloseTo(1);
+      expect(ids(fused).slice(0, 2).sort()).toEqual(['chunk-1', 'chunk-5']);
+      expect(fused.find((r) => r.chunkId === 'chunk-4')!.score).toBeCloseTo(0.1);
+    });
+
+    it('should multiply by the number of sources with CombMNZ', () => {
+      const combsum = fuseResults(vectorResults, bm25Results, 10, {
+        ...DEFAULT_FUSION,
+        strategy: 'combsum',
+      });
+      const combmnz = fuseResults(vectorResults, bm25Results, 10, {
+        ...DEFAULT_FUSION,
+        strategy: 'combmnz',
+      });
+
+      const score = (fused: FusedResult[], id: string) =>
+        fused.find((r) => r.chunkId === id)!.score;
+      expect(score(combmnz, 'chunk-5')).toBeCloseTo(2 * score(combsum, 'chunk-5'));
+      expect(score(combmnz, 'chunk-2')).toBeCloseTo(score(combsum, 'chunk-2'));
+      for (let i = 0; i < combmnz.length - 1; i++) {
+        expect(combmnz[i].score).toBeGreaterThanOrEqual(combmnz[i + 1].score);
+      }
+    });
+  });
+});
+
+describe('resolveFusionSettings', () => {
+  const rag = { fusion: 'rrf' as const, rrfK: 60, fusionWeights: { vector: 1, bm25: 1.5 } };
+
+  it('should use the configured settings', () => {
+    expect(resolveFusionSettings(rag)).toEqual({
+      strategy: 'rrf',
+      weights: { vector: 1, bm25: 1.5 },
+      rrfK: 60,
+    });
+  });
+
+  it('should apply per-query overrides, keeping unset weights', () => {
+    expect(
+      resolveFusionSettings(rag, { strategy: 'combmnz', weights: { vector: 0.5 }, rrfK: 20 })
+    ).toEqual({ strategy: 'combmnz', weights: { vector: 0.5, bm25: 1.5 }, rrfK: 20 });
+  });
+});
+
+describe('formatFusion', () => {
+  it('should describe the settings', () => {
+    expect(formatFusion(DEFAULT_FUSION)).toBe('rrf (k=60, vector 1, BM25 1)');
+    expect(formatFusion({ ...DEFAULT_FUSION, strategy: 'combsum' })).toBe(
+      'combsum (vector 1, BM25 1)'
+    );
+  });
 });
 
 describe('calculateRRFScore', () => {
@@ -1,4 +1,11 @@
-import { SearchResult, FusedResult } from '../types/index.js';
+import {
+  Config,
+  SearchResult,
+  FusedResult,
+  FusionOptions,
+  FusionSettings,
+  FusionStrategy,
+} from '../types/index.js';
 import { createChildLogger } from '../utils/logger.js';
 
 const logger = createChildLogger('fusion');
@@ -7,90 +14,134 @@ const logger = createChildLogger('fusion');
  * Reciprocal Rank Fusion (RRF) constant
  * Higher k means less emphasis on top ranks
  */
-const RRF_K = 60;
+export const RRF_K = 60;
+
+export const FUSION_STRATEGIES: readonly FusionStrategy[] = ['rrf', 'combsum', 'combmnz'];
+
+/**
+ * Unweighted RRF, the fusion used when none is configured
+ */
+export const DEFAULT_FUSION: FusionSettings = {
+  strategy: 'rrf',
+  weights: { vector: 1, bm25: 1 },
+  rrfK: RRF_K,
+};
+
+export function isFusionStrategy(value: unknown): value is FusionStrategy {
+  return FUSION_STRATEGIES.includes(value as FusionStrategy);
+}
+
+/**
+ * Fusion settings for a query: the configured ones with any per-query overrides
+ */
+export function resolveFusionSettings(
+  config: Pick<Config['rag'], 'fusion' | 'rrfK' | 'fusionWeights'>,
+  overrides: FusionOptions = {}
+): FusionSettings {
+  return {
+    strategy: overrides.strategy ?? config.fusion,
+    weights: { ...config.fusionWeights, ...overrides.weights },
+    rrfK: overrides.rrfK ?? config.rrfK,
+  };
+}
 
 /**
- * Fuse search results from multiple sources using RRF
+ * One-line description of fusion settings, e.g. "rrf (k=60, vector 1, BM25 2)"
+ */
+export function formatFusion(settings: FusionSettings): string {
+  const weights = `vector ${settings.weights.vector}, BM25 ${settings.weights.bm25}`;
+  return settings.strategy === 'rrf'
+    ? `rrf (k=${settings.rrfK}, ${weights})`
+    : `${settings.strategy} (${weights})`;
+}
+
+/**
+ * What each result of one search adds to its chunk's fused score, before the
+ * search's weight: 1/(k + rank) for RRF, the min-max normalized score for
+ * CombSUM and CombMNZ
+ */
+function contributions(results: SearchResult[], settings: FusionSettings): number[] {
+  if (settings.strategy === 'rrf') {
+    return results.map((_, rank) => calculateRRFScore(rank, settings.rrfK));
+  }
+  return normalizeScores(results).map((r) => r.score);
+}
+
+/**
+ * Fuse search results from both sources. `rrfScore` is always the (weighted)
+ * RRF score; `score`, which results are ordered by, is the chosen strategy's.
  */
 export function fuseResults(
   vectorResults: SearchResult[],
   bm25Results: SearchResult[],
-  topK: number
+  topK: number,
+  settings: FusionSettings = DEFAULT_FUSION
 ): FusedResult[] {
   logger.debug(
-    { vectorCount: vectorResults.length, bm25Count: bm25Results.length, topK },
+    {
+      vectorCount: vectorResults.length,
+      bm25Count: bm25Results.length,
+      topK,
+      strategy: settings.strategy,
+      weights: settings.weights,
+    },
     'Fusing results'
   );
 
   // Build a map of chunk ID to fused result
   const fusedMap = new Map<string, FusedResult>();
 
-  // Process vector results
-  for (let i = 0; i < vectorResults.length; i++) {
-    const result = vectorResults[i];
-    const rrfScore = 1 / (RRF_K + i + 1); // RRF formula
-
-    if (fusedMap.has(result.chunkId)) {
-      const existing = fusedMap.get(result.chunkId)!;
-      existing.vectorScore = result.score;
-      existing.rrfScore += rrfScore;
-      existing.sources.push('vector');
-    } else {
-      fusedMap.set(result.chunkId, {
-        chunkId: result.chunkId,
-        documentId: result.documentId,
-        content: result.content,
-        pageNumber: result.pageNumber,
-        chunkIndex: result.chunkIndex,
-        metadata: result.metadata,
-        score: result.score,
-        vectorScore: result.score,
-        bm25Score: undefined,
-        rrfScore,
-        sources: ['vector'],
-      });
-    }
-  }
-
-  // Process BM25 results
-  for (let i = 0; i < bm25Results.length; i++) {
-    const result = bm25Results[i];
-    const rrfScore = 1 / (RRF_K + i + 1);
-
-    if (fusedMap.has(result.chunkId)) {
-      const existing = fusedMap.get(result.chunkId)!;
-      existing.bm25Score = result.score;
-      existing.rrfScore += rrfScore;
-      if (!existing.sources.includes('bm25')) {
-        existing.sources.push('bm25');
+  const add = (results: SearchResult[], source: 'vector' | 'bm25') => {
+    const weight = settings.weights[source];
+    const scores = contributions(results, settings);
+    const scoreField = source === 'vector' ? 'vectorScore' : 'bm25Score';
+
+    results.forEach((result, rank) => {
+      const rrfScore = weight * calculateRRFScore(rank, settings.rrfK);
+      const fusedScore = weight * scores[rank];
+      const existing = fusedMap.get(result.chunkId);
+
+      if (existing) {
+        existing[scoreField] = result.score;
+        existing.rrfScore += rrfScore;
+        existing.score += fusedScore;
+        if (!existing.sources.includes(source)) {
+          existing.sources.push(source);
+        }
+      } else {
+        fusedMap.set(result.chunkId, {
+          chunkId: result.chunkId,
+          documentId: result.documentId,
+          content: result.content,
+          pageNumber: result.pageNumber,
+          chunkIndex: result.chunkIndex,
+          metadata: result.metadata,
+          score: fusedScore,
+          vectorScore: undefined,
+          bm25Score: undefined,
+          [scoreField]: result.score,
+          rrfScore,
+          sources: [source],
+        });
       }
-    } else {
-      fusedMap.set(result.chunkId, {
-        chunkId: result.chunkId,
-        documentId: result.documentId,
-        content: result.content,
-        pageNumber: result.pageNumber,
-        chunkIndex: result.chunkIndex,
-        metadata: result.metadata,
-        score: result.score,
-        vectorScore: undefined,
-        bm25Score: result.score,
-        rrfScore,
-        sources: ['bm25'],
-      });
+    });
+  };
+
+  add(vectorResults, 'vector');
+  add(bm25Results, 'bm25');
+
+  if (settings.strategy === 'combmnz') {
+    // Reward chunks both searches found
+    for (const result of fusedMap.values()) {
+      result.score *= result.sources.length;
     }
   }
 
-  // Sort by RRF score and take top K
+  // Sort by fused score and take top K; RRF breaks ties
   const fusedResults = Array.from(fusedMap.values())
-    .sort((a, b) => b.rrfScore - a.rrfScore)
+    .sort((a, b) => b.score - a.score || b.rrfScore - a.rrfScore)
     .slice(0, topK);
 
-  // Update the score field to be the RRF score
-  for (const result of fusedResults) {
-    result.score = result.rrfScore;
-  }
-
   logger.debug(
     {
       totalUnique: fusedMap.size,
@@ -5,24 +5,102 @@ import {
   Citation,
   AnswerWithCitations,
   QueryResponse,
+  QueryProgressEvent,
+  QueryTokenEvent,
+  QueryFilters,
+  PromptMode,
+  FusionOptions,
+  FusionSettings,
+  ScreeningRequest,
+  ScreeningResult,
+  EmbeddingMismatchError,
+  QueryCacheStats,
 } from '../types/index.js';
 import { hashString } from '../utils/hash.js';
 import { createChildLogger } from '../utils/logger.js';
 import { LMStudioClient, getLMStudioClient } from '../clients/lm-studio.js';
 import { QdrantStore, getQdrantStore } from '../clients/qdrant.js';
 import { PostgresStore, getPostgresStore } from '../clients/postgres.js';
-import { fuseResults, deduplicateResults } from './fusion.js';
+import { EmbeddingRegistry, createEmbeddingRegistry } from '../clients/embedding-registry.js';
+import { fuseResults, deduplicateResults, resolveFusionSettings } from './fusion.js';
 import { Reranker, createReranker } from './reranker.js';
-import { GuardrailsEngine, getGuardrailsEngine, GuardrailResult } from '../guardrails/index.js';
+import { QueryCondenser, createQueryCondenser } from './query-condenser.js';
+import { QueryAnalyzer, QueryAnalysis, createQueryAnalyzer } from './query-analyzer.js';
+import { loadQueryDictionary, EMPTY_DICTIONARY } from './query-dictionary.js';
+import { FollowUpGenerator, createFollowUpGenerator } from './follow-ups.js';
+import { GuardrailsEngine, createGuardrailsEngine, GuardrailResult } from '../guardrails/index.js';
 import {
   FreshnessDisplayService,
   getFreshnessDisplayService,
   DocumentMetadata,
 } from '../freshness/index.js';
+import {
+  EligibilityScreener,
+  createEligibilityScreener,
+  extractScreeningInput,
+  formatScreeningSection,
+  DEFAULT_PROGRAM_LIMITS,
+} from '../eligibility/index.js';
+import {
+  ConfidenceScorer,
+  createConfidenceScorer,
+  loadCalibration,
+  DEFAULT_CALIBRATION,
+} from '../confidence/index.js';
+import { CitationVerifier, createCitationVerifier } from '../verification/index.js';
+import { PromptProfile, getPromptProfile, DEFAULT_PROMPT_MODE } from '../prompts/profiles.js';
 import { v4 as uuid } from 'uuid';
 
 const logger = createChildLogger('retrieval-pipeline');
 
+/**
+ * Number of prior conversation turns used to interpret a follow-up question
+ */
+const MAX_HISTORY_TURNS = 5;
+
+/**
+ * Section a chunk came from: the regulation number and title for regulatory
+ * chunks, otherwise the markdown heading
+ */
+function sectionLabel(metadata: RerankedResult['metadata']): string | undefined {
+  const number = metadata.sectionNumber as string | undefined;
+  const title = metadata.sectionTitle as string | undefined;
+  if (number || title) {
+    return [number ? `§ ${number}` : undefined, title].filter(Boolean).join(' ');
+  }
+  return metadata.section;
+}
+
+/**
+ * Options for a single query
+ */
+export interface QueryOptions {
+  useCache?: boolean;
+  /** Conversation this query continues; prior turns are used to rewrite follow-ups */
+  conversationId?: string;
+  /** Only retrieve from documents matching these filters */
+  filters?: QueryFilters;
+  /** Audience the answer is written for; defaults to 'senior' */
+  mode?: PromptMode;
+  /** Overrides of the configured fusion strategy, weights and RRF k */
+  fusion?: FusionOptions;
+  /** Stops the query, e.g. when a streaming client disconnects */
+  signal?: AbortSignal;
+  /** Receives retrieval progress and answer tokens while the query runs */
+  onEvent?: (event: QueryProgressEvent | QueryTokenEvent) => void;
+  /** Receives the reranked chunks, best first (not called on cache hits) */
+  onResults?: (results: RerankedResult[]) => void;
+}
+
+/**
+ * Clients used by the pipeline; any not given use the shared instance for the config
+ */
+export interface RetrievalPipelineDeps {
+  lmStudio: LMStudioClient;
+  qdrant: QdrantStore;
+  postgres: PostgresStore;
+}
+
 /**
  * Complete retrieval pipeline for answering queries
  */
@@ -32,41 +110,118 @@ export class RetrievalPipeline {
   private qdrant: QdrantStore;
   private postgres: PostgresStore;
   private reranker: Reranker;
+  private condenser: QueryCondenser;
+  private followUps: FollowUpGenerator;
+  private verifier: CitationVerifier | null;
   private guardrails: GuardrailsEngine;
   private freshnessDisplay: FreshnessDisplayService;
   private documentMetadataCache: Map<string, DocumentMetadata> = new Map();
   private metadataCacheInitialized = false;
   private metadataCacheInitPromise: Promise<void> | null = null;
+  private screenerPromise: Promise<EligibilityScreener> | null = null;
+  private confidenceScorerPromise: Promise<ConfidenceScorer> | null = null;
+  private queryAnalyzerPromise: Promise<QueryAnalyzer> | null = null;
+  private embeddingRegistry: EmbeddingRegistry;
+  private embeddingCheckPromise: Promise<unknown> | null = null;
 
-  constructor(config: Config) {
+  constructor(config: Config, deps: Partial<RetrievalPipelineDeps> = {}) {
     this.config = config;
-    this.lmStudio = getLMStudioClient(config.lmStudio);
-    this.qdrant = getQdrantStore(config.qdrant);
-    this.postgres = getPostgresStore(config.postgres);
-    this.reranker = createReranker(this.lmStudio);
-    this.guardrails = getGuardrailsEngine();
+    this.lmStudio = deps.lmStudio ?? getLMStudioClient(config.lmStudio);
+    this.qdrant = deps.qdrant ?? getQdrantStore(config.qdrant);
+    this.postgres = deps.postgres ?? getPostgresStore(config.postgres);
+    this.reranker = createReranker(this.lmStudio, config.rag);
+    this.condenser = createQueryCondenser(this.lmStudio);
+    this.verifier = createCitationVerifier(this.lmStudio, config.rag);
+    this.followUps = createFollowUpGenerator(this.lmStudio, {
+      useLlm: config.rag.llmFollowUps,
+    });
+    this.guardrails = createGuardrailsEngine({
+      loadRules: () => this.postgres.getGuardrailRules(),
+    });
     this.freshnessDisplay = getFreshnessDisplayService();
+    this.embeddingRegistry = createEmbeddingRegistry(this.postgres, this.qdrant, this.lmStudio);
   }
 
   /**
    * Invalidate the document metadata cache.
    * Should be called after ingesting new documents to ensure fresh metadata.
+   * Cached answers citing documents that have since been superseded, deleted
+   * or reclassified are purged as well.
    */
-  invalidateMetadataCache(): void {
+  async invalidateMetadataCache(): Promise<void> {
+    const previous = this.metadataCacheInitialized
+      ? new Map(this.documentMetadataCache)
+      : new Map<string, DocumentMetadata>();
+
     this.metadataCacheInitialized = false;
     this.documentMetadataCache.clear();
     this.metadataCacheInitPromise = null;
     logger.debug('Document metadata cache invalidated');
+
+    if (previous.size === 0 || !this.config.cache.enabled) {
+      return;
+    }
+
+    await this.ensureMetadataCache();
+    if (!this.metadataCacheInitialized) {
+      return;
+    }
+    const affected = [...previous].filter(([id, metadata]) => {
+      const current = this.documentMetadataCache.get(id);
+      return (
+        !current ||
+        current.documentType !== metadata.documentType ||
+        String(current.effectiveDate) !== String(metadata.effectiveDate)
+      );
+    });
+    await this.postgres.invalidateCachedQueries(affected.map(([id]) => id));
+  }
+
+  /**
+   * Remove cached answers, or only expired ones. Returns the number removed.
+   */
+  clearCache(options: { expiredOnly?: boolean } = {}): Promise<number> {
+    return this.postgres.clearQueryCache(options);
+  }
+
+  async getCacheStats(): Promise<QueryCacheStats> {
+    return this.postgres.getQueryCacheStats();
+  }
+
+  /**
+   * Re-read the guardrail rules so admin edits apply to the next query
+   */
+  async reloadGuardrails(): Promise<void> {
+    await this.guardrails.reload();
   }
 
   /**
    * Process a query and return an answer with citations
    */
-  async query(query: string, options?: { useCache?: boolean }): Promise<QueryResponse> {
+  async query(userQuery: string, options?: QueryOptions): Promise<QueryResponse> {
     const startTime = Date.now();
     const queryId = uuid();
+    const emit = options?.onEvent ?? (() => {});
+    const conversationId = options?.conversationId;
+    const filters = options?.filters;
+    const signal = options?.signal;
+    const mode = options?.mode ?? DEFAULT_PROMPT_MODE;
+    const profile = getPromptProfile(mode);
+    const fusion = resolveFusionSettings(this.config.rag, options?.fusion);
 
-    logger.info({ queryId, query }, 'Processing query');
+    logger.info(
+      { queryId, query: userQuery, conversationId, filters, mode, fusion: fusion.strategy },
+      'Processing query'
+    );
+
+    // Rewrite follow-up questions into standalone questions using prior turns
+    const history = conversationId
+      ? await this.postgres.getConversationTurns(conversationId, MAX_HISTORY_TURNS)
+      : [];
+    const query = await this.condenser.condense(userQuery, history);
+    if (query !== userQuery) {
+      logger.info({ queryId, standaloneQuery: query }, 'Follow-up rewritten');
+    }
 
     // Check for sensitive topics (guardrails)
     const guardrailResult = await this.guardrails.checkQuery(query);
@@ -79,48 +234,79 @@ export class RetrievalPipeline {
 
     // Check cache if enabled
     if (this.config.cache.enabled && options?.useCache !== false) {
-      const cached = await this.checkCache(query);
+      const cached = await this.checkCache(query, filters, mode, fusion);
       if (cached) {
         logger.info({ queryId }, 'Cache hit');
         // Apply guardrails to cached response too
-        if (guardrailResult.disclaimerRequired) {
-          return this.applyGuardrails(cached, guardrailResult);
-        }
-        return cached;
+        const guarded = guardrailResult.disclaimerRequired
+          ? this.applyGuardrails(cached, guardrailResult)
+          : cached;
+        return this.recordConversationTurn(guarded, userQuery, query, conversationId);
       }
     }
 
+    // Expand acronyms, synonyms and program aliases ("QMB", "LIFE") for retrieval
+    const analysis = (await this.getQueryAnalyzer()).analyze(query);
+    if (analysis.expansions.length > 0) {
+      logger.info(
+        { queryId, expansions: analysis.expansions.map((e) => e.id) },
+        'Query terms expanded'
+      );
+    }
+
     // Step 1: Embed the query
-    const queryEmbedding = await this.embedQuery(query);
+    signal?.throwIfAborted();
+    emit({ type: 'progress', stage: 'embedding' });
+    const queryEmbedding = await this.embedQuery(analysis.embeddingText);
 
     // Step 2: Retrieve from both sources in parallel
     const [vectorResults, bm25Results] = await Promise.all([
-      this.retrieveVector(queryEmbedding),
-      this.retrieveBM25(query),
+      this.retrieveVector(queryEmbedding, filters),
+      this.retrieveBM25(analysis, filters),
     ]);
+    emit({
+      type: 'progress',
+      stage: 'retrieval',
+      vectorResults: vectorResults.length,
+      bm25Results: bm25Results.length,
+    });
 
-    // Step 3: Fuse results using RRF
+    // Step 3: Fuse results (RRF unless configured or requested otherwise)
     const fusedResults = fuseResults(
       vectorResults,
       bm25Results,
-      this.config.rag.rerankTopN
+      this.config.rag.rerankTopN,
+      fusion
     );
 
     // Step 4: Deduplicate
     const dedupedResults = deduplicateResults(fusedResults);
+    emit({ type: 'progress', stage: 'fusion', fusedResults: fusedResults.length });
 
     // Step 5: Rerank
+    signal?.throwIfAborted();
     const rerankedResults = await this.reranker.rerank(
       query,
       dedupedResults,
       this.config.rag.rerankTopN
     );
+    emit({ type: 'progress', stage: 'rerank', rerankedResults: rerankedResults.length });
+    options?.onResults?.(rerankedResults);
 
     // Step 6: Select final top chunks
     const finalResults = rerankedResults.slice(0, this.config.rag.finalTopC);
 
     // Step 7: Generate answer with citations
-    const answerResult = await this.generateAnswer(query, finalResults);
+    signal?.throwIfAborted();
+    emit({ type: 'progress', stage: 'generation' });
+    const answerResult = await this.generateAnswer(
+      query,
+      finalResults,
+      profile,
+      options?.onEvent ? (text) => emit({ type: 'token', text }) : undefined,
+      signal
+    );
+    signal?.throwIfAborted();
 
     // Step 8: Generate freshness information
     await this.ensureMetadataCache();
@@ -135,6 +321,8 @@ export class RetrievalPipeline {
       answer: answerResult.answer,
       citations: answerResult.citations,
       confidence: answerResult.confidence,
+      confidenceInfo: answerResult.confidenceInfo,
+      ...(answerResult.claims && { claims: answerResult.claims }),
       queryId,
       latencyMs,
       retrievalStats: {
@@ -143,6 +331,10 @@ export class RetrievalPipeline {
         fusedResults: fusedResults.length,
         rerankedResults: rerankedResults.length,
         finalResults: finalResults.length,
+        fusion,
+        expandedTerms: analysis.expansions.length
+          ? analysis.expansions.map((e) => e.matched)
+          : undefined,
       },
       freshnessInfo: {
         lastRetrieved: freshnessInfo.lastRetrieved,
@@ -154,6 +346,17 @@ export class RetrievalPipeline {
       },
     };
 
+    // Step 9: Attach an eligibility estimate when the question states income figures
+    response = await this.addScreening(response, query);
+
+    // Step 10: Suggest what to ask next
+    const followUps = await this.followUps.generate(
+      query,
+      answerResult.answer,
+      this.citedDocumentTypes(answerResult.citations)
+    );
+    response = { ...response, followUps };
+
     // Apply guardrails (add disclaimers for sensitive topics)
     if (guardrailResult.disclaimerRequired) {
       response = this.applyGuardrails(response, guardrailResult);
@@ -162,9 +365,14 @@ export class RetrievalPipeline {
     // Add freshness section to answer
     response = this.addFreshnessSection(response, freshnessInfo);
 
+    // Close with the profile's resources footer (senior answers)
+    if (profile.footer && response.citations.length > 0) {
+      response = { ...response, answer: response.answer + '\n' + profile.footer };
+    }
+
     // Cache the response (without guardrails, they'll be reapplied on retrieval)
     if (this.config.cache.enabled) {
-      await this.cacheResponse(query, response);
+      await this.cacheResponse(query, response, filters, mode, fusion);
     }
 
     // Log the query
@@ -175,7 +383,140 @@ export class RetrievalPipeline {
       'Query complete'
     );
 
-    return response;
+    return this.recordConversationTurn(response, userQuery, query, conversationId);
+  }
+
+  /**
+   * Store the turn in its conversation and tag the response with the conversation
+   */
+  private async recordConversationTurn(
+    response: QueryResponse,
+    userQuery: string,
+    standaloneQuery: string,
+    conversationId?: string
+  ): Promise<QueryResponse> {
+    if (!conversationId) {
+      return response;
+    }
+
+    const rewritten = standaloneQuery !== userQuery ? standaloneQuery : undefined;
+
+    await this.postgres.addConversationTurn({
+      conversationId,
+      queryText: userQuery,
+      standaloneQuery: rewritten,
+      answerText: response.answer,
+      queryId: response.queryId,
+    });
+
+    return {
+      ...response,
+      conversationId,
+      standaloneQuery: rewritten,
+    };
+  }
+
+  /**
+   * Screen a household for Medicare Savings Programs, Extra Help and PACE/PACENET
+   */
+  async screenEligibility(request: ScreeningRequest): Promise<ScreeningResult> {
+    const screener = await this.getScreener();
+    return screener.screen(request);
+  }
+
+  /**
+   * Screener backed by the program_limits table, falling back to the bundled
+   * limits. The fallback is not kept, so the table is read again next time.
+   */
+  private getScreener(): Promise<EligibilityScreener> {
+    if (!this.screenerPromise) {
+      this.screenerPromise = this.postgres.getProgramLimits().then(
+        (limits) => {
+          if (limits.length > 0) {
+            return createEligibilityScreener(limits);
+          }
+          logger.warn('No program limits in the database, using bundled limits');
+          this.screenerPromise = null;
+          return createEligibilityScreener(DEFAULT_PROGRAM_LIMITS);
+        },
+        (error) => {
+          logger.warn({ error }, 'Could not read program limits, using bundled limits');
+          this.screenerPromise = null;
+          return createEligibilityScreener(DEFAULT_PROGRAM_LIMITS);
+        }
+      );
+    }
+    return this.screenerPromise;
+  }
+
+  /**
+   * Confidence scorer with the fitted calibration when one is configured,
+   * falling back to the default weights
+   */
+  private getConfidenceScorer(): Promise<ConfidenceScorer> {
+    if (!this.confidenceScorerPromise) {
+      const path = this.config.rag.confidenceCalibration;
+      const calibration = path
+        ? loadCalibration(path).catch((error) => {
+            logger.error({ error, path }, 'Could not load confidence calibration, using defaults');
+            return DEFAULT_CALIBRATION;
+          })
+        : Promise.resolve(DEFAULT_CALIBRATION);
+      this.confidenceScorerPromise = calibration.then((loaded) =>
+        createConfidenceScorer({
+          calibration: loaded,
+          abstainThreshold: this.config.rag.abstainThreshold,
+        })
+      );
+    }
+    return this.confidenceScorerPromise;
+  }
+
+  /**
+   * Query analyzer over the configured dictionary (the bundled one by default).
+   * Queries are not expanded if the dictionary cannot be loaded.
+   */
+  private getQueryAnalyzer(): Promise<QueryAnalyzer> {
+    if (!this.queryAnalyzerPromise) {
+      const path = this.config.rag.queryDictionary;
+      const dictionary =
+        this.config.rag.queryExpansion === 'off'
+          ? Promise.resolve(EMPTY_DICTIONARY)
+          : loadQueryDictionary(path).catch((error) => {
+              logger.error({ error, path }, 'Could not load query dictionary, not expanding');
+              return EMPTY_DICTIONARY;
+            });
+      this.queryAnalyzerPromise = dictionary.then((loaded) => {
+        logger.debug({ version: loaded.version }, 'Query dictionary loaded');
+        return createQueryAnalyzer(loaded, this.config.rag);
+      });
+    }
+    return this.queryAnalyzerPromise;
+  }
+
+  /**
+   * Attach screener output and a summary section when the query contains
+   * concrete income figures (e.g. "gets $1,400/month")
+   */
+  private async addScreening(response: QueryResponse, query: string): Promise<QueryResponse> {
+    const extracted = extractScreeningInput(query);
+    if (!extracted) {
+      return response;
+    }
+
+    const screener = await this.getScreener();
+    const screening = screener.screen(extracted.request, new Date(), extracted.assumptions);
+
+    logger.info(
+      { queryId: response.queryId, eligiblePrograms: screening.eligiblePrograms },
+      'Eligibility estimate attached'
+    );
+
+    return {
+      ...response,
+      answer: response.answer + '\n\n' + formatScreeningSection(screening),
+      screening,
+    };
   }
 
   /**
@@ -185,7 +526,10 @@ export class RetrievalPipeline {
     const contentHash = hashString(query);
 
     // Check embedding cache
-    const cached = await this.postgres.getCachedEmbedding(contentHash);
+    const cached = await this.postgres.getCachedEmbedding(
+      contentHash,
+      this.lmStudio.embeddingModel
+    );
     if (cached) {
       return cached;
     }
@@ -201,15 +545,49 @@ export class RetrievalPipeline {
   /**
    * Retrieve from vector store
    */
-  private async retrieveVector(queryEmbedding: number[]): Promise<SearchResult[]> {
-    return this.qdrant.search(queryEmbedding, this.config.rag.vectorTopK);
+  private async retrieveVector(
+    queryEmbedding: number[],
+    filters?: QueryFilters
+  ): Promise<SearchResult[]> {
+    await this.verifyEmbeddings();
+    if (queryEmbedding.length !== this.qdrant.dimension) {
+      throw new EmbeddingMismatchError(
+        `${this.lmStudio.embeddingModel} produced a ${queryEmbedding.length}-dimensional query ` +
+          `vector but EMBEDDING_DIMENSION is ${this.qdrant.dimension}`
+      );
+    }
+    return this.qdrant.search(queryEmbedding, this.config.rag.vectorTopK, filters);
   }
 
   /**
-   * Retrieve using BM25
+   * Check once that the collection was built with the configured embedding
+   * model, so a mismatch fails instead of returning meaningless matches
    */
-  private async retrieveBM25(query: string): Promise<SearchResult[]> {
-    return this.postgres.searchBM25(query, this.config.rag.bm25TopK);
+  private verifyEmbeddings(): Promise<unknown> {
+    if (!this.embeddingCheckPromise) {
+      this.embeddingCheckPromise = this.embeddingRegistry.verify().catch((error) => {
+        this.embeddingCheckPromise = null;
+        throw error;
+      });
+    }
+    return this.embeddingCheckPromise;
+  }
+
+  /**
+   * Retrieve using BM25, searching the alternatives of any expanded terms
+   */
+  private async retrieveBM25(
+    analysis: QueryAnalysis,
+    filters?: QueryFilters
+  ): Promise<SearchResult[]> {
+    if (analysis.expansions.length > 0) {
+      return this.postgres.searchBM25Expanded(
+        analysis.bm25Groups,
+        this.config.rag.bm25TopK,
+        filters
+      );
+    }
+    return this.postgres.searchBM25(analysis.query, this.config.rag.bm25TopK, filters);
   }
 
   /**
@@ -217,14 +595,24 @@ export class RetrievalPipeline {
    */
   private async generateAnswer(
     query: string,
-    results: RerankedResult[]
+    results: RerankedResult[],
+    profile: PromptProfile,
+    onToken?: (text: string) => void,
+    signal?: AbortSignal
   ): Promise<AnswerWithCitations> {
+    const scorer = await this.getConfidenceScorer();
+
     if (results.length === 0) {
+      const { confidence, ...confidenceInfo } = scorer.assess({
+        answer: '',
+        results,
+        citedIndices: [],
+      });
       return {
-        answer:
-          'I could not find any relevant information in the Medicaid documents to answer your question.',
+        answer: profile.noAnswerResponse,
         citations: [],
-        confidence: 0,
+        confidence,
+        confidenceInfo,
         queryId: '',
       };
     }
@@ -235,16 +623,47 @@ export class RetrievalPipeline {
       content: r.content,
       filename: (r.metadata.filename as string) || 'Unknown document',
       pageNumber: r.pageNumber,
+      section: sectionLabel(r.metadata),
     }));
 
     // Generate answer
     const { answer, citedIndices } = await this.lmStudio.generateAnswer(
       query,
-      contexts
+      contexts,
+      { onToken, profile, signal }
     );
 
+    // Check each sentence against the sources it cites, flagging or removing
+    // unsupported ones; removed sentences take their citations with them
+    const verification = this.verifier
+      ? await this.verifier.verify(answer, results.map((r) => r.content))
+      : null;
+    const verifiedAnswer = verification?.answer ?? answer;
+    const verifiedIndices = citedIndices.filter((idx) => verifiedAnswer.includes(`[${idx}]`));
+
+    // Score the answer against its sources; too weak an answer is replaced
+    // by the no-answer response and its referrals
+    const { confidence, ...confidenceInfo } = scorer.assess({
+      answer: verifiedAnswer,
+      results,
+      citedIndices: verifiedIndices,
+    });
+    if (confidenceInfo.abstained) {
+      logger.info(
+        { confidence, reasons: confidenceInfo.reasons },
+        'Answer confidence too low, abstaining'
+      );
+      return {
+        answer: profile.noAnswerResponse,
+        citations: [],
+        confidence,
+        confidenceInfo,
+        queryId: '',
+      };
+    }
+
     // Build citations
-    const citations: Citation[] = citedIndices
+    const citations: Citation[] = verifiedIndices
       .filter((idx) => idx >= 1 && idx <= results.length)
       .map((idx) => {
         const result = results[idx - 1];
@@ -259,51 +678,111 @@ export class RetrievalPipeline {
         };
       });
 
-    // Calculate confidence based on rerank scores and citation count
-    // Guard against division by zero when no results
-    const avgRerankScore = results.length > 0
-      ? results.reduce((sum, r) => sum + r.rerankScore, 0) / results.length
-      : 0;
-    const citationRatio = results.length > 0
-      ? citations.length / results.length
-      : 0;
-    const confidence = Math.min(
-      (avgRerankScore * 0.6 + citationRatio * 0.4) * 100,
-      100
-    );
-
     return {
-      answer,
+      answer: verifiedAnswer,
       citations,
       confidence,
+      confidenceInfo,
+      ...(verification && { claims: verification.claims }),
       queryId: '',
     };
   }
 
+  /**
+   * Document types of the cited documents, as far as the metadata cache knows them
+   */
+  private citedDocumentTypes(citations: Citation[]): string[] {
+    const types = citations
+      .map((c) => this.documentMetadataCache.get(c.documentId)?.documentType)
+      .filter((type): type is string => Boolean(type));
+    return [...new Set(types)];
+  }
+
+  /**
+   * Cache key for a query; filtered queries, non-default modes and fusion
+   * overrides are cached separately
+   */
+  private cacheKey(
+    query: string,
+    filters?: QueryFilters,
+    mode: PromptMode = DEFAULT_PROMPT_MODE,
+    fusion?: FusionSettings
+  ): string {
+    const parts = [query.toLowerCase().trim()];
+    if (filters) {
+      parts.push(JSON.stringify(filters));
+    }
+    if (mode !== DEFAULT_PROMPT_MODE) {
+      parts.push(`mode:${mode}`);
+    }
+    if (fusion) {
+      const configured = JSON.stringify(resolveFusionSettings(this.config.rag));
+      if (JSON.stringify(fusion) !== configured) {
+        parts.push(`fusion:${JSON.stringify(fusion)}`);
+      }
+    }
+    return hashString(parts.join('|'));
+  }
+
   /**
    * Check cache for existing response
    */
-  private async checkCache(query: string): Promise<QueryResponse | null> {
-    const queryHash = hashString(query.toLowerCase().trim());
+  private async checkCache(
+    query: string,
+    filters?: QueryFilters,
+    mode?: PromptMode,
+    fusion?: FusionSettings
+  ): Promise<QueryResponse | null> {
+    const queryHash = this.cacheKey(query, filters, mode, fusion);
     const cached = await this.postgres.getCachedQuery(queryHash);
+    if (!cached) {
+      return null;
+    }
 
-    if (cached) {
-      return cached.response as unknown as QueryResponse;
+    // Data that went stale after the answer was cached needs the warnings
+    // a fresh answer would carry
+    const response = cached.response as unknown as QueryResponse;
+    if (!response.freshnessInfo?.hasStaleData) {
+      await this.ensureMetadataCache();
+      const freshness = this.freshnessDisplay.generateFreshnessInfo(
+        response.citations,
+        this.documentMetadataCache
+      );
+      if (freshness.hasStaleData) {
+        logger.info({ queryHash }, 'Cached response cites data that has gone stale');
+        await this.postgres.deleteCachedQuery(queryHash);
+        return null;
+      }
     }
 
-    return null;
+    return response;
   }
 
   /**
-   * Cache the response
+   * Cache the response with the documents it cites. Answers citing nothing,
+   * abstentions included, are not cached: no ingestion would clear them, so
+   * they would outlive the documents that could answer the question.
    */
-  private async cacheResponse(query: string, response: QueryResponse): Promise<void> {
-    const queryHash = hashString(query.toLowerCase().trim());
+  private async cacheResponse(
+    query: string,
+    response: QueryResponse,
+    filters?: QueryFilters,
+    mode?: PromptMode,
+    fusion?: FusionSettings
+  ): Promise<void> {
+    const documentIds = [...new Set(response.citations.map((c) => c.documentId))];
+    if (response.confidenceInfo?.abstained || documentIds.length === 0) {
+      logger.debug({ queryId: response.queryId }, 'Answer cites no documents, not caching');
+      return;
+    }
+
+    const queryHash = this.cacheKey(query, filters, mode, fusion);
     await this.postgres.cacheQuery(
       queryHash,
       query,
       response as unknown as Record<string, unknown>,
-      this.config.cache.ttlSeconds
+      this.config.cache.ttlSeconds,
+      documentIds
     );
   }
 
@@ -438,6 +917,9 @@ export class RetrievalPipeline {
 /**
  * Create a retrieval pipeline
  */
-export function createRetrievalPipeline(config: Config): RetrievalPipeline {
-  return new RetrievalPipeline(config);
+export function createRetrievalPipeline(
+  config: Config,
+  deps?: Partial<RetrievalPipelineDeps>
+): RetrievalPipeline {
+  return new RetrievalPipeline(config, deps);
 }
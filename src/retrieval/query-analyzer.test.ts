@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { QueryAnalyzer, createQueryAnalyzer } from './query-analyzer.js';
+import { QueryDictionary, loadQueryDictionary } from './query-dictionary.js';
+
+const DICTIONARY: QueryDictionary = {
+  version: 'test',
+  entries: [
+    { id: 'qmb', kind: 'program', terms: ['QMB', 'Qualified Medicare Beneficiary'] },
+    {
+      id: 'medical_assistance',
+      kind: 'program',
+      terms: ['MA', 'Medical Assistance', 'Medicaid'],
+      caseSensitive: true,
+    },
+    {
+      id: 'nursing_facility',
+      kind: 'synonym',
+      terms: ['nursing home', 'skilled nursing facility', 'nursing facility'],
+    },
+    { id: 'long_term_care', kind: 'synonym', terms: ['LTC', 'long-term care'] },
+    {
+      id: 'life',
+      kind: 'program',
+      terms: ['LIFE', 'Living Independence for the Elderly'],
+      related: ['PACE'],
+      caseSensitive: true,
+    },
+  ],
+};
+
+describe('QueryAnalyzer', () => {
+  it('expands acronyms into BM25 groups that keep the rest of the query', () => {
+    const analyzer = new QueryAnalyzer(DICTIONARY);
+
+    const analysis = analyzer.analyze('What is the QMB income limit?');
+
+    expect(analysis.expansions).toEqual([
+      {
+        id: 'qmb',
+        kind: 'program',
+        matched: 'QMB',
+        alternatives: ['Qualified Medicare Beneficiary'],
+      },
+    ]);
+    expect(analysis.bm25Groups).toEqual([
+      'What is the income limit?',
+      'QMB OR "Qualified Medicare Beneficiary"',
+    ]);
+    expect(analysis.embeddingText).toBe('What is the QMB income limit?');
+  });
+
+  it('treats hyphens, spaces, plurals and case alike unless the entry is case-sensitive', () => {
+    const analyzer = new QueryAnalyzer(DICTIONARY);
+
+    const analysis = analyzer.analyze('Does ma pay for long term care in Nursing Homes?');
+
+    expect(analysis.expansions.map((e) => [e.id, e.matched])).toEqual([
+      ['long_term_care', 'long term care'],
+      ['nursing_facility', 'Nursing Homes'],
+    ]);
+    expect(analysis.bm25Groups[0]).toBe('Does ma pay for in ?');
+  });
+
+  it('prefers the longest overlapping term and expands each entry once', () => {
+    const analyzer = new QueryAnalyzer(DICTIONARY);
+
+    const analysis = analyzer.analyze(
+      'Is a skilled nursing facility the same as a nursing home?'
+    );
+
+    expect(analysis.expansions).toHaveLength(1);
+    expect(analysis.expansions[0]).toMatchObject({
+      matched: 'skilled nursing facility',
+      alternatives: ['nursing home', 'nursing facility'],
+    });
+    expect(analysis.bm25Groups).toEqual([
+      'Is a the same as a ?',
+      '"skilled nursing facility" OR "nursing home" OR "nursing facility"',
+    ]);
+  });
+
+  it('adds related terms without letting them trigger the entry', () => {
+    const analyzer = new QueryAnalyzer(DICTIONARY);
+
+    expect(analyzer.analyze('Who runs LIFE?').expansions[0].alternatives).toEqual([
+      'Living Independence for the Elderly',
+      'PACE',
+    ]);
+    expect(analyzer.analyze('Who runs PACE?').expansions).toEqual([]);
+    expect(analyzer.analyze('Is life insurance counted?').expansions).toEqual([]);
+  });
+
+  it('leaves queries without dictionary terms unchanged', () => {
+    const analysis = new QueryAnalyzer(DICTIONARY).analyze('income limits for a couple');
+
+    expect(analysis).toEqual({
+      query: 'income limits for a couple',
+      expansions: [],
+      bm25Groups: ['income limits for a couple'],
+      embeddingText: 'income limits for a couple',
+    });
+  });
+
+  it('adds the alternatives to the embedding text when expanding everything', () => {
+    const analyzer = createQueryAnalyzer(DICTIONARY, { queryExpansion: 'all' });
+
+    expect(analyzer.analyze('QMB and LTC').embeddingText).toBe(
+      'QMB and LTC (Qualified Medicare Beneficiary; long-term care)'
+    );
+  });
+
+  it('expands nothing when expansion is off', () => {
+    const analyzer = createQueryAnalyzer(DICTIONARY, { queryExpansion: 'off' });
+
+    expect(analyzer.analyze('QMB limits').bm25Groups).toEqual(['QMB limits']);
+  });
+});
+
+describe('bundled query dictionary', () => {
+  let analyzer: QueryAnalyzer;
+
+  beforeAll(async () => {
+    analyzer = new QueryAnalyzer(await loadQueryDictionary());
+  });
+
+  it('knows Pennsylvania program names and agencies', () => {
+    const analysis = analyzer.analyze('Can the CAO tell me if LIFE is part of CHC?');
+
+    expect(analysis.expansions.map((e) => e.id)).toEqual(['cao', 'life', 'chc']);
+    expect(analysis.expansions[1].alternatives).toContain('PACE');
+  });
+
+  it('keeps PACE and PACENET apart from each other and from LIFE', () => {
+    const analysis = analyzer.analyze('Do I qualify for PACE or PACENET?');
+
+    expect(analysis.expansions.map((e) => e.id)).toEqual(['pace', 'pacenet']);
+    expect(analysis.expansions[0].alternatives).toEqual([
+      'Pharmaceutical Assistance Contract for the Elderly',
+    ]);
+    expect(analysis.expansions[1].alternatives).toEqual([
+      'Pharmaceutical Assistance Contract for the Elderly Needs Enhancement Tier',
+    ]);
+    expect(
+      analyzer
+        .analyze('Pharmaceutical Assistance Contract for the Elderly Needs Enhancement Tier limits')
+        .expansions.map((e) => e.id)
+    ).toEqual(['pacenet']);
+  });
+
+  it('reads the CSRA and skilled nursing facility as their synonyms', () => {
+    const analysis = analyzer.analyze('CSRA when my husband enters a skilled nursing facility');
+
+    expect(analysis.bm25Groups).toEqual([
+      'when my husband enters a',
+      'CSRA OR "Community Spouse Resource Allowance" OR "spousal impoverishment"',
+      '"skilled nursing facility" OR "nursing home" OR "nursing facility" OR SNF',
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import { Config } from '../types/index.js';
+import { DictionaryEntry, QueryDictionary } from './query-dictionary.js';
+
+/**
+ * Which searches use the expanded query: 'bm25' expands keyword search only,
+ * 'all' also adds the alternative names to the text that is embedded
+ */
+export type QueryExpansionMode = Config['rag']['queryExpansion'];
+
+/**
+ * A dictionary entry found in the query
+ */
+export interface QueryExpansion {
+  id: string;
+  kind: DictionaryEntry['kind'];
+  /** Text of the query that matched, e.g. "nursing home" */
+  matched: string;
+  /** Other names searched for, e.g. "skilled nursing facility" */
+  alternatives: string[];
+}
+
+export interface QueryAnalysis {
+  query: string;
+  expansions: QueryExpansion[];
+  /**
+   * BM25 query as groups in websearch syntax that must all match: the words
+   * of the query no entry matched, then one `a OR "b c"` group per expansion
+   */
+  bm25Groups: string[];
+  /** Text embedded for vector search */
+  embeddingText: string;
+}
+
+interface TermPattern {
+  entry: DictionaryEntry;
+  term: string;
+  pattern: RegExp;
+}
+
+interface TermMatch {
+  entry: DictionaryEntry;
+  term: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Pattern for a term that treats spaces and hyphens alike ("long term care",
+ * "long-term care") and allows a plural "s"
+ */
+function termPattern(term: string, caseSensitive: boolean): RegExp {
+  const body = term.split(/[\s-]+/).map(escapeRegExp).join('[\\s-]+');
+  const plural = /[a-z]$/i.test(term) ? 's?' : '';
+  const exactCase = caseSensitive && term === term.toUpperCase();
+  return new RegExp(`(?<!\\w)${body}${plural}(?!\\w)`, exactCase ? 'g' : 'gi');
+}
+
+function normalizeTerm(term: string): string {
+  return term.toLowerCase().replace(/[\s-]+/g, ' ').trim();
+}
+
+/**
+ * Quote multi-word terms so websearch_to_tsquery searches them as phrases
+ */
+function websearchTerm(term: string): string {
+  return /[\s-]/.test(term) ? `"${term}"` : term;
+}
+
+/**
+ * Expand acronyms, synonyms and program aliases in a query before retrieval,
+ * so "QMB" also finds chunks that only say "Qualified Medicare Beneficiary"
+ */
+export class QueryAnalyzer {
+  private dictionary: QueryDictionary;
+  private mode: QueryExpansionMode;
+  private patterns: TermPattern[];
+
+  constructor(dictionary: QueryDictionary, mode: QueryExpansionMode = 'bm25') {
+    this.dictionary = dictionary;
+    this.mode = mode;
+    this.patterns = dictionary.entries.flatMap((entry) =>
+      entry.terms.map((term) => ({
+        entry,
+        term,
+        pattern: termPattern(term, !!entry.caseSensitive),
+      }))
+    );
+  }
+
+  /**
+   * Version of the dictionary in use
+   */
+  get version(): string {
+    return this.dictionary.version;
+  }
+
+  analyze(query: string): QueryAnalysis {
+    const matches = this.mode === 'off' ? [] : this.findMatches(query);
+    if (matches.length === 0) {
+      return { query, expansions: [], bm25Groups: [query], embeddingText: query };
+    }
+
+    const expansions: QueryExpansion[] = [];
+    for (const match of matches) {
+      if (expansions.some((e) => e.id === match.entry.id)) {
+        continue;
+      }
+      const seen = new Set([normalizeTerm(match.term), normalizeTerm(match.text)]);
+      const alternatives: string[] = [];
+      for (const term of [...match.entry.terms, ...(match.entry.related ?? [])]) {
+        if (!seen.has(normalizeTerm(term))) {
+          seen.add(normalizeTerm(term));
+          alternatives.push(term);
+        }
+      }
+      expansions.push({
+        id: match.entry.id,
+        kind: match.entry.kind,
+        matched: match.text,
+        alternatives,
+      });
+    }
+
+    // Matched terms move into their own groups; what is left is searched as before
+    let remainder = '';
+    let last = 0;
+    for (const match of matches) {
+      remainder += query.slice(last, match.start) + ' ';
+      last = match.end;
+    }
+    remainder = (remainder + query.slice(last))
+      .replace(/"\s*"/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const bm25Groups = [
+      ...(/\w/.test(remainder) ? [remainder] : []),
+      ...expansions.map((e) => [e.matched, ...e.alternatives].map(websearchTerm).join(' OR ')),
+    ];
+
+    const embeddingText =
+      this.mode === 'all'
+        ? `${query} (${expansions.map((e) => e.alternatives.join(', ')).join('; ')})`
+        : query;
+
+    return { query, expansions, bm25Groups, embeddingText };
+  }
+
+  /**
+   * Dictionary terms in the query, in query order. Where terms overlap the
+   * longest wins, so "skilled nursing facility" is not read as "nursing facility".
+   */
+  private findMatches(query: string): TermMatch[] {
+    const found: TermMatch[] = [];
+    for (const { entry, term, pattern } of this.patterns) {
+      for (const match of query.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        found.push({ entry, term, start, end: start + match[0].length, text: match[0] });
+      }
+    }
+
+    const kept: TermMatch[] = [];
+    for (const match of found.sort((a, b) => b.end - b.start - (a.end - a.start))) {
+      if (kept.every((k) => match.end <= k.start || match.start >= k.end)) {
+        kept.push(match);
+      }
+    }
+    return kept.sort((a, b) => a.start - b.start);
+  }
+}
+
+export function createQueryAnalyzer(
+  dictionary: QueryDictionary,
+  config: Pick<Config['rag'], 'queryExpansion'>
+): QueryAnalyzer {
+  return new QueryAnalyzer(dictionary, config.queryExpansion);
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { QueryCondenser, createQueryCondenser } from './query-condenser.js';
+import { ConversationTurn } from '../types/index.js';
+import { LMStudioClient } from '../clients/lm-studio.js';
+
+// Mock LMStudioClient
+const createMockLMStudio = (): LMStudioClient => ({
+  chat: vi.fn(),
+} as unknown as LMStudioClient);
+
+// Helper to create a prior conversation turn
+function createTurn(
+  turnIndex: number,
+  queryText: string,
+  answerText: string,
+  standaloneQuery?: string
+): ConversationTurn {
+  return {
+    id: `turn-${turnIndex}`,
+    conversationId: 'conv-1',
+    turnIndex,
+    queryText,
+    standaloneQuery,
+    answerText,
+    createdAt: new Date(),
+  };
+}
+
+describe('QueryCondenser', () => {
+  let mockLMStudio: LMStudioClient;
+  let condenser: QueryCondenser;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLMStudio = createMockLMStudio();
+    condenser = new QueryCondenser(mockLMStudio);
+  });
+
+  describe('condense', () => {
+    it('should return the query unchanged when there is no history', async () => {
+      const result = await condenser.condense('What is QMB?', []);
+
+      expect(result).toBe('What is QMB?');
+      expect(mockLMStudio.chat).not.toHaveBeenCalled();
+    });
+
+    it('should rewrite a follow-up using prior turns', async () => {
+      vi.mocked(mockLMStudio.chat).mockResolvedValue(
+        'What are the QMB income limits for my husband?'
+      );
+
+      const history = [
+        createTurn(0, 'What are the QMB income limits?', 'The QMB limit is $1,325/month [1].'),
+      ];
+
+      const result = await condenser.condense('What about for my husband?', history);
+
+      expect(result).toBe('What are the QMB income limits for my husband?');
+      const prompt = vi.mocked(mockLMStudio.chat).mock.calls[0][0][0].content;
+      expect(prompt).toContain('User: What are the QMB income limits?');
+      expect(prompt).toContain('Follow-up question: What about for my husband?');
+    });
+
+    it('should prefer the standalone form of earlier follow-ups', async () => {
+      vi.mocked(mockLMStudio.chat).mockResolvedValue('Is SLMB different?');
+
+      const history = [
+        createTurn(0, 'And SLMB?', 'SLMB pays Part B.', 'What are the SLMB income limits?'),
+      ];
+
+      await condenser.condense('Is it different?', history);
+
+      const prompt = vi.mocked(mockLMStudio.chat).mock.calls[0][0][0].content;
+      expect(prompt).toContain('User: What are the SLMB income limits?');
+      expect(prompt).not.toContain('User: And SLMB?');
+    });
+
+    it('should strip labels and quotes from the model output', async () => {
+      vi.mocked(mockLMStudio.chat).mockResolvedValue(
+        'Standalone question: "Does LIFE cover home care?"\nExplanation: ...'
+      );
+
+      const history = [createTurn(0, 'What is LIFE?', 'LIFE is PACE in Pennsylvania.')];
+
+      const result = await condenser.condense('Does it cover home care?', history);
+
+      expect(result).toBe('Does LIFE cover home care?');
+    });
+
+    it('should truncate long prior answers in the prompt', async () => {
+      vi.mocked(mockLMStudio.chat).mockResolvedValue('Rewritten question?');
+
+      const history = [createTurn(0, 'Question?', 'x'.repeat(1000))];
+
+      await condenser.condense('Follow-up?', history);
+
+      const prompt = vi.mocked(mockLMStudio.chat).mock.calls[0][0][0].content;
+      expect(prompt).toContain('x'.repeat(400) + '...');
+      expect(prompt).not.toContain('x'.repeat(401));
+    });
+
+    it('should fall back to the original query when the LLM fails', async () => {
+      vi.mocked(mockLMStudio.chat).mockRejectedValue(new Error('LLM service unavailable'));
+
+      const history = [createTurn(0, 'What is QMB?', 'QMB pays premiums.')];
+
+      const result = await condenser.condense('What about SLMB?', history);
+
+      expect(result).toBe('What about SLMB?');
+    });
+
+    it('should fall back to the original query on an empty rewrite', async () => {
+      vi.mocked(mockLMStudio.chat).mockResolvedValue('   ');
+
+      const history = [createTurn(0, 'What is QMB?', 'QMB pays premiums.')];
+
+      const result = await condenser.condense('What about SLMB?', history);
+
+      expect(result).toBe('What about SLMB?');
+    });
+  });
+
+  describe('createQueryCondenser', () => {
+    it('should create a QueryCondenser instance', () => {
+      const instance = createQueryCondenser(mockLMStudio);
+      expect(instance).toBeInstanceOf(QueryCondenser);
+    });
+  });
+});
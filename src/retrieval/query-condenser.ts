@@ -0,0 +1,101 @@
+import { ConversationTurn } from '../types/index.js';
+import { LMStudioClient } from '../clients/lm-studio.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('query-condenser');
+
+/**
+ * Maximum characters of each prior answer included in the condensing prompt
+ */
+const MAX_ANSWER_CHARS = 400;
+
+/**
+ * Rewritten questions longer than this are treated as a failed rewrite
+ */
+const MAX_STANDALONE_LENGTH = 1000;
+
+/**
+ * Rewrite follow-up questions into standalone questions using conversation history
+ */
+export class QueryCondenser {
+  private lmStudio: LMStudioClient;
+
+  constructor(lmStudio: LMStudioClient) {
+    this.lmStudio = lmStudio;
+  }
+
+  /**
+   * Condense a follow-up question and prior turns into a standalone question.
+   * Returns the original query when there is no history or the rewrite fails.
+   */
+  async condense(query: string, history: ConversationTurn[]): Promise<string> {
+    if (history.length === 0) {
+      return query;
+    }
+
+    logger.debug(
+      { query, turnCount: history.length },
+      'Condensing follow-up question'
+    );
+
+    const conversation = history
+      .map((turn) => {
+        const question = turn.standaloneQuery || turn.queryText;
+        const answer =
+          turn.answerText.length > MAX_ANSWER_CHARS
+            ? turn.answerText.substring(0, MAX_ANSWER_CHARS) + '...'
+            : turn.answerText;
+        return `User: ${question}\nAssistant: ${answer}`;
+      })
+      .join('\n\n');
+
+    const prompt = `You rewrite follow-up questions about Pennsylvania Medicaid and Medicare programs.
+
+Conversation so far:
+${conversation}
+
+Follow-up question: ${query}
+
+Rewrite the follow-up question as a single standalone question that can be understood without the conversation. Keep program names (QMB, SLMB, LIFE, CHC, etc.), dollar amounts and who the question is about (e.g. "my husband") explicit. If the follow-up is already standalone, return it unchanged. Output ONLY the rewritten question.
+
+Standalone question:`;
+
+    try {
+      const response = await this.lmStudio.chat(
+        [{ role: 'user', content: prompt }],
+        { temperature: 0, maxTokens: 200 }
+      );
+
+      const standalone = this.cleanResponse(response);
+      if (!standalone || standalone.length > MAX_STANDALONE_LENGTH) {
+        logger.warn({ response }, 'Could not parse condensed question');
+        return query;
+      }
+
+      logger.debug({ query, standalone }, 'Follow-up condensed');
+
+      return standalone;
+    } catch (error) {
+      logger.error({ error }, 'Condensing failed, using original question');
+      return query;
+    }
+  }
+
+  /**
+   * Strip labels, quotes and extra lines the model may add
+   */
+  private cleanResponse(response: string): string {
+    const firstLine = response.trim().split('\n')[0] ?? '';
+    return firstLine
+      .replace(/^standalone question:\s*/i, '')
+      .replace(/^["'“]+|["'”]+$/g, '')
+      .trim();
+  }
+}
+
+/**
+ * Create a query condenser
+ */
+export function createQueryCondenser(lmStudio: LMStudioClient): QueryCondenser {
+  return new QueryCondenser(lmStudio);
+}
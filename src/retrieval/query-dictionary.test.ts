@@ -0,0 +1,34 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { loadQueryDictionary } from './query-dictionary.js';
+import { RagError } from '../types/index.js';
+
+describe('loadQueryDictionary', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it('loads the bundled dictionary with unique entry ids', async () => {
+    const dictionary = await loadQueryDictionary();
+
+    const ids = dictionary.entries.map((e) => e.id);
+    expect(dictionary.version).toMatch(/^\d+\.\d+\.\d+$/);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toEqual(expect.arrayContaining(['qmb', 'slmb', 'csra', 'life', 'oim', 'cao']));
+  });
+
+  it('rejects files that do not match the schema', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'query-dictionary-'));
+    const path = join(dir, 'dictionary.json');
+    await writeFile(path, JSON.stringify({ version: '1', entries: [{ id: 'qmb', terms: [] }] }));
+
+    await expect(loadQueryDictionary(path)).rejects.toBeInstanceOf(RagError);
+  });
+});
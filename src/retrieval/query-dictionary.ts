@@ -0,0 +1,64 @@
+/**
+ * Domain dictionary for query analysis: the acronyms, synonyms and program
+ * aliases people use interchangeably ("QMB" and "Qualified Medicare
+ * Beneficiary", "LIFE" and "PACE"). Loaded from the versioned
+ * data/metadata/query-dictionary.json or a file set by QUERY_DICTIONARY.
+ */
+
+import { readFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import { RagError } from '../types/index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/**
+ * Location of the bundled dictionary
+ */
+export const DEFAULT_DICTIONARY_PATH = join(__dirname, '../../data/metadata/query-dictionary.json');
+
+const DictionaryEntrySchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(['acronym', 'synonym', 'program']),
+  /** Interchangeable names; any of them in a query expands to all the others */
+  terms: z.array(z.string().min(1)).min(1),
+  /** Searched for when the entry matches, but do not trigger it */
+  related: z.array(z.string().min(1)).optional(),
+  /** Capitalised terms only match as written, so "MA" does not match "ma" */
+  caseSensitive: z.boolean().optional(),
+});
+
+const QueryDictionarySchema = z.object({
+  version: z.string(),
+  lastUpdated: z.string().optional(),
+  description: z.string().optional(),
+  entries: z.array(DictionaryEntrySchema),
+});
+
+export type DictionaryEntry = z.infer<typeof DictionaryEntrySchema>;
+
+export type QueryDictionary = z.infer<typeof QueryDictionarySchema>;
+
+/**
+ * Dictionary that expands nothing, used when expansion is off or the
+ * dictionary cannot be loaded
+ */
+export const EMPTY_DICTIONARY: QueryDictionary = { version: 'none', entries: [] };
+
+/**
+ * Read and validate a dictionary file
+ */
+export async function loadQueryDictionary(
+  path: string = DEFAULT_DICTIONARY_PATH
+): Promise<QueryDictionary> {
+  try {
+    return QueryDictionarySchema.parse(JSON.parse(await readFile(path, 'utf-8')));
+  } catch (error) {
+    throw new RagError(
+      `Could not load query dictionary from ${path}`,
+      'QUERY_DICTIONARY_ERROR',
+      error
+    );
+  }
+}
@@ -1,7 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { Reranker, createReranker } from './reranker.js';
+import {
+  CrossEncoderReranker,
+  PointwiseReranker,
+  Reranker,
+  createReranker,
+} from './reranker.js';
 import { FusedResult, RerankedResult } from '../types/index.js';
 import { LMStudioClient } from '../clients/lm-studio.js';
+import { CrossEncoderClient } from '../clients/cross-encoder.js';
 
 // Mock LMStudioClient
 const createMockLMStudio = (): LMStudioClient => ({
@@ -9,6 +15,7 @@ const createMockLMStudio = (): LMStudioClient => ({
   embed: vi.fn(),
   generateAnswer: vi.fn(),
   rerankListwise: vi.fn(),
+  gradeRelevance: vi.fn(),
 } as unknown as LMStudioClient);
 
 // Helper to create test fused results
@@ -208,11 +215,107 @@ describe('Reranker', () => {
   });
 });
 
+describe('PointwiseReranker', () => {
+  let mockLMStudio: LMStudioClient;
+  let reranker: Reranker;
+
+  const results = [
+    createFusedResult('chunk-1', 'Content about appeals', 0.9),
+    createFusedResult('chunk-2', 'Content about QMB limits', 0.8),
+    createFusedResult('chunk-3', 'Content about SLMB', 0.7),
+  ];
+
+  beforeEach(() => {
+    mockLMStudio = createMockLMStudio();
+    reranker = new Reranker(mockLMStudio, new PointwiseReranker(mockLMStudio));
+  });
+
+  it('should order results by their grades, even when there are no more than topN', async () => {
+    vi.mocked(mockLMStudio.gradeRelevance)
+      .mockResolvedValueOnce(0)
+      .mockResolvedValueOnce(1)
+      .mockResolvedValueOnce(2 / 3);
+
+    const reranked = await reranker.rerank('QMB income limit', results, 5);
+
+    expect(mockLMStudio.gradeRelevance).toHaveBeenCalledTimes(3);
+    expect(reranked.map((r) => r.chunkId)).toEqual(['chunk-2', 'chunk-3', 'chunk-1']);
+    expect(reranked.map((r) => r.rerankScore)).toEqual([1, 2 / 3, 0]);
+  });
+
+  it('should rank results that could not be graded last', async () => {
+    vi.mocked(mockLMStudio.gradeRelevance)
+      .mockRejectedValueOnce(new Error('Could not parse relevance grade'))
+      .mockResolvedValueOnce(1 / 3)
+      .mockResolvedValueOnce(1 / 3);
+
+    const reranked = await reranker.rerank('query', results, 2);
+
+    expect(reranked.map((r) => r.chunkId)).toEqual(['chunk-2', 'chunk-3']);
+  });
+
+  it('should fall back to the fused order when nothing could be graded', async () => {
+    vi.mocked(mockLMStudio.gradeRelevance).mockRejectedValue(new Error('Connection refused'));
+
+    const reranked = await reranker.rerank('query', results, 2);
+
+    expect(reranked.map((r) => r.chunkId)).toEqual(['chunk-1', 'chunk-2']);
+  });
+});
+
+describe('CrossEncoderReranker', () => {
+  it('should order results by the cross-encoder scores', async () => {
+    const client = { score: vi.fn().mockResolvedValue([0.1, 0.92, 0.4]) };
+    const reranker = new Reranker(
+      createMockLMStudio(),
+      new CrossEncoderReranker(client as unknown as CrossEncoderClient)
+    );
+
+    const reranked = await reranker.rerank(
+      'QMB income limit',
+      [
+        createFusedResult('chunk-1', 'Content 1', 0.9),
+        createFusedResult('chunk-2', 'Content 2', 0.8),
+        createFusedResult('chunk-3', 'Content 3', 0.7),
+      ],
+      2
+    );
+
+    expect(client.score).toHaveBeenCalledWith('QMB income limit', [
+      'Content 1',
+      'Content 2',
+      'Content 3',
+    ]);
+    expect(reranked.map((r) => [r.chunkId, r.rerankScore])).toEqual([
+      ['chunk-2', 0.92],
+      ['chunk-3', 0.4],
+    ]);
+  });
+});
+
 describe('createReranker', () => {
+  const rerankerConfig = {
+    rerankerUrl: 'http://localhost:1234/v1',
+    rerankerModel: 'bge-reranker-v2-m3',
+    rerankerScores: 'logits',
+  };
+
   it('should create a Reranker instance', () => {
     const mockLMStudio = createMockLMStudio();
     const reranker = createReranker(mockLMStudio);
 
     expect(reranker).toBeInstanceOf(Reranker);
+    expect(reranker.strategy).toBe('listwise');
+  });
+
+  it('should use the configured strategy', () => {
+    const mockLMStudio = createMockLMStudio();
+
+    expect(
+      createReranker(mockLMStudio, { ...rerankerConfig, reranker: 'pointwise' }).strategy
+    ).toBe('pointwise');
+    expect(
+      createReranker(mockLMStudio, { ...rerankerConfig, reranker: 'cross-encoder' }).strategy
+    ).toBe('cross-encoder');
   });
 });
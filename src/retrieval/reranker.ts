@@ -1,31 +1,54 @@
-import { FusedResult, RerankedResult } from '../types/index.js';
+import { Config, FusedResult, RerankedResult, RerankError } from '../types/index.js';
 import { LMStudioClient } from '../clients/lm-studio.js';
+import { CrossEncoderClient, createCrossEncoderClient } from '../clients/cross-encoder.js';
 import { createChildLogger } from '../utils/logger.js';
 
 const logger = createChildLogger('reranker');
 
 /**
- * Rerank fused results using LLM-based listwise reranking
+ * How fused results are reranked (RERANKER):
+ * - `listwise`: the chat LLM orders the results in one call. Scores only
+ *   reflect the order, and there is nothing to order when there are no more
+ *   results than topN.
+ * - `pointwise`: the chat LLM grades each result on a fixed scale, so a score
+ *   means the same thing for every query
+ * - `cross-encoder`: a reranking model scores each (query, chunk) pair
  */
-export class Reranker {
+export type RerankStrategy = Config['rag']['reranker'];
+
+// Results the pointwise reranker grades at once
+const POINTWISE_CONCURRENCY = 4;
+
+/**
+ * A way of ordering fused results by relevance to the query
+ */
+export interface RerankBackend {
+  readonly strategy: RerankStrategy;
+  rerank(query: string, results: FusedResult[], topN: number): Promise<RerankedResult[]>;
+}
+
+/**
+ * Order results by per-result relevance scores. Ties keep the fused order.
+ */
+function rankByScore(results: FusedResult[], scores: number[], topN: number): RerankedResult[] {
+  return results
+    .map((result, i) => ({ ...result, rerankScore: scores[i] }))
+    .sort((a, b) => b.rerankScore - a.rerankScore)
+    .slice(0, topN);
+}
+
+/**
+ * LLM-based listwise reranking
+ */
+export class ListwiseReranker implements RerankBackend {
+  readonly strategy = 'listwise';
   private lmStudio: LMStudioClient;
 
   constructor(lmStudio: LMStudioClient) {
     this.lmStudio = lmStudio;
   }
 
-  /**
-   * Rerank results using listwise LLM reranking
-   */
-  async rerank(
-    query: string,
-    results: FusedResult[],
-    topN: number
-  ): Promise<RerankedResult[]> {
-    if (results.length === 0) {
-      return [];
-    }
-
+  async rerank(query: string, results: FusedResult[], topN: number): Promise<RerankedResult[]> {
     if (results.length <= topN) {
       // No need to rerank, just add rerank scores
       return results.map((r, i) => ({
@@ -39,44 +62,140 @@ export class Reranker {
       'Starting listwise reranking'
     );
 
-    try {
-      // Prepare documents for reranking
-      const documents = results.map((r) => ({
-        id: r.chunkId,
-        content: r.content,
-      }));
+    // Prepare documents for reranking
+    const documents = results.map((r) => ({
+      id: r.chunkId,
+      content: r.content,
+    }));
 
-      // Get reranked order from LLM
-      const rerankedOrder = await this.lmStudio.rerankListwise(
-        query,
-        documents,
-        topN
-      );
+    // Get reranked order from LLM
+    const rerankedOrder = await this.lmStudio.rerankListwise(query, documents, topN);
+
+    // Build result map for quick lookup
+    const resultMap = new Map(results.map((r) => [r.chunkId, r]));
+
+    // Create reranked results
+    const rerankedResults: RerankedResult[] = [];
 
-      // Build result map for quick lookup
-      const resultMap = new Map(results.map((r) => [r.chunkId, r]));
+    for (const { id, score } of rerankedOrder) {
+      const original = resultMap.get(id);
+      if (original) {
+        rerankedResults.push({
+          ...original,
+          rerankScore: score,
+        });
+      }
+    }
+
+    return rerankedResults;
+  }
+}
 
-      // Create reranked results
-      const rerankedResults: RerankedResult[] = [];
+/**
+ * LLM-based pointwise reranking: each result is graded on its own, so the
+ * scores are comparable across queries and a reply the LLM garbles costs one
+ * result its rank rather than the whole ordering
+ */
+export class PointwiseReranker implements RerankBackend {
+  readonly strategy = 'pointwise';
+  private lmStudio: LMStudioClient;
+  private concurrency: number;
 
-      for (const { id, score } of rerankedOrder) {
-        const original = resultMap.get(id);
-        if (original) {
-          rerankedResults.push({
-            ...original,
-            rerankScore: score,
-          });
+  constructor(lmStudio: LMStudioClient, concurrency: number = POINTWISE_CONCURRENCY) {
+    this.lmStudio = lmStudio;
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  async rerank(query: string, results: FusedResult[], topN: number): Promise<RerankedResult[]> {
+    const scores = new Array<number>(results.length);
+    let failures = 0;
+    let next = 0;
+
+    const work = async () => {
+      while (next < results.length) {
+        const index = next++;
+        try {
+          scores[index] = await this.lmStudio.gradeRelevance(query, results[index].content);
+        } catch (error) {
+          // Ungraded results rank last
+          logger.warn({ error, chunkId: results[index].chunkId }, 'Could not grade result');
+          scores[index] = 0;
+          failures++;
         }
       }
+    };
+
+    const workers = Math.min(this.concurrency, results.length);
+    await Promise.all(Array.from({ length: workers }, work));
+
+    if (failures === results.length) {
+      throw new RerankError('No result could be graded');
+    }
+    return rankByScore(results, scores, topN);
+  }
+}
+
+/**
+ * Reranking with a cross-encoder model behind an OpenAI-compatible server
+ */
+export class CrossEncoderReranker implements RerankBackend {
+  readonly strategy = 'cross-encoder';
+  private client: CrossEncoderClient;
+
+  constructor(client: CrossEncoderClient) {
+    this.client = client;
+  }
+
+  async rerank(query: string, results: FusedResult[], topN: number): Promise<RerankedResult[]> {
+    const scores = await this.client.score(
+      query,
+      results.map((r) => r.content)
+    );
+    return rankByScore(results, scores, topN);
+  }
+}
+
+/**
+ * Rerank fused results with the configured strategy, falling back to the
+ * fused order when it fails
+ */
+export class Reranker {
+  private backend: RerankBackend;
+
+  constructor(lmStudio: LMStudioClient, backend?: RerankBackend) {
+    this.backend = backend ?? new ListwiseReranker(lmStudio);
+  }
+
+  get strategy(): RerankStrategy {
+    return this.backend.strategy;
+  }
+
+  /**
+   * Rerank results, keeping the topN most relevant
+   */
+  async rerank(
+    query: string,
+    results: FusedResult[],
+    topN: number
+  ): Promise<RerankedResult[]> {
+    if (results.length === 0) {
+      return [];
+    }
+
+    try {
+      const rerankedResults = await this.backend.rerank(query, results, topN);
 
       logger.debug(
-        { rerankedCount: rerankedResults.length },
+        { strategy: this.strategy, rerankedCount: rerankedResults.length },
         'Reranking complete'
       );
 
       return rerankedResults;
     } catch (error) {
-      logger.error({ error }, 'Reranking failed, returning original order');
+      logger.error(
+        { error, strategy: this.strategy },
+        'Reranking failed, returning original order'
+      );
 
       // Fallback: return top N with simple scores
       return results.slice(0, topN).map((r, i) => ({
@@ -98,8 +217,20 @@ export class Reranker {
 }
 
 /**
- * Create a reranker
+ * Create a reranker for the configured strategy (listwise by default)
  */
-export function createReranker(lmStudio: LMStudioClient): Reranker {
-  return new Reranker(lmStudio);
+export function createReranker(
+  lmStudio: LMStudioClient,
+  config?: Pick<
+    Config['rag'],
+    'reranker' | 'rerankerUrl' | 'rerankerModel' | 'rerankerScores'
+  >
+): Reranker {
+  if (config?.reranker === 'cross-encoder') {
+    return new Reranker(lmStudio, new CrossEncoderReranker(createCrossEncoderClient(config)));
+  }
+  if (config?.reranker === 'pointwise') {
+    return new Reranker(lmStudio, new PointwiseReranker(lmStudio));
+  }
+  return new Reranker(lmStudio, new ListwiseReranker(lmStudio));
 }
@@ -56,10 +56,68 @@ export type SensitiveCategory =
 // API Request/Response Types
 // ============================================
 
+/**
+ * Restrict retrieval to documents matching these classifications.
+ * Multiple values within a list match any; separate fields must all match.
+ */
+export interface QueryFilters {
+  documentTypes?: DocumentType[];
+  sourceAuthority?: SourceAuthority;
+  legalWeight?: LegalWeight;
+  /** Programs the document covers (e.g. "QMB", "LIFE") */
+  targetPrograms?: string[];
+  /** Only documents effective on or after this date (YYYY-MM-DD) */
+  effectiveAfter?: string;
+}
+
+/**
+ * Who the answer is written for: seniors get plain-language answers with next
+ * steps, caregivers denser answers citing sections, caseworkers regulatory detail
+ */
+export type PromptMode = 'senior' | 'caregiver' | 'caseworker';
+
+/**
+ * How vector and keyword (BM25) results are combined:
+ * - `rrf`: reciprocal rank fusion, by rank only
+ * - `combsum`: sum of the min-max normalized scores
+ * - `combmnz`: CombSUM times the number of searches that found the chunk
+ */
+export type FusionStrategy = 'rrf' | 'combsum' | 'combmnz';
+
+/** How much each search counts in fusion; 1 and 1 weigh them equally */
+export interface FusionWeights {
+  vector: number;
+  bm25: number;
+}
+
+export interface FusionSettings {
+  strategy: FusionStrategy;
+  weights: FusionWeights;
+  /** RRF constant (used by `rrf` only) */
+  rrfK: number;
+}
+
+/** Per-query overrides of the configured fusion settings */
+export interface FusionOptions {
+  strategy?: FusionStrategy;
+  weights?: Partial<FusionWeights>;
+  rrfK?: number;
+}
+
 export interface QueryRequest {
   query: string;
   topK?: number;
   useCache?: boolean;
+  /** Stream progress and answer tokens as Server-Sent Events */
+  stream?: boolean;
+  /** Conversation this query continues; prior turns are used to interpret follow-ups */
+  conversationId?: string;
+  /** Only retrieve from documents matching these filters */
+  filters?: QueryFilters;
+  /** Answer style; defaults to 'senior' */
+  mode?: PromptMode;
+  /** Fuse retrieval results differently from the server's configuration */
+  fusion?: FusionOptions;
 }
 
 export interface Citation {
@@ -83,6 +141,10 @@ export interface RetrievalStats {
   fusedResults: number;
   rerankedResults: number;
   finalResults: number;
+  /** How the vector and BM25 results were fused; missing from older cached answers */
+  fusion?: FusionSettings;
+  /** Query terms expanded with their acronyms, synonyms or aliases, e.g. "QMB" */
+  expandedTerms?: string[];
 }
 
 export interface FreshnessWarning {
@@ -108,17 +170,144 @@ export interface DisclaimerInfo {
   referral?: string;
 }
 
+/**
+ * How far an answer can be relied on. Answers below the abstain threshold are
+ * replaced by the no-answer response and referrals.
+ */
+export type ConfidenceBand = 'high' | 'medium' | 'low';
+
+/**
+ * Evidence behind a confidence score, each from 0 to 1
+ */
+export interface ConfidenceSignals {
+  /** Vector similarity of the best final chunk */
+  vector: number;
+  /** Share of final chunks found by both keyword (BM25) and vector search */
+  overlap: number;
+  /** Mean rerank score of the final chunks */
+  rerank: number;
+  /** Share of the answer's terms and figures found in the cited chunks */
+  grounding: number;
+  /** Share of final chunks the answer cites */
+  citations: number;
+}
+
+export interface ConfidenceInfo {
+  band: ConfidenceBand;
+  /** Plain-language reasons for the band, weakest evidence first */
+  reasons: string[];
+  signals: ConfidenceSignals;
+  /** The answer was replaced by the no-answer response */
+  abstained: boolean;
+}
+
+/**
+ * Outcome of checking one sentence of an answer against the sources it cites:
+ * - `supported`: its facts are in the cited sources and they entail it
+ * - `unsupported`: a fact is missing from the cited sources, or they do not entail it
+ * - `unverified`: the entailment check could not be run
+ * - `uncited`: the sentence cites no source, so there is nothing to check it against
+ */
+export type ClaimStatus = 'supported' | 'unsupported' | 'unverified' | 'uncited';
+
+export type ClaimFactKind = 'amount' | 'percent' | 'phone' | 'program' | 'number';
+
+/**
+ * A figure or name in a claim that must appear in the sources exactly
+ */
+export interface ClaimFact {
+  kind: ClaimFactKind;
+  /** As written in the answer */
+  text: string;
+  /** Found in the cited sources (in any source, for uncited claims) */
+  supported: boolean;
+}
+
+export interface ClaimSupport {
+  /** The sentence without citation markers */
+  text: string;
+  /** Source numbers ([N]) the sentence cites */
+  citations: number[];
+  status: ClaimStatus;
+  facts: ClaimFact[];
+  /** Why an unsupported or unverified claim failed */
+  reason?: string;
+  /** Taken out of the answer (CITATION_VERIFICATION=remove) */
+  removed?: boolean;
+}
+
 export interface QueryResponse {
   answer: string;
   citations: Citation[];
+  /** Calibrated confidence from 0 to 100 */
   confidence: number;
+  confidenceInfo?: ConfidenceInfo;
+  /** Each sentence of the answer checked against its cited sources */
+  claims?: ClaimSupport[];
   queryId: string;
   latencyMs: number;
   retrievalStats: RetrievalStats;
   freshnessInfo?: FreshnessInfo;
   disclaimer?: DisclaimerInfo;
+  conversationId?: string;
+  standaloneQuery?: string;
+  /** Eligibility estimate when the question included concrete income figures */
+  screening?: ScreeningResult;
+  /** Questions the user might ask next, shown as suggestions under the answer */
+  followUps?: string[];
+}
+
+// ============================================
+// Streaming Types
+// ============================================
+
+/**
+ * Retrieval stages reported while a streamed query is in progress
+ */
+export type QueryStage = 'embedding' | 'retrieval' | 'fusion' | 'rerank' | 'generation';
+
+/**
+ * Progress update for a retrieval stage
+ */
+export interface QueryProgressEvent {
+  type: 'progress';
+  stage: QueryStage;
+  vectorResults?: number;
+  bm25Results?: number;
+  fusedResults?: number;
+  rerankedResults?: number;
+}
+
+/**
+ * Partial answer text as it arrives from the LLM
+ */
+export interface QueryTokenEvent {
+  type: 'token';
+  text: string;
+}
+
+/**
+ * Final event carrying the complete response (citations, freshness, disclaimer)
+ */
+export interface QueryDoneEvent {
+  type: 'done';
+  response: QueryResponse;
+}
+
+/**
+ * Error raised while a streamed query was in progress
+ */
+export interface QueryErrorEvent {
+  type: 'error';
+  error: string;
 }
 
+export type QueryStreamEvent =
+  | QueryProgressEvent
+  | QueryTokenEvent
+  | QueryDoneEvent
+  | QueryErrorEvent;
+
 export interface HealthResponse {
   status: 'healthy' | 'unhealthy';
   documentCount?: number;
@@ -131,3 +320,169 @@ export interface MetricsResponse {
   avgLatencyMs: number;
   noAnswerRate: number;
 }
+
+// ============================================
+// Document Catalog Types
+// ============================================
+
+/**
+ * A document in the corpus with its classification fields
+ */
+export interface DocumentSummary {
+  id: string;
+  filename: string;
+  title?: string;
+  totalPages?: number;
+  ingestedAt: string;
+  documentType?: DocumentType;
+  sourceAuthority?: SourceAuthority;
+  legalWeight?: LegalWeight;
+  effectiveDate?: string;
+  targetPrograms?: string[];
+  sourceUrl?: string;
+  updateFrequency?: string;
+  chunkCount: number;
+  /** Version number within the document's lineage, starting at 1 */
+  version?: number;
+  /** Set when a newer version has replaced this one */
+  supersededBy?: string;
+  supersededAt?: string;
+  expirationDate?: string;
+}
+
+export interface DocumentListResponse {
+  documents: DocumentSummary[];
+  total: number;
+}
+
+export interface DocumentChunkSummary {
+  id: string;
+  chunkIndex: number;
+  pageNumber?: number;
+  content: string;
+}
+
+export interface DocumentDetailResponse {
+  document: DocumentSummary;
+  chunks: DocumentChunkSummary[];
+}
+
+/**
+ * Every version of a document, newest first. Only the newest is retrieved from.
+ */
+export interface DocumentVersionsResponse {
+  versions: DocumentSummary[];
+  total: number;
+}
+
+// ============================================
+// Eligibility Screening Types
+// ============================================
+
+/**
+ * Programs covered by the eligibility screener
+ */
+export type ScreeningProgram = 'QMB' | 'SLMB' | 'QI' | 'EXTRA_HELP' | 'PACE' | 'PACENET';
+
+export type MaritalStatus = 'single' | 'married' | 'widowed' | 'divorced' | 'separated';
+
+/**
+ * Freshness data type each set of limits is published under
+ */
+export type LimitDataType = 'msp_income_limits' | 'federal_poverty_level' | 'pace_pacenet_limits';
+
+export interface ScreeningRequest {
+  /** People in the household, including the applicant */
+  householdSize: number;
+  /** Gross monthly income in dollars */
+  monthlyIncome: number;
+  /** Countable assets in dollars; asset tests are skipped when omitted */
+  countableAssets?: number;
+  maritalStatus: MaritalStatus;
+  age: number;
+}
+
+/**
+ * The limits a program was screened against
+ */
+export interface ScreeningLimits {
+  /** Income limit in dollars per incomePeriod */
+  incomeLimit: number;
+  incomePeriod: 'monthly' | 'annual';
+  assetLimit?: number;
+  minAge?: number;
+  effectiveYear: number;
+  dataType: LimitDataType;
+}
+
+export interface ProgramScreeningResult {
+  program: ScreeningProgram;
+  name: string;
+  likelyEligible: boolean;
+  /** What the program helps pay for */
+  benefit: string;
+  reasons: string[];
+  limits: ScreeningLimits;
+  /** Set when these limits are older than the latest expected update */
+  freshnessWarning?: string;
+}
+
+export interface ScreeningResult {
+  programs: ProgramScreeningResult[];
+  eligiblePrograms: ScreeningProgram[];
+  /** Facts that were not given and had to be assumed (e.g. age from a question) */
+  assumptions: string[];
+  disclaimer: string;
+}
+
+// ============================================
+// Ingestion Job Types
+// ============================================
+
+export type JobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobType = 'ingest_file' | 'ingest_directory' | 'ingest_scraped';
+
+/**
+ * How far a running job has got. Page counts are for the file in progress.
+ */
+export interface JobProgress {
+  currentFile?: string;
+  filesDone: number;
+  filesTotal: number;
+  pagesDone: number;
+  pagesTotal: number;
+  /** Pages whose OCR still failed after retrying */
+  failedPages: Array<{ file: string; page: number }>;
+  chunksDone: number;
+  chunksTotal: number;
+}
+
+export interface JobSummary {
+  id: string;
+  type: JobType;
+  state: JobState;
+  progress: JobProgress;
+  /** Ingestion stats, or the document created by a single-file job */
+  result?: Record<string, unknown>;
+  error?: string;
+  attempts: number;
+  /** Set while a running job is being cancelled */
+  cancelRequested: boolean;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface JobListResponse {
+  jobs: JobSummary[];
+  total: number;
+}
+
+/**
+ * Returned by the ingest endpoints; follow the job at GET /jobs/:jobId
+ */
+export interface JobAcceptedResponse {
+  jobId: string;
+  state: JobState;
+}
@@ -7,8 +7,19 @@ import { z } from 'zod';
 // Import types for use in this file
 import type {
   DocumentType as DocumentTypeImport,
+  QueryFilters as QueryFiltersImport,
   SourceAuthority as SourceAuthorityImport,
   LegalWeight as LegalWeightImport,
+  ScreeningProgram as ScreeningProgramImport,
+  ScreeningResult as ScreeningResultImport,
+  LimitDataType as LimitDataTypeImport,
+  PromptMode as PromptModeImport,
+  JobState as JobStateImport,
+  JobProgress as JobProgressImport,
+  ConfidenceInfo as ConfidenceInfoImport,
+  ClaimSupport as ClaimSupportImport,
+  FusionSettings as FusionSettingsImport,
+  FusionOptions as FusionOptionsImport,
 } from '../shared/api-types.js';
 
 // Re-export all shared types
@@ -17,21 +28,69 @@ export type {
   SourceAuthority,
   LegalWeight,
   SensitiveCategory,
+  QueryFilters,
+  PromptMode,
+  FusionStrategy,
+  FusionWeights,
+  FusionSettings,
+  FusionOptions,
   QueryRequest as SharedQueryRequest,
   Citation as SharedCitation,
   RetrievalStats,
   FreshnessWarning,
   FreshnessInfo,
   DisclaimerInfo,
+  ConfidenceBand,
+  ConfidenceSignals,
+  ConfidenceInfo,
+  ClaimStatus,
+  ClaimFactKind,
+  ClaimFact,
+  ClaimSupport,
   QueryResponse as SharedQueryResponse,
+  QueryStage,
+  QueryProgressEvent,
+  QueryTokenEvent,
+  QueryDoneEvent,
+  QueryErrorEvent,
+  QueryStreamEvent,
   HealthResponse,
   MetricsResponse,
+  DocumentSummary,
+  DocumentListResponse,
+  DocumentChunkSummary,
+  DocumentDetailResponse,
+  DocumentVersionsResponse,
+  ScreeningProgram,
+  MaritalStatus,
+  LimitDataType,
+  ScreeningRequest,
+  ScreeningLimits,
+  ProgramScreeningResult,
+  ScreeningResult,
+  JobState,
+  JobType,
+  JobProgress,
+  JobSummary,
+  JobListResponse,
+  JobAcceptedResponse,
 } from '../shared/api-types.js';
 
 // Local aliases for use in interfaces below
 type DocumentType = DocumentTypeImport;
 type SourceAuthority = SourceAuthorityImport;
 type LegalWeight = LegalWeightImport;
+type QueryFilters = QueryFiltersImport;
+type ScreeningProgram = ScreeningProgramImport;
+type ScreeningResult = ScreeningResultImport;
+type LimitDataType = LimitDataTypeImport;
+type PromptMode = PromptModeImport;
+type JobState = JobStateImport;
+type JobProgress = JobProgressImport;
+type ConfidenceInfo = ConfidenceInfoImport;
+type ClaimSupport = ClaimSupportImport;
+type FusionSettings = FusionSettingsImport;
+type FusionOptions = FusionOptionsImport;
 
 // ============================================================
 // Configuration Types
@@ -41,6 +100,8 @@ export const ConfigSchema = z.object({
   lmStudio: z.object({
     baseUrl: z.string().url(),
     ocrModel: z.string(),
+    /** Pages sent to the OCR model at once */
+    ocrConcurrency: z.number().min(1).max(16),
     llmModel: z.string(),
     embeddingModel: z.string(),
   }),
@@ -63,6 +124,35 @@ export const ConfigSchema = z.object({
     bm25TopK: z.number().min(1).max(100),
     rerankTopN: z.number().min(1).max(50),
     finalTopC: z.number().min(1).max(20),
+    /** Ask the LLM for follow-up questions in addition to the topic suggestions */
+    llmFollowUps: z.boolean(),
+    /** How vector and BM25 results are combined, see `src/retrieval/fusion.ts` */
+    fusion: z.enum(['rrf', 'combsum', 'combmnz']),
+    /** RRF constant; higher values flatten the difference between top and lower ranks */
+    rrfK: z.number().min(1).max(1000),
+    /** How much each search counts in fusion */
+    fusionWeights: z.object({
+      vector: z.number().min(0).max(10),
+      bm25: z.number().min(0).max(10),
+    }),
+    /** How fused results are reranked, see `src/retrieval/reranker.ts` */
+    reranker: z.enum(['listwise', 'pointwise', 'cross-encoder']),
+    /** OpenAI-compatible server with a `/rerank` endpoint, for the cross-encoder reranker */
+    rerankerUrl: z.string().url(),
+    /** Model the cross-encoder reranker scores with */
+    rerankerModel: z.string(),
+    /** Whether the `/rerank` endpoint returns raw logits or scores from 0 to 1 */
+    rerankerScores: z.enum(['logits', 'probabilities']),
+    /** Answers with a confidence below this (0-100) are replaced by the no-answer response */
+    abstainThreshold: z.number().min(0).max(100),
+    /** JSON file of fitted confidence weights from `pnpm eval calibrate` */
+    confidenceCalibration: z.string().optional(),
+    /** Check answer sentences against their cited sources, and flag or remove unsupported ones */
+    citationVerification: z.enum(['off', 'flag', 'remove']),
+    /** Expand acronyms, synonyms and program aliases for BM25 only, or for embeddings too */
+    queryExpansion: z.enum(['off', 'bm25', 'all']),
+    /** Query dictionary JSON file; defaults to data/metadata/query-dictionary.json */
+    queryDictionary: z.string().optional(),
   }),
   cache: z.object({
     enabled: z.boolean(),
@@ -98,6 +188,15 @@ export interface Document {
   legalWeight?: LegalWeight;
   sourceFormat?: SourceFormat;
   effectiveDate?: Date;
+  targetPrograms?: string[];
+  sourceUrl?: string;
+  updateFrequency?: string;
+  // Versioning: re-published sources are new versions of the same lineage
+  lineageId?: string;
+  version?: number;
+  expirationDate?: Date;
+  supersededBy?: string;
+  supersededAt?: Date;
 }
 
 export interface DocumentInput {
@@ -113,6 +212,12 @@ export interface DocumentInput {
   legalWeight?: LegalWeight;
   sourceFormat?: SourceFormat;
   effectiveDate?: Date;
+  targetPrograms?: string[];
+  sourceUrl?: string;
+  updateFrequency?: string;
+  /** Lineage and version number when this document replaces an earlier version */
+  lineageId?: string;
+  version?: number;
 }
 
 // ============================================================
@@ -131,11 +236,26 @@ export interface Chunk {
   createdAt: Date;
 }
 
+/**
+ * Structured copy of a table, so exact values can be read without parsing
+ * the Markdown
+ */
+export interface TableData {
+  headers: string[];
+  rows: string[][];
+}
+
 export interface ChunkMetadata {
   filename?: string;
   title?: string;
   section?: string;
   pageNumbers?: number[];
+  /** Tables in the chunk; a table split across chunks has its header in each */
+  tables?: TableData[];
+  /** Lowest quality score of the PDF pages the chunk covers */
+  pageQuality?: number;
+  /** Where the text of that lowest-scoring page came from */
+  textSource?: PageTextSource;
   [key: string]: unknown;
 }
 
@@ -149,6 +269,24 @@ export interface ChunkInput {
   metadata?: ChunkMetadata;
 }
 
+/**
+ * Section metadata for a chunk of regulatory text (regulatory_chunks table)
+ */
+export interface RegulatoryChunkInput {
+  chunkId: string;
+  chapterNumber?: string;
+  sectionNumber?: string;
+  subsectionNumber?: string;
+  sectionPath: string[];
+  sectionTitle?: string;
+  sourceAuthority: 'pa_code' | 'oim_handbook' | 'pa_bulletin';
+  legalWeight: 'regulatory' | 'guidance' | 'informational';
+  crossReferences: string[];
+  effectiveDate?: string;
+  lastAmended?: string;
+  amendmentCitation?: string;
+}
+
 // ============================================================
 // Embedding Types
 // ============================================================
@@ -210,7 +348,11 @@ export interface Citation {
 export interface AnswerWithCitations {
   answer: string;
   citations: Citation[];
+  /** Calibrated confidence from 0 to 100, see `src/confidence` */
   confidence: number;
+  confidenceInfo?: ConfidenceInfo;
+  /** Each sentence checked against its cited sources, see `src/verification` */
+  claims?: ClaimSupport[];
   queryId: string;
 }
 
@@ -222,6 +364,11 @@ export interface QueryRequest {
   query: string;
   topK?: number;
   useCache?: boolean;
+  stream?: boolean;
+  conversationId?: string;
+  filters?: QueryFilters;
+  mode?: PromptMode;
+  fusion?: FusionOptions;
 }
 
 /**
@@ -250,19 +397,185 @@ export interface QueryResponse extends AnswerWithCitations {
     fusedResults: number;
     rerankedResults: number;
     finalResults: number;
+    /** How the vector and BM25 results were fused */
+    fusion?: FusionSettings;
+    /** Query terms expanded with their acronyms, synonyms or aliases */
+    expandedTerms?: string[];
   };
   /** Freshness information about the sources used */
   freshnessInfo?: ResponseFreshnessInfo;
+  /** Conversation this answer belongs to */
+  conversationId?: string;
+  /** Follow-up question rewritten as a standalone question, when it differed */
+  standaloneQuery?: string;
+  /** Eligibility estimate when the question included concrete income figures */
+  screening?: ScreeningResult;
+  /** Questions the user might ask next */
+  followUps?: string[];
+}
+
+// ============================================================
+// Conversation Types
+// ============================================================
+
+export interface ConversationTurn {
+  id: string;
+  conversationId: string;
+  turnIndex: number;
+  queryText: string;
+  standaloneQuery?: string;
+  answerText: string;
+  queryId?: string;
+  createdAt: Date;
+}
+
+export interface ConversationTurnInput {
+  conversationId: string;
+  queryText: string;
+  standaloneQuery?: string;
+  answerText: string;
+  queryId?: string;
+}
+
+// ============================================================
+// Eligibility Limit Types
+// ============================================================
+
+/**
+ * One row of the versioned program_limits table. Each program has a row per
+ * household size and effective year; the screener uses the newest row in effect.
+ */
+export interface ProgramLimit {
+  program: ScreeningProgram | 'FPL';
+  dataType: LimitDataType;
+  householdSize: number;
+  effectiveYear: number;
+  effectiveDate: Date;
+  incomeLimit: number;
+  incomePeriod: 'monthly' | 'annual';
+  assetLimit?: number;
+  minAge?: number;
+}
+
+// ============================================================
+// Guardrail Rule Types
+// ============================================================
+
+/**
+ * One row of the sensitive_topics table: the keywords that flag a sensitive
+ * category and the disclaimer and referral added to answers about it
+ */
+export interface GuardrailRule {
+  /** Built-in SensitiveCategory or one added by an administrator */
+  category: string;
+  keywords: string[];
+  /** Multiplier on the keyword match count when several categories match */
+  weight: number;
+  disclaimer: string;
+  referral?: string;
+  updatedAt?: Date;
+}
+
+export type GuardrailRuleInput = Omit<GuardrailRule, 'updatedAt'>;
+
+/**
+ * Fields an administrator can change on an existing rule. A null referral
+ * removes it.
+ */
+export interface GuardrailRuleUpdate {
+  keywords?: string[];
+  weight?: number;
+  disclaimer?: string;
+  referral?: string | null;
+}
+
+// ============================================================
+// Ingestion Job Types
+// ============================================================
+
+/**
+ * An item found by a source monitor scraper
+ */
+export interface ScrapedItemInput {
+  url: string;
+  title?: string;
+  date?: Date;
+  description?: string;
+}
+
+/**
+ * What an ingestion job does, stored as the job payload
+ */
+export type IngestionJobRequest =
+  | { type: 'ingest_file'; filepath: string; documentType?: DocumentType; reuseOcr?: boolean }
+  | {
+      type: 'ingest_directory';
+      dirPath: string;
+      recursive?: boolean;
+      saveMarkdown?: boolean;
+      reuseOcr?: boolean;
+    }
+  | {
+      type: 'ingest_scraped';
+      items: ScrapedItemInput[];
+      documentType: DocumentType;
+      sourceAuthority: SourceAuthority;
+      legalWeight: LegalWeight;
+      /** Source monitor that found the items */
+      sourceName?: string;
+    };
+
+/**
+ * One row of the ingestion_jobs table
+ */
+export interface IngestionJob {
+  id: string;
+  request: IngestionJobRequest;
+  state: JobState;
+  progress: JobProgress;
+  result?: Record<string, unknown>;
+  error?: string;
+  attempts: number;
+  cancelRequested: boolean;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  updatedAt: Date;
 }
 
 // ============================================================
 // OCR Types
 // ============================================================
 
+/**
+ * Where a PDF page's text came from
+ */
+export type PageTextSource = 'native' | 'ocr';
+
+/**
+ * Heuristic quality of a page's text. Every part runs from 0 to 1.
+ */
+export interface PageQuality {
+  /** Combined score used to choose between native text and OCR */
+  score: number;
+  /** Amount of text relative to a full page */
+  density: number;
+  /** Share of words that are common words or spelled like real ones */
+  dictionaryRatio: number;
+  /** Share of characters that are not letters, digits or ordinary punctuation */
+  garbageRatio: number;
+  /** Word overlap between OCR output and the page's native text, when it has any */
+  nativeAgreement?: number;
+}
+
 export interface OcrPage {
   pageNumber: number;
+  /** Empty when the page has no usable text */
   markdown: string;
   confidence?: number;
+  /** Set for PDF pages, which are chosen page by page */
+  source?: PageTextSource;
+  quality?: PageQuality;
 }
 
 export interface OcrResult {
@@ -272,6 +585,57 @@ export interface OcrResult {
   totalPages: number;
 }
 
+/**
+ * Contents of the OCR page cache
+ */
+export interface OcrCacheStats {
+  entries: number;
+  /** Distinct PDFs with cached pages */
+  files: number;
+  /** Size of the cached markdown */
+  totalBytes: number;
+  byModel: Array<{ model: string; entries: number }>;
+  /** Least recent use of any entry */
+  oldestUsedAt?: Date;
+}
+
+/**
+ * Which OCR cache entries to remove. Conditions combine, so every given
+ * condition must hold; with none, everything is removed.
+ */
+export interface OcrCachePruneFilter {
+  /** Entries not used for this many days */
+  unusedDays?: number;
+  /** Entries made by any model except this one */
+  exceptModel?: string;
+  /** Entries for PDFs that are not an ingested document */
+  orphaned?: boolean;
+}
+
+/**
+ * Size of the cache of query responses
+ */
+export interface QueryCacheStats {
+  entries: number;
+  /** Entries past their expiry, removed when the cache is next cleared */
+  expired: number;
+  /** Distinct documents cited by unexpired entries */
+  documents: number;
+  oldestCreatedAt?: Date;
+}
+
+/**
+ * Embedding model and vector settings a Qdrant collection was built with
+ * (embedding_collections table)
+ */
+export interface EmbeddingCollection {
+  collection: string;
+  model: string;
+  dimension: number;
+  distance: string;
+  createdAt: Date;
+}
+
 // ============================================================
 // Logging Types
 // ============================================================
@@ -312,6 +676,13 @@ export class LMStudioError extends RagError {
   }
 }
 
+export class RerankError extends RagError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'RERANK_ERROR', details);
+    this.name = 'RerankError';
+  }
+}
+
 export class QdrantError extends RagError {
   constructor(message: string, details?: unknown) {
     super(message, 'QDRANT_ERROR', details);
@@ -319,9 +690,57 @@ export class QdrantError extends RagError {
   }
 }
 
+/**
+ * A collection switch that failed. `originalDropped` is set when the
+ * collection that had the alias's name was already deleted, so the new
+ * collection is the only index left.
+ */
+export class CollectionSwitchError extends QdrantError {
+  constructor(
+    message: string,
+    public originalDropped: boolean,
+    details?: unknown
+  ) {
+    super(message, details);
+    this.name = 'CollectionSwitchError';
+  }
+}
+
 export class PostgresError extends RagError {
   constructor(message: string, details?: unknown) {
     super(message, 'POSTGRES_ERROR', details);
     this.name = 'PostgresError';
   }
 }
+
+export class MigrationError extends RagError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'MIGRATION_ERROR', details);
+    this.name = 'MigrationError';
+  }
+}
+
+export class IngestionCancelledError extends RagError {
+  constructor(message: string = 'Ingestion was cancelled') {
+    super(message, 'INGESTION_CANCELLED');
+    this.name = 'IngestionCancelledError';
+  }
+}
+
+export class EmbeddingMismatchError extends RagError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'EMBEDDING_MISMATCH', details);
+    this.name = 'EmbeddingMismatchError';
+  }
+}
+
+export class UnsupportedFileTypeError extends RagError {
+  constructor(filepath: string, supported: string[]) {
+    super(
+      `Unsupported file type: ${filepath} (supported: ${supported.join(', ')})`,
+      'UNSUPPORTED_FILE_TYPE',
+      { filepath }
+    );
+    this.name = 'UnsupportedFileTypeError';
+  }
+}
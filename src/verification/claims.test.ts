@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { splitClaims, extractFacts, factInSources, hasProse } from './claims.js';
+
+describe('splitClaims', () => {
+  it('splits sentences and keeps trailing markers with their sentence', () => {
+    const claims = splitClaims(
+      '## Eligibility\n' +
+        'SLMB pays the Part B premium. [1] Income must be below $1,585 a month [2].\n' +
+        '- Call PHLP at 1-800-274-3258 [3]\n\n' +
+        'Citations: [1], [2], [3]'
+    );
+
+    expect(claims.map((c) => c.text)).toEqual([
+      'SLMB pays the Part B premium.',
+      'Income must be below $1,585 a month .',
+      'Call PHLP at 1-800-274-3258',
+    ]);
+    expect(claims.map((c) => c.citations)).toEqual([[1], [2], [3]]);
+    expect(claims[0].source).toBe('SLMB pays the Part B premium. [1]');
+  });
+});
+
+describe('extractFacts', () => {
+  it('reads each figure once under its own kind', () => {
+    const facts = extractFacts(
+      'QMB covers 100% of the $174.70 premium; call 1-800-274-3258 by 2024.'
+    );
+
+    expect(facts.map((f) => [f.kind, f.value])).toEqual([
+      ['phone', '8002743258'],
+      ['amount', '174.70'],
+      ['percent', '100'],
+      ['program', 'qmb'],
+      ['number', '2024'],
+    ]);
+  });
+
+  it('ignores single digits and lower case acronyms', () => {
+    expect(extractFacts('Step 2: enjoy life at home.')).toEqual([]);
+  });
+});
+
+describe('factInSources', () => {
+  const sources = ['The limit is 1585.00 per month. Call (800) 274-3258.', 'Medicare Part B'];
+
+  it('matches figures on their digits and names case-insensitively', () => {
+    const [amount, phone, program] = extractFacts(
+      'Pay $1,585 or call 800-274-3258 about medicare part b'
+    );
+
+    expect(factInSources(amount, sources)).toBe(true);
+    expect(factInSources(phone, sources)).toBe(true);
+    expect(factInSources(program, sources)).toBe(true);
+  });
+
+  it('rejects figures the sources do not state', () => {
+    const [amount] = extractFacts('The limit is $1,600.');
+
+    expect(factInSources(amount, sources)).toBe(false);
+  });
+});
+
+describe('hasProse', () => {
+  it('needs a few words besides figures', () => {
+    expect(hasProse(splitClaims('Phone: 1-800-274-3258 [1]')[0])).toBe(false);
+    expect(hasProse(splitClaims('SLMB pays the Part B premium [1]')[0])).toBe(true);
+  });
+});
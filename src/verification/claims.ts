@@ -0,0 +1,199 @@
+/**
+ * Splitting answers into claims and pulling out the facts in each claim that
+ * must match the sources exactly: dollar amounts, percentages, phone numbers,
+ * program names and other figures
+ */
+
+import { ClaimFactKind } from '../types/index.js';
+
+/**
+ * A sentence of the answer and the sources it cites
+ */
+export interface Claim {
+  /** The sentence as it appears in the answer, citation markers included */
+  source: string;
+  /** The sentence without citation markers or list and emphasis markup */
+  text: string;
+  /** Source numbers ([N]) the sentence cites, in order */
+  citations: number[];
+}
+
+export interface Fact {
+  kind: ClaimFactKind;
+  /** As written in the claim */
+  text: string;
+  /** Comparable form: digits for figures, lower case for program names */
+  value: string;
+}
+
+/**
+ * Programs, agencies and benefits whose names an answer must not get wrong.
+ * Longer names come first so "Medicare Part B" wins over "Medicare".
+ */
+export const PROGRAM_NAMES = [
+  'Community HealthChoices',
+  'Medicare Savings Program',
+  'Medicare Part A',
+  'Medicare Part B',
+  'Medicare Part D',
+  'Extra Help',
+  'PACENET',
+  'PACE',
+  'LIFE',
+  'QMB',
+  'SLMB',
+  'QI',
+  'LIS',
+  'CHC',
+  'SSI',
+  'SNAP',
+  'LIHEAP',
+  'APPRISE',
+  'PHLP',
+  'CAO',
+  'COMPASS',
+];
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+const SENTENCE_BREAK = /(?<=[.!?])\s+(?=[A-Z*"([])/;
+const LEADING_MARKERS = /^((?:\[\d+\]\s*)+)/;
+const LIST_MARKUP = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const HEADING = /^\s*(?:#{1,6}\s|\*\*[^*]+\*\*:?\s*$)/;
+// "Citations: [1], [2]" lines repeat markers without saying anything
+const CITATION_LIST = /^(?:citations|sources|references)\s*:[\s,;]*$/i;
+
+const PHONE_PATTERN = /(?:\b1-)?(?:\(\d{3}\)\s?|\b\d{3}[-.])\d{3}[-.]\d{4}\b/g;
+const AMOUNT_PATTERN = /\$\d[\d,]*(?:\.\d+)?/g;
+const PERCENT_PATTERN = /\b\d+(?:\.\d+)?\s?(?:%|percent\b)/gi;
+const NUMBER_PATTERN = /\b\d[\d,]*(?:\.\d+)?\b/g;
+
+// Words a claim needs beyond its facts before it is worth asking the LLM about
+const MIN_PROSE_WORDS = 3;
+
+function stripMarkup(text: string): string {
+  return text
+    .replace(CITATION_PATTERN, '')
+    .replace(LIST_MARKUP, '')
+    .replace(/\*\*|__|`/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function citationsIn(text: string): number[] {
+  return [...text.matchAll(CITATION_PATTERN)].map((m) => parseInt(m[1], 10));
+}
+
+/**
+ * Split an answer into sentence claims. Headings and citation lists are
+ * skipped, and citation markers that follow a sentence's full stop stay with
+ * that sentence.
+ */
+export function splitClaims(answer: string): Claim[] {
+  const claims: Claim[] = [];
+
+  for (const line of answer.split('\n')) {
+    if (!line.trim() || HEADING.test(line)) {
+      continue;
+    }
+
+    const sentences: string[] = [];
+    for (const part of line.split(SENTENCE_BREAK)) {
+      // "...premium. [1] Income..." splits before the marker; it belongs to
+      // the sentence before it
+      const markers = sentences.length > 0 ? LEADING_MARKERS.exec(part) : null;
+      if (markers) {
+        sentences[sentences.length - 1] += ` ${markers[1]}`;
+      }
+      const rest = markers ? part.slice(markers[0].length) : part;
+      if (rest.trim()) {
+        sentences.push(rest);
+      }
+    }
+
+    for (const sentence of sentences) {
+      const text = stripMarkup(sentence);
+      if (text && !CITATION_LIST.test(text)) {
+        claims.push({ source: sentence.trim(), text, citations: citationsIn(sentence) });
+      }
+    }
+  }
+
+  return claims;
+}
+
+// Without the leading 1 of toll-free numbers
+function phoneDigits(text: string): string {
+  return text.replace(/\D/g, '').slice(-10);
+}
+
+function digitCount(text: string): number {
+  return text.replace(/\D/g, '').length;
+}
+
+function normalizeNumber(text: string): string {
+  return text.replace(/[$,\s]|percent|%/gi, '').replace(/\.0+$/, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Facts in a piece of text. Each span is read once: the digits of a phone
+ * number or dollar amount are not also reported as plain numbers.
+ */
+export function extractFacts(text: string): Fact[] {
+  const facts: Fact[] = [];
+  let rest = text.replace(CITATION_PATTERN, ' ');
+
+  const take = (pattern: RegExp, kind: ClaimFactKind, value: (match: string) => string) => {
+    rest = rest.replace(pattern, (match) => {
+      facts.push({ kind, text: match.trim(), value: value(match) });
+      return ' ';
+    });
+  };
+
+  take(PHONE_PATTERN, 'phone', phoneDigits);
+  take(AMOUNT_PATTERN, 'amount', normalizeNumber);
+  take(PERCENT_PATTERN, 'percent', normalizeNumber);
+  for (const name of PROGRAM_NAMES) {
+    // Acronyms must be capitalized ("LIFE", not "life"); longer names need not be
+    const flags = name === name.toUpperCase() ? 'g' : 'gi';
+    take(new RegExp(`\\b${escapeRegExp(name)}\\b`, flags), 'program', (m) => m.toLowerCase());
+  }
+  // Single digits are list numbering and counts rather than figures
+  take(NUMBER_PATTERN, 'number', normalizeNumber);
+
+  return facts.filter((fact) => fact.kind !== 'number' || digitCount(fact.value) >= 2);
+}
+
+/**
+ * Whether the sources state a fact. Figures match on their digits, so
+ * "$1,585" in an answer matches "1585.00" in a table; program names match
+ * case-insensitively.
+ */
+export function factInSources(fact: Fact, sources: string[]): boolean {
+  const text = sources.join('\n');
+
+  if (fact.kind === 'program') {
+    return new RegExp(`\\b${escapeRegExp(fact.value)}\\b`, 'i').test(text);
+  }
+  if (fact.kind === 'phone') {
+    return (text.match(PHONE_PATTERN) ?? []).some((phone) => phoneDigits(phone) === fact.value);
+  }
+
+  const numbers = (text.match(/\$?\d[\d,]*(?:\.\d+)?/g) ?? []).map(normalizeNumber);
+  return numbers.includes(fact.value);
+}
+
+/**
+ * Whether a claim says enough besides its facts to need an entailment check
+ */
+export function hasProse(claim: Claim): boolean {
+  const words = claim.text
+    .replace(PHONE_PATTERN, ' ')
+    .replace(NUMBER_PATTERN, ' ')
+    .split(/\s+/)
+    .filter((word) => /[a-z]{3,}/i.test(word));
+  return words.length >= MIN_PROSE_WORDS;
+}
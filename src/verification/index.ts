@@ -0,0 +1,15 @@
+// Citation verification module exports
+
+export { CitationVerifier, createCitationVerifier } from './verifier.js';
+
+export type { VerificationMode, VerificationResult } from './verifier.js';
+
+export {
+  splitClaims,
+  extractFacts,
+  factInSources,
+  hasProse,
+  PROGRAM_NAMES,
+} from './claims.js';
+
+export type { Claim, Fact } from './claims.js';
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CitationVerifier, createCitationVerifier } from './verifier.js';
+import { LMStudioClient } from '../clients/lm-studio.js';
+
+// Mock LMStudioClient
+const createMockLMStudio = (): LMStudioClient => ({
+  checkEntailment: vi.fn().mockResolvedValue(true),
+} as unknown as LMStudioClient);
+
+const SOURCES = [
+  'SLMB pays the Medicare Part B premium. The income limit is $1,585 per month.',
+  'Call the PA Health Law Project at 1-800-274-3258 for help applying.',
+];
+
+describe('CitationVerifier', () => {
+  let mockLMStudio: LMStudioClient;
+
+  beforeEach(() => {
+    mockLMStudio = createMockLMStudio();
+  });
+
+  it('supports claims whose figures and prose match the cited source', async () => {
+    const verifier = new CitationVerifier(mockLMStudio);
+
+    const result = await verifier.verify(
+      'SLMB pays the Part B premium if income is under $1,585 a month [1].',
+      SOURCES
+    );
+
+    expect(result.claims).toHaveLength(1);
+    expect(result.claims[0]).toMatchObject({
+      status: 'supported',
+      citations: [1],
+      facts: [
+        { kind: 'amount', text: '$1,585', supported: true },
+        { kind: 'program', text: 'SLMB', supported: true },
+      ],
+    });
+    expect(mockLMStudio.checkEntailment).toHaveBeenCalledWith(
+      'SLMB pays the Part B premium if income is under $1,585 a month .',
+      [SOURCES[0]]
+    );
+  });
+
+  it('flags figures missing from the cited source without asking the LLM', async () => {
+    const verifier = new CitationVerifier(mockLMStudio);
+
+    // The phone number is in source 2, not the cited source 1
+    const result = await verifier.verify('Call PHLP at 1-800-274-3258 for help [1].', SOURCES);
+
+    expect(result.claims[0].status).toBe('unsupported');
+    expect(result.claims[0].reason).toBe('Not in the cited sources: 1-800-274-3258, PHLP');
+    expect(mockLMStudio.checkEntailment).not.toHaveBeenCalled();
+  });
+
+  it('flags prose the LLM finds unsupported and citations of missing sources', async () => {
+    vi.mocked(mockLMStudio.checkEntailment).mockResolvedValueOnce(false);
+    const verifier = new CitationVerifier(mockLMStudio);
+
+    const result = await verifier.verify(
+      'SLMB also pays for dental care [1]. Nursing homes are covered [5].',
+      SOURCES
+    );
+
+    expect(result.claims.map((c) => [c.status, c.reason])).toEqual([
+      ['unsupported', 'The cited sources do not state this'],
+      ['unsupported', 'Cites a missing source'],
+    ]);
+    expect(result.answer).toContain('dental care');
+  });
+
+  it('marks uncited claims and claims the LLM could not check', async () => {
+    vi.mocked(mockLMStudio.checkEntailment).mockRejectedValueOnce(new Error('timeout'));
+    const verifier = new CitationVerifier(mockLMStudio);
+
+    const result = await verifier.verify(
+      'SLMB pays the Part B premium [1]. The limit is $1,585 per month.',
+      SOURCES
+    );
+
+    expect(result.claims[0].status).toBe('unverified');
+    expect(result.claims[1]).toMatchObject({
+      status: 'uncited',
+      facts: [{ kind: 'amount', text: '$1,585', supported: true }],
+    });
+  });
+
+  it('removes unsupported claims in remove mode', async () => {
+    const verifier = new CitationVerifier(mockLMStudio, 'remove');
+
+    const result = await verifier.verify(
+      'You may qualify for SLMB [1].\n\n' +
+        '- Income under $1,585 a month [1]\n' +
+        '- Assets under $9,999 [1]',
+      SOURCES
+    );
+
+    expect(result.answer).toBe(
+      'You may qualify for SLMB [1].\n\n- Income under $1,585 a month [1]'
+    );
+    expect(result.claims.map((c) => c.removed ?? false)).toEqual([false, false, true]);
+  });
+});
+
+describe('createCitationVerifier', () => {
+  it('returns null when verification is off', () => {
+    const lmStudio = createMockLMStudio();
+
+    expect(createCitationVerifier(lmStudio, { citationVerification: 'off' })).toBeNull();
+    expect(createCitationVerifier(lmStudio, { citationVerification: 'remove' })).toBeInstanceOf(
+      CitationVerifier
+    );
+  });
+});
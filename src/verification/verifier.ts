@@ -0,0 +1,173 @@
+import { ClaimSupport, Config } from '../types/index.js';
+import { LMStudioClient } from '../clients/lm-studio.js';
+import { createChildLogger } from '../utils/logger.js';
+import { Claim, extractFacts, factInSources, hasProse, splitClaims } from './claims.js';
+
+const logger = createChildLogger('citation-verifier');
+
+/**
+ * What happens to unsupported claims (CITATION_VERIFICATION):
+ * - `flag`: they stay in the answer and are marked in `claims`
+ * - `remove`: they are also taken out of the answer
+ */
+export type VerificationMode = Exclude<Config['rag']['citationVerification'], 'off'>;
+
+// Claims checked by the LLM at once
+const ENTAILMENT_CONCURRENCY = 4;
+
+export interface VerificationResult {
+  /** The answer, without unsupported claims in `remove` mode */
+  answer: string;
+  claims: ClaimSupport[];
+}
+
+// Bullet or numbered list items left empty by a removal
+const EMPTY_LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s*$/;
+
+/**
+ * Checks each sentence of an answer against the sources it cites. Figures,
+ * phone numbers and program names must appear in a cited source exactly; the
+ * rest of the sentence is checked by asking the LLM whether the cited sources
+ * entail it.
+ */
+export class CitationVerifier {
+  private lmStudio: LMStudioClient;
+  private mode: VerificationMode;
+  private concurrency: number;
+
+  constructor(
+    lmStudio: LMStudioClient,
+    mode: VerificationMode = 'flag',
+    concurrency: number = ENTAILMENT_CONCURRENCY
+  ) {
+    this.lmStudio = lmStudio;
+    this.mode = mode;
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  /**
+   * Verify an answer against the sources it was generated from. `sources[i]`
+   * is the text of source [i + 1].
+   */
+  async verify(answer: string, sources: string[]): Promise<VerificationResult> {
+    const claims = splitClaims(answer);
+    const results = new Array<ClaimSupport>(claims.length);
+    let next = 0;
+
+    const work = async () => {
+      while (next < claims.length) {
+        const index = next++;
+        results[index] = await this.verifyClaim(claims[index], sources);
+      }
+    };
+
+    const workers = Math.min(this.concurrency, claims.length);
+    await Promise.all(Array.from({ length: workers }, work));
+
+    const unsupported = results.filter((r) => r.status === 'unsupported').length;
+    logger.debug(
+      { claims: claims.length, unsupported, mode: this.mode },
+      'Answer claims verified'
+    );
+
+    if (this.mode === 'remove' && unsupported > 0) {
+      return { answer: this.removeUnsupported(answer, claims, results), claims: results };
+    }
+    return { answer, claims: results };
+  }
+
+  private async verifyClaim(claim: Claim, sources: string[]): Promise<ClaimSupport> {
+    const facts = extractFacts(claim.text);
+    const base = { text: claim.text, citations: claim.citations };
+
+    if (claim.citations.length === 0) {
+      return {
+        ...base,
+        status: 'uncited',
+        facts: facts.map((fact) => ({
+          kind: fact.kind,
+          text: fact.text,
+          supported: factInSources(fact, sources),
+        })),
+      };
+    }
+
+    const cited = claim.citations
+      .filter((n) => n >= 1 && n <= sources.length)
+      .map((n) => sources[n - 1]);
+    const checked = facts.map((fact) => ({
+      kind: fact.kind,
+      text: fact.text,
+      supported: factInSources(fact, cited),
+    }));
+
+    if (cited.length < claim.citations.length) {
+      return { ...base, status: 'unsupported', facts: checked, reason: 'Cites a missing source' };
+    }
+
+    const missing = checked.filter((fact) => !fact.supported);
+    if (missing.length > 0) {
+      return {
+        ...base,
+        status: 'unsupported',
+        facts: checked,
+        reason: `Not in the cited sources: ${missing.map((fact) => fact.text).join(', ')}`,
+      };
+    }
+
+    if (!hasProse(claim)) {
+      return { ...base, status: 'supported', facts: checked };
+    }
+
+    try {
+      const entailed = await this.lmStudio.checkEntailment(claim.text, cited);
+      return entailed
+        ? { ...base, status: 'supported', facts: checked }
+        : {
+            ...base,
+            status: 'unsupported',
+            facts: checked,
+            reason: 'The cited sources do not state this',
+          };
+    } catch (error) {
+      logger.warn({ error, claim: claim.text }, 'Could not check claim entailment');
+      return {
+        ...base,
+        status: 'unverified',
+        facts: checked,
+        reason: 'The entailment check failed',
+      };
+    }
+  }
+
+  private removeUnsupported(answer: string, claims: Claim[], results: ClaimSupport[]): string {
+    let remaining = answer;
+    claims.forEach((claim, i) => {
+      if (results[i].status === 'unsupported') {
+        remaining = remaining.replace(claim.source, '');
+        results[i].removed = true;
+      }
+    });
+
+    return remaining
+      .split('\n')
+      .map((line) => line.replace(/ {2,}/g, ' ').replace(/\s+$/, ''))
+      .filter((line) => !EMPTY_LIST_ITEM.test(line))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+}
+
+/**
+ * Create a citation verifier, or null when CITATION_VERIFICATION is off
+ */
+export function createCitationVerifier(
+  lmStudio: LMStudioClient,
+  config: Pick<Config['rag'], 'citationVerification'>
+): CitationVerifier | null {
+  if (config.citationVerification === 'off') {
+    return null;
+  }
+  return new CitationVerifier(lmStudio, config.citationVerification);
+}
@@ -0,0 +1,146 @@
+/**
+ * Offline Golden-Answer Evaluation
+ *
+ * Runs the golden queries through the real RetrievalPipeline with the mock
+ * LM Studio, Qdrant and Postgres clients over a small fixture corpus, so the
+ * harness can be exercised without any services running:
+ * - BM25 and vector search run over tests/fixtures/eval/offline-corpus.json
+ * - Answers are extractive: the top contexts, each cited
+ *
+ * The report is written to eval-reports/offline.{json,md}. Set EVAL_BASELINE
+ * to a previous JSON report to include a comparison. Each fusion strategy is
+ * also run, and ranked in eval-reports/offline-fusion.md.
+ */
+import { describe, it, expect } from 'vitest';
+import { readFile, writeFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { getConfig } from '../../src/config/index.js';
+import { createRetrievalPipeline, RetrievalPipelineDeps } from '../../src/retrieval/pipeline.js';
+import {
+  createEvalRunner,
+  loadGoldenCases,
+  settingsFromConfig,
+  loadReport,
+  writeReport,
+  compareReports,
+  formatRunComparison,
+  LabelledReport,
+} from '../../src/eval/index.js';
+import {
+  FUSION_STRATEGIES,
+  formatFusion,
+  resolveFusionSettings,
+} from '../../src/retrieval/fusion.js';
+import type { Chunk } from '../../src/types/index.js';
+import { createMockLMStudioClient } from '../helpers/mock-lm-studio.js';
+import { createMockQdrantStore, QdrantPoint } from '../helpers/mock-qdrant.js';
+import { createMockPostgresStore } from '../helpers/mock-postgres.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const projectRoot = join(__dirname, '../..');
+
+interface OfflineCorpus {
+  documents: Array<{ id: string; filename: string; title: string; chunks: string[] }>;
+}
+
+async function createOfflinePipeline() {
+  const raw = await readFile(join(projectRoot, 'tests/fixtures/eval/offline-corpus.json'), 'utf-8');
+  const corpus = JSON.parse(raw) as OfflineCorpus;
+
+  const lmStudio = createMockLMStudioClient();
+  lmStudio.generateAnswer.mockImplementation(
+    async (_query: string, contexts: Array<{ index: number; content: string }>) => {
+      const used = contexts.slice(0, 3);
+      return {
+        answer: used.map((c) => `${c.content} [${c.index}]`).join(' '),
+        citedIndices: used.map((c) => c.index),
+      };
+    }
+  );
+
+  const chunks: Chunk[] = [];
+  const points: QdrantPoint[] = [];
+  for (const doc of corpus.documents) {
+    for (const [chunkIndex, content] of doc.chunks.entries()) {
+      const id = `${doc.id}-${chunkIndex}`;
+      const metadata = { filename: doc.filename, title: doc.title };
+      const { embedding } = await lmStudio.embed(content);
+      chunks.push({
+        id,
+        documentId: doc.id,
+        chunkIndex,
+        content,
+        pageNumber: 1,
+        startChar: 0,
+        endChar: content.length,
+        metadata,
+        createdAt: new Date('2025-01-15'),
+      });
+      points.push({
+        id,
+        vector: embedding,
+        payload: { chunkId: id, documentId: doc.id, content, pageNumber: 1, chunkIndex, metadata },
+      });
+    }
+  }
+
+  const deps = {
+    lmStudio,
+    qdrant: createMockQdrantStore({ points }),
+    postgres: createMockPostgresStore({ chunks }),
+  };
+
+  const config = getConfig();
+  const pipeline = createRetrievalPipeline(
+    config,
+    deps as unknown as RetrievalPipelineDeps
+  );
+  return { pipeline, config };
+}
+
+describe('Golden-answer evaluation (offline)', () => {
+  it('scores every golden query and writes a report', async () => {
+    const { pipeline, config } = await createOfflinePipeline();
+    const cases = await loadGoldenCases();
+
+    const report = await createEvalRunner(pipeline, {
+      settings: { ...settingsFromConfig(config), llmModel: 'mock', embeddingModel: 'mock' },
+    }).run(cases);
+
+    const baselinePath = process.env.EVAL_BASELINE;
+    const comparison = baselinePath
+      ? compareReports(await loadReport(baselinePath), report)
+      : undefined;
+    const { markdownPath } = await writeReport(
+      report,
+      join(projectRoot, 'eval-reports/offline'),
+      comparison
+    );
+    console.log(`Offline evaluation report: ${markdownPath}`);
+
+    expect(report.summary.total).toBe(cases.length);
+    expect(report.summary.errors).toBe(0);
+    expect(report.summary.meanRecallAtK).not.toBeNull();
+  });
+
+  it('ranks the fusion strategies', async () => {
+    const { pipeline, config } = await createOfflinePipeline();
+    const cases = await loadGoldenCases();
+
+    const runs: LabelledReport[] = [];
+    for (const strategy of FUSION_STRATEGIES) {
+      const report = await createEvalRunner(pipeline, {
+        settings: { ...settingsFromConfig(config, { strategy }), llmModel: 'mock' },
+        fusion: { strategy },
+      }).run(cases);
+      runs.push({ label: formatFusion(resolveFusionSettings(config.rag, { strategy })), report });
+    }
+
+    const markdownPath = join(projectRoot, 'eval-reports/offline-fusion.md');
+    await writeFile(markdownPath, formatRunComparison('Fusion strategy comparison', runs));
+    console.log(`Offline fusion comparison: ${markdownPath}`);
+
+    expect(runs.every(({ report }) => report.summary.errors === 0)).toBe(true);
+  });
+});
@@ -71,6 +71,24 @@ export function createMockLMStudioClient(options: MockLMStudioOptions = {}) {
       }));
     }),
 
+    gradeRelevance: vi.fn().mockImplementation(async (
+      query: string,
+      content: string
+    ): Promise<number> => {
+      // Passages sharing a word with the query are relevant
+      const words = query.toLowerCase().split(/\W+/).filter(word => word.length > 2);
+      return words.some(word => content.toLowerCase().includes(word)) ? 1 : 0;
+    }),
+
+    checkEntailment: vi.fn().mockImplementation(async (
+      claim: string,
+      passages: string[]
+    ): Promise<boolean> => {
+      // A claim is entailed when a passage contains it word for word
+      const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+      return passages.some(passage => normalize(passage).includes(normalize(claim).replace(/\.$/, '')));
+    }),
+
     ocrToMarkdown: vi.fn().mockImplementation(async (): Promise<string> => {
       return '# Mock Document\n\nThis is mock OCR content.';
     }),
@@ -6,6 +6,13 @@ import type {
   ChunkInput,
   SearchResult,
   QueryLog,
+  ConversationTurn,
+  ConversationTurnInput,
+  ProgramLimit,
+  GuardrailRule,
+  EmbeddingCollection,
+  GuardrailRuleInput,
+  GuardrailRuleUpdate,
 } from '../../src/types/index.js';
 
 /**
@@ -15,8 +22,11 @@ export interface MockPostgresOptions {
   documents?: Document[];
   chunks?: Chunk[];
   searchResults?: SearchResult[];
+  /** Keyed by `${model}:${contentHash}` */
   cachedEmbeddings?: Map<string, number[]>;
   cachedQueries?: Map<string, Record<string, unknown>>;
+  programLimits?: ProgramLimit[];
+  guardrailRules?: GuardrailRule[];
   queryMetrics?: {
     totalQueries: number;
     avgLatencyMs: number;
@@ -31,6 +41,8 @@ export function createMockPostgresStore(options: MockPostgresOptions = {}) {
     searchResults = [],
     cachedEmbeddings = new Map(),
     cachedQueries = new Map(),
+    programLimits = [],
+    guardrailRules = [],
     queryMetrics = { totalQueries: 0, avgLatencyMs: 0, noAnswerRate: 0 },
   } = options;
 
@@ -39,7 +51,11 @@ export function createMockPostgresStore(options: MockPostgresOptions = {}) {
   const storedChunks: Chunk[] = [...chunks];
   const embeddingCache = new Map(cachedEmbeddings);
   const queryCache = new Map(cachedQueries);
+  const queryCacheDocuments = new Map<string, string[]>();
   const queryLogs: Omit<QueryLog, 'id' | 'createdAt'>[] = [];
+  const conversationTurns: ConversationTurn[] = [];
+  const storedGuardrailRules: GuardrailRule[] = [...guardrailRules];
+  const embeddingCollections = new Map<string, EmbeddingCollection>();
 
   return {
     // Document Operations
@@ -53,7 +69,11 @@ export function createMockPostgresStore(options: MockPostgresOptions = {}) {
         totalPages: doc.totalPages,
         ingestedAt: new Date(),
         metadata: doc.metadata || {},
+        sourceUrl: doc.sourceUrl,
+        lineageId: doc.lineageId,
+        version: doc.version ?? 1,
       };
+      newDoc.lineageId ??= newDoc.id;
       storedDocuments.push(newDoc);
       return newDoc;
     }),
@@ -66,6 +86,33 @@ export function createMockPostgresStore(options: MockPostgresOptions = {}) {
       return storedDocuments.find(d => d.id === id) || null;
     }),
 
+    getCurrentVersion: vi.fn().mockImplementation(
+      async (filename: string, sourceUrl?: string): Promise<Document | null> => {
+        return storedDocuments.find(d =>
+          !d.supersededAt && (sourceUrl ? d.sourceUrl === sourceUrl : d.filename === filename)
+        ) || null;
+      }
+    ),
+
+    supersedeDocument: vi.fn().mockImplementation(
+      async (id: string, supersededBy: string, expirationDate: Date = new Date()): Promise<void> => {
+        const doc = storedDocuments.find(d => d.id === id);
+        if (doc) {
+          Object.assign(doc, { supersededBy, supersededAt: new Date(), expirationDate });
+        }
+      }
+    ),
+
+    getDocumentVersions: vi.fn().mockImplementation(
+      async (id: string): Promise<Array<Document & { chunkCount: number }>> => {
+        const lineageId = storedDocuments.find(d => d.id === id)?.lineageId;
+        return storedDocuments
+          .filter(d => lineageId && d.lineageId === lineageId)
+          .sort((a, b) => (b.version ?? 1) - (a.version ?? 1))
+          .map(d => ({ ...d, chunkCount: storedChunks.filter(c => c.documentId === d.id).length }));
+      }
+    ),
+
     listDocuments: vi.fn().mockImplementation(async (): Promise<Document[]> => {
       return [...storedDocuments];
     }),
@@ -148,17 +195,52 @@ export function createMockPostgresStore(options: MockPostgresOptions = {}) {
         .slice(0, topK);
     }),
 
+    searchBM25Expanded: vi.fn().mockImplementation(async (groups: string[], topK: number): Promise<SearchResult[]> => {
+      if (searchResults.length > 0) {
+        return searchResults.slice(0, topK);
+      }
+
+      // Each group scores as its best alternative; a chunk scores the mean over groups
+      const alternatives = groups.map(group =>
+        group.split(/\s+OR\s+/).map(alt => alt.replace(/"/g, '').toLowerCase().split(/\s+/))
+      );
+      const scored = storedChunks.map(chunk => {
+        const content = chunk.content.toLowerCase();
+        const groupScores = alternatives.map(alts => Math.max(
+          ...alts.map(words => words.filter(word => content.includes(word)).length / words.length)
+        ));
+        return {
+          chunkId: chunk.id,
+          documentId: chunk.documentId,
+          content: chunk.content,
+          pageNumber: chunk.pageNumber,
+          chunkIndex: chunk.chunkIndex,
+          metadata: chunk.metadata,
+          score: groupScores.reduce((sum, s) => sum + s, 0) / groupScores.length,
+          source: 'bm25' as const,
+        };
+      });
+
+      return scored
+        .filter(r => r.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    }),
+
     // Embedding Cache
-    getCachedEmbedding: vi.fn().mockImplementation(async (contentHash: string): Promise<number[] | null> => {
-      return embeddingCache.get(contentHash) || null;
+    getCachedEmbedding: vi.fn().mockImplementation(async (
+      contentHash: string,
+      model: string
+    ): Promise<number[] | null> => {
+      return embeddingCache.get(`${model}:${contentHash}`) || null;
     }),
 
     cacheEmbedding: vi.fn().mockImplementation(async (
       contentHash: string,
       embedding: number[],
-      _model: string
+      model: string
     ): Promise<void> => {
-      embeddingCache.set(contentHash, embedding);
+      embeddingCache.set(`${model}:${contentHash}`, embedding);
     }),
 
     // Query Cache
@@ -173,11 +255,109 @@ export function createMockPostgresStore(options: MockPostgresOptions = {}) {
       queryHash: string,
       _queryText: string,
       response: Record<string, unknown>,
-      _ttlSeconds: number
+      _ttlSeconds: number,
+      documentIds: string[] = []
     ): Promise<void> => {
       queryCache.set(queryHash, response);
+      queryCacheDocuments.set(queryHash, documentIds);
+    }),
+
+    deleteCachedQuery: vi.fn().mockImplementation(async (queryHash: string): Promise<void> => {
+      queryCache.delete(queryHash);
+      queryCacheDocuments.delete(queryHash);
+    }),
+
+    invalidateCachedQueries: vi.fn().mockImplementation(async (
+      documentIds: string[]
+    ): Promise<number> => {
+      let removed = 0;
+      for (const [queryHash, cited] of queryCacheDocuments) {
+        if (cited.some(id => documentIds.includes(id))) {
+          queryCache.delete(queryHash);
+          queryCacheDocuments.delete(queryHash);
+          removed++;
+        }
+      }
+      return removed;
+    }),
+
+    clearQueryCache: vi.fn().mockImplementation(async (): Promise<number> => {
+      const removed = queryCache.size;
+      queryCache.clear();
+      queryCacheDocuments.clear();
+      return removed;
     }),
 
+    // Conversations
+    getConversationTurns: vi.fn().mockImplementation(async (
+      conversationId: string,
+      limit: number
+    ): Promise<ConversationTurn[]> => {
+      return conversationTurns
+        .filter(t => t.conversationId === conversationId)
+        .slice(-limit);
+    }),
+
+    addConversationTurn: vi.fn().mockImplementation(async (turn: ConversationTurnInput): Promise<void> => {
+      const turnIndex = conversationTurns.filter(t => t.conversationId === turn.conversationId).length;
+      conversationTurns.push({
+        ...turn,
+        id: `turn-${conversationTurns.length + 1}`,
+        turnIndex,
+        createdAt: new Date(),
+      });
+    }),
+
+    // Eligibility Limits
+    getProgramLimits: vi.fn().mockImplementation(async (): Promise<ProgramLimit[]> => {
+      return [...programLimits];
+    }),
+
+    // Guardrail Rules
+    getGuardrailRules: vi.fn().mockImplementation(async (): Promise<GuardrailRule[]> => {
+      return [...storedGuardrailRules];
+    }),
+
+    insertGuardrailRule: vi.fn().mockImplementation(
+      async (rule: GuardrailRuleInput): Promise<GuardrailRule | null> => {
+        if (storedGuardrailRules.some((r) => r.category === rule.category)) {
+          return null;
+        }
+        const stored = { ...rule, updatedAt: new Date() };
+        storedGuardrailRules.push(stored);
+        return stored;
+      }
+    ),
+
+    updateGuardrailRule: vi.fn().mockImplementation(
+      async (category: string, changes: GuardrailRuleUpdate): Promise<GuardrailRule | null> => {
+        const index = storedGuardrailRules.findIndex((r) => r.category === category);
+        if (index === -1) {
+          return null;
+        }
+        const { referral, ...rest } = changes;
+        const updated: GuardrailRule = {
+          ...storedGuardrailRules[index],
+          ...rest,
+          ...(referral !== undefined && { referral: referral ?? undefined }),
+          updatedAt: new Date(),
+        };
+        storedGuardrailRules[index] = updated;
+        return updated;
+      }
+    ),
+
+    // Embedding Collections
+    registerEmbeddingCollection: vi.fn().mockImplementation(
+      async (entry: Omit<EmbeddingCollection, 'createdAt'>): Promise<EmbeddingCollection> => {
+        // The first registration of a collection is kept, as in the real store
+        if (!embeddingCollections.has(entry.collection)) {
+          embeddingCollections.set(entry.collection, { ...entry, createdAt: new Date() });
+        }
+        return embeddingCollections.get(entry.collection)!;
+      }
+    ),
+
     // Query Logging
     logQuery: vi.fn().mockImplementation(async (log: Omit<QueryLog, 'id' | 'createdAt'>): Promise<void> => {
       queryLogs.push(log);
@@ -207,7 +387,7 @@ export function createMockPostgresStore(options: MockPostgresOptions = {}) {
     }),
 
     getDocumentsMetadata: vi.fn().mockImplementation(async () => {
-      return storedDocuments.map(doc => ({
+      return storedDocuments.filter(doc => !doc.supersededAt).map(doc => ({
         id: doc.id,
         documentType: (doc.metadata as Record<string, unknown>)?.documentType as string | undefined,
         effectiveDate: (doc.metadata as Record<string, unknown>)?.effectiveDate as Date | undefined,
@@ -224,6 +404,8 @@ export function createMockPostgresStore(options: MockPostgresOptions = {}) {
     _getQueryLogs: () => queryLogs,
     _getEmbeddingCache: () => embeddingCache,
     _getQueryCache: () => queryCache,
+    _getConversationTurns: () => conversationTurns,
+    _getGuardrailRules: () => storedGuardrailRules,
   };
 }
 
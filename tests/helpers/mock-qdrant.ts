@@ -58,6 +58,9 @@ export function createMockQdrantStore(options: MockQdrantOptions = {}) {
   }
 
   return {
+    collection: 'medicaid_documents',
+    dimension: embeddingDimension,
+
     initialize: vi.fn().mockImplementation(async (): Promise<void> => {
       initialized = true;
     }),
@@ -138,6 +141,12 @@ export function createMockQdrantStore(options: MockQdrantOptions = {}) {
       };
     }),
 
+    getVectorParams: vi.fn().mockImplementation(async () => {
+      return initialized
+        ? { collection: 'medicaid_documents', dimension: embeddingDimension, distance: 'Cosine' }
+        : null;
+    }),
+
     healthCheck: vi.fn().mockResolvedValue(true),
 
     // Test helpers
@@ -192,6 +192,7 @@ export function createTestConfig() {
       embeddingModel: 'text-embedding-nomic-embed-text-v1.5',
       llmModel: 'qwen2.5-7b-instruct',
       ocrModel: 'allenai/olmocr-2-7b',
+      ocrConcurrency: 2,
     },
     qdrant: {
       url: 'http://localhost:6333',
@@ -212,6 +213,17 @@ export function createTestConfig() {
       bm25TopK: 20,
       rerankTopN: 10,
       finalTopC: 5,
+      llmFollowUps: false,
+      fusion: 'rrf',
+      rrfK: 60,
+      fusionWeights: { vector: 1, bm25: 1 },
+      reranker: 'listwise',
+      rerankerUrl: 'http://localhost:1234/v1',
+      rerankerModel: 'bge-reranker-v2-m3',
+      rerankerScores: 'logits',
+      abstainThreshold: 35,
+      citationVerification: 'flag',
+      queryExpansion: 'bm25',
     },
     cache: {
       enabled: true,
@@ -19,6 +19,7 @@ export interface SeniorIntent {
 export interface GoldenAnswer {
   queryId: string;
   query: string;
+  expectedDocuments?: string[];
   expectedAnswer: {
     mustContain: string[];
     shouldContain: string[];
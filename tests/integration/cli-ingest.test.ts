@@ -97,7 +97,7 @@ describe('CLI Ingest Integration Tests', () => {
       const result = await runCli(['--help'], 10000);
 
       expect(result.stdout).toContain('ingest');
-      expect(result.stdout).toContain('Ingest PDF documents');
+      expect(result.stdout).toContain('Ingest documents');
       expect(result.stdout).toContain('file');
       expect(result.stdout).toContain('directory');
       expect(result.stdout).toContain('stats');
@@ -260,15 +260,18 @@ describe('Ingestion Pipeline Tests', () => {
         const contentHash = 'hash-of-content';
 
         // First call - cache miss, generate embedding
-        let cached = await mockPostgres.getCachedEmbedding(contentHash);
+        let cached = await mockPostgres.getCachedEmbedding(contentHash, 'model');
         expect(cached).toBeNull();
 
         const { embedding } = await mockLMStudio.embed(content);
         await mockPostgres.cacheEmbedding(contentHash, embedding, 'model');
 
         // Second call - cache hit
-        cached = await mockPostgres.getCachedEmbedding(contentHash);
+        cached = await mockPostgres.getCachedEmbedding(contentHash, 'model');
         expect(cached).toEqual(embedding);
+
+        // Another model's embedding is not reused
+        expect(await mockPostgres.getCachedEmbedding(contentHash, 'other-model')).toBeNull();
       });
     });
 
@@ -0,0 +1,109 @@
+/**
+ * Retrieval pipeline behaviour that needs no services: the pipeline runs
+ * against the mock LM Studio, Qdrant and Postgres clients.
+ */
+import { describe, it, expect } from 'vitest';
+import { createRetrievalPipeline, RetrievalPipelineDeps } from '../../src/retrieval/pipeline.js';
+import { DEFAULT_PROGRAM_LIMITS } from '../../src/eligibility/index.js';
+import type { Config, ScreeningRequest } from '../../src/types/index.js';
+import { createTestConfig } from '../helpers/test-db.js';
+import { createMockLMStudioClient } from '../helpers/mock-lm-studio.js';
+import { createMockQdrantStore, createPopulatedMockQdrantStore } from '../helpers/mock-qdrant.js';
+import { createMockPostgresStore } from '../helpers/mock-postgres.js';
+
+function createPipeline(
+  postgres: ReturnType<typeof createMockPostgresStore>,
+  overrides: {
+    lmStudio?: ReturnType<typeof createMockLMStudioClient>;
+    qdrant?: ReturnType<typeof createMockQdrantStore>;
+    config?: Config;
+  } = {}
+) {
+  const deps = {
+    lmStudio: overrides.lmStudio ?? createMockLMStudioClient(),
+    qdrant: overrides.qdrant ?? createMockQdrantStore(),
+    postgres,
+  };
+  return createRetrievalPipeline(
+    overrides.config ?? (createTestConfig() as Config),
+    deps as unknown as RetrievalPipelineDeps
+  );
+}
+
+const SCREENING: ScreeningRequest = {
+  householdSize: 1,
+  monthlyIncome: 1400,
+  countableAssets: 5000,
+  maritalStatus: 'single',
+  age: 72,
+};
+
+describe('RetrievalPipeline', () => {
+  describe('screenEligibility', () => {
+    it('reads the program limits again after falling back to the bundled ones', async () => {
+      const postgres = createMockPostgresStore({ programLimits: DEFAULT_PROGRAM_LIMITS });
+      postgres.getProgramLimits
+        .mockResolvedValueOnce([])
+        .mockRejectedValueOnce(new Error('Connection refused'));
+      const pipeline = createPipeline(postgres);
+
+      for (let i = 0; i < 4; i++) {
+        const result = await pipeline.screenEligibility(SCREENING);
+        expect(result.programs.length).toBeGreaterThan(0);
+      }
+
+      // Empty, failed, then a real read that is kept
+      expect(postgres.getProgramLimits).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('query caching', () => {
+    const QUESTION = 'What do Medicare Savings Programs pay for?';
+    // The mock embeddings barely match, so answers are kept whatever their confidence
+    const config = createTestConfig() as Config;
+    const lenient: Config = { ...config, rag: { ...config.rag, abstainThreshold: 0 } };
+
+    it('caches answers with the documents they cite', async () => {
+      const postgres = createMockPostgresStore();
+      const pipeline = createPipeline(postgres, {
+        qdrant: createPopulatedMockQdrantStore(),
+        config: lenient,
+      });
+
+      const response = await pipeline.query(QUESTION);
+
+      expect(response.citations.length).toBeGreaterThan(0);
+      expect(postgres.cacheQuery).toHaveBeenCalledWith(
+        expect.any(String),
+        QUESTION,
+        expect.anything(),
+        expect.any(Number),
+        [...new Set(response.citations.map((c) => c.documentId))]
+      );
+    });
+
+    it('does not cache answers when nothing was retrieved', async () => {
+      const postgres = createMockPostgresStore();
+      const pipeline = createPipeline(postgres);
+
+      const response = await pipeline.query(QUESTION);
+
+      expect(response.citations).toEqual([]);
+      expect(postgres.cacheQuery).not.toHaveBeenCalled();
+    });
+
+    it('does not cache answers that cite no sources', async () => {
+      const postgres = createMockPostgresStore();
+      const pipeline = createPipeline(postgres, {
+        lmStudio: createMockLMStudioClient({ citedIndices: [] }),
+        qdrant: createPopulatedMockQdrantStore(),
+        config: lenient,
+      });
+
+      const response = await pipeline.query(QUESTION);
+
+      expect(response.citations).toEqual([]);
+      expect(postgres.cacheQuery).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: 'node',
+    include: ['tests/eval/**/*.eval.ts'],
+    testTimeout: 60000,
+    hookTimeout: 60000,
+  },
+  resolve: {
+    alias: {
+      '@': '/src',
+    },
+  },
+});